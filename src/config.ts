@@ -13,6 +13,9 @@ export const config = {
   REFRESH_TOKEN_SECRET: process.env.REFRESH_TOKEN_SECRET,
   SESSION_SECRET: process.env.SESSION_SECRET,
   FRONTEND_URL: process.env.FRONTEND_URL || '',
+  // Public URL of this API (e.g. https://api.example.com) as seen by webhook senders behind the
+  // TLS-terminating proxy; HubSpot v3 signatures cover the full request URL
+  PUBLIC_API_URL: process.env.PUBLIC_API_URL || '',
   NAME: process.env.NAME,
   GHL_BASE_URL: "https://services.leadconnectorhq.com",
   GHL_API_TOKEN: process.env.GHL_API_TOKEN, // GHL Private Integration Token
@@ -30,6 +33,11 @@ export const config = {
   FB_API_VERSION: process.env.FB_API_VERSION || 'v24.0',
   META_USER_TOKEN_ID: '683acb7561f26ee98f5d2d51',
   AUTO_FETCH_CREATIVES: process.env.AUTO_FETCH_CREATIVES !== 'false', // Default true
+  META_SPEND_ROLLUP_CRON: process.env.META_SPEND_ROLLUP_CRON || "0 5 * * *", // daily 05:00 UTC
+  // Manual Meta spend differing from the rollup by more than this percentage is flagged
+  META_SPEND_TOLERANCE_PERCENT: process.env.META_SPEND_TOLERANCE_PERCENT ? Number(process.env.META_SPEND_TOLERANCE_PERCENT) : 5,
+  // Weekly analytics saves spanning more weeks than this run as async Meta insights report jobs
+  META_ASYNC_INSIGHTS_MIN_WEEKS: process.env.META_ASYNC_INSIGHTS_MIN_WEEKS ? Number(process.env.META_ASYNC_INSIGHTS_MIN_WEEKS) : 8,
   // Meta OAuth Configuration
   META_CLIENT_ID: process.env.META_CLIENT_ID || '',
   META_CLIENT_SECRET: process.env.META_CLIENT_SECRET || '',
@@ -38,4 +46,7 @@ export const config = {
   // META_REDIRECT_URI: process.env.META_REDIRECT_URI || '',
   META_REDIRECT_URI: process.env.META_REDIRECT_URI || '',
   META_API_VERSION: process.env.META_API_VERSION || '',
+  META_TOKEN_HEALTH_CRON: process.env.META_TOKEN_HEALTH_CRON || "0 6 * * *", // daily 06:00 UTC
+  // Tokens expiring within this many days are flagged by the token health check
+  META_TOKEN_EXPIRY_WARNING_DAYS: process.env.META_TOKEN_EXPIRY_WARNING_DAYS ? Number(process.env.META_TOKEN_EXPIRY_WARNING_DAYS) : 7,
 };
@@ -1,20 +1,29 @@
 import { Request, Response } from 'express';
 import { ActualService } from '../services/actual/service/service.js';
+import { ActualReconciliationService } from '../services/actual/service/reconciliation.service.js';
+import metaSpendRollupService from '../services/actual/service/metaSpendRollup.service.js';
+import { summarizeChannels } from '../services/actual/utils/channelSpend.js';
+import utils from '../utils/utils.js';
 
 export class ActualController {
   private actualService: ActualService;
+  private reconciliationService: ActualReconciliationService;
 
   constructor() {
     this.actualService = new ActualService();
+    this.reconciliationService = new ActualReconciliationService();
     this.upsertActual = this.upsertActual.bind(this);
     this.getActuals = this.getActuals.bind(this);
     this.getActualAndTargetReport = this.getActualAndTargetReport.bind(this);
     this.updateWeeklyReporting = this.updateWeeklyReporting.bind(this);
+    this.getReconciliation = this.getReconciliation.bind(this);
+    this.reconcileWeek = this.reconcileWeek.bind(this);
+    this.getMetaSpendMismatches = this.getMetaSpendMismatches.bind(this);
   }
   /**
    * Get both actual and target data for a given period and user.
    * Expects: userId, startDate, endDate, queryType (weekly/monthly/yearly) as query params.
-   * Returns: { actual: [...], target: [...] }
+   * Returns: { actual: [...], target: [...], channels: [...] }
    */
   async getActualAndTargetReport(req: Request, res: Response): Promise<void> {
     try {
@@ -102,11 +111,18 @@ export class ActualController {
           targetResults = [];
       }
 
+      // Spend, leads and cost per lead per channel over the whole period, against the channel targets
+      const channels = summarizeChannels(
+        actualResults,
+        targetResults.flatMap((target) => target?.channelTargets ?? [])
+      );
+
       res.status(200).json({
         success: true,
         data: {
           actual: actualResults,
-          target: targetResults
+          target: targetResults,
+          channels
         }
       });
     } catch (error: any) {
@@ -274,4 +290,87 @@ export class ActualController {
       res.status(500).json({ success: false, message: error.message });
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Weekly actuals next to the values proposed from the CRM sync and lead data, with per-field diffs
+   * GET /api/v1/actual/reconciliation?startDate&endDate&userId?
+   */
+  async getReconciliation(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = this.resolveUserId(req, req.query.userId);
+      const { startDate, endDate } = req.query;
+
+      if (!userId || typeof startDate !== "string" || typeof endDate !== "string") {
+        res.status(400).json({ success: false, message: "startDate and endDate are required query parameters" });
+        return;
+      }
+
+      const weeks = await this.reconciliationService.getReconciliation(userId, startDate, endDate);
+      res.status(200).json({ success: true, data: weeks });
+    } catch (error: any) {
+      console.error("Error in getReconciliation:", error);
+      utils.sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Accept or override proposed values of one week, per field
+   * POST /api/v1/actual/reconciliation
+   * Body: { userId?, startDate, decisions: [{ field, action: 'accept' | 'override', source?, value? }] }
+   */
+  async reconcileWeek(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = this.resolveUserId(req, req.body.userId);
+      const { startDate, decisions } = req.body;
+
+      if (!userId || !startDate) {
+        res.status(400).json({ success: false, message: "startDate is required" });
+        return;
+      }
+
+      const week = await this.reconciliationService.reconcileWeek(userId, startDate, decisions);
+      res.status(200).json({ success: true, data: week });
+    } catch (error: any) {
+      console.error("Error in reconcileWeek:", error);
+      utils.sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Weeks whose manually entered Meta spend differs from the Meta rollup beyond the tolerance
+   * GET /api/v1/actual/meta-spend/mismatches?startDate&endDate&userId?&tolerancePercent?
+   */
+  async getMetaSpendMismatches(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = this.resolveUserId(req, req.query.userId);
+      const { startDate, endDate, tolerancePercent } = req.query;
+
+      if (!userId || typeof startDate !== "string" || typeof endDate !== "string") {
+        res.status(400).json({ success: false, message: "startDate and endDate are required query parameters" });
+        return;
+      }
+
+      const mismatches = await metaSpendRollupService.getMismatches(
+        userId,
+        startDate,
+        endDate,
+        tolerancePercent !== undefined ? Number(tolerancePercent) : undefined
+      );
+      res.status(200).json({ success: true, data: mismatches });
+    } catch (error: any) {
+      console.error("Error in getMetaSpendMismatches:", error);
+      utils.sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Admins may act for another user, everyone else for themselves
+   */
+  private resolveUserId(req: Request, requestedUserId: unknown): string {
+    const user = req.context?.getUser?.();
+    if (user && user.role === "ADMIN" && typeof requestedUserId === "string" && requestedUserId) {
+      return requestedUserId;
+    }
+    return req.context?.getUserId?.();
+  }
+}
@@ -6,6 +6,9 @@ import utils from "../utils/utils.js";
 import opportunitySyncCron from "../services/opportunities/cron/opportunitySync.cron.js";
 import multiClientOpportunitySyncCron from "../services/opportunities/cron/multiClientOpportunitySync.cron.js";
 import leadSheetsSyncCron from "../services/leads/cron/leadSheetsSync.cron.js";
+import metaSpendRollupCron from "../services/actual/cron/metaSpendRollup.cron.js";
+import metaTokenHealthCron from "../services/metaOAuth/cron/metaTokenHealth.cron.js";
+import metaTokenHealthService from "../services/metaOAuth/service/tokenHealth.service.js";
 
 class AdminController {
   private userService: UserService;
@@ -239,14 +242,17 @@ class AdminController {
       }
 
       // Trigger the cron job and wait for completion
-      await multiClientOpportunitySyncCron.runOnce('manual');
+      // Body: { fullResync?: boolean } refetches every contact instead of using the contact cache
+      const fullResync = req.body?.fullResync === true;
+      await multiClientOpportunitySyncCron.runOnce('manual', { fullResync });
 
       utils.sendSuccessResponse(res, 200, {
         success: true,
         message: "Multi-client opportunity sync cron job completed successfully",
         data: {
           userId,
-          status: "completed"
+          status: "completed",
+          fullResync
         }
       });
     } catch (error) {
@@ -268,14 +274,90 @@ class AdminController {
       }
 
       // Trigger the cron job and wait for completion
-      await leadSheetsSyncCron.runOnce();
+      // Body: { fullResync?: boolean } ignores the per-location sync cursors and the contact cache
+      const fullResync = req.body?.fullResync === true;
+      const runId = await leadSheetsSyncCron.runOnce({ fullResync, type: 'manual' });
 
       utils.sendSuccessResponse(res, 200, {
         success: true,
         message: "Lead sheets sync cron job completed successfully",
         data: {
           userId,
-          status: "completed"
+          status: "completed",
+          fullResync,
+          runId
+        }
+      });
+    } catch (error) {
+      utils.sendErrorResponse(res, error);
+    }
+  };
+
+  public triggerMetaSpendRollup = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.context.getUserId();
+
+      // Check if cron is already running
+      if (metaSpendRollupCron.isRunningCheck()) {
+        utils.sendErrorResponse(res, {
+          message: "Meta spend rollup cron is already running",
+          statusCode: 409
+        });
+        return;
+      }
+
+      // Body: { startDate?, endDate? } defaults to the previous and the current week
+      const { startDate, endDate } = req.body ?? {};
+      const summary = await metaSpendRollupCron.runOnce({ startDate, endDate, type: 'manual' });
+      if (!summary) {
+        utils.sendErrorResponse(res, "Meta spend rollup failed, see the cron logs for details");
+        return;
+      }
+
+      utils.sendSuccessResponse(res, 200, {
+        success: true,
+        message: "Meta spend rollup completed successfully",
+        data: {
+          userId,
+          status: "completed",
+          ...summary
+        }
+      });
+    } catch (error) {
+      utils.sendErrorResponse(res, error);
+    }
+  };
+
+  public triggerMetaTokenHealthCheck = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.context.getUserId();
+
+      if (metaTokenHealthCron.isRunningCheck()) {
+        utils.sendErrorResponse(res, {
+          message: "Meta token health check is already running",
+          statusCode: 409
+        });
+        return;
+      }
+
+      // Body: { warningDays? } defaults to META_TOKEN_EXPIRY_WARNING_DAYS
+      const { warningDays } = req.body ?? {};
+      const summary = await metaTokenHealthCron.runOnce({
+        warningDays: warningDays !== undefined ? Number(warningDays) : undefined,
+        type: 'manual'
+      });
+      if (!summary) {
+        utils.sendErrorResponse(res, "Meta token health check failed, see the cron logs for details");
+        return;
+      }
+
+      utils.sendSuccessResponse(res, 200, {
+        success: true,
+        message: "Meta token health check completed successfully",
+        data: {
+          userId,
+          status: "completed",
+          ...summary
         }
       });
     } catch (error) {
@@ -283,6 +365,26 @@ class AdminController {
     }
   };
 
+  /**
+   * Meta connection health per client as of the last token check
+   * Query: warningDays? flags tokens expiring within that many days
+   */
+  public getMetaConnectionHealth = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { warningDays } = req.query;
+      const report = await metaTokenHealthService.getConnectionHealth(
+        warningDays !== undefined ? Number(warningDays) : undefined
+      );
+
+      utils.sendSuccessResponse(res, 200, {
+        success: true,
+        data: report
+      });
+    } catch (error) {
+      utils.sendErrorResponse(res, error);
+    }
+  };
+
 }
 
 export default new AdminController();
\ No newline at end of file
@@ -2,6 +2,7 @@ import { Request, Response } from 'express';
 import { ActualService } from '../services/actual/service/service.js';
 import { TargetService } from '../services/target/service/service.js';
 import { leadAnalyticsService } from '../services/leads/service/index.js';
+import { summarizeChannels } from '../services/actual/utils/channelSpend.js';
 
 /**
  * Master Aggregate Controller
@@ -22,7 +23,7 @@ export class AggregateController {
    * Same structure as getActualAndTargetReport but for all users combined
    * 
    * Expects: startDate, endDate, queryType (weekly/monthly/yearly) as query params
-   * Returns: { actual: [...], target: [...] }
+   * Returns: { actual: [...], target: [...], channelBreakdown: [...] }
    */
   async getAggregatedReport(req: Request, res: Response): Promise<void> {
     try {
@@ -90,6 +91,12 @@ export class AggregateController {
         String(queryType) as "weekly" | "monthly" | "yearly"
       );
 
+      const targets = Array.isArray(targetResults) ? targetResults : [targetResults];
+      const channelBreakdown = summarizeChannels(
+        actualResults,
+        targets.flatMap((target) => target?.channelTargets ?? [])
+      );
+
       // Get users revenue breakdown
       const usersBudgetAndRevenue = await this.actualService.getUsersRevenueByDateRange(
         String(startDateStr),
@@ -106,7 +113,8 @@ export class AggregateController {
         success: true,
         data: {
           actual: actualResults,
-          target: Array.isArray(targetResults) ? targetResults : [targetResults],
+          target: targets,
+          channelBreakdown,
           usersBudgetAndRevenue: usersBudgetAndRevenue,
           leadAnalytics: leadAnalytics
         }
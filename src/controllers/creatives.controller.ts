@@ -2,7 +2,7 @@ import { Request, Response } from 'express';
 import { creativesService } from '../services/creatives/service/CreativesService.js';
 import { creativesRepository } from '../services/creatives/repository/CreativesRepository.js';
 import UserService from '../services/user/service/service.js';
-import { config } from '../config.js';
+import { facebookCredentialsService } from '../services/facebook/facebookCredentialsService.js';
 
 export class CreativesController {
   private userService: UserService;
@@ -63,10 +63,8 @@ export class CreativesController {
         return;
       }
 
-      // Use the same hardcoded Meta token owner as enriched-ads
-      const metaTokenClientId = config.META_USER_TOKEN_ID;
-      const metaTokenUser = await this.userService.getUserById(metaTokenClientId);
-      const accessToken = (metaTokenUser as any)?.metaAccessToken as string | undefined;
+      // The client's own Meta access token, or the shared one
+      const accessToken = await facebookCredentialsService.getAccessToken(clientUser);
 
       if (!accessToken) {
         res.status(500).json({
@@ -148,10 +146,8 @@ export class CreativesController {
         return;
       }
 
-      // Use the same hardcoded Meta token owner as enriched-ads
-      const metaTokenClientId = config.META_USER_TOKEN_ID;
-      const metaTokenUser = await this.userService.getUserById(metaTokenClientId);
-      const accessToken = (metaTokenUser as any)?.metaAccessToken as string | undefined;
+      // The client's own Meta access token, or the shared one
+      const accessToken = await facebookCredentialsService.getAccessToken(clientUser);
 
       if (!accessToken) {
         res.status(500).json({
@@ -299,10 +295,8 @@ export class CreativesController {
         return;
       }
 
-      // Use the same hardcoded Meta token owner
-      const metaTokenClientId = config.META_USER_TOKEN_ID;
-      const metaTokenUser = await this.userService.getUserById(metaTokenClientId);
-      const accessToken = (metaTokenUser as any)?.metaAccessToken as string | undefined;
+      // The client's own Meta access token, or the shared one
+      const accessToken = await facebookCredentialsService.getAccessToken(clientUser);
 
       if (!accessToken) {
         res.status(500).json({
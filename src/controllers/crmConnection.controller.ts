@@ -0,0 +1,164 @@
+import { Request, Response } from "express";
+import crmConnectorService from "../services/crm/service/crmConnector.service.js";
+import { ICrmConnectionDocument } from "../services/crm/repository/models/crmConnection.model.js";
+import { CRM_PROVIDERS, CrmProvider } from "../services/crm/domain/crm.domain.js";
+import utils from "../utils/utils.js";
+import { config } from "../config.js";
+import { CustomError, ErrorCode } from "../pkg/error/custom_error.js";
+
+class CrmConnectionController {
+  private crmConnectorService = crmConnectorService;
+
+  /**
+   * Credentials are never returned, only whether they are set
+   */
+  private mapConnectionToResponse(connection: ICrmConnectionDocument) {
+    return {
+      id: connection._id,
+      revenueProClientId: connection.revenueProClientId,
+      provider: connection.provider,
+      accountId: connection.accountId,
+      hasAccessToken: !!connection.encryptedAccessToken,
+      hasWebhookSecret: !!connection.encryptedWebhookSecret,
+      statusMapping: connection.statusMapping ?? null,
+      status: connection.status,
+      createdAt: connection.createdAt,
+      updatedAt: connection.updatedAt,
+    };
+  }
+
+  /**
+   * Base URL webhook senders called, for signatures that cover the URL
+   */
+  private getPublicBaseUrl(req: Request): string {
+    return config.PUBLIC_API_URL
+      ? config.PUBLIC_API_URL.replace(/\/+$/, '')
+      : `${req.protocol}://${req.get('host')}`;
+  }
+
+  /**
+   * GET /api/v1/crm-connections
+   * List CRM connections
+   * Query: provider?, status?
+   */
+  public getConnections = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { provider, status } = req.query;
+
+      if (provider !== undefined && !CRM_PROVIDERS.includes(provider as CrmProvider)) {
+        utils.sendErrorResponse(res, new CustomError(ErrorCode.BAD_REQUEST, `provider must be one of: ${CRM_PROVIDERS.join(', ')}`));
+        return;
+      }
+      if (status !== undefined && status !== 'active' && status !== 'inactive') {
+        utils.sendErrorResponse(res, new CustomError(ErrorCode.BAD_REQUEST, "status must be 'active' or 'inactive'"));
+        return;
+      }
+
+      const connections = await this.crmConnectorService.getConnections({
+        provider: provider as CrmProvider | undefined,
+        status: status as 'active' | 'inactive' | undefined,
+      });
+
+      utils.sendSuccessResponse(res, 200, {
+        success: true,
+        data: connections.map(connection => this.mapConnectionToResponse(connection)),
+      });
+    } catch (error: any) {
+      utils.sendErrorResponse(res, error);
+    }
+  };
+
+  /**
+   * GET /api/v1/crm-connections/:revenueProClientId
+   * Get the CRM connection of a client
+   */
+  public getConnection = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { revenueProClientId } = req.params;
+      const connection = await this.crmConnectorService.getConnection(revenueProClientId);
+
+      if (!connection) {
+        utils.sendErrorResponse(res, new CustomError(ErrorCode.NOT_FOUND, "No CRM connection configured for this client"));
+        return;
+      }
+
+      utils.sendSuccessResponse(res, 200, {
+        success: true,
+        data: this.mapConnectionToResponse(connection),
+      });
+    } catch (error: any) {
+      utils.sendErrorResponse(res, error);
+    }
+  };
+
+  /**
+   * PUT /api/v1/crm-connections/:revenueProClientId
+   * Create or replace the CRM connection of a client
+   * Body: { provider, accountId, accessToken?, webhookSecret?, statusMapping?, status? }
+   * For ghl the accountId is the locationId of an existing GHL client; credentials stay on the GHL client
+   */
+  public upsertConnection = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { revenueProClientId } = req.params;
+      const { provider, accountId, accessToken, webhookSecret, statusMapping, status } = req.body ?? {};
+
+      if (accessToken !== undefined && typeof accessToken !== 'string') {
+        utils.sendErrorResponse(res, new CustomError(ErrorCode.BAD_REQUEST, "accessToken must be a string"));
+        return;
+      }
+      if (webhookSecret !== undefined && typeof webhookSecret !== 'string') {
+        utils.sendErrorResponse(res, new CustomError(ErrorCode.BAD_REQUEST, "webhookSecret must be a string"));
+        return;
+      }
+
+      const connection = await this.crmConnectorService.upsertConnection(revenueProClientId, {
+        provider,
+        accountId,
+        accessToken: accessToken?.trim() || undefined,
+        webhookSecret: webhookSecret?.trim() || undefined,
+        statusMapping,
+        status,
+      });
+
+      utils.sendSuccessResponse(res, 200, {
+        success: true,
+        data: this.mapConnectionToResponse(connection),
+        message: `CRM connection saved for ${connection.provider} account ${connection.accountId}`,
+      });
+    } catch (error: any) {
+      utils.sendErrorResponse(res, error);
+    }
+  };
+
+  /**
+   * POST /api/v1/webhooks/crm/:provider
+   * Receive a CRM webhook; the payload's account decides which client connections it applies to.
+   * Signatures are checked per provider (x-ghl-signature, x-hubspot-signature-v3, x-jobber-hmac-sha256).
+   * The signed URL is built from PUBLIC_API_URL, since behind the proxy req.protocol is http.
+   */
+  public receiveWebhook = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const provider = (req.params.provider ?? 'hubspot') as CrmProvider;
+      const headers = Object.fromEntries(
+        Object.entries(req.headers).map(([name, value]) => [name, Array.isArray(value) ? value[0] : value])
+      );
+
+      const result = await this.crmConnectorService.handleWebhook(provider, {
+        payload: req.body,
+        rawBody: req.rawBody,
+        headers,
+        url: `${this.getPublicBaseUrl(req)}${req.originalUrl}`,
+        method: req.method,
+      });
+
+      utils.sendSuccessResponse(res, 200, {
+        success: true,
+        data: result,
+      });
+    } catch (error: any) {
+      utils.sendErrorResponse(res, error);
+    }
+  };
+}
+
+export default new CrmConnectionController();
@@ -9,6 +9,11 @@ import UserService from '../services/user/service/service.js';
 import { config } from '../config.js';
 import { BoardFilters, BoardColumns, BoardParams } from '../services/facebook/domain/facebookAds.domain.js';
 import { weeklyDataSyncService } from '../services/facebook/weeklyDataSync.service.js';
+import { facebookCredentialsService } from '../services/facebook/facebookCredentialsService.js';
+import { MetaOAuthService } from '../services/metaOAuth/service/service.js';
+import { insightsReportJobService } from '../services/facebook/insightsReportJob.service.js';
+import { DateUtils } from '../utils/date.utils.js';
+import { CustomError, ErrorCodeStatusMap } from '../pkg/error/custom_error.js';
 
 export class FacebookAdsController {
   private userService: UserService;
@@ -23,6 +28,11 @@ export class FacebookAdsController {
     this.saveWeeklyAnalytics = this.saveWeeklyAnalytics.bind(this);
     this.getSavedAnalytics = this.getSavedAnalytics.bind(this);
     this.forceSyncWeeklyData = this.forceSyncWeeklyData.bind(this);
+    this.getMetaConnectUrl = this.getMetaConnectUrl.bind(this);
+    this.startInsightsBackfill = this.startInsightsBackfill.bind(this);
+    this.getInsightsBackfills = this.getInsightsBackfills.bind(this);
+    this.getInsightsBackfill = this.getInsightsBackfill.bind(this);
+    this.resumeInsightsBackfill = this.resumeInsightsBackfill.bind(this);
   }
 
   /**
@@ -102,11 +112,8 @@ export class FacebookAdsController {
         ? rawAdAccountId
         : `act_${rawAdAccountId}`;
 
-      // 2) Get Meta access token from hardcoded client
-      const metaTokenClientId = config.META_USER_TOKEN_ID;
-      const metaTokenUser = await this.userService.getUserById(metaTokenClientId);
-
-      const accessToken = (metaTokenUser as any)?.metaAccessToken as string | undefined;
+      // 2) Get the client's own Meta access token, or the shared one
+      const accessToken = await facebookCredentialsService.getAccessToken(clientUser);
       if (!accessToken) {
         res.status(500).json({
           success: false,
@@ -369,11 +376,8 @@ export class FacebookAdsController {
         ? rawAdAccountId
         : `act_${rawAdAccountId}`;
 
-      // Get Meta access token from hardcoded client
-      const metaTokenClientId = '68ac6ebce46631727500499b';
-      const metaTokenUser = await this.userService.getUserById(metaTokenClientId);
-
-      const accessToken = (metaTokenUser as any)?.metaAccessToken as string | undefined;
+      // Get the client's own Meta access token, or the shared one
+      const accessToken = await facebookCredentialsService.getAccessToken(clientUser);
       if (!accessToken) {
         res.status(500).json({
           success: false,
@@ -382,6 +386,24 @@ export class FacebookAdsController {
         return;
       }
 
+      // Large ranges time out when pulled week by week; they run as an async report job instead
+      const weekCount = DateUtils.getMonthWeeks(startDate, endDate).length;
+      if (weekCount > config.META_ASYNC_INSIGHTS_MIN_WEEKS) {
+        const job = await insightsReportJobService.startBackfill({
+          clientId,
+          adAccountId: formattedAdAccountId,
+          startDate,
+          endDate,
+          createdBy: req.context.getUserId(),
+        });
+        res.status(202).json({
+          success: true,
+          message: `Range spans ${weekCount} weeks, started an insights backfill job`,
+          data: { job },
+        });
+        return;
+      }
+
       // Call service to save analytics (split into weekly chunks)
       const result = await saveWeeklyAnalyticsToDb({
         clientId,
@@ -403,7 +425,7 @@ export class FacebookAdsController {
         },
       });
     } catch (err: any) {
-      res.status(500).json({
+      res.status(err instanceof CustomError ? ErrorCodeStatusMap[err.code] : 500).json({
         success: false,
         error: 'Internal server error',
         message: err.message,
@@ -525,9 +547,8 @@ export class FacebookAdsController {
         ? rawAdAccountId
         : `act_${rawAdAccountId}`;
 
-      // Get Meta access token
-      const metaTokenUser = await this.userService.getUserById(config.META_USER_TOKEN_ID);
-      const accessToken = (metaTokenUser as any)?.metaAccessToken as string | undefined;
+      // Get the client's own Meta access token, or the shared one
+      const accessToken = await facebookCredentialsService.getAccessToken(clientUser);
 
       if (!accessToken) {
         res.status(500).json({
@@ -570,4 +591,172 @@ export class FacebookAdsController {
       });
     }
   }
+
+  /**
+   * Meta login URL for a client to connect their own Meta account
+   * GET /api/v1/facebook/meta-connect-url?clientId=XXX
+   * Admins may pass any clientId, other users connect their own account
+   */
+  async getMetaConnectUrl(req: Request, res: Response): Promise<void> {
+    try {
+      const user = req.context.getUser();
+      const requestedClientId = typeof req.query.clientId === 'string' ? req.query.clientId : '';
+      const clientId = user?.role === 'ADMIN' && requestedClientId ? requestedClientId : req.context.getUserId();
+
+      const clientUser = await this.userService.getUserById(clientId);
+      if (!clientUser) {
+        res.status(404).json({
+          success: false,
+          error: 'Client user not found',
+        });
+        return;
+      }
+
+      const url = new MetaOAuthService().getConnectUrl(clientId);
+      res.status(200).json({
+        success: true,
+        data: { clientId, url },
+      });
+    } catch (err: any) {
+      res.status(500).json({
+        success: false,
+        error: 'Failed to create Meta connect URL',
+        message: err.message,
+      });
+    }
+  }
+
+  /**
+   * Start a backfill of weekly analytics through async Meta insights report runs
+   * POST /api/v1/facebook/insights-backfill?clientId=XXX&startDate=YYYY-MM-DD&endDate=YYYY-MM-DD
+   *
+   * Runs in the background; poll GET /insights-backfill/:jobId for progress
+   */
+  async startInsightsBackfill(req: Request, res: Response): Promise<void> {
+    try {
+      const clientId = req.query.clientId as string;
+      const startDate = req.query.startDate as string;
+      const endDate = req.query.endDate as string;
+
+      if (!clientId || !startDate || !endDate) {
+        res.status(400).json({
+          success: false,
+          error: 'clientId, startDate, and endDate are required',
+        });
+        return;
+      }
+
+      const clientUser = await this.userService.getUserById(clientId);
+      if (!clientUser) {
+        res.status(404).json({
+          success: false,
+          error: 'Client user not found',
+        });
+        return;
+      }
+
+      const rawAdAccountId = (clientUser as any).fbAdAccountId as string | undefined;
+      if (!rawAdAccountId) {
+        res.status(400).json({
+          success: false,
+          error: 'Client does not have a configured Facebook Ad Account ID',
+        });
+        return;
+      }
+
+      const formattedAdAccountId = rawAdAccountId.startsWith('act_')
+        ? rawAdAccountId
+        : `act_${rawAdAccountId}`;
+
+      const job = await insightsReportJobService.startBackfill({
+        clientId,
+        adAccountId: formattedAdAccountId,
+        startDate,
+        endDate,
+        createdBy: req.context.getUserId(),
+      });
+
+      res.status(202).json({
+        success: true,
+        data: job,
+      });
+    } catch (err: any) {
+      res.status(err instanceof CustomError ? ErrorCodeStatusMap[err.code] : 500).json({
+        success: false,
+        error: 'Failed to start insights backfill',
+        message: err.message,
+        ...(err instanceof CustomError && err.details ? { details: err.details } : {}),
+      });
+    }
+  }
+
+  /**
+   * Backfill jobs of a client, newest first
+   * GET /api/v1/facebook/insights-backfill?clientId=XXX
+   */
+  async getInsightsBackfills(req: Request, res: Response): Promise<void> {
+    try {
+      const clientId = req.query.clientId as string;
+      if (!clientId) {
+        res.status(400).json({
+          success: false,
+          error: 'clientId is required',
+        });
+        return;
+      }
+
+      const jobs = await insightsReportJobService.getJobsByClientId(clientId);
+      res.status(200).json({
+        success: true,
+        data: jobs,
+        count: jobs.length,
+      });
+    } catch (err: any) {
+      res.status(500).json({
+        success: false,
+        error: 'Failed to fetch insights backfills',
+        message: err.message,
+      });
+    }
+  }
+
+  /**
+   * Progress of a backfill job
+   * GET /api/v1/facebook/insights-backfill/:jobId
+   */
+  async getInsightsBackfill(req: Request, res: Response): Promise<void> {
+    try {
+      const job = await insightsReportJobService.getJob(req.params.jobId);
+      res.status(200).json({
+        success: true,
+        data: job,
+      });
+    } catch (err: any) {
+      res.status(err instanceof CustomError ? ErrorCodeStatusMap[err.code] : 500).json({
+        success: false,
+        error: 'Failed to fetch insights backfill',
+        message: err.message,
+      });
+    }
+  }
+
+  /**
+   * Resume a failed or interrupted backfill from the week after its last completed week
+   * POST /api/v1/facebook/insights-backfill/:jobId/resume
+   */
+  async resumeInsightsBackfill(req: Request, res: Response): Promise<void> {
+    try {
+      const job = await insightsReportJobService.resumeJob(req.params.jobId);
+      res.status(202).json({
+        success: true,
+        data: job,
+      });
+    } catch (err: any) {
+      res.status(err instanceof CustomError ? ErrorCodeStatusMap[err.code] : 500).json({
+        success: false,
+        error: 'Failed to resume insights backfill',
+        message: err.message,
+      });
+    }
+  }
 }
@@ -3,6 +3,7 @@ import ghlClientService from "../services/ghlClient/service/service.js";
 import utils from "../utils/utils.js";
 import { CustomError, ErrorCode } from "../pkg/error/custom_error.js";
 import { IGhlClient } from "../services/ghlClient/domain/ghlClient.domain.js";
+import { collectOpportunityTags, resolveTagMapping } from "../services/ghlClient/utils/tagMapping.js";
 import logger from "../utils/logger.js";
 
 class GhlClientController {
@@ -34,6 +35,9 @@ class GhlClientController {
       disqualifiedTagDateFieldId: client.disqualifiedTagDateFieldId,
       pipelineId: client.pipelineId,
       revenueProClientId: client.revenueProClientId,
+      tagMapping: resolveTagMapping(client),
+      usesDefaultTagMapping: !client.tagMapping,
+      hasWebhookSecret: !!client.encryptedWebhookSecret,
       status: client.status,
       createdAt: client.created_at,
     };
@@ -179,13 +183,15 @@ class GhlClientController {
   /**
    * PUT /api/v1/ghl-clients/:locationId
    * Update a GHL client configuration by locationId
-   * Body: { ghlApiToken?, queryValue?, queryValue2?, revenueProClientId?, status? }
+   * Body: { ghlApiToken?, queryValue?, queryValue2?, revenueProClientId?, status?, tagMapping?, webhookSecret? }
    * Only updates the fields that are provided in the request body
+   * tagMapping: { leadSourceTags?, statusRules?, actualsTags? }, null resets it to the default mapping
+   * webhookSecret: signing secret of the location's GHL webhooks, null removes it
    */
   public updateGhlClient = async (req: Request, res: Response): Promise<void> => {
     try {
       const { locationId } = req.params;
-      const { ghlApiToken, queryValue, queryValue2, revenueProClientId, status } = req.body;
+      const { ghlApiToken, queryValue, queryValue2, revenueProClientId, status, tagMapping, webhookSecret } = req.body;
 
       // Log all incoming values from frontend
       logger.info('[GHL Client Update] Request received', {
@@ -194,21 +200,28 @@ class GhlClientController {
         queryValue2,
         revenueProClientId,
         status,
+        hasTagMapping: tagMapping !== undefined,
+        hasWebhookSecret: webhookSecret !== undefined,
         ghlApiTokenLength: ghlApiToken?.length || 0,
         hasGhlApiToken: !!ghlApiToken,
         bodyKeys: Object.keys(req.body),
       });
 
       // Check if at least one field is being updated
-      if (!ghlApiToken && !queryValue && queryValue2 === undefined && !revenueProClientId && !status) {
+      if (!ghlApiToken && !queryValue && queryValue2 === undefined && !revenueProClientId && !status && tagMapping === undefined && webhookSecret === undefined) {
         logger.warn('[GHL Client Update] No fields to update', { locationId });
         utils.sendErrorResponse(
           res,
-          new CustomError(ErrorCode.BAD_REQUEST, "At least one field must be provided for update: ghlApiToken, queryValue, queryValue2, revenueProClientId, or status")
+          new CustomError(ErrorCode.BAD_REQUEST, "At least one field must be provided for update: ghlApiToken, queryValue, queryValue2, revenueProClientId, status, tagMapping, or webhookSecret")
         );
         return;
       }
 
+      if (webhookSecret !== undefined && webhookSecret !== null && typeof webhookSecret !== 'string') {
+        utils.sendErrorResponse(res, new CustomError(ErrorCode.BAD_REQUEST, "webhookSecret must be a string or null"));
+        return;
+      }
+
       // Validate status enum if provided
       if (status && !['active', 'inactive', 'deleted'].includes(status)) {
         logger.warn('[GHL Client Update] Invalid status value', { locationId, status });
@@ -227,6 +240,8 @@ class GhlClientController {
           queryValue2,
           revenueProClientId,
           status,
+          tagMapping,
+          webhookSecret,
         }
       );
 
@@ -276,6 +291,42 @@ class GhlClientController {
       utils.sendErrorResponse(res, error);
     }
   };
+
+  /**
+   * POST /api/v1/ghl-clients/:locationId/tag-mapping/test
+   * Run a sample opportunity's tags through the client's tag mapping
+   * Body: { tags?: string[], opportunity?: { contact: { tags }, relations: [{ tags }] }, tagMapping? }
+   * tagMapping is optional and tests an unsaved mapping instead of the client's one
+   */
+  public testTagMapping = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { locationId } = req.params;
+      const { tags, opportunity, tagMapping } = req.body;
+
+      if (tags !== undefined && (!Array.isArray(tags) || tags.some((tag: unknown) => typeof tag !== 'string'))) {
+        utils.sendErrorResponse(res, new CustomError(ErrorCode.BAD_REQUEST, "tags must be an array of strings"));
+        return;
+      }
+      if (!tags && (!opportunity || typeof opportunity !== 'object')) {
+        utils.sendErrorResponse(res, new CustomError(ErrorCode.BAD_REQUEST, "Either tags or opportunity is required"));
+        return;
+      }
+
+      const sampleTags = [...(tags || []), ...(opportunity ? collectOpportunityTags(opportunity) : [])];
+      const result = await this.ghlClientService.testTagMapping(locationId, sampleTags, tagMapping);
+
+      utils.sendSuccessResponse(res, 200, {
+        success: true,
+        data: result,
+      });
+    } catch (error: any) {
+      if (error.message?.includes("not found")) {
+        utils.sendErrorResponse(res, new CustomError(ErrorCode.NOT_FOUND, error.message));
+        return;
+      }
+      utils.sendErrorResponse(res, error);
+    }
+  };
 }
 
 export default new GhlClientController();
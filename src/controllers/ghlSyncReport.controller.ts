@@ -0,0 +1,85 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+import ghlSyncReportService, { GhlSyncReportService } from "../services/leads/service/GhlSyncReportService.js";
+import { GhlSyncReportOutcome } from "../services/leads/repository/models/ghlSyncRunReport.model.js";
+import utils from "../utils/utils.js";
+
+const REPORT_OUTCOMES: GhlSyncReportOutcome[] = ["updated", "skipped", "error"];
+const MAX_REPORT_LIMIT = 200;
+
+class GhlSyncReportController {
+  private ghlSyncReportService: GhlSyncReportService;
+
+  constructor() {
+    this.ghlSyncReportService = ghlSyncReportService;
+  }
+
+  /**
+   * List lead sheets sync run reports, newest first, without their entries
+   * GET /admin/lead-sheets-sync/reports?clientId=&locationId=&runId=&limit=
+   */
+  public getReports = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const clientId = typeof req.query.clientId === "string" ? req.query.clientId : undefined;
+      const locationId = typeof req.query.locationId === "string" ? req.query.locationId : undefined;
+      const runId = typeof req.query.runId === "string" ? req.query.runId : undefined;
+      const limit = req.query.limit !== undefined ? Number(req.query.limit) : 50;
+
+      if (clientId !== undefined && !mongoose.Types.ObjectId.isValid(clientId)) {
+        utils.sendErrorResponse(res, "Invalid clientId format");
+        return;
+      }
+
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_REPORT_LIMIT) {
+        utils.sendErrorResponse(res, `limit must be an integer between 1 and ${MAX_REPORT_LIMIT}`);
+        return;
+      }
+
+      const reports = await this.ghlSyncReportService.getReports({ clientId, locationId, runId }, limit);
+
+      utils.sendSuccessResponse(res, 200, {
+        success: true,
+        data: reports,
+      });
+    } catch (error) {
+      utils.sendErrorResponse(res, error);
+    }
+  };
+
+  /**
+   * Get a sync run report with the leads it touched
+   * GET /admin/lead-sheets-sync/reports/:reportId?outcome=&skipReason=&email=&leadId=
+   */
+  public getReportById = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { reportId } = req.params;
+      const { outcome, skipReason, email, leadId } = req.query;
+
+      if (!mongoose.Types.ObjectId.isValid(reportId)) {
+        utils.sendErrorResponse(res, "Invalid reportId format");
+        return;
+      }
+
+      if (outcome !== undefined && !REPORT_OUTCOMES.includes(outcome as GhlSyncReportOutcome)) {
+        utils.sendErrorResponse(res, `outcome must be one of: ${REPORT_OUTCOMES.join(", ")}`);
+        return;
+      }
+
+      const report = await this.ghlSyncReportService.getReportById(reportId, {
+        outcome: outcome as GhlSyncReportOutcome | undefined,
+        skipReason: typeof skipReason === "string" ? skipReason : undefined,
+        email: typeof email === "string" ? email : undefined,
+        leadId: typeof leadId === "string" ? leadId : undefined,
+      });
+
+      utils.sendSuccessResponse(res, 200, {
+        success: true,
+        data: report,
+      });
+    } catch (error) {
+      utils.sendErrorResponse(res, error);
+    }
+  };
+}
+
+export default new GhlSyncReportController();
@@ -0,0 +1,110 @@
+import { Request, Response } from "express";
+import ghlWebhookService from "../services/leads/service/GhlWebhookService.js";
+import {
+  GHL_WEBHOOK_EVENT_TYPES,
+  GhlWebhookEventStatus,
+  GhlWebhookEventType
+} from "../services/leads/repository/models/ghlWebhookEvent.model.js";
+import utils from "../utils/utils.js";
+import { CustomError, ErrorCode } from "../pkg/error/custom_error.js";
+
+const EVENT_STATUSES: GhlWebhookEventStatus[] = ['received', 'processed', 'skipped', 'failed'];
+const DEFAULT_EVENT_LIMIT = 50;
+const MAX_EVENT_LIMIT = 500;
+
+class GhlWebhookController {
+  private ghlWebhookService = ghlWebhookService;
+
+  /**
+   * POST /api/v1/webhooks/ghl
+   * Receive a GHL event (OpportunityStatusUpdate, OpportunityStageUpdate, ContactTagUpdate, ContactCreate)
+   * Header: x-ghl-signature - hex HMAC-SHA256 of the raw body with the location's webhook secret
+   */
+  public receiveWebhook = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.body || typeof req.body !== 'object') {
+        utils.sendErrorResponse(res, new CustomError(ErrorCode.BAD_REQUEST, "Request body must be a JSON object"));
+        return;
+      }
+
+      const outcome = await this.ghlWebhookService.handleWebhook({
+        payload: req.body,
+        rawBody: req.rawBody,
+        signature: req.get('x-ghl-signature'),
+      });
+
+      utils.sendSuccessResponse(res, 200, {
+        success: true,
+        data: {
+          eventId: outcome.eventId,
+          status: outcome.status,
+          duplicate: outcome.duplicate,
+          result: outcome.event?.result ?? null,
+        },
+      });
+    } catch (error: any) {
+      utils.sendErrorResponse(res, error);
+    }
+  };
+
+  /**
+   * GET /api/v1/ghl-clients/:locationId/webhook-events
+   * List the stored webhook events of a location, newest first
+   * Query: status?, type?, limit? (default 50, max 500)
+   */
+  public getWebhookEvents = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { locationId } = req.params;
+      const { status, type } = req.query;
+      const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : DEFAULT_EVENT_LIMIT;
+
+      if (status !== undefined && !EVENT_STATUSES.includes(status as GhlWebhookEventStatus)) {
+        utils.sendErrorResponse(res, new CustomError(ErrorCode.BAD_REQUEST, `status must be one of: ${EVENT_STATUSES.join(', ')}`));
+        return;
+      }
+      if (type !== undefined && !GHL_WEBHOOK_EVENT_TYPES.includes(type as GhlWebhookEventType)) {
+        utils.sendErrorResponse(res, new CustomError(ErrorCode.BAD_REQUEST, `type must be one of: ${GHL_WEBHOOK_EVENT_TYPES.join(', ')}`));
+        return;
+      }
+      if (isNaN(limit) || limit < 1 || limit > MAX_EVENT_LIMIT) {
+        utils.sendErrorResponse(res, new CustomError(ErrorCode.BAD_REQUEST, `limit must be between 1 and ${MAX_EVENT_LIMIT}`));
+        return;
+      }
+
+      const events = await this.ghlWebhookService.getEvents({
+        locationId,
+        status: status as GhlWebhookEventStatus | undefined,
+        type: type as GhlWebhookEventType | undefined,
+        limit,
+      });
+
+      utils.sendSuccessResponse(res, 200, {
+        success: true,
+        data: events,
+      });
+    } catch (error: any) {
+      utils.sendErrorResponse(res, error);
+    }
+  };
+
+  /**
+   * POST /api/v1/ghl-clients/:locationId/webhook-events/:eventId/replay
+   * Apply a stored webhook event again
+   */
+  public replayWebhookEvent = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { locationId, eventId } = req.params;
+      const event = await this.ghlWebhookService.replayEvent(locationId, eventId);
+
+      utils.sendSuccessResponse(res, 200, {
+        success: true,
+        data: event,
+        message: `Webhook event replayed with status '${event.status}'`,
+      });
+    } catch (error: any) {
+      utils.sendErrorResponse(res, error);
+    }
+  };
+}
+
+export default new GhlWebhookController();
@@ -5,12 +5,16 @@ import utils from "../utils/utils.js";
 import { conversionRateRepository } from "../services/leads/repository/index.js";
 import { sanitizeLeadData } from "../services/leads/utils/leads.util.js";
 import { VALID_LEAD_STATUSES } from "../services/leads/domain/leads.domain.js";
+import { CustomError, ErrorCode } from "../pkg/error/custom_error.js";
+import type { FilterOptions } from "../services/leads/service/LeadService.js";
 import mongoose from "mongoose";
 
 export class LeadController {
   /**
    * Endpoint to update conversion rates and lead scores for all clients
    * POST /leads/update-cr-all
+   * Optional query param decayHalfLifeWeeks overrides the configured half-life of the decayed
+   * conversion rates; decayHalfLifeWeeks=none computes all-time rates
    */
   async processLeadScoresAndCRs(
   req: Request,
@@ -71,12 +75,25 @@ if (req.query.clientId) {
 }
 
 
+    // undefined uses the configured half-life, null opts out of decay
+    let decayHalfLifeWeeks: number | null | undefined;
+    if (req.query.decayHalfLifeWeeks === "none") {
+      decayHalfLifeWeeks = null;
+    } else if (req.query.decayHalfLifeWeeks !== undefined) {
+      decayHalfLifeWeeks = Number(req.query.decayHalfLifeWeeks);
+      if (!isFinite(decayHalfLifeWeeks) || decayHalfLifeWeeks <= 0) {
+        utils.sendErrorResponse(res, "decayHalfLifeWeeks must be a positive number or 'none'");
+        return;
+      }
+    }
+
     const results = [];
     for (const clientId of clientIds) {
       try {
         const result =
           await this.service.processLeadScoresAndCRsByClientId(
-            clientId
+            clientId,
+            { decayHalfLifeWeeks }
           );
 
         results.push({
@@ -132,10 +149,17 @@ if (req.query.clientId) {
     this.updateLead = this.updateLead.bind(this);
     this.processSheetLeads = this.processSheetLeads.bind(this);
     this.getConversionRates = this.getConversionRates.bind(this);
+    this.compareConversionRates = this.compareConversionRates.bind(this);
+    this.getScoreExplanation = this.getScoreExplanation.bind(this);
+    this.getLeadHistory = this.getLeadHistory.bind(this);
+    this.getDuplicateQueue = this.getDuplicateQueue.bind(this);
+    this.exportLeads = this.exportLeads.bind(this);
+    this.importLeads = this.importLeads.bind(this);
+    this.dismissDuplicateGroup = this.dismissDuplicateGroup.bind(this);
+    this.mergeDuplicateLeads = this.mergeDuplicateLeads.bind(this);
     this.processLeadScoresAndCRs =
       this.processLeadScoresAndCRs.bind(this);
     this.getLeadsPaginated = this.getLeadsPaginated.bind(this);
-    this.hubspotSubscription = this.hubspotSubscription.bind(this);
     this.updateLeadByEmail = this.updateLeadByEmail.bind(this);
     this.syncClientActivity = this.syncClientActivity.bind(this);
   }
@@ -197,7 +221,7 @@ if (req.query.clientId) {
         proposalAmount: proposalAmount !== undefined ? Number(proposalAmount) : undefined,
         jobBookedAmount: jobBookedAmount !== undefined ? Number(jobBookedAmount) : undefined,
         leadDate
-      });
+      }, { source: 'webhook' });
 
       utils.sendSuccessResponse(res, 200, {
         success: true,
@@ -220,7 +244,8 @@ if (req.query.clientId) {
    * Endpoint to fetch paginated, sortable, and filterable leads
    * GET /leads/paginated
    * Query params:
-   *   clientId, startDate, endDate, page, limit, sortBy, sortOrder, service, adSetName, adName, status, unqualifiedLeadReason
+   *   clientId, startDate, endDate, page, limit, sortBy, sortOrder, service, adSetName, adName, zip, status,
+   *   unqualifiedLeadReason, minLeadScore, maxLeadScore, name
    */
   async getLeadsPaginated(req: Request, res: Response): Promise<void> {
     try {
@@ -242,27 +267,8 @@ if (req.query.clientId) {
       const sortOrder = req.query.sortOrder === "asc" ? "asc" : "desc";
 
       // Filters
-      const filters: any = {};
-      if (typeof req.query.service === "string")
-        filters.service = req.query.service.trim();
-      if (typeof req.query.adSetName === "string")
-        filters.adSetName = req.query.adSetName.trim();
-      if (typeof req.query.adName === "string")
-        filters.adName = req.query.adName.trim();
-      if (typeof req.query.status === "string")
-        filters.status = req.query.status.trim();
-      if (typeof req.query.unqualifiedLeadReason === "string")
-        filters.unqualifiedLeadReason = req.query.unqualifiedLeadReason.trim();
-      // Search 'name' query parameter across multiple fields
-      if (typeof req.query.name === "string" && req.query.name.trim() !== "") {
-        const searchTerm = req.query.name.trim();
-        filters.$or = [
-          { name: { $regex: searchTerm, $options: "i" } },
-          { service: { $regex: searchTerm, $options: "i" } },
-          { adSetName: { $regex: searchTerm, $options: "i" } },
-          { adName: { $regex: searchTerm, $options: "i" } }
-        ];
-      }   
+      const filters = parseLeadFilters(req);
+
       // Fetch paginated leads
       const result = await this.service.getLeadsPaginated(
         clientId,
@@ -584,7 +590,7 @@ if (req.query.clientId) {
 
   async updateLead(req: Request, res: Response): Promise<void> {
     try {
-      const { _id, status, unqualifiedLeadReason, proposalAmount, jobBookedAmount, notes } = req.body;
+      const { _id, status, unqualifiedLeadReason, proposalAmount, jobBookedAmount, notes, overrideTransition } = req.body;
 
       if (!_id) {
         utils.sendErrorResponse(res, "_id is required for update");
@@ -613,6 +619,15 @@ if (req.query.clientId) {
         return;
       }
 
+      // Only admins may skip the status transition rules
+      if (overrideTransition === true && req.context.getUser()?.role !== "ADMIN") {
+        utils.sendErrorResponse(
+          res,
+          new CustomError(ErrorCode.FORBIDDEN, "Only admins can override status transitions")
+        );
+        return;
+      }
+
       const updateData = {
         status,
         unqualifiedLeadReason,
@@ -621,7 +636,12 @@ if (req.query.clientId) {
         notes
       };
 
-      const updatedLead = await this.service.updateLead(_id, updateData);
+      const updatedLead = await this.service.updateLead(
+        _id,
+        updateData,
+        { source: 'manual', actorId: req.context.getUserId() },
+        { overrideTransition: overrideTransition === true }
+      );
 
       utils.sendSuccessResponse(res, 200, { success: true, data: updatedLead });
     } catch (error) {
@@ -731,6 +751,12 @@ if (req.query.clientId) {
     }
   }
 
+  /**
+   * Endpoint to fetch stored conversion rates
+   * GET /leads/conversion-rates
+   * Each rate includes the smoothed conversionRate used for scoring, the rawConversionRate
+   * and a 0-1 confidence derived from pastTotalCount
+   */
   async getConversionRates(req: Request, res: Response) {
     try {
       const clientId = req.query.clientId as string | undefined;
@@ -755,74 +781,295 @@ if (req.query.clientId) {
     }
   }
 
-  async hubspotSubscription(req: Request, res: Response): Promise<void> {
+  /**
+   * Endpoint to compare time-decayed and all-time conversion rates side by side
+   * GET /leads/conversion-rates/compare?clientId=&halfLifeWeeks=
+   */
+  async compareConversionRates(req: Request, res: Response): Promise<void> {
     try {
-      const { propertyValue, propertyName, objectId } = req.body[0];
+      const clientId = typeof req.query.clientId === "string" ? req.query.clientId : undefined;
+      if (!clientId || !mongoose.Types.ObjectId.isValid(clientId)) {
+        utils.sendErrorResponse(res, "A valid clientId is required");
+        return;
+      }
 
-      // Validate required fields
-      if (!propertyValue || !propertyName || !objectId) {
-        utils.sendErrorResponse(res, {
-          message: "propertyValue, propertyName, and objectId are required",
-          statusCode: 400
-        });
+      let halfLifeWeeks: number | undefined;
+      if (req.query.halfLifeWeeks !== undefined) {
+        halfLifeWeeks = Number(req.query.halfLifeWeeks);
+        if (!isFinite(halfLifeWeeks) || halfLifeWeeks <= 0) {
+          utils.sendErrorResponse(res, "halfLifeWeeks must be a positive number");
+          return;
+        }
+      }
+
+      const comparison = await this.service.compareConversionRates(clientId, halfLifeWeeks);
+
+      utils.sendSuccessResponse(res, 200, {
+        success: true,
+        data: comparison,
+      });
+    } catch (error) {
+      console.error("Error in compareConversionRates:", error);
+      utils.sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Download the leads of the lead table as CSV or XLSX
+   * GET /leads/export
+   * Query params:
+   *   format (csv | xlsx), columns (comma separated), sortBy, sortOrder, plus the filters of GET /leads/paginated
+   * XLSX is limited to EXPORT.XLSX_MAX_ROWS leads (10,000); larger exports have to use CSV
+   */
+  async exportLeads(req: Request, res: Response): Promise<void> {
+    const clientId = typeof req.query.clientId === "string" ? req.query.clientId : undefined;
+    const startDate = typeof req.query.startDate === "string" ? req.query.startDate : undefined;
+    const endDate = typeof req.query.endDate === "string" ? req.query.endDate : undefined;
+    const format = req.query.format === "xlsx" ? "xlsx" : "csv";
+    const sortBy = req.query.sortBy === "score" ? "score" : "date";
+    const sortOrder = req.query.sortOrder === "asc" ? "asc" : "desc";
+
+    let columns: string[];
+    try {
+      const requestedColumns = typeof req.query.columns === "string"
+        ? req.query.columns.split(",").map(column => column.trim()).filter(Boolean)
+        : undefined;
+      columns = this.service.resolveExportColumns(requestedColumns);
+    } catch (error) {
+      utils.sendErrorResponse(res, error);
+      return;
+    }
+
+    const fileName = `leads-${new Date().toISOString().slice(0, 10)}.${format}`;
+    res.setHeader(
+      "Content-Type",
+      format === "xlsx"
+        ? "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+        : "text/csv; charset=utf-8"
+    );
+    res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+
+    try {
+      const count = await this.service.exportLeads(
+        { clientId, startDate, endDate, filters: parseLeadFilters(req), columns, format, sortBy, sortOrder },
+        res
+      );
+      console.log(`[Lead Export] Exported ${count} leads as ${format} for client ${clientId ?? "all"}`);
+    } catch (error) {
+      console.error("Error in exportLeads:", error);
+      // Rows may already have been sent, so the response can only be aborted
+      if (res.headersSent) {
+        res.destroy(error as Error);
+      } else {
+        // The error is JSON, not the file the headers announced
+        res.removeHeader("Content-Type");
+        res.removeHeader("Content-Disposition");
+        utils.sendErrorResponse(res, error);
+      }
+    }
+  }
+
+  /**
+   * Import leads from an uploaded CSV/XLSX file
+   * POST /leads/import (multipart/form-data)
+   * Fields: file, clientId, mapping (JSON object of lead field -> file column),
+   *   dryRun (defaults to true), skipInvalidRows (defaults to false)
+   */
+  async importLeads(req: Request, res: Response): Promise<void> {
+    try {
+      const { clientId } = req.body;
+      if (!clientId || !mongoose.Types.ObjectId.isValid(clientId)) {
+        utils.sendErrorResponse(res, "A valid clientId is required");
         return;
       }
 
-      // Validate objectId format (HubSpot contact IDs are typically numeric)
-      if (!/^\d+$/.test(objectId)) {
-        utils.sendErrorResponse(res, {
-          message: "objectId must be a numeric value (HubSpot contact ID)",
-          statusCode: 400
-        });
+      if (!req.file) {
+        utils.sendErrorResponse(res, "A CSV or XLSX file is required");
+        return;
+      }
+      if (!/\.(csv|xlsx|xls)$/i.test(req.file.originalname)) {
+        utils.sendErrorResponse(res, "Only .csv, .xlsx and .xls files are supported");
         return;
       }
 
-      // HubSpot API token
-      const token = "pat-na2-8d304536-4f6f-4d43-8e1d-6dd124fe6d77";
-      
-      // Make HubSpot API call to get contact details
-      const hubspotUrl = `https://api.hubapi.com/crm/v3/objects/contacts/${objectId}`;
-      console.log("Making HubSpot API call to:", hubspotUrl);
-      
-      const hubspotResponse = await fetch(hubspotUrl, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
+      let mapping: any;
+      try {
+        mapping = typeof req.body.mapping === "string" ? JSON.parse(req.body.mapping) : req.body.mapping;
+      } catch {
+        utils.sendErrorResponse(res, "mapping must be valid JSON");
+        return;
+      }
+      if (!mapping || typeof mapping !== "object" || Array.isArray(mapping)) {
+        utils.sendErrorResponse(res, "mapping must be an object of lead field to file column");
+        return;
+      }
+
+      const dryRun = String(req.body.dryRun ?? "true") !== "false";
+      const skipInvalidRows = String(req.body.skipInvalidRows ?? "false") === "true";
+
+      const report = await this.service.importLeads({
+        clientId,
+        file: req.file,
+        mapping,
+        dryRun,
+        skipInvalidRows,
+      });
+
+      // New leads change the conversion rates, so refresh them and the lead scores
+      if (report.committed) {
+        try {
+          await this.service.processLeadScoresAndCRsByClientId(clientId);
+        } catch (scoreError: any) {
+          console.error(`Error updating lead scores after lead import:`, scoreError);
         }
+      }
+
+      utils.sendSuccessResponse(res, 200, {
+        success: true,
+        message: report.committed
+          ? `${report.validRows} lead(s) imported`
+          : `Dry run: ${report.validRows} valid row(s), ${report.invalidRows} invalid row(s)`,
+        data: report,
       });
+    } catch (error) {
+      console.error("Error in importLeads:", error);
+      utils.sendErrorResponse(res, error);
+    }
+  }
 
-      if (!hubspotResponse.ok) {
-        const errorText = await hubspotResponse.text();
-        console.error("HubSpot API Error Details:", {
-          status: hubspotResponse.status,
-          statusText: hubspotResponse.statusText,
-          url: hubspotUrl,
-          objectId,
-          responseBody: errorText
-        });
+  /**
+   * Review queue of possible duplicate leads of a client
+   * GET /leads/duplicates?clientId=
+   */
+  async getDuplicateQueue(req: Request, res: Response): Promise<void> {
+    try {
+      const clientId = typeof req.query.clientId === "string" ? req.query.clientId : undefined;
+      if (!clientId || !mongoose.Types.ObjectId.isValid(clientId)) {
+        utils.sendErrorResponse(res, "A valid clientId is required");
+        return;
       }
 
-      const contactData = await hubspotResponse.json();
-      
-      // Console log the response as requested
-      console.log("HubSpot API Response:", JSON.stringify(contactData, null, 2));
+      const groups = await this.service.getDuplicateQueue(clientId);
 
       utils.sendSuccessResponse(res, 200, {
         success: true,
-        message: "Property data processed successfully",
         data: {
-          propertyValue,
-          propertyName,
-          objectId,
-          contactDetails: contactData
-        }
+          totalGroups: groups.length,
+          totalDuplicateLeads: groups.reduce((sum, group) => sum + group.leadIds.length - 1, 0),
+          groups,
+        },
       });
-    } catch (error: any) {
-      console.error("Error in processPropertyData:", error);
+    } catch (error) {
+      console.error("Error in getDuplicateQueue:", error);
+      utils.sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Mark a group of leads as not being duplicates
+   * POST /leads/duplicates/dismiss
+   */
+  async dismissDuplicateGroup(req: Request, res: Response): Promise<void> {
+    try {
+      const { clientId, leadIds } = req.body;
+      if (!clientId || !mongoose.Types.ObjectId.isValid(clientId)) {
+        utils.sendErrorResponse(res, "A valid clientId is required");
+        return;
+      }
+      if (!Array.isArray(leadIds) || leadIds.some((id: any) => !mongoose.Types.ObjectId.isValid(id))) {
+        utils.sendErrorResponse(res, "leadIds must be an array of valid lead ids");
+        return;
+      }
+
+      const review = await this.service.dismissDuplicateGroup(clientId, leadIds.map(String), req.context.getUserId());
+
+      utils.sendSuccessResponse(res, 200, { success: true, data: review });
+    } catch (error) {
+      console.error("Error in dismissDuplicateGroup:", error);
+      utils.sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Merge duplicate leads into one lead and soft-delete the others
+   * POST /leads/duplicates/merge
+   */
+  async mergeDuplicateLeads(req: Request, res: Response): Promise<void> {
+    try {
+      const { winnerId, loserIds } = req.body;
+      if (!winnerId || !mongoose.Types.ObjectId.isValid(winnerId)) {
+        utils.sendErrorResponse(res, "A valid winnerId is required");
+        return;
+      }
+      if (!Array.isArray(loserIds) || loserIds.length === 0 || loserIds.some((id: any) => !mongoose.Types.ObjectId.isValid(id))) {
+        utils.sendErrorResponse(res, "loserIds must be a non-empty array of valid lead ids");
+        return;
+      }
+
+      const result = await this.service.mergeLeads(winnerId, loserIds.map(String), {
+        source: 'manual',
+        actorId: req.context.getUserId()
+      });
+
+      utils.sendSuccessResponse(res, 200, {
+        success: true,
+        message: `${result.mergedLeadIds.length} lead(s) merged successfully`,
+        data: result,
+      });
+    } catch (error) {
+      console.error("Error in mergeDuplicateLeads:", error);
+      utils.sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Endpoint to get the change history (status, amounts, notes) of a lead
+   * GET /leads/:id/history
+   */
+  async getLeadHistory(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      if (!mongoose.Types.ObjectId.isValid(id)) {
+        utils.sendErrorResponse(res, "Invalid lead id format");
+        return;
+      }
+
+      const history = await this.service.getLeadHistory(id);
+
+      utils.sendSuccessResponse(res, 200, {
+        success: true,
+        data: history,
+      });
+    } catch (error) {
+      console.error("Error in getLeadHistory:", error);
+      utils.sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Endpoint to explain how a lead's score was calculated
+   * GET /leads/:id/score-explanation
+   */
+  async getScoreExplanation(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      if (!mongoose.Types.ObjectId.isValid(id)) {
+        utils.sendErrorResponse(res, "Invalid lead id format");
+        return;
+      }
+
+      const explanation = await this.service.explainLeadScore(id);
+
+      utils.sendSuccessResponse(res, 200, {
+        success: true,
+        data: explanation,
+      });
+    } catch (error) {
+      console.error("Error in getScoreExplanation:", error);
       utils.sendErrorResponse(res, error);
     }
   }
+
   async syncClientActivity(req: Request, res: Response): Promise<void> {
     try {
 
@@ -845,3 +1092,42 @@ if (req.query.clientId) {
   }
 
 }
+
+/**
+ * Parse the lead table filters from the query string (shared by the paginated list and the export)
+ */
+function parseLeadFilters(req: Request): FilterOptions {
+  const filters: FilterOptions = {};
+  if (typeof req.query.service === "string")
+    filters.service = req.query.service.trim();
+  if (typeof req.query.adSetName === "string")
+    filters.adSetName = req.query.adSetName.trim();
+  if (typeof req.query.adName === "string")
+    filters.adName = req.query.adName.trim();
+  if (typeof req.query.zip === "string")
+    filters.zip = req.query.zip.trim();
+  if (typeof req.query.status === "string")
+    filters.status = req.query.status.trim();
+  if (typeof req.query.unqualifiedLeadReason === "string")
+    filters.unqualifiedLeadReason = req.query.unqualifiedLeadReason.trim();
+
+  // Lead score range - ignored when not a number
+  const minLeadScore = Number(req.query.minLeadScore);
+  if (req.query.minLeadScore !== undefined && req.query.minLeadScore !== "" && isFinite(minLeadScore))
+    filters.minLeadScore = minLeadScore;
+  const maxLeadScore = Number(req.query.maxLeadScore);
+  if (req.query.maxLeadScore !== undefined && req.query.maxLeadScore !== "" && isFinite(maxLeadScore))
+    filters.maxLeadScore = maxLeadScore;
+
+  // Search 'name' query parameter across multiple fields
+  if (typeof req.query.name === "string" && req.query.name.trim() !== "") {
+    const searchTerm = req.query.name.trim();
+    filters.$or = [
+      { name: { $regex: searchTerm, $options: "i" } },
+      { service: { $regex: searchTerm, $options: "i" } },
+      { adSetName: { $regex: searchTerm, $options: "i" } },
+      { adName: { $regex: searchTerm, $options: "i" } }
+    ];
+  }
+  return filters;
+}
@@ -13,12 +13,13 @@ class MetaOAuthController {
   /**
    * Handle Meta OAuth callback
    * GET /api/v1/generate-meta-access-token/
-   * Note: No authentication required - updates hardcoded client ID
+   * Note: No authentication required. With a state from the connect URL the token is stored
+   * on that client, without one it updates the hardcoded client IDs (the shared token)
    */
   generateMetaAccessToken = async (req: Request, res: Response): Promise<void> => {
     try {
       // Step 1: Extract code and error from query parameters
-      const { code, error, error_description } = req.query;
+      const { code, error, error_description, state } = req.query;
 
       // Handle OAuth errors from Facebook
       if (error) {
@@ -41,7 +42,15 @@ class MetaOAuthController {
         );
       }
 
-      // Step 2: Hardcoded client IDs - no authentication required
+      // Step 2: A client connecting their own account; the state was signed for them
+      if (typeof state === 'string' && state) {
+        const clientId = this.metaOAuthService.resolveConnectState(state);
+        await this.metaOAuthService.completeOAuthFlow(clientId, code);
+        const frontendUrl = config.FRONTEND_URL || 'http://localhost:8080';
+        return res.redirect(`${frontendUrl}/profile?meta_success=true`);
+      }
+
+      // Hardcoded client IDs - no authentication required
       const hardcodedClientIds = [
         '683acb7561f26ee98f5d2d51',
         '68ac6ebce46631727500499b'
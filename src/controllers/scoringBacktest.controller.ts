@@ -0,0 +1,107 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+import { ScoringBacktestService } from "../services/leads/service/ScoringBacktestService.js";
+import utils from "../utils/utils.js";
+
+class ScoringBacktestController {
+  private scoringBacktestService: ScoringBacktestService;
+
+  constructor() {
+    this.scoringBacktestService = new ScoringBacktestService();
+  }
+
+  /**
+   * Run a lead scoring backtest for a client and store the result
+   * POST /admin/scoring-backtests
+   */
+  public runBacktest = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { clientId, profileId, priorStrength, minSampleSize } = req.body;
+
+      if (!clientId || !mongoose.Types.ObjectId.isValid(clientId)) {
+        utils.sendErrorResponse(res, "A valid clientId is required");
+        return;
+      }
+
+      if (profileId !== undefined && !mongoose.Types.ObjectId.isValid(profileId)) {
+        utils.sendErrorResponse(res, "Invalid profileId format");
+        return;
+      }
+
+      for (const [name, value] of Object.entries({ priorStrength, minSampleSize })) {
+        if (value !== undefined && (!isFinite(Number(value)) || Number(value) < 0)) {
+          utils.sendErrorResponse(res, `${name} must be a non-negative number`);
+          return;
+        }
+      }
+
+      const backtest = await this.scoringBacktestService.runBacktest({
+        clientId,
+        profileId,
+        priorStrength: priorStrength !== undefined ? Number(priorStrength) : undefined,
+        minSampleSize: minSampleSize !== undefined ? Number(minSampleSize) : undefined,
+        createdBy: req.context.getUserId(),
+      });
+
+      utils.sendSuccessResponse(res, 201, {
+        success: backtest.status === "completed",
+        message: backtest.status === "completed"
+          ? "Backtest completed successfully"
+          : `Backtest failed: ${backtest.error}`,
+        data: backtest,
+      });
+    } catch (error) {
+      utils.sendErrorResponse(res, error);
+    }
+  };
+
+  /**
+   * List backtest runs for a client
+   * GET /admin/scoring-backtests?clientId=
+   */
+  public getBacktests = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const clientId = typeof req.query.clientId === "string" ? req.query.clientId : undefined;
+
+      if (!clientId || !mongoose.Types.ObjectId.isValid(clientId)) {
+        utils.sendErrorResponse(res, "A valid clientId is required");
+        return;
+      }
+
+      const backtests = await this.scoringBacktestService.getBacktests(clientId);
+
+      utils.sendSuccessResponse(res, 200, {
+        success: true,
+        data: backtests,
+      });
+    } catch (error) {
+      utils.sendErrorResponse(res, error);
+    }
+  };
+
+  /**
+   * Get a single backtest run with calibration and decile details
+   * GET /admin/scoring-backtests/:backtestId
+   */
+  public getBacktestById = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { backtestId } = req.params;
+
+      if (!mongoose.Types.ObjectId.isValid(backtestId)) {
+        utils.sendErrorResponse(res, "Invalid backtestId format");
+        return;
+      }
+
+      const backtest = await this.scoringBacktestService.getBacktestById(backtestId);
+
+      utils.sendSuccessResponse(res, 200, {
+        success: true,
+        data: backtest,
+      });
+    } catch (error) {
+      utils.sendErrorResponse(res, error);
+    }
+  };
+}
+
+export default new ScoringBacktestController();
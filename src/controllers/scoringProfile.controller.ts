@@ -0,0 +1,132 @@
+import { Request, Response } from "express";
+import mongoose from "mongoose";
+import { ScoringProfileService } from "../services/leads/service/ScoringProfileService.js";
+import utils from "../utils/utils.js";
+
+class ScoringProfileController {
+  private scoringProfileService: ScoringProfileService;
+
+  constructor() {
+    this.scoringProfileService = new ScoringProfileService();
+  }
+
+  /**
+   * List all scoring profile versions of a client
+   * GET /admin/scoring-profiles?clientId=
+   */
+  public getProfiles = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const clientId = typeof req.query.clientId === "string" ? req.query.clientId : undefined;
+
+      if (!clientId || !mongoose.Types.ObjectId.isValid(clientId)) {
+        utils.sendErrorResponse(res, "A valid clientId is required");
+        return;
+      }
+
+      const profiles = await this.scoringProfileService.getProfiles(clientId);
+
+      utils.sendSuccessResponse(res, 200, {
+        success: true,
+        data: profiles,
+      });
+    } catch (error) {
+      utils.sendErrorResponse(res, error);
+    }
+  };
+
+  /**
+   * Create a scoring profile (or the next version of an existing profile name)
+   * POST /admin/scoring-profiles
+   */
+  public createProfile = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { clientId, name, description, fieldWeights, extraFieldWeights } = req.body;
+
+      if (!clientId || !mongoose.Types.ObjectId.isValid(clientId)) {
+        utils.sendErrorResponse(res, "A valid clientId is required");
+        return;
+      }
+
+      if (!fieldWeights || typeof fieldWeights !== "object") {
+        utils.sendErrorResponse(res, "fieldWeights object is required");
+        return;
+      }
+
+      const profile = await this.scoringProfileService.createProfile({
+        clientId,
+        name,
+        description,
+        fieldWeights,
+        extraFieldWeights,
+        createdBy: req.context.getUserId(),
+      });
+
+      utils.sendSuccessResponse(res, 201, {
+        success: true,
+        message: `Scoring profile '${profile.name}' version ${profile.version} created`,
+        data: profile,
+      });
+    } catch (error) {
+      utils.sendErrorResponse(res, error);
+    }
+  };
+
+  /**
+   * Preview lead scores for a profile without saving them
+   * POST /admin/scoring-profiles/:profileId/preview
+   */
+  public previewProfile = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { profileId } = req.params;
+
+      if (!mongoose.Types.ObjectId.isValid(profileId)) {
+        utils.sendErrorResponse(res, "Invalid profileId format");
+        return;
+      }
+
+      const preview = await this.scoringProfileService.previewProfile(profileId);
+
+      utils.sendSuccessResponse(res, 200, {
+        success: true,
+        data: preview,
+      });
+    } catch (error) {
+      utils.sendErrorResponse(res, error);
+    }
+  };
+
+  /**
+   * Activate a profile and re-score the client's leads with it
+   * POST /admin/scoring-profiles/:profileId/activate
+   */
+  public activateProfile = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { profileId } = req.params;
+
+      if (!mongoose.Types.ObjectId.isValid(profileId)) {
+        utils.sendErrorResponse(res, "Invalid profileId format");
+        return;
+      }
+
+      const { profile, rescoreResult } = await this.scoringProfileService.activateProfile(profileId);
+
+      utils.sendSuccessResponse(res, 200, {
+        success: true,
+        message: `Scoring profile '${profile.name}' version ${profile.version} activated`,
+        data: {
+          profile,
+          rescore: {
+            totalLeads: rescoreResult.totalProcessedLeads,
+            updatedLeads: rescoreResult.updatedLeads,
+            updatedConversionRates: rescoreResult.updatedConversionRates,
+            errors: rescoreResult.errors,
+          },
+        },
+      });
+    } catch (error) {
+      utils.sendErrorResponse(res, error);
+    }
+  };
+}
+
+export default new ScoringProfileController();
@@ -1,15 +1,31 @@
 import { Request, Response } from "express";
 import { TargetService } from "../services/target/service/service.js";
+import { TargetForecastService } from "../services/target/service/forecast.service.js";
+import { TargetPlannerService } from "../services/target/service/planner.service.js";
+import { TargetVersionService } from "../services/target/service/version.service.js";
 import utils from "../utils/utils.js";
+import { CustomError, ErrorCode } from "../pkg/error/custom_error.js";
 import { IWeeklyTargetDocument } from "../services/target/repository/models/target.model.js";
 
 export class TargetController {
   private service: TargetService;
+  private forecastService: TargetForecastService;
+  private plannerService: TargetPlannerService;
+  private versionService: TargetVersionService;
 
   constructor() {
     this.service = new TargetService();
+    this.forecastService = new TargetForecastService();
+    this.plannerService = new TargetPlannerService();
+    this.versionService = new TargetVersionService();
     this.upsertTarget = this.upsertTarget.bind(this);
     this.getTargets = this.getTargets.bind(this);
+    this.getForecast = this.getForecast.bind(this);
+    this.planTargets = this.planTargets.bind(this);
+    this.savePlan = this.savePlan.bind(this);
+    this.getVersions = this.getVersions.bind(this);
+    this.compareVersion = this.compareVersion.bind(this);
+    this.restoreVersion = this.restoreVersion.bind(this);
   }
 
   async upsertTarget(req: Request, res: Response): Promise<void> {
@@ -45,47 +61,61 @@ export class TargetController {
         "year",
         "weekNumber",
         "managementCost",
+        "channelTargets",
       ];
       const results: any[] = [];
       const errors: any[] = [];
 
       const isYearlyTargetArray = targets.length > 1 && targets.every(target => target.queryType === "yearly");
+      // Whoever is signed in made the change, also when an admin edits a client's targets
+      const changedBy = req.context.getUserId();
       
       if (isYearlyTargetArray) {
-        for (let i = 0; i < targets.length; i++) {
-          const target = targets[i];
-          const { startDate, endDate, queryType, ...targetData } = target;
+        // The months of a yearly target are saved separately but recorded as one version
+        const periodStart = targets.map(target => target.startDate).filter(Boolean).sort()[0];
+        const periodEnd = targets.map(target => target.endDate || target.startDate).filter(Boolean).sort().pop();
+        const saveMonths = async () => {
+          for (let i = 0; i < targets.length; i++) {
+            const target = targets[i];
+            const { startDate, endDate, queryType, ...targetData } = target;
 
-          if (!startDate || !queryType) {
-            continue;
-          }
+            if (!startDate || !queryType) {
+              continue;
+            }
 
-          const filteredTargetData: any = {};
-          for (const key of allowedFields) {
-            if (key in targetData) {
-              filteredTargetData[key] = targetData[key];
+            const filteredTargetData: any = {};
+            for (const key of allowedFields) {
+              if (key in targetData) {
+                filteredTargetData[key] = targetData[key];
+              }
             }
-          }
           
-          try {
-            const result = await this.service.upsertTargetByPeriod(
-              userId,
-              startDate,
-              endDate,
-              "monthly",
-              filteredTargetData
-            ) as  IWeeklyTargetDocument[];
+            try {
+              const result = await this.service.upsertTargetByPeriod(
+                userId,
+                startDate,
+                endDate,
+                "monthly",
+                filteredTargetData,
+                null
+              ) as  IWeeklyTargetDocument[];
 
-            result.map((weeklyData) => ({...weeklyData, queryType: "yearly"}))
-            results.push(result);
-          } catch (err) {
-            console.error(`Error processing target ${i + 1}:`, err);
-            errors.push({ 
-              targetIndex: i, 
-              error: err instanceof Error ? err.message : String(err),
-              stack: err instanceof Error ? err.stack : undefined
-            });
+              result.map((weeklyData) => ({...weeklyData, queryType: "yearly"}))
+              results.push(result);
+            } catch (err) {
+              console.error(`Error processing target ${i + 1}:`, err);
+              errors.push({ 
+                targetIndex: i, 
+                error: err instanceof Error ? err.message : String(err),
+                stack: err instanceof Error ? err.stack : undefined
+              });
+            }
           }
+        };
+        if (periodStart) {
+          await this.service.trackVersion(userId, periodStart, periodEnd, { changedBy, queryType: "yearly" }, saveMonths);
+        } else {
+          await saveMonths();
         }
       } else {
         // Process individual targets (weekly/monthly/single yearly)
@@ -112,7 +142,8 @@ export class TargetController {
               startDate,
               endDate,
               queryType,
-              filteredTargetData
+              filteredTargetData,
+              { changedBy }
             );   
             
             
@@ -248,4 +279,150 @@ export class TargetController {
       utils.sendErrorResponse(res, error);
     }
   }
+
+  /**
+   * GET /api/v1/targets/forecast?date=YYYY-MM-DD&userId=
+   * Month-end and year-end projections of revenue, leads and ad spend with their pacing.
+   * date defaults to today; only admins can forecast another user.
+   */
+  async getForecast(req: Request, res: Response): Promise<void> {
+    try {
+      const { date } = req.query;
+      const userId = this.resolveUserId(req, req.query.userId);
+
+      if (date !== undefined && typeof date !== "string") {
+        utils.sendErrorResponse(res, new CustomError(ErrorCode.VALIDATION_ERROR, "date must be a single YYYY-MM-DD value"));
+        return;
+      }
+
+      const forecast = await this.forecastService.getForecast(userId, date);
+      utils.sendSuccessResponse(res, 200, { success: true, data: forecast });
+    } catch (error) {
+      console.error("Error in getForecast:", error);
+      utils.sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * POST /api/v1/targets/plan
+   * Body: { revenueGoal, queryType, startDate, rates?, scenarios?: [{ name, rates?, adjustPercent? }], userId? }
+   * Leads, estimates, jobs and ad spend needed for the revenue goal, per scenario
+   */
+  async planTargets(req: Request, res: Response): Promise<void> {
+    try {
+      const { revenueGoal, queryType, startDate, rates, scenarios } = req.body ?? {};
+      const plan = await this.plannerService.plan(this.resolveUserId(req, req.body?.userId), {
+        revenueGoal,
+        queryType,
+        startDate,
+        rates,
+        scenarios,
+      });
+      utils.sendSuccessResponse(res, 200, { success: true, data: plan });
+    } catch (error) {
+      console.error("Error in planTargets:", error);
+      utils.sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * POST /api/v1/targets/plan/save
+   * Same body as /plan plus scenario (defaults to "base"); saves that scenario as the period's targets
+   */
+  async savePlan(req: Request, res: Response): Promise<void> {
+    try {
+      const { revenueGoal, queryType, startDate, rates, scenarios, scenario } = req.body ?? {};
+      if (scenario !== undefined && typeof scenario !== "string") {
+        utils.sendErrorResponse(res, new CustomError(ErrorCode.VALIDATION_ERROR, "scenario must be a string"));
+        return;
+      }
+
+      const result = await this.plannerService.savePlan(this.resolveUserId(req, req.body?.userId), {
+        revenueGoal,
+        queryType,
+        startDate,
+        rates,
+        scenarios,
+        scenario,
+      }, req.context.getUserId());
+      utils.sendSuccessResponse(res, 200, {
+        success: true,
+        data: result,
+        message: `Saved the ${result.scenario.name} plan as ${result.targets.length} weekly targets`,
+      });
+    } catch (error) {
+      console.error("Error in savePlan:", error);
+      utils.sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * GET /api/v1/targets/versions?startDate=YYYY-MM-DD&endDate=YYYY-MM-DD&userId=
+   * Target versions touching the range, newest first
+   */
+  async getVersions(req: Request, res: Response): Promise<void> {
+    try {
+      const { startDate, endDate } = req.query;
+      const versions = await this.versionService.listVersions(
+        this.resolveUserId(req, req.query.userId),
+        startDate as string,
+        endDate as string
+      );
+      utils.sendSuccessResponse(res, 200, { success: true, data: versions });
+    } catch (error) {
+      console.error("Error in getVersions:", error);
+      utils.sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * GET /api/v1/targets/versions/:versionId?userId=
+   * The weeks of a version before it, as it saved them and as they are now
+   */
+  async compareVersion(req: Request, res: Response): Promise<void> {
+    try {
+      const comparison = await this.versionService.compareVersion(
+        this.resolveUserId(req, req.query.userId),
+        req.params.versionId
+      );
+      utils.sendSuccessResponse(res, 200, { success: true, data: comparison });
+    } catch (error) {
+      console.error("Error in compareVersion:", error);
+      utils.sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * POST /api/v1/targets/versions/:versionId/restore
+   * Body: { snapshot?: "after" | "before", userId? }
+   * Restore every week the version touched, as it saved them (default) or as they were before it
+   */
+  async restoreVersion(req: Request, res: Response): Promise<void> {
+    try {
+      const { snapshot = "after" } = req.body ?? {};
+      const targets = await this.versionService.restoreVersion(
+        this.resolveUserId(req, req.body?.userId),
+        req.params.versionId,
+        snapshot,
+        req.context.getUserId()
+      );
+      utils.sendSuccessResponse(res, 200, {
+        success: true,
+        data: targets,
+        message: `Restored ${targets.length} weekly targets`,
+      });
+    } catch (error) {
+      console.error("Error in restoreVersion:", error);
+      utils.sendErrorResponse(res, error);
+    }
+  }
+
+  // Admins can work on another user's targets, same as upsertTarget
+  private resolveUserId(req: Request, requested: unknown): string {
+    const user = req.context.getUser();
+    if (user && user.role === "ADMIN" && typeof requested === "string" && requested) {
+      return requested;
+    }
+    return req.context.getUserId();
+  }
 }
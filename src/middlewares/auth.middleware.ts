@@ -9,6 +9,8 @@ declare global {
     interface Request {
       context: Context;
       requestId: string;
+      // Only kept for webhook routes, see server.ts
+      rawBody?: Buffer;
     }
   }
 }
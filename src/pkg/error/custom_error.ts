@@ -1,11 +1,13 @@
 export class CustomError extends Error {
   public code: ErrorCode;
   public error: Error;
+  public details?: Record<string, any>;
 
-  constructor(code: ErrorCode, error: any) {
+  constructor(code: ErrorCode, error: any, details?: Record<string, any>) {
     super(error?.message || error);
     this.code = code;
     this.error = error;
+    this.details = details;
     this.logWithContext();
   }
 
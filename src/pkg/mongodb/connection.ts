@@ -2,6 +2,10 @@ import mongoose, { Connection } from "mongoose";
 import { config } from "../../config.js";
 import logger from "../../utils/logger.js";
 
+// Operations inside connection.transaction() callbacks use the transaction's session
+// without it being passed to every repository call
+mongoose.set("transactionAsyncLocalStorage", true);
+
 export const connectDB = async (): Promise<Connection | null> => {
   let conn: Connection | null = null;
   try {
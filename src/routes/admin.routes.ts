@@ -1,6 +1,9 @@
 import { Router } from "express";
 import {  isAdmin } from "../middlewares/auth.middleware.js";
 import adminController from "../controllers/admin.controller.js";
+import scoringProfileController from "../controllers/scoringProfile.controller.js";
+import scoringBacktestController from "../controllers/scoringBacktest.controller.js";
+import ghlSyncReportController from "../controllers/ghlSyncReport.controller.js";
 
 const router = Router();
 
@@ -14,6 +17,26 @@ router.delete("/users/:userId", isAdmin, adminController.deleteUser);
 router.post("/opportunity-sync/trigger", isAdmin, adminController.triggerOpportunitySync);
 router.post("/multi-client-opportunity-sync/trigger", isAdmin, adminController.triggerMultiClientOpportunitySync);
 router.post("/lead-sheets-sync/trigger", isAdmin, adminController.triggerLeadSheetsSync);
+router.post("/meta-spend-rollup/trigger", isAdmin, adminController.triggerMetaSpendRollup);
+router.post("/meta-token-health/trigger", isAdmin, adminController.triggerMetaTokenHealthCheck);
+
+// Meta connection health per client
+router.get("/meta-token-health", isAdmin, adminController.getMetaConnectionHealth);
+
+// Lead sheets sync run reports
+router.get("/lead-sheets-sync/reports", isAdmin, ghlSyncReportController.getReports);
+router.get("/lead-sheets-sync/reports/:reportId", isAdmin, ghlSyncReportController.getReportById);
+
+// Lead scoring profile routes
+router.get("/scoring-profiles", isAdmin, scoringProfileController.getProfiles);
+router.post("/scoring-profiles", isAdmin, scoringProfileController.createProfile);
+router.post("/scoring-profiles/:profileId/preview", isAdmin, scoringProfileController.previewProfile);
+router.post("/scoring-profiles/:profileId/activate", isAdmin, scoringProfileController.activateProfile);
+
+// Lead scoring backtest routes
+router.post("/scoring-backtests", isAdmin, scoringBacktestController.runBacktest);
+router.get("/scoring-backtests", isAdmin, scoringBacktestController.getBacktests);
+router.get("/scoring-backtests/:backtestId", isAdmin, scoringBacktestController.getBacktestById);
 
 
 export default router; 
\ No newline at end of file
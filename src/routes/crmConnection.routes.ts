@@ -0,0 +1,12 @@
+import { Router } from "express";
+import crmConnectionController from "../controllers/crmConnection.controller.js";
+import { isAdmin } from "../middlewares/auth.middleware.js";
+
+const router = Router();
+
+// Per-client CRM connection routes
+router.get("/", isAdmin, crmConnectionController.getConnections);
+router.get("/:revenueProClientId", isAdmin, crmConnectionController.getConnection);
+router.put("/:revenueProClientId", isAdmin, crmConnectionController.upsertConnection);
+
+export default router;
@@ -54,4 +54,37 @@ router.post('/force-sync', (req, res) => facebookAdsController.forceSyncWeeklyDa
  */
 router.get('/saved-analytics', (req, res) => facebookAdsController.getSavedAnalytics(req, res));
 
+/**
+ * GET /api/v1/facebook/meta-connect-url
+ * Meta login URL that stores the resulting token on the client instead of the shared token owner
+ * Query params: clientId (admins only)
+ */
+router.get('/meta-connect-url', (req, res) => facebookAdsController.getMetaConnectUrl(req, res));
+
+/**
+ * POST /api/v1/facebook/insights-backfill
+ * Backfill weekly analytics through async Meta insights report runs, runs in the background
+ * Query params: clientId, startDate (YYYY-MM-DD), endDate (YYYY-MM-DD)
+ */
+router.post('/insights-backfill', (req, res) => facebookAdsController.startInsightsBackfill(req, res));
+
+/**
+ * GET /api/v1/facebook/insights-backfill
+ * Backfill jobs of a client, newest first
+ * Query params: clientId
+ */
+router.get('/insights-backfill', (req, res) => facebookAdsController.getInsightsBackfills(req, res));
+
+/**
+ * GET /api/v1/facebook/insights-backfill/:jobId
+ * Progress of a backfill job
+ */
+router.get('/insights-backfill/:jobId', (req, res) => facebookAdsController.getInsightsBackfill(req, res));
+
+/**
+ * POST /api/v1/facebook/insights-backfill/:jobId/resume
+ * Resume a failed or interrupted backfill from the week after its last completed week
+ */
+router.post('/insights-backfill/:jobId/resume', (req, res) => facebookAdsController.resumeInsightsBackfill(req, res));
+
 export default router;
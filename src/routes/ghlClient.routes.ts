@@ -1,5 +1,6 @@
 import { Router } from "express";
 import ghlClientController from "../controllers/ghlClient.controller.js";
+import ghlWebhookController from "../controllers/ghlWebhook.controller.js";
 import { isAdmin } from "../middlewares/auth.middleware.js";
 
 const router = Router();
@@ -9,6 +10,9 @@ router.post("/", isAdmin, ghlClientController.createGhlClient);
 router.get("/", isAdmin, ghlClientController.getAllGhlClients);
 router.get("/:locationId", isAdmin, ghlClientController.getGhlClientById);
 router.put("/:locationId", isAdmin, ghlClientController.updateGhlClient);
+router.post("/:locationId/tag-mapping/test", isAdmin, ghlClientController.testTagMapping);
+router.get("/:locationId/webhook-events", isAdmin, ghlWebhookController.getWebhookEvents);
+router.post("/:locationId/webhook-events/:eventId/replay", isAdmin, ghlWebhookController.replayWebhookEvent);
 
 export default router;
 
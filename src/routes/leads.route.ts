@@ -1,5 +1,6 @@
 import express from "express";
 import { LeadController } from "../controllers/leadController.js";
+import multerFS from "../middlewares/multer.middleware.js";
 const router = express.Router();
 const leadController = new LeadController();
 
@@ -10,6 +11,20 @@ router.delete("/", (req, res) => leadController.deleteLead(req, res));
 router.get("/conversion-rates", (req, res) =>
   leadController.getConversionRates(req, res)
 );
+router.get("/conversion-rates/compare", (req, res) =>
+  leadController.compareConversionRates(req, res)
+);
+router.get("/export", (req, res) => leadController.exportLeads(req, res));
+router.post("/import", multerFS.single("file"), (req, res) => leadController.importLeads(req, res));
+router.get("/duplicates", (req, res) => leadController.getDuplicateQueue(req, res));
+router.post("/duplicates/dismiss", (req, res) => leadController.dismissDuplicateGroup(req, res));
+router.post("/duplicates/merge", (req, res) => leadController.mergeDuplicateLeads(req, res));
+router.get("/:id/score-explanation", (req, res) =>
+  leadController.getScoreExplanation(req, res)
+);
+router.get("/:id/history", (req, res) =>
+  leadController.getLeadHistory(req, res)
+);
 router.get("/analytics/summary",(req, res)=> leadController.getAnalytics(req, res))
 router.get("/analytics/ad-table",(req, res)=> leadController.getAnalyticsTable(req, res))
 
@@ -5,7 +5,8 @@ const router: Router = express.Router();
 
 // Meta OAuth callback endpoint
 // Note: This is a GET endpoint because OAuth callbacks are GET requests
-// No authentication required - updates hardcoded client ID (683acb7561f26ee98f5d2d51)
+// No authentication required - updates hardcoded client ID (683acb7561f26ee98f5d2d51),
+// or the client named by the state of /api/v1/facebook/meta-connect-url
 // Support both with and without trailing slash for flexibility
 router.get("/generate-meta-access-token", metaOAuthController.generateMetaAccessToken);
 router.get("/generate-meta-access-token/", metaOAuthController.generateMetaAccessToken);
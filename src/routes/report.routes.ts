@@ -10,4 +10,11 @@ router.post('/upsert', controller.upsertActual);
 // Get actuals by period (weekly/monthly/yearly)
 router.get('/get', controller.getActualAndTargetReport);
 
+// Compare weekly actuals with CRM and lead data proposals, and accept or override them per field
+router.get('/reconciliation', controller.getReconciliation);
+router.post('/reconciliation', controller.reconcileWeek);
+
+// Weeks where manual Meta spend differs from the Meta rollup
+router.get('/meta-spend/mismatches', controller.getMetaSpendMismatches);
+
 export default router;
\ No newline at end of file
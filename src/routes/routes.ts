@@ -12,6 +12,7 @@ import cronLogsRouter from "./cronLogs.routes.js"
 import webhooksRouter from "./webhooks.routes.js"
 import ticketRouter from "./tickets.routes.js"
 import ghlClientRouter from "./ghlClient.routes.js"
+import crmConnectionRouter from "./crmConnection.routes.js"
 import aggregateRouter from "./aggregate.routes.js"
 import featureRequestRoutes from './featureRequest.route.js';
 import facebookAdsRouter from './facebookAds.routes.js';
@@ -43,6 +44,7 @@ const authenticatedRoutes: Route[] = [
   { path: "/api/v1/ip-tracking", router: ipTrackingRoutes },
   { path: "/api/v1/tickets", router: ticketRouter },
   { path: "/api/v1/ghl-clients", router: ghlClientRouter },
+  { path: "/api/v1/crm-connections", router: crmConnectionRouter },
   { path: "/api/v1/aggregate", router: aggregateRouter },
   { path: "/api/v1/feature-requests", router: featureRequestRoutes },
   { path: "/api/v1/facebook", router: facebookAdsRouter },
@@ -10,4 +10,16 @@ router.post('/upsert', controller.upsertTarget);
 // Get targets by period (weekly/monthly/yearly)
 router.get('/get', controller.getTargets);
 
+// Month-end and year-end forecast with pacing against target
+router.get('/forecast', controller.getForecast);
+
+// Reverse-funnel planning from a revenue goal, and saving a chosen scenario
+router.post('/plan', controller.planTargets);
+router.post('/plan/save', controller.savePlan);
+
+// Target versions: list by period, compare with the current targets and restore
+router.get('/versions', controller.getVersions);
+router.get('/versions/:versionId', controller.compareVersion);
+router.post('/versions/:versionId/restore', controller.restoreVersion);
+
 export default router;
\ No newline at end of file
@@ -1,15 +1,21 @@
 import express from "express";
 import { LeadController } from "../controllers/leadController.js";
 import { ActualController } from '../controllers/actualController.js';
+import ghlWebhookController from '../controllers/ghlWebhook.controller.js';
+import crmConnectionController from '../controllers/crmConnection.controller.js';
 
 
 const router = express.Router();
 const leadController = new LeadController();
 const actualController = new ActualController();
 
-// HubSpot subscription webhook - no authentication required
-router.post("/hubspot-subscription", (req, res) => leadController.hubspotSubscription(req, res));
+// HubSpot subscription webhook - verified with the portal's app secret (signature v3)
+router.post("/hubspot-subscription", crmConnectionController.receiveWebhook);
 router.get("/get-disengaged-clients", (req, res) => leadController.syncClientActivity(req, res));
 router.patch("/update-actual", (req, res) => actualController.updateWeeklyReporting(req, res));
+// GHL event webhook - verified with the location's webhook secret
+router.post("/ghl", ghlWebhookController.receiveWebhook);
+// CRM webhooks (ghl, hubspot, jobber) - verified per provider
+router.post("/crm/:provider", crmConnectionController.receiveWebhook);
 
 export default router;
@@ -14,6 +14,8 @@ import conversionRateUpdateService from "./services/cron/conversionRateUpdateSer
 import opportunitySyncCron from "./services/opportunities/cron/opportunitySync.cron.js";
 import multiClientOpportunitySyncCron from "./services/opportunities/cron/multiClientOpportunitySync.cron.js";
 import leadSheetsSyncCron from "./services/leads/cron/leadSheetsSync.cron.js";
+import metaSpendRollupCron from "./services/actual/cron/metaSpendRollup.cron.js";
+import metaTokenHealthCron from "./services/metaOAuth/cron/metaTokenHealth.cron.js";
 import dummyCronService from "./services/cron/dummyCron.service.js";
 
 // Initialize express app
@@ -50,7 +52,15 @@ app.use(passport.session());
 
 // Configure body parser
 app.use(express.urlencoded({ extended: true, limit: "10mb" }));
-app.use(express.json({ limit: "10mb" }));
+app.use(express.json({
+  limit: "10mb",
+  // Webhook signatures are computed over the exact bytes that were sent
+  verify: (req, _res, buf) => {
+    if (req.url?.startsWith("/api/v1/webhooks/")) {
+      (req as Request).rawBody = buf;
+    }
+  },
+}));
 
 // Connect to database and configure scheduler
 connectDB()
@@ -90,6 +100,14 @@ app.listen(PORT, () => {
   leadSheetsSyncCron.start();
   logger.info("Lead sheets sync cron job initialized");
 
+  // Start Meta spend rollup into weekly actuals
+  metaSpendRollupCron.start();
+  logger.info("Meta spend rollup cron job initialized");
+
+  // Start daily Meta token validity and expiry check
+  metaTokenHealthCron.start();
+  logger.info("Meta token health cron job initialized");
+
   // Start dummy cron job (runs every 10 minutes)
   dummyCronService.start();
   logger.info("Dummy cron job initialized (runs every 10 minutes)");
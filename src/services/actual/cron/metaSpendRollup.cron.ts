@@ -0,0 +1,88 @@
+import cron from 'node-cron';
+import { config } from '../../../config.js';
+import logger from '../../../utils/logger.js';
+import { MongoCronLogger } from '../../../utils/mongoCronLogger.js';
+import metaSpendRollupService, { MetaSpendRollupSummary } from '../service/metaSpendRollup.service.js';
+
+class MetaSpendRollupCron {
+  private isRunning = false;
+
+  public start(): void {
+    const schedule = config.META_SPEND_ROLLUP_CRON; // Default: daily at 5 AM UTC
+    cron.schedule(
+      schedule,
+      async () => {
+        if (this.isRunning) {
+          logger.warn('[Meta Spend Rollup Cron] Already running; skipping this tick');
+          return;
+        }
+        await this.runOnce();
+      },
+      { timezone: 'UTC' },
+    );
+
+    logger.info(`[Meta Spend Rollup Cron] Scheduled with '${schedule}'`);
+  }
+
+  public isRunningCheck(): boolean {
+    return this.isRunning;
+  }
+
+  /**
+   * Without a range the previous and the current week are rolled up, so the previous
+   * week gets its final spend once Meta has settled it
+   */
+  public async runOnce(
+    options: { startDate?: string; endDate?: string; type?: 'manual' | 'cron' } = {}
+  ): Promise<MetaSpendRollupSummary | null> {
+    this.isRunning = true;
+    const start = new Date();
+    const executionId = start.toISOString().replace(/[:.]/g, '-');
+    const type = options.type ?? 'cron';
+    const lastWeek = new Date(start.getTime() - 7 * 24 * 60 * 60 * 1000);
+    const startDate = options.startDate ?? lastWeek.toISOString().slice(0, 10);
+    const endDate = options.endDate ?? start.toISOString().slice(0, 10);
+    let logId: any = null;
+    let summary: MetaSpendRollupSummary | null = null;
+
+    try {
+      logId = await MongoCronLogger.logCronJobStart({
+        jobName: 'metaSpendRollup',
+        details: { startedAt: start.toISOString(), startDate, endDate },
+        executionId,
+        type,
+      });
+
+      logger.info('[Meta Spend Rollup Cron] Starting rollup', { startDate, endDate });
+
+      summary = await metaSpendRollupService.rollupAllClients(startDate, endDate);
+
+      await MongoCronLogger.logCronJobSuccess({
+        logId,
+        details: { ...summary, completedAt: new Date().toISOString() },
+        processedCount: summary.clients,
+      });
+
+      logger.info('[Meta Spend Rollup Cron] Rollup completed', summary);
+    } catch (error: any) {
+      logger.error('[Meta Spend Rollup Cron] Rollup failed', {
+        error: error?.message || String(error),
+        stack: error?.stack,
+      });
+
+      if (logId) {
+        await MongoCronLogger.logCronJobFailure({
+          logId,
+          error: error?.message || String(error),
+          details: { stack: error?.stack },
+        });
+      }
+    } finally {
+      this.isRunning = false;
+    }
+
+    return summary;
+  }
+}
+
+export default new MetaSpendRollupCron();
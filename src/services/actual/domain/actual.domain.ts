@@ -1,5 +1,49 @@
 import { IAdNamesAmount } from "../repository/models/actual.model.js";
 
+// Weekly actual fields that can be proposed from CRM and lead data
+export const RECONCILABLE_ACTUAL_FIELDS = ['leads', 'estimatesSet', 'estimatesRan', 'sales', 'revenue'] as const;
+export type ReconcilableActualField = typeof RECONCILABLE_ACTUAL_FIELDS[number];
+export type ReconcilableActualValues = Record<ReconcilableActualField, number>;
+
+// Fields automation can fill: the reconcilable ones plus the Meta spend rollup
+export const AUTOMATED_ACTUAL_FIELDS = [...RECONCILABLE_ACTUAL_FIELDS, 'metaBudgetSpent', 'adNamesAmount'] as const;
+export type AutomatedActualField = typeof AUTOMATED_ACTUAL_FIELDS[number];
+
+// Where a field's current value came from: a CRM/lead data proposal, the Meta rollup or manual entry
+export type ActualFieldSource = 'automation' | 'manual';
+
+// Spend the Meta rollup found for a week, kept even when the week's values were entered manually
+export interface IMetaSpendSnapshot {
+  metaSpend: number;
+  adNamesAmount: IAdNamesAmount[];
+  syncedAt: Date;
+}
+
+// Where ad spend went; the three budget fields say what it was for
+export const SPEND_CHANNELS = [
+  'meta', 'google_ads', 'nextdoor', 'angi', 'direct_mail', 'yelp', 'thumbtack', 'other'
+] as const;
+export type SpendChannel = typeof SPEND_CHANNELS[number];
+
+export interface IChannelSpend {
+  channel: SpendChannel;
+  campaign?: string | null;
+  amount: number;
+  // Leads the channel brought in, when known; needed for its cost per lead
+  leads?: number | null;
+}
+
+// Spend, leads and cost per lead of one channel over a period, next to its target when there is one
+export interface IChannelSummary {
+  channel: SpendChannel;
+  spend: number;
+  leads: number | null;
+  costPerLead: number | null;
+  targetBudget: number | null;
+  targetLeads: number | null;
+  targetCostPerLead: number | null;
+}
+
 export interface IMonthlyActual {
   month: number;
   testingBudgetSpent: number;
@@ -40,6 +84,9 @@ export interface IWeeklyActual {
   estimatesRan: number;
   estimatesSet: number;
   adNamesAmount: IAdNamesAmount[]; // new field: array of ad names with their budgets
+  channelSpend?: IChannelSpend[]; // spend per channel and campaign
+  automatedFields?: AutomatedActualField[]; // fields whose value came from automation
+  metaSpend?: IMetaSpendSnapshot | null;
 }
 
 export interface IActualQuery {
@@ -1,4 +1,11 @@
 import { Schema, model, Document } from 'mongoose';
+import {
+  AUTOMATED_ACTUAL_FIELDS,
+  AutomatedActualField,
+  IChannelSpend,
+  IMetaSpendSnapshot,
+  SPEND_CHANNELS
+} from '../../domain/actual.domain.js';
 
 export interface IAdNamesAmount {
   adName: string;
@@ -19,6 +26,9 @@ export interface IWeeklyActual {
   estimatesRan: number;
   estimatesSet: number;
   adNamesAmount: IAdNamesAmount[]; // new field: array of ad names with their budgets
+  channelSpend?: IChannelSpend[]; // spend per channel and campaign
+  automatedFields?: AutomatedActualField[]; // fields whose value came from automation
+  metaSpend?: IMetaSpendSnapshot | null;
 }
 
 export interface IWeeklyActualDocument extends IWeeklyActual, Document {}
@@ -46,6 +56,34 @@ const weeklyActualSchema = new Schema<IWeeklyActualDocument>({
     ],
     default: [],
     },
+  channelSpend: {
+    type: [
+      {
+        channel: { type: String, enum: SPEND_CHANNELS, required: true },
+        campaign: { type: String, default: null },
+        amount: { type: Number, required: true },
+        leads: { type: Number, default: null },
+        _id: false,
+      },
+    ],
+    default: [],
+  },
+  // Not set on weeks saved before fields were tracked
+  automatedFields: { type: [{ type: String, enum: AUTOMATED_ACTUAL_FIELDS }], default: undefined },
+  metaSpend: {
+    type: new Schema(
+      {
+        metaSpend: { type: Number, required: true },
+        adNamesAmount: {
+          type: [{ adName: { type: String, required: true }, budget: { type: Number, required: true }, _id: false }],
+          default: [],
+        },
+        syncedAt: { type: Date, required: true },
+      },
+      { _id: false }
+    ),
+    default: null,
+  },
 }, { timestamps: true });
 
 // Enforce uniqueness on (userId + startDate)
@@ -0,0 +1,34 @@
+import { Schema, model, Document } from 'mongoose';
+import { ReconcilableActualValues } from '../../domain/actual.domain.js';
+
+// Weekly actuals counted from a client's CRM by the opportunity sync
+export interface IWeeklyActualProposal {
+  userId: string;
+  startDate: string;
+  endDate: string;
+  source: 'ghl';
+  values: ReconcilableActualValues;
+  generatedAt: Date;
+}
+
+export interface IWeeklyActualProposalDocument extends IWeeklyActualProposal, Document {}
+
+const weeklyActualProposalSchema = new Schema<IWeeklyActualProposalDocument>({
+  userId: { type: String, required: true },
+  startDate: { type: String, required: true },
+  endDate: { type: String, required: true },
+  source: { type: String, enum: ['ghl'], required: true },
+  values: {
+    leads: { type: Number, required: true },
+    estimatesSet: { type: Number, required: true },
+    estimatesRan: { type: Number, required: true },
+    sales: { type: Number, required: true },
+    revenue: { type: Number, required: true },
+  },
+  generatedAt: { type: Date, required: true },
+}, { timestamps: true });
+
+// One proposal per client week, replaced by every sync run
+weeklyActualProposalSchema.index({ userId: 1, startDate: 1 }, { unique: true });
+
+export default model<IWeeklyActualProposalDocument>('WeeklyActualProposal', weeklyActualProposalSchema);
@@ -0,0 +1,36 @@
+import { Model } from "mongoose";
+import WeeklyActualProposal, {
+  IWeeklyActualProposal,
+  IWeeklyActualProposalDocument
+} from "./models/actualProposal.model.js";
+
+export class ActualProposalRepository {
+  private model: Model<IWeeklyActualProposalDocument>;
+
+  constructor() {
+    this.model = WeeklyActualProposal;
+  }
+
+  async saveProposal(data: IWeeklyActualProposal): Promise<IWeeklyActualProposalDocument> {
+    return await this.model.findOneAndUpdate(
+      { userId: data.userId, startDate: data.startDate },
+      { $set: data },
+      { new: true, upsert: true }
+    ).exec();
+  }
+
+  async getProposal(userId: string, startDate: string): Promise<IWeeklyActualProposal | null> {
+    return await this.model.findOne({ userId, startDate }).lean<IWeeklyActualProposal>().exec();
+  }
+
+  async getProposalsByDateRange(
+    userId: string,
+    startDate: string,
+    endDate: string
+  ): Promise<IWeeklyActualProposalDocument[]> {
+    return await this.model
+      .find({ userId, startDate: { $gte: startDate, $lte: endDate } })
+      .sort({ startDate: 1 })
+      .exec();
+  }
+}
@@ -1,6 +1,6 @@
 import { Model } from "mongoose";
 import WeeklyActual, { IWeeklyActualDocument } from "./models/actual.model.js";
-import { IWeeklyActual } from "../domain/actual.domain.js"; // Ensure this domain interface exists
+import { IMetaSpendSnapshot, IWeeklyActual } from "../domain/actual.domain.js"; // Ensure this domain interface exists
 import { clear, log } from "console";
 
 export class ActualRepository {
@@ -26,6 +26,21 @@ export class ActualRepository {
     return res;
   }
 
+  /**
+   * Store the Meta spend found for a week without touching the week's values
+   */
+  async saveMetaSpend(
+    userId: string,
+    startDate: string,
+    metaSpend: IMetaSpendSnapshot
+  ): Promise<IWeeklyActualDocument | null> {
+    return await this.model.findOneAndUpdate(
+      { userId, startDate },
+      { $set: { metaSpend } },
+      { new: true }
+    );
+  }
+
   async getActualsByDateRange(
     startDate: string,
     endDate: string,
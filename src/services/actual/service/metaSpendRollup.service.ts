@@ -0,0 +1,252 @@
+import {
+  ActualFieldSource,
+  AutomatedActualField,
+  IMetaSpendSnapshot,
+  IWeeklyActual
+} from "../domain/actual.domain.js";
+import { IAdNamesAmount } from "../repository/models/actual.model.js";
+import { ActualRepository } from "../repository/repository.js";
+import { ActualService } from "./service.js";
+import { fbWeeklyAnalyticsRepository } from "../../facebook/repository/FbWeeklyAnalyticsRepository.js";
+import { DateUtils } from "../../../utils/date.utils.js";
+import { CustomError, ErrorCode } from "../../../pkg/error/custom_error.js";
+import { config } from "../../../config.js";
+import logger from "../../../utils/logger.js";
+
+export interface MetaSpendMismatch {
+  startDate: string;
+  endDate: string;
+  // null when only the per-ad amounts differ
+  spend: { manual: number; meta: number; difference: number } | null;
+  ads: Array<{ adName: string; manual: number; meta: number; difference: number }>;
+}
+
+export interface MetaSpendRollupWeek {
+  startDate: string;
+  endDate: string;
+  metaSpend: number;
+  appliedFields: AutomatedActualField[];
+  mismatch: MetaSpendMismatch | null;
+}
+
+export interface MetaSpendRollupSummary {
+  startDate: string;
+  endDate: string;
+  tolerancePercent: number;
+  clients: number;
+  weeks: number;
+  flaggedWeeks: number;
+  failedClients: Array<{ clientId: string; error: string }>;
+}
+
+export class MetaSpendRollupService {
+  private actualRepository: ActualRepository;
+  private actualService: ActualService;
+
+  constructor() {
+    this.actualRepository = new ActualRepository();
+    this.actualService = new ActualService();
+  }
+
+  /**
+   * Roll up stored Meta spend for every client with analytics in the range.
+   * A client that fails is logged and skipped.
+   */
+  public async rollupAllClients(
+    startDate: string,
+    endDate: string,
+    tolerancePercent: number = config.META_SPEND_TOLERANCE_PERCENT
+  ): Promise<MetaSpendRollupSummary> {
+    this.validateTolerance(tolerancePercent);
+    const { rangeStart, rangeEnd } = this.getWeekRange(startDate, endDate);
+    const clientIds = await fbWeeklyAnalyticsRepository.getClientIdsByDateRange(rangeStart, rangeEnd);
+
+    const summary: MetaSpendRollupSummary = {
+      startDate: rangeStart,
+      endDate: rangeEnd,
+      tolerancePercent,
+      clients: clientIds.length,
+      weeks: 0,
+      flaggedWeeks: 0,
+      failedClients: [],
+    };
+
+    for (const clientId of clientIds) {
+      try {
+        const weeks = await this.rollupClient(clientId, rangeStart, rangeEnd, tolerancePercent);
+        summary.weeks += weeks.length;
+        summary.flaggedWeeks += weeks.filter((week) => week.mismatch).length;
+      } catch (error: any) {
+        logger.error("[Meta Spend Rollup] Client rollup failed", { clientId, error: error?.message || String(error) });
+        summary.failedClients.push({ clientId, error: error?.message || String(error) });
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Write a client's Meta spend per week into metaBudgetSpent and adNamesAmount. Values that
+   * were entered manually are kept; they are compared with Meta and flagged beyond the tolerance.
+   */
+  public async rollupClient(
+    clientId: string,
+    startDate: string,
+    endDate: string,
+    tolerancePercent: number = config.META_SPEND_TOLERANCE_PERCENT
+  ): Promise<MetaSpendRollupWeek[]> {
+    this.validateTolerance(tolerancePercent);
+    const { rangeStart, rangeEnd } = this.getWeekRange(startDate, endDate);
+    const rows = await fbWeeklyAnalyticsRepository.getSpendByWeekAndAdName(clientId, rangeStart, rangeEnd);
+
+    // Stored weeks already start on Monday; getWeekDetails keeps them on the weekly actuals' boundaries
+    const adsByWeek = new Map<string, Map<string, number>>();
+    rows.forEach((row) => {
+      const { weekStart } = DateUtils.getWeekDetails(row.weekStartDate);
+      const ads = adsByWeek.get(weekStart) ?? new Map<string, number>();
+      ads.set(row.adName, (ads.get(row.adName) ?? 0) + (row.spend || 0));
+      adsByWeek.set(weekStart, ads);
+    });
+
+    const results: MetaSpendRollupWeek[] = [];
+    for (const [weekStart, ads] of adsByWeek) {
+      const { weekEnd } = DateUtils.getWeekDetails(weekStart);
+      const adNamesAmount: IAdNamesAmount[] = Array.from(ads.entries())
+        .map(([adName, spend]) => ({ adName, budget: this.roundCents(spend) }))
+        .filter((ad) => ad.budget > 0)
+        .sort((a, b) => b.budget - a.budget);
+      const snapshot: IMetaSpendSnapshot = {
+        metaSpend: this.roundCents(adNamesAmount.reduce((sum, ad) => sum + ad.budget, 0)),
+        adNamesAmount,
+        syncedAt: new Date(),
+      };
+
+      const existing = await this.actualRepository.findActualByStartDate(clientId, weekStart);
+      const existingData: IWeeklyActual | null = existing ? existing.toObject() : null;
+      const automated = existingData?.automatedFields ?? [];
+
+      const data: Partial<IWeeklyActual> = {};
+      const fieldSources: Partial<Record<AutomatedActualField, ActualFieldSource>> = {};
+      // Empty fields are filled too, a week nobody entered spend for has nothing to keep
+      if (!existingData || automated.includes("metaBudgetSpent") || existingData.metaBudgetSpent == null) {
+        data.metaBudgetSpent = snapshot.metaSpend;
+        fieldSources.metaBudgetSpent = "automation";
+      }
+      if (!existingData || automated.includes("adNamesAmount") || !existingData.adNamesAmount?.length) {
+        data.adNamesAmount = snapshot.adNamesAmount;
+        fieldSources.adNamesAmount = "automation";
+      }
+
+      let actual = existingData;
+      if (Object.keys(data).length > 0) {
+        const saved = await this.actualService.upsertActualWeekly(clientId, weekStart, weekEnd, data, fieldSources);
+        actual = saved.toObject();
+      }
+      await this.actualRepository.saveMetaSpend(clientId, weekStart, snapshot);
+
+      const mismatch = this.compare({ ...actual!, metaSpend: snapshot }, tolerancePercent);
+      if (mismatch) {
+        logger.warn("[Meta Spend Rollup] Manual spend differs from Meta", {
+          clientId,
+          weekStart,
+          spend: mismatch.spend,
+          ads: mismatch.ads.length,
+        });
+      }
+
+      results.push({
+        startDate: weekStart,
+        endDate: weekEnd,
+        metaSpend: snapshot.metaSpend,
+        appliedFields: Object.keys(fieldSources) as AutomatedActualField[],
+        mismatch,
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Weeks whose manually entered spend differs from the last rollup by more than the tolerance
+   */
+  public async getMismatches(
+    userId: string,
+    startDate: string,
+    endDate: string,
+    tolerancePercent: number = config.META_SPEND_TOLERANCE_PERCENT
+  ): Promise<MetaSpendMismatch[]> {
+    this.validateTolerance(tolerancePercent);
+    const { rangeStart, rangeEnd } = this.getWeekRange(startDate, endDate);
+    const actuals = await this.actualRepository.getActualsByDateRange(rangeStart, rangeEnd, userId);
+
+    return actuals
+      .map((actual) => this.compare(actual.toObject(), tolerancePercent))
+      .filter((mismatch): mismatch is MetaSpendMismatch => mismatch !== null);
+  }
+
+  // ============= PRIVATE HELPER METHODS =============
+
+  /**
+   * Compare manual values with the week's Meta snapshot; automated fields hold Meta's own values
+   */
+  private compare(actual: IWeeklyActual, tolerancePercent: number): MetaSpendMismatch | null {
+    const snapshot = actual.metaSpend;
+    if (!snapshot) return null;
+    const automated = actual.automatedFields ?? [];
+
+    let spend: MetaSpendMismatch["spend"] = null;
+    if (!automated.includes("metaBudgetSpent") && actual.metaBudgetSpent != null
+      && this.exceedsTolerance(actual.metaBudgetSpent, snapshot.metaSpend, tolerancePercent)) {
+      spend = {
+        manual: actual.metaBudgetSpent,
+        meta: snapshot.metaSpend,
+        difference: this.roundCents(actual.metaBudgetSpent - snapshot.metaSpend),
+      };
+    }
+
+    const ads: MetaSpendMismatch["ads"] = [];
+    if (!automated.includes("adNamesAmount") && actual.adNamesAmount?.length) {
+      const manualAds = new Map(actual.adNamesAmount.map((ad) => [ad.adName, ad.budget || 0]));
+      const metaAds = new Map(snapshot.adNamesAmount.map((ad) => [ad.adName, ad.budget || 0]));
+      new Set([...manualAds.keys(), ...metaAds.keys()]).forEach((adName) => {
+        const manual = manualAds.get(adName) ?? 0;
+        const meta = metaAds.get(adName) ?? 0;
+        if (this.exceedsTolerance(manual, meta, tolerancePercent)) {
+          ads.push({ adName, manual, meta, difference: this.roundCents(manual - meta) });
+        }
+      });
+    }
+
+    if (!spend && ads.length === 0) return null;
+    return { startDate: actual.startDate, endDate: actual.endDate, spend, ads };
+  }
+
+  private exceedsTolerance(manual: number, meta: number, tolerancePercent: number): boolean {
+    const difference = Math.abs(this.roundCents(manual - meta));
+    return difference > 0 && difference > Math.max(Math.abs(manual), Math.abs(meta)) * (tolerancePercent / 100);
+  }
+
+  private getWeekRange(startDate: string, endDate: string): { rangeStart: string; rangeEnd: string } {
+    if (!startDate || !endDate || isNaN(new Date(startDate).getTime()) || isNaN(new Date(endDate).getTime())) {
+      throw new CustomError(ErrorCode.VALIDATION_ERROR, "startDate and endDate must be valid dates (YYYY-MM-DD)");
+    }
+    const rangeStart = DateUtils.getWeekDetails(startDate).weekStart;
+    const rangeEnd = DateUtils.getWeekDetails(endDate).weekEnd;
+    if (rangeStart > rangeEnd) {
+      throw new CustomError(ErrorCode.VALIDATION_ERROR, "startDate must be before endDate");
+    }
+    return { rangeStart, rangeEnd };
+  }
+
+  private validateTolerance(tolerancePercent: number): void {
+    if (typeof tolerancePercent !== "number" || !isFinite(tolerancePercent) || tolerancePercent < 0 || tolerancePercent > 100) {
+      throw new CustomError(ErrorCode.VALIDATION_ERROR, "tolerancePercent must be a number between 0 and 100");
+    }
+  }
+
+  private roundCents(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
+
+export default new MetaSpendRollupService();
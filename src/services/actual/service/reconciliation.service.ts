@@ -0,0 +1,255 @@
+import {
+  ActualFieldSource,
+  IWeeklyActual,
+  RECONCILABLE_ACTUAL_FIELDS,
+  ReconcilableActualField,
+  ReconcilableActualValues
+} from "../domain/actual.domain.js";
+import { IWeeklyActualDocument } from "../repository/models/actual.model.js";
+import { IWeeklyActualProposalDocument } from "../repository/models/actualProposal.model.js";
+import { ActualRepository } from "../repository/repository.js";
+import { ActualProposalRepository } from "../repository/proposal.repository.js";
+import { ActualService } from "./service.js";
+import { leadRepository } from "../../leads/repository/LeadRepository.js";
+import { ILead, LeadStatus } from "../../leads/domain/leads.domain.js";
+import { DateUtils } from "../../../utils/date.utils.js";
+import { CustomError, ErrorCode } from "../../../pkg/error/custom_error.js";
+
+// Statuses a lead only reaches after an estimate was set, same as the revenue report
+const ESTIMATE_SET_STATUSES: LeadStatus[] = [
+  "estimate_set", "virtual_quote", "proposal_presented", "job_booked", "estimate_canceled", "job_lost", "estimate_rescheduled"
+];
+const ESTIMATE_RAN_STATUSES: LeadStatus[] = ["virtual_quote", "proposal_presented", "job_booked", "job_lost"];
+
+export type ProposalSource = "crm" | "lead_data";
+
+export interface ReconciliationField {
+  field: ReconcilableActualField;
+  current: number;
+  crm: number | null;
+  leadData: number;
+  // CRM value when the sync counted the week, lead data otherwise
+  proposed: number;
+  proposedSource: ProposalSource;
+  diff: number;
+  automated: boolean;
+}
+
+export interface WeekReconciliation {
+  startDate: string;
+  endDate: string;
+  hasActual: boolean;
+  crmGeneratedAt: Date | null;
+  fields: ReconciliationField[];
+  differingFields: ReconcilableActualField[];
+}
+
+export interface ReconcileDecision {
+  field: ReconcilableActualField;
+  action: "accept" | "override";
+  // accept: which proposal to take, defaults to the proposed one
+  source?: ProposalSource;
+  // override: the value to keep
+  value?: number;
+}
+
+export class ActualReconciliationService {
+  private actualRepository: ActualRepository;
+  private proposalRepository: ActualProposalRepository;
+  private actualService: ActualService;
+
+  constructor() {
+    this.actualRepository = new ActualRepository();
+    this.proposalRepository = new ActualProposalRepository();
+    this.actualService = new ActualService();
+  }
+
+  /**
+   * Store the CRM counts of a week and write them to the fields that are still automated.
+   * Fields a user entered or overrode keep their value and show up as diffs instead.
+   */
+  public async recordCrmProposal(
+    userId: string,
+    startDate: string,
+    endDate: string,
+    values: ReconcilableActualValues
+  ): Promise<{ actual: IWeeklyActualDocument; appliedFields: ReconcilableActualField[]; pendingFields: ReconcilableActualField[] }> {
+    const week = DateUtils.getWeekDetails(startDate);
+    await this.proposalRepository.saveProposal({
+      userId,
+      startDate: week.weekStart,
+      endDate: week.weekEnd,
+      source: "ghl",
+      values,
+      generatedAt: new Date(),
+    });
+
+    const existing = await this.actualRepository.findActualByStartDate(userId, week.weekStart);
+    // Weeks saved before fields were tracked were always overwritten by the sync
+    const automatedFields = existing ? existing.automatedFields ?? RECONCILABLE_ACTUAL_FIELDS : RECONCILABLE_ACTUAL_FIELDS;
+    const automated = RECONCILABLE_ACTUAL_FIELDS.filter((field) => automatedFields.includes(field));
+    const pendingFields = RECONCILABLE_ACTUAL_FIELDS.filter(
+      (field) => !automated.includes(field) && existing?.[field] !== values[field]
+    );
+
+    if (existing && automated.length === 0) {
+      return { actual: existing, appliedFields: [], pendingFields };
+    }
+
+    const data: Partial<IWeeklyActual> = {};
+    const fieldSources: Partial<Record<ReconcilableActualField, ActualFieldSource>> = {};
+    automated.forEach((field) => {
+      data[field] = values[field];
+      fieldSources[field] = "automation";
+    });
+
+    const actual = await this.actualService.upsertActualWeekly(userId, week.weekStart, week.weekEnd, data, fieldSources);
+    return { actual, appliedFields: automated, pendingFields };
+  }
+
+  /**
+   * Weekly actuals next to the values proposed from the CRM sync and from the client's leads.
+   * Lead data counts leads by their lead date; the CRM counts tags by the date they were set.
+   */
+  public async getReconciliation(userId: string, startDate: string, endDate: string): Promise<WeekReconciliation[]> {
+    const weeks = DateUtils.getMonthWeeks(startDate, endDate);
+    if (weeks.length === 0) return [];
+
+    const rangeStart = weeks[0].weekStart;
+    const rangeEnd = weeks[weeks.length - 1].weekEnd;
+    const [actuals, proposals, leads] = await Promise.all([
+      this.actualRepository.getActualsByDateRange(rangeStart, rangeEnd, userId),
+      this.proposalRepository.getProposalsByDateRange(userId, rangeStart, rangeEnd),
+      leadRepository.getLeadsByDateRangeAndClientId(userId, rangeStart, rangeEnd),
+    ]);
+
+    const actualsByWeek = new Map(actuals.map((actual) => [actual.startDate, actual]));
+    const proposalsByWeek = new Map(proposals.map((proposal) => [proposal.startDate, proposal]));
+
+    return weeks.map(({ weekStart, weekEnd }) => {
+      const weekLeads = leads.filter((lead) => lead.leadDate >= weekStart && lead.leadDate <= weekEnd);
+      return this.buildWeek(
+        weekStart,
+        weekEnd,
+        actualsByWeek.get(weekStart) ?? null,
+        proposalsByWeek.get(weekStart) ?? null,
+        this.countLeadData(weekLeads)
+      );
+    });
+  }
+
+  /**
+   * Accept a proposed value or override it with a manual one, per field. Accepted fields
+   * stay automated and follow later syncs; overridden ones are left alone by the sync.
+   */
+  public async reconcileWeek(
+    userId: string,
+    startDate: string,
+    decisions: ReconcileDecision[]
+  ): Promise<WeekReconciliation> {
+    if (!Array.isArray(decisions) || decisions.length === 0) {
+      throw new CustomError(ErrorCode.VALIDATION_ERROR, "decisions must be a non-empty array");
+    }
+
+    const week = DateUtils.getWeekDetails(startDate);
+    const [current] = await this.getReconciliation(userId, week.weekStart, week.weekEnd);
+    if (!current || current.startDate !== week.weekStart) {
+      throw new CustomError(ErrorCode.VALIDATION_ERROR, `No week found for startDate ${startDate}`);
+    }
+
+    const data: Partial<IWeeklyActual> = {};
+    const fieldSources: Partial<Record<ReconcilableActualField, ActualFieldSource>> = {};
+    const seen = new Set<ReconcilableActualField>();
+
+    decisions.forEach((decision, index) => {
+      const path = `decisions[${index}]`;
+      if (!RECONCILABLE_ACTUAL_FIELDS.includes(decision?.field)) {
+        throw new CustomError(
+          ErrorCode.VALIDATION_ERROR,
+          `${path}.field must be one of: ${RECONCILABLE_ACTUAL_FIELDS.join(", ")}`
+        );
+      }
+      if (seen.has(decision.field)) {
+        throw new CustomError(ErrorCode.VALIDATION_ERROR, `${path}.field '${decision.field}' is listed more than once`);
+      }
+      seen.add(decision.field);
+
+      const field = current.fields.find((f) => f.field === decision.field)!;
+
+      if (decision.action === "accept") {
+        const source = decision.source ?? field.proposedSource;
+        if (source !== "crm" && source !== "lead_data") {
+          throw new CustomError(ErrorCode.VALIDATION_ERROR, `${path}.source must be 'crm' or 'lead_data'`);
+        }
+        if (source === "crm" && field.crm === null) {
+          throw new CustomError(ErrorCode.VALIDATION_ERROR, `${path}: no CRM proposal exists for this week`);
+        }
+        data[decision.field] = source === "crm" ? field.crm! : field.leadData;
+        fieldSources[decision.field] = "automation";
+      } else if (decision.action === "override") {
+        if (typeof decision.value !== "number" || !isFinite(decision.value) || decision.value < 0) {
+          throw new CustomError(ErrorCode.VALIDATION_ERROR, `${path}.value must be a non-negative number`);
+        }
+        data[decision.field] = decision.value;
+        fieldSources[decision.field] = "manual";
+      } else {
+        throw new CustomError(ErrorCode.VALIDATION_ERROR, `${path}.action must be 'accept' or 'override'`);
+      }
+    });
+
+    await this.actualService.upsertActualWeekly(userId, week.weekStart, week.weekEnd, data, fieldSources);
+
+    const [updated] = await this.getReconciliation(userId, week.weekStart, week.weekEnd);
+    return updated;
+  }
+
+  // ============= PRIVATE HELPER METHODS =============
+
+  private buildWeek(
+    startDate: string,
+    endDate: string,
+    actual: IWeeklyActualDocument | null,
+    proposal: IWeeklyActualProposalDocument | null,
+    leadData: ReconcilableActualValues
+  ): WeekReconciliation {
+    const automated = actual ? actual.automatedFields ?? RECONCILABLE_ACTUAL_FIELDS : [];
+
+    const fields = RECONCILABLE_ACTUAL_FIELDS.map((field): ReconciliationField => {
+      const current = actual?.[field] ?? 0;
+      const crm = proposal ? proposal.values[field] : null;
+      const proposed = crm ?? leadData[field];
+      return {
+        field,
+        current,
+        crm,
+        leadData: leadData[field],
+        proposed,
+        proposedSource: crm !== null ? "crm" : "lead_data",
+        diff: Math.round((proposed - current) * 100) / 100,
+        automated: automated.includes(field),
+      };
+    });
+
+    return {
+      startDate,
+      endDate,
+      hasActual: !!actual,
+      crmGeneratedAt: proposal?.generatedAt ?? null,
+      fields,
+      differingFields: fields.filter((field) => field.diff !== 0).map((field) => field.field),
+    };
+  }
+
+  private countLeadData(leads: Partial<ILead>[]): ReconcilableActualValues {
+    const withStatus = (statuses: LeadStatus[]) => leads.filter((lead) => statuses.includes(lead.status as LeadStatus));
+    const booked = withStatus(["job_booked"]);
+
+    return {
+      leads: leads.length,
+      estimatesSet: withStatus(ESTIMATE_SET_STATUSES).length,
+      estimatesRan: withStatus(ESTIMATE_RAN_STATUSES).length,
+      sales: booked.length,
+      revenue: booked.reduce((sum, lead) => sum + (lead.jobBookedAmount || 0), 0),
+    };
+  }
+}
@@ -1,13 +1,23 @@
-import { IWeeklyActual } from "../domain/actual.domain.js";
+import {
+  ActualFieldSource,
+  AUTOMATED_ACTUAL_FIELDS,
+  AutomatedActualField,
+  IWeeklyActual,
+  RECONCILABLE_ACTUAL_FIELDS
+} from "../domain/actual.domain.js";
 import { IWeeklyActualDocument } from "../repository/models/actual.model.js";
 import { ActualRepository } from "../repository/repository.js";
+import { ActualProposalRepository } from "../repository/proposal.repository.js";
+import { getWeekChannelSpend, mergeChannelSpend, validateChannelSpend } from "../utils/channelSpend.js";
 import { DateUtils } from "../../../utils/date.utils.js";
 
 export class ActualService {
   private actualRepository: ActualRepository;
+  private proposalRepository: ActualProposalRepository;
 
   constructor() {
     this.actualRepository = new ActualRepository();
+    this.proposalRepository = new ActualProposalRepository();
   }
 
   public async getActualYearlyMonthlyAggregate(
@@ -51,6 +61,7 @@ export class ActualService {
           acc.leads += curr.leads || 0;
           acc.estimatesRan += curr.estimatesRan || 0;
           acc.estimatesSet += curr.estimatesSet || 0;
+          acc.channelSpend = mergeChannelSpend([...(acc.channelSpend ?? []), ...getWeekChannelSpend(curr)]);
           return acc;
         }, this._zeroFilledActual(monthStartStr, monthEndStr, userId));
       }
@@ -82,14 +93,20 @@ export class ActualService {
       estimatesRan: 0,
       estimatesSet: 0,
       adNamesAmount: [],
+      channelSpend: [],
     };
   }
 
+  /**
+   * fieldSources marks where automated fields came from; manual saves leave it out,
+   * see resolveAutomatedFields
+   */
   public async upsertActualWeekly(
     userId: string,
     startDate: string,
     endDate: string,
-    data: Partial<IWeeklyActual>
+    data: Partial<IWeeklyActual>,
+    fieldSources?: Partial<Record<AutomatedActualField, ActualFieldSource>>
   ): Promise<IWeeklyActualDocument> {
     const week = DateUtils.getWeekDetails(startDate);
 
@@ -100,12 +117,31 @@ export class ActualService {
       }
     }
 
+    if (data.channelSpend !== undefined && data.channelSpend !== null) {
+      data = { ...data, channelSpend: validateChannelSpend(data.channelSpend) };
+    }
+
     const existing = await this.actualRepository.findActualByStartDate(
       userId,
       week.weekStart
     );
 
+    // A manual save that only repeats the CRM's or the Meta rollup's value keeps the field automated
+    const proposal = fieldSources ? null : await this.proposalRepository.getProposal(userId, week.weekStart);
+    const proposed: Partial<Record<AutomatedActualField, unknown>> = {
+      ...proposal?.values,
+      ...(existing?.metaSpend
+        ? { metaBudgetSpent: existing.metaSpend.metaSpend, adNamesAmount: existing.metaSpend.adNamesAmount }
+        : {}),
+    };
+
     let actual: IWeeklyActualDocument | null;
+    const automatedFields = this.resolveAutomatedFields(
+      existing ? existing.toObject() : null,
+      data,
+      fieldSources,
+      proposed
+    );
 
     if (existing) {
       // For updates: only include fields that are actually provided in data
@@ -129,6 +165,7 @@ export class ActualService {
         'estimatesRan',
         'estimatesSet',
         'adNamesAmount',
+        'channelSpend',
       ];
 
       // Build payload: use provided values or preserve existing values
@@ -142,6 +179,8 @@ export class ActualService {
         }
       });
 
+      updatePayload.automatedFields = automatedFields;
+
       // Update with complete payload (all fields included to preserve existing values)
       actual = await this.actualRepository.updateActual(updatePayload as IWeeklyActual);
     } else {
@@ -160,6 +199,8 @@ export class ActualService {
         estimatesRan: data.estimatesRan ?? 0,
         estimatesSet: data.estimatesSet ?? 0,
         adNamesAmount: data.adNamesAmount ?? [],
+        channelSpend: data.channelSpend ?? [],
+        automatedFields,
       };
       actual = await this.actualRepository.createActual(payload);
     }
@@ -168,6 +209,53 @@ export class ActualService {
     return actual;
   }
 
+  /**
+   * Fields with an explicit source take it. Without one, a field becomes manual once the
+   * saved value differs from the stored one and from the proposed one, so resending an
+   * unchanged form or confirming a proposal keeps automation.
+   */
+  private resolveAutomatedFields(
+    existing: IWeeklyActual | null,
+    data: Partial<IWeeklyActual>,
+    fieldSources?: Partial<Record<AutomatedActualField, ActualFieldSource>>,
+    proposed: Partial<Record<AutomatedActualField, unknown>> = {}
+  ): AutomatedActualField[] {
+    // Weeks saved before fields were tracked had the GHL sync overwrite the reconcilable
+    // fields on every run; Meta spend was always entered by hand. A new week starts out
+    // fully automated.
+    const automated = new Set<AutomatedActualField>(
+      existing ? existing.automatedFields ?? RECONCILABLE_ACTUAL_FIELDS : AUTOMATED_ACTUAL_FIELDS
+    );
+
+    AUTOMATED_ACTUAL_FIELDS.forEach((field) => {
+      if (data[field] === undefined) return;
+      const unchanged = existing
+        ? this._sameFieldValue(field, existing[field], data[field])
+        // The form sends zeros for the fields left empty on a new week
+        : this._sameFieldValue(field, 0, data[field] ?? 0);
+      const matchesProposal = proposed[field] !== undefined && this._sameFieldValue(field, proposed[field], data[field]);
+      const source = fieldSources?.[field] ?? (unchanged || matchesProposal ? undefined : 'manual');
+
+      if (source === 'automation') automated.add(field);
+      if (source === 'manual') automated.delete(field);
+    });
+
+    return AUTOMATED_ACTUAL_FIELDS.filter((field) => automated.has(field));
+  }
+
+  private _sameFieldValue(field: AutomatedActualField, a: unknown, b: unknown): boolean {
+    if (field === 'adNamesAmount') {
+      const normalize = (ads: unknown) => JSON.stringify(
+        (Array.isArray(ads) ? ads : []).map((ad: any) => [ad?.adName, Number(ad?.budget) || 0])
+      );
+      return normalize(a) === normalize(b);
+    }
+    if (a === null || a === undefined || b === null || b === undefined) {
+      return (a ?? null) === (b ?? null);
+    }
+    return Number(a) === Number(b);
+  }
+
   public async getActualWeekly(
     userId: string,
     date: string
@@ -338,6 +426,8 @@ export class ActualService {
           estimatesRan: actuals.reduce((sum: number, a) => sum + (a.estimatesRan || 0), 0),
           estimatesSet: actuals.reduce((sum: number, a) => sum + (a.estimatesSet || 0), 0),
           adNamesAmount: [], // Don't aggregate ad names for now
+          // Campaigns are per client, across users only the channels are summed
+          channelSpend: mergeChannelSpend(actuals.flatMap((a) => getWeekChannelSpend(a)), false),
         };
 
         return aggregated;
@@ -392,6 +482,7 @@ export class ActualService {
             estimatesRan: actuals.reduce((sum: number, a) => sum + (a.estimatesRan || 0), 0),
             estimatesSet: actuals.reduce((sum: number, a) => sum + (a.estimatesSet || 0), 0),
             adNamesAmount: [],
+            channelSpend: mergeChannelSpend(actuals.flatMap((a) => getWeekChannelSpend(a)), false),
           } as IWeeklyActual;
         })
       );
@@ -416,6 +507,7 @@ export class ActualService {
           acc.leads += curr.leads || 0;
           acc.estimatesRan += curr.estimatesRan || 0;
           acc.estimatesSet += curr.estimatesSet || 0;
+          acc.channelSpend = mergeChannelSpend([...(acc.channelSpend ?? []), ...(curr.channelSpend ?? [])], false);
           return acc;
         }, this._zeroFilledActual(monthStartStr, monthEndStr, "ALL_USERS"));
       }
@@ -0,0 +1,125 @@
+import {
+  IChannelSpend,
+  IChannelSummary,
+  IWeeklyActual,
+  SPEND_CHANNELS,
+  SpendChannel
+} from "../domain/actual.domain.js";
+import { CustomError, ErrorCode } from "../../../pkg/error/custom_error.js";
+
+export interface ChannelTargetAmounts {
+  channel: SpendChannel;
+  budget: number;
+  leads?: number | null;
+}
+
+/**
+ * Check a channel spend list from a request. Channels are matched case-insensitively and
+ * campaigns are trimmed; a missing campaign stands for the channel as a whole.
+ */
+export function validateChannelSpend(input: unknown, path: string = "channelSpend"): IChannelSpend[] {
+  if (!Array.isArray(input)) {
+    throw new CustomError(ErrorCode.VALIDATION_ERROR, `${path} must be an array`);
+  }
+
+  return input.map((entry, index) => {
+    const entryPath = `${path}[${index}]`;
+    const channel = typeof entry?.channel === "string" ? entry.channel.trim().toLowerCase() : "";
+    if (!SPEND_CHANNELS.includes(channel as SpendChannel)) {
+      throw new CustomError(ErrorCode.VALIDATION_ERROR, `${entryPath}.channel must be one of: ${SPEND_CHANNELS.join(", ")}`);
+    }
+    if (entry.campaign !== undefined && entry.campaign !== null && typeof entry.campaign !== "string") {
+      throw new CustomError(ErrorCode.VALIDATION_ERROR, `${entryPath}.campaign must be a string`);
+    }
+    if (typeof entry.amount !== "number" || !isFinite(entry.amount) || entry.amount < 0) {
+      throw new CustomError(ErrorCode.VALIDATION_ERROR, `${entryPath}.amount must be a non-negative number`);
+    }
+    if (entry.leads !== undefined && entry.leads !== null
+      && (typeof entry.leads !== "number" || !Number.isInteger(entry.leads) || entry.leads < 0)) {
+      throw new CustomError(ErrorCode.VALIDATION_ERROR, `${entryPath}.leads must be a non-negative integer`);
+    }
+
+    return {
+      channel: channel as SpendChannel,
+      campaign: entry.campaign?.trim() || null,
+      amount: entry.amount,
+      leads: entry.leads ?? null,
+    };
+  });
+}
+
+/**
+ * Sum the entries of a channel, per campaign unless byCampaign is false.
+ * Leads stay null when none of the summed entries had them.
+ */
+export function mergeChannelSpend(entries: IChannelSpend[], byCampaign: boolean = true): IChannelSpend[] {
+  const merged = new Map<string, IChannelSpend>();
+  entries.forEach((entry) => {
+    const campaign = byCampaign ? entry.campaign ?? null : null;
+    const key = `${entry.channel}\u0000${campaign ?? ""}`;
+    const current = merged.get(key) ?? { channel: entry.channel, campaign, amount: 0, leads: null };
+    current.amount = roundCents(current.amount + (entry.amount || 0));
+    if (entry.leads !== null && entry.leads !== undefined) {
+      current.leads = (current.leads ?? 0) + entry.leads;
+    }
+    merged.set(key, current);
+  });
+
+  return Array.from(merged.values()).sort((a, b) =>
+    SPEND_CHANNELS.indexOf(a.channel) - SPEND_CHANNELS.indexOf(b.channel)
+    || (a.campaign ?? "").localeCompare(b.campaign ?? "")
+  );
+}
+
+/**
+ * A week's spend per channel. Weeks without a meta entry count metaBudgetSpent as Meta spend,
+ * which is where the Meta spend rollup writes it.
+ */
+export function getWeekChannelSpend(actual: Pick<IWeeklyActual, "channelSpend" | "metaBudgetSpent">): IChannelSpend[] {
+  const entries = [...(actual.channelSpend ?? [])];
+  if (!entries.some((entry) => entry.channel === "meta") && actual.metaBudgetSpent) {
+    entries.push({ channel: "meta", campaign: null, amount: actual.metaBudgetSpent, leads: null });
+  }
+  return entries;
+}
+
+/**
+ * Spend, leads and cost per lead per channel over the weeks, next to the channel targets
+ * of the same weeks
+ */
+export function summarizeChannels(
+  actuals: Array<Pick<IWeeklyActual, "channelSpend" | "metaBudgetSpent">>,
+  targets: ChannelTargetAmounts[] = []
+): IChannelSummary[] {
+  const spend = mergeChannelSpend(actuals.flatMap((actual) => getWeekChannelSpend(actual)), false);
+  const targetByChannel = new Map<SpendChannel, { budget: number; leads: number | null }>();
+  targets.forEach((target) => {
+    const current = targetByChannel.get(target.channel) ?? { budget: 0, leads: null };
+    current.budget += target.budget || 0;
+    if (target.leads !== null && target.leads !== undefined) {
+      current.leads = (current.leads ?? 0) + target.leads;
+    }
+    targetByChannel.set(target.channel, current);
+  });
+
+  return SPEND_CHANNELS
+    .filter((channel) => spend.some((entry) => entry.channel === channel) || targetByChannel.has(channel))
+    .map((channel) => {
+      const actual = spend.find((entry) => entry.channel === channel);
+      const target = targetByChannel.get(channel);
+      const leads = actual?.leads ?? null;
+      return {
+        channel,
+        spend: actual?.amount ?? 0,
+        leads,
+        costPerLead: leads ? roundCents((actual?.amount ?? 0) / leads) : null,
+        targetBudget: target ? roundCents(target.budget) : null,
+        targetLeads: target?.leads !== null && target?.leads !== undefined ? Math.round(target.leads * 100) / 100 : null,
+        targetCostPerLead: target?.leads ? roundCents(target.budget / target.leads) : null,
+      };
+    });
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -1,7 +1,30 @@
-import { fbGet } from '../../facebook/fbClient.js';
+import { fbBatch, fbGet } from '../../facebook/fbClient.js';
 import { creativesRepository } from '../repository/CreativesRepository.js';
 import { ICreative } from '../domain/creatives.domain.js';
 
+const CREATIVE_FIELDS = [
+  'id',
+  'name',
+  'body',
+  'title',
+  'thumbnail_url',
+  'image_url',
+  'image_hash',
+  'video_id',
+  'call_to_action',
+  'object_story_spec',
+  'asset_feed_spec',
+  'object_story_id',
+  'effective_object_story_id',
+  'effective_instagram_story_id'
+].join(',');
+
+// Cached creatives are fetched again after this many days
+const CREATIVE_CACHE_DAYS = 7;
+
+// Each parsed creative makes its own preview and media requests
+const PARSE_CONCURRENCY = 10;
+
 export class CreativesService {
 
   /**
@@ -118,25 +141,7 @@ export class CreativesService {
     creativeId: string,
     accessToken: string
   ): Promise<any> {
-    
-    const fields = [
-      'id',
-      'name',
-      'body',
-      'title',
-      'thumbnail_url',
-      'image_url',
-      'image_hash',
-      'video_id',
-      'call_to_action',
-      'object_story_spec',
-      'asset_feed_spec',
-      'object_story_id',
-      'effective_object_story_id',
-      'effective_instagram_story_id'
-    ].join(',');
-
-    const creativeData = await fbGet(`/${creativeId}`, { fields }, accessToken);
+    const creativeData = await fbGet(`/${creativeId}`, { fields: CREATIVE_FIELDS }, accessToken);
     return creativeData;
   }
 
@@ -173,6 +178,12 @@ export class CreativesService {
     }
   }
 
+  private isFresh(creative: ICreative): boolean {
+    if (!creative.lastFetchedAt) return false;
+    const daysSinceUpdate = (Date.now() - new Date(creative.lastFetchedAt).getTime()) / (1000 * 60 * 60 * 24);
+    return daysSinceUpdate < CREATIVE_CACHE_DAYS;
+  }
+
   /**
    * Determine creative mode (how the creative is assembled)
    * Logic from instructions.txt
@@ -653,11 +664,8 @@ export class CreativesService {
 
     if (!forceRefresh) {
       const cached = await creativesRepository.getCreativeById(creativeId);
-      if (cached && cached.lastFetchedAt) {
-        const daysSinceUpdate = (Date.now() - new Date(cached.lastFetchedAt).getTime()) / (1000 * 60 * 60 * 24);
-        if (daysSinceUpdate < 7) {
-          return cached;
-        }
+      if (cached && this.isFresh(cached)) {
+        return cached;
       }
     }
 
@@ -673,6 +681,65 @@ export class CreativesService {
     }
   }
 
+  /**
+   * Get several creatives: fresh ones from the DB, the others with one batch request for
+   * their details. Creatives that fail fall back to the cached copy like getCreative.
+   */
+  async getCreatives(
+    creativeIds: string[],
+    clientId: string,
+    adAccountId: string,
+    accessToken: string,
+    forceRefresh: boolean = false
+  ): Promise<{ creatives: Record<string, ICreative>; failed: string[] }> {
+    const uniqueIds = Array.from(new Set(creativeIds.filter(Boolean)));
+    const creatives: Record<string, ICreative> = {};
+    const failed: string[] = [];
+    if (uniqueIds.length === 0) return { creatives, failed };
+
+    const cached = new Map(
+      (await creativesRepository.getCreativesByIds(uniqueIds)).map((creative) => [creative.creativeId, creative])
+    );
+    const toFetch = uniqueIds.filter((creativeId) => {
+      const creative = cached.get(creativeId);
+      if (!forceRefresh && creative && this.isFresh(creative)) {
+        creatives[creativeId] = creative;
+        return false;
+      }
+      return true;
+    });
+
+    const results = await fbBatch(
+      toFetch.map((creativeId) => ({ path: `/${creativeId}`, params: { fields: CREATIVE_FIELDS } })),
+      accessToken
+    );
+
+    for (let i = 0; i < results.length; i += PARSE_CONCURRENCY) {
+      await Promise.all(
+        results.slice(i, i + PARSE_CONCURRENCY).map(async (result, index) => {
+          const creativeId = toFetch[i + index];
+          try {
+            if (!result.data) {
+              throw result.error ?? new Error('No creative data returned');
+            }
+            const parsedCreative = await this.parseCreativeData(result.data, clientId, adAccountId, accessToken);
+            creatives[creativeId] = await creativesRepository.upsertCreative(parsedCreative);
+          } catch (error: any) {
+            console.error(`[Creatives] Error fetching creative ${creativeId}:`, error.message || error);
+            const fallback = cached.get(creativeId);
+            if (fallback) {
+              creatives[creativeId] = fallback;
+            } else {
+              failed.push(creativeId);
+            }
+          }
+        })
+      );
+    }
+
+    return { creatives, failed };
+  }
+
   /**
    * Smart refresh creative URLs from Facebook based on creativeMode and mediaType
    * Only fetches what's needed (video URL, carousel images, preview iframe, or full creative)
@@ -799,27 +866,10 @@ export class CreativesService {
       return { saved: 0, failed: 0, creativeIds: [] };
     }
 
-    let saved = 0;
-    let failed = 0;
-
-    const BATCH_SIZE = 10;
-    for (let i = 0; i < creativeIds.length; i += BATCH_SIZE) {
-      const batch = creativeIds.slice(i, i + BATCH_SIZE);
-      
-      await Promise.all(
-        batch.map(async (creativeId) => {
-          try {
-            await this.getCreative(creativeId, clientId, adAccountId, accessToken, true);
-            saved++;
-          } catch (error: any) {
-            console.error(`[Creatives] Failed to fetch creative ${creativeId}:`, error.message || error);
-            failed++;
-          }
-        })
-      );
-    }
+    const result = await this.getCreatives(creativeIds, clientId, adAccountId, accessToken, true);
+    const failed = result.failed.length;
 
-    return { saved, failed, creativeIds };
+    return { saved: creativeIds.length - failed, failed, creativeIds };
   }
 }
 
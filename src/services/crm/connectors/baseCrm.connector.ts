@@ -0,0 +1,97 @@
+import { LeadEventActor } from "../../leads/domain/leads.domain.js";
+import crmLeadStatusService from "../service/crmLeadStatus.service.js";
+import {
+  CrmConnector,
+  CrmContact,
+  CrmOpportunity,
+  CrmProvider,
+  CrmRecord,
+  CrmStatusMatch,
+  CrmWebhookRequest,
+  CrmWebhookResult
+} from "../domain/crm.domain.js";
+
+type WebhookResultItem = CrmWebhookResult['results'][number];
+
+/**
+ * Shared handling of webhook records for the connectors that map CRM records themselves
+ */
+export abstract class BaseCrmConnector implements CrmConnector {
+  abstract readonly provider: CrmProvider;
+
+  constructor(
+    public readonly accountId: string,
+    public readonly revenueProClientId: string
+  ) {}
+
+  abstract fetchOpportunities(): Promise<CrmOpportunity[]>;
+  abstract fetchContact(contactId: string): Promise<CrmContact | null>;
+  abstract mapToLeadStatus(record: CrmRecord): CrmStatusMatch | null;
+  abstract receiveWebhook(request: CrmWebhookRequest, actor: LeadEventActor): Promise<CrmWebhookResult>;
+
+  /**
+   * Apply every opportunity to the lead with its email. Opportunities whose stage has no mapped
+   * status fall back to their contact, which is fetched once per contact.
+   */
+  async syncStatuses(actor: LeadEventActor): Promise<CrmWebhookResult> {
+    const contacts = new Map<string, CrmContact | null>();
+    const getContact = async (contactId: string) => {
+      if (!contacts.has(contactId)) {
+        contacts.set(contactId, await this.fetchContact(contactId));
+      }
+      return contacts.get(contactId) ?? null;
+    };
+
+    const results: WebhookResultItem[] = [];
+    for (const opportunity of await this.fetchOpportunities()) {
+      try {
+        const mapped = this.mapToLeadStatus(opportunity) !== null;
+        const contact = opportunity.contactId && (!mapped || !opportunity.email)
+          ? await getContact(opportunity.contactId)
+          : null;
+        const record = mapped || !contact ? opportunity : contact;
+        results.push(await this.applyRecord(record, opportunity.email ?? contact?.email, actor));
+      } catch (error: any) {
+        results.push({ objectId: opportunity.id, outcome: 'skipped', skipReason: error?.message || String(error) });
+      }
+    }
+
+    return this.summarize(results);
+  }
+
+  /**
+   * Map a record to a status and apply it to the lead with the given email
+   */
+  protected async applyRecord(record: CrmRecord, email: string | undefined, actor: LeadEventActor): Promise<WebhookResultItem> {
+    const match = this.mapToLeadStatus(record);
+    if (!match) {
+      return { objectId: record.id, outcome: 'skipped', skipReason: 'no_status_mapping' };
+    }
+
+    const result = await crmLeadStatusService.applyStatus({
+      provider: this.provider,
+      accountId: this.accountId,
+      revenueProClientId: this.revenueProClientId,
+      email,
+      match,
+      actor,
+    });
+
+    return {
+      objectId: record.id,
+      outcome: result.outcome,
+      skipReason: result.skipReason,
+      leadId: result.leadId,
+      status: result.status,
+    };
+  }
+
+  protected summarize(results: WebhookResultItem[]): CrmWebhookResult {
+    return {
+      received: results.length,
+      updated: results.filter(result => result.outcome === 'updated').length,
+      skipped: results.filter(result => result.outcome === 'skipped').length,
+      results,
+    };
+  }
+}
@@ -0,0 +1,94 @@
+import { IGhlClient } from "../../ghlClient/domain/ghlClient.domain.js";
+import ghlApiClient, { GhlApiClient } from "../../ghlClient/api/ghlApiClient.js";
+import ghlClientService from "../../ghlClient/service/service.js";
+import { collectOpportunityTags, determineLeadStatusFromTags, resolveTagMapping } from "../../ghlClient/utils/tagMapping.js";
+import ghlWebhookService from "../../leads/service/GhlWebhookService.js";
+import {
+  CrmContact,
+  CrmOpportunity,
+  CrmRecord,
+  CrmStatusMatch,
+  CrmWebhookRequest,
+  CrmWebhookResult
+} from "../domain/crm.domain.js";
+import { BaseCrmConnector } from "./baseCrm.connector.js";
+
+/**
+ * GHL location of a client. Statuses come from the client's tag mapping; credentials
+ * and the webhook secret are kept on the IGhlClient.
+ */
+export class GhlCrmConnector extends BaseCrmConnector {
+  readonly provider = 'ghl' as const;
+
+  constructor(
+    private ghlClient: IGhlClient,
+    private ghlApi: GhlApiClient = ghlApiClient
+  ) {
+    super(ghlClient.locationId, ghlClient.revenueProClientId);
+  }
+
+  async fetchOpportunities(): Promise<CrmOpportunity[]> {
+    const response = await this.ghlApi.searchOpportunities(this.accountId, this.getApiToken());
+    return (response.opportunities || []).map(opportunity => ({
+      kind: 'opportunity',
+      id: opportunity.id,
+      contactId: opportunity.contactId ?? null,
+      email: opportunity.contact?.email,
+      stage: opportunity.pipelineStageId ?? null,
+      amount: opportunity.monetaryValue,
+      tags: collectOpportunityTags(opportunity),
+      updatedAt: opportunity.updatedAt,
+    }));
+  }
+
+  async fetchContact(contactId: string): Promise<CrmContact | null> {
+    const contact = await this.ghlApi.getContact(this.accountId, contactId, this.getApiToken());
+    if (!contact) return null;
+
+    return {
+      kind: 'contact',
+      id: contact.id,
+      email: contact.email,
+      tags: contact.tags ?? [],
+      properties: {},
+      updatedAt: contact.dateUpdated,
+    };
+  }
+
+  mapToLeadStatus(record: CrmRecord): CrmStatusMatch | null {
+    const match = determineLeadStatusFromTags(record.tags, resolveTagMapping(this.ghlClient));
+    if (!match) return null;
+    return { status: match.status, unqualifiedReason: match.unqualifiedReason, matchedValue: match.matchedTag };
+  }
+
+  /**
+   * GHL deliveries go through the GHL webhook event log, which records them as webhook changes
+   */
+  async receiveWebhook(request: CrmWebhookRequest): Promise<CrmWebhookResult> {
+    const outcome = await ghlWebhookService.handleWebhook({
+      payload: request.payload,
+      rawBody: request.rawBody,
+      signature: request.headers['x-ghl-signature'],
+    });
+    const result = outcome.event?.result;
+
+    return this.summarize([{
+      objectId: outcome.event?.contactId ?? outcome.eventId ?? '',
+      outcome: outcome.status === 'processed' ? 'updated' : outcome.status === 'ignored' ? 'ignored' : 'skipped',
+      skipReason: result?.skipReason,
+      leadId: result?.leadId,
+      status: result?.status as CrmStatusMatch['status'] | undefined,
+    }]);
+  }
+
+  private getApiToken(): string {
+    return ghlClientService.getDecryptedApiToken(this.ghlClient);
+  }
+}
+
+/**
+ * GHL payloads name their location
+ */
+export function getGhlAccountId(payload: any): string | null {
+  return typeof payload?.locationId === 'string' ? payload.locationId : null;
+}
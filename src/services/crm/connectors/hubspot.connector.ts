@@ -0,0 +1,264 @@
+import axios, { AxiosInstance, AxiosRequestConfig } from "axios";
+import crypto from "crypto";
+import { LeadEventActor } from "../../leads/domain/leads.domain.js";
+import {
+  CrmContact,
+  CrmOpportunity,
+  CrmRecord,
+  CrmStatusMapping,
+  CrmStatusMatch,
+  CrmWebhookRequest,
+  CrmWebhookResult
+} from "../domain/crm.domain.js";
+import { BaseCrmConnector } from "./baseCrm.connector.js";
+import { findMappedStatus, signaturesMatch } from "../utils/statusMapping.js";
+import { CustomError, ErrorCode } from "../../../pkg/error/custom_error.js";
+import logger from "../../../utils/logger.js";
+
+const HUBSPOT_BASE_URL = "https://api.hubapi.com";
+// HubSpot rejects v3 signatures older than 5 minutes
+const MAX_SIGNATURE_AGE_MS = 5 * 60 * 1000;
+const PAGE_SIZE = 100;
+
+/**
+ * HubSpot's default lead status values and deal stages of the default sales pipeline
+ */
+export const DEFAULT_HUBSPOT_STATUS_MAPPING: CrmStatusMapping = {
+  contactProperty: 'hs_lead_status',
+  contactValues: {
+    NEW: 'new',
+    OPEN: 'new',
+    IN_PROGRESS: 'in_progress',
+    ATTEMPTED_TO_CONTACT: 'in_progress',
+    CONNECTED: 'in_progress',
+    OPEN_DEAL: 'estimate_set',
+    UNQUALIFIED: 'unqualified',
+    BAD_TIMING: 'unqualified',
+  },
+  opportunityValues: {
+    appointmentscheduled: 'estimate_set',
+    qualifiedtobuy: 'estimate_set',
+    presentationscheduled: 'proposal_presented',
+    decisionmakerboughtin: 'proposal_presented',
+    contractsent: 'proposal_presented',
+    closedwon: 'job_booked',
+    closedlost: 'job_lost',
+  },
+};
+
+type HubSpotObject = {
+  id: string;
+  properties: Record<string, string | null>;
+  updatedAt?: string;
+  associations?: {
+    contacts?: { results?: Array<{ id: string }> };
+  };
+};
+
+type HubSpotWebhookEvent = {
+  objectId: number | string;
+  subscriptionType: string;
+  portalId: number | string;
+  propertyName?: string;
+  propertyValue?: string;
+};
+
+/**
+ * HubSpot portal of a client, using a private app token. Contacts map to a status through a
+ * contact property, deals through their stage.
+ */
+export class HubSpotCrmConnector extends BaseCrmConnector {
+  readonly provider = 'hubspot' as const;
+  private http: AxiosInstance;
+  private mapping: CrmStatusMapping;
+
+  constructor(
+    accountId: string,
+    revenueProClientId: string,
+    private accessToken: string,
+    private webhookSecret: string | null,
+    mapping?: CrmStatusMapping | null
+  ) {
+    super(accountId, revenueProClientId);
+    this.mapping = mapping ?? DEFAULT_HUBSPOT_STATUS_MAPPING;
+    this.http = axios.create({ baseURL: HUBSPOT_BASE_URL, timeout: 15000 });
+  }
+
+  async fetchOpportunities(): Promise<CrmOpportunity[]> {
+    const opportunities: CrmOpportunity[] = [];
+    let after: string | undefined;
+
+    do {
+      const page = await this.request<{ results: HubSpotObject[]; paging?: { next?: { after: string } } }>({
+        method: 'GET',
+        url: '/crm/v3/objects/deals',
+        params: {
+          limit: PAGE_SIZE,
+          properties: 'dealstage,amount,hs_lastmodifieddate',
+          associations: 'contacts',
+          ...(after ? { after } : {}),
+        },
+      });
+
+      opportunities.push(...(page?.results ?? []).map(deal => this.toOpportunity(deal)));
+      after = page?.paging?.next?.after;
+    } while (after);
+
+    return opportunities;
+  }
+
+  async fetchContact(contactId: string): Promise<CrmContact | null> {
+    const properties = ['email', 'lifecyclestage', 'hs_lead_status', this.mapping.contactProperty].filter(Boolean);
+    const contact = await this.request<HubSpotObject>({
+      method: 'GET',
+      url: `/crm/v3/objects/contacts/${encodeURIComponent(contactId)}`,
+      params: { properties: Array.from(new Set(properties)).join(',') },
+    }, true);
+    if (!contact) return null;
+
+    return {
+      kind: 'contact',
+      id: contact.id,
+      email: contact.properties?.email ?? undefined,
+      tags: [],
+      properties: contact.properties ?? {},
+      updatedAt: contact.updatedAt,
+    };
+  }
+
+  mapToLeadStatus(record: CrmRecord): CrmStatusMatch | null {
+    const match = record.kind === 'opportunity'
+      ? findMappedStatus(this.mapping.opportunityValues, [record.stage])
+      : findMappedStatus(
+        this.mapping.contactValues,
+        this.mapping.contactProperty ? [record.properties[this.mapping.contactProperty]] : []
+      );
+    if (!match) return null;
+
+    return {
+      ...match,
+      ...(match.status === 'unqualified' ? { unqualifiedReason: match.matchedValue } : {}),
+      ...(match.status === 'job_booked' && record.kind === 'opportunity' && record.amount !== undefined
+        ? { jobBookedAmount: record.amount }
+        : {}),
+    };
+  }
+
+  /**
+   * Verify a HubSpot webhook batch (signature v3) and apply each contact or deal it names.
+   * A batch can carry several changes of one object, each object is fetched once.
+   */
+  async receiveWebhook(request: CrmWebhookRequest, actor: LeadEventActor): Promise<CrmWebhookResult> {
+    this.verifySignature(request);
+
+    const events: HubSpotWebhookEvent[] = Array.isArray(request.payload) ? request.payload : [];
+    const objects = new Map<string, 'contact' | 'deal'>();
+    for (const event of events) {
+      const objectType = String(event?.subscriptionType ?? '').split('.')[0];
+      if ((objectType === 'contact' || objectType === 'deal') && event.objectId !== undefined) {
+        objects.set(`${objectType}:${event.objectId}`, objectType);
+      }
+    }
+
+    const results: CrmWebhookResult['results'] = [];
+    for (const [key, objectType] of objects) {
+      const objectId = key.slice(objectType.length + 1);
+
+      if (objectType === 'contact') {
+        const contact = await this.fetchContact(objectId);
+        results.push(contact
+          ? await this.applyRecord(contact, contact.email, actor)
+          : { objectId, outcome: 'skipped', skipReason: 'object_not_found' });
+        continue;
+      }
+
+      const deal = await this.request<HubSpotObject>({
+        method: 'GET',
+        url: `/crm/v3/objects/deals/${encodeURIComponent(objectId)}`,
+        params: { properties: 'dealstage,amount,hs_lastmodifieddate', associations: 'contacts' },
+      }, true);
+      const opportunity = deal ? this.toOpportunity(deal) : null;
+      const contact = opportunity?.contactId ? await this.fetchContact(opportunity.contactId) : null;
+
+      results.push(opportunity
+        ? await this.applyRecord(opportunity, contact?.email, actor)
+        : { objectId, outcome: 'skipped', skipReason: 'object_not_found' });
+    }
+
+    return this.summarize(results);
+  }
+
+  // ============= PRIVATE HELPER METHODS =============
+
+  private toOpportunity(deal: HubSpotObject): CrmOpportunity {
+    const amount = Number(deal.properties?.amount);
+    return {
+      kind: 'opportunity',
+      id: deal.id,
+      contactId: deal.associations?.contacts?.results?.[0]?.id ?? null,
+      stage: deal.properties?.dealstage ?? null,
+      ...(deal.properties?.amount && isFinite(amount) ? { amount } : {}),
+      tags: [],
+      updatedAt: deal.properties?.hs_lastmodifieddate ?? deal.updatedAt,
+    };
+  }
+
+  /**
+   * HMAC-SHA256 over method + URL + body + timestamp with the app's client secret, base64 encoded
+   */
+  private verifySignature(request: CrmWebhookRequest): void {
+    if (!this.webhookSecret) {
+      throw new CustomError(ErrorCode.UNAUTHORIZED, `No webhook secret configured for HubSpot portal ${this.accountId}`);
+    }
+
+    const signature = request.headers['x-hubspot-signature-v3'];
+    const timestamp = Number(request.headers['x-hubspot-request-timestamp']);
+    if (!signature || !timestamp) {
+      throw new CustomError(ErrorCode.UNAUTHORIZED, 'Missing HubSpot webhook signature');
+    }
+    if (Math.abs(Date.now() - timestamp) > MAX_SIGNATURE_AGE_MS) {
+      throw new CustomError(ErrorCode.UNAUTHORIZED, 'HubSpot webhook signature has expired');
+    }
+
+    const body = request.rawBody?.toString('utf8') ?? JSON.stringify(request.payload);
+    const expected = crypto
+      .createHmac('sha256', this.webhookSecret)
+      .update(`${request.method.toUpperCase()}${request.url}${body}${timestamp}`)
+      .digest();
+
+    if (!signaturesMatch(expected, Buffer.from(signature, 'base64'))) {
+      throw new CustomError(ErrorCode.UNAUTHORIZED, 'Invalid HubSpot webhook signature');
+    }
+  }
+
+  /**
+   * With allowNotFound a 404 resolves to null instead of an error
+   */
+  private async request<T>(requestConfig: AxiosRequestConfig, allowNotFound = false): Promise<T | null> {
+    const response = await this.http.request<T>({
+      ...requestConfig,
+      headers: { Authorization: `Bearer ${this.accessToken}`, 'Content-Type': 'application/json' },
+      validateStatus: () => true,
+    });
+
+    if (response.status < 300) return response.data;
+    if (response.status === 404 && allowNotFound) return null;
+
+    const data: any = response.data;
+    logger.error('[HubSpot API] Request failed', {
+      portalId: this.accountId,
+      url: requestConfig.url,
+      status: response.status,
+      message: data?.message,
+    });
+    throw new Error(`HubSpot request failed: ${response.status} - ${data?.message || response.statusText}`);
+  }
+}
+
+/**
+ * HubSpot webhook batches carry the portal ID on every event
+ */
+export function getHubSpotAccountId(payload: any): string | null {
+  const portalId = Array.isArray(payload) ? payload[0]?.portalId : undefined;
+  return portalId !== undefined && portalId !== null ? String(portalId) : null;
+}
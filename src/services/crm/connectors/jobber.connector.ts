@@ -0,0 +1,254 @@
+import axios, { AxiosInstance } from "axios";
+import crypto from "crypto";
+import { LeadEventActor } from "../../leads/domain/leads.domain.js";
+import {
+  CrmContact,
+  CrmOpportunity,
+  CrmRecord,
+  CrmStatusMapping,
+  CrmStatusMatch,
+  CrmWebhookRequest,
+  CrmWebhookResult
+} from "../domain/crm.domain.js";
+import { BaseCrmConnector } from "./baseCrm.connector.js";
+import { findMappedStatus, signaturesMatch } from "../utils/statusMapping.js";
+import { CustomError, ErrorCode } from "../../../pkg/error/custom_error.js";
+import logger from "../../../utils/logger.js";
+
+const JOBBER_GRAPHQL_URL = "https://api.getjobber.com/api/graphql";
+const JOBBER_GRAPHQL_VERSION = "2024-06-10";
+const PAGE_SIZE = 50;
+
+/**
+ * Jobber quote statuses. Clients have no lead status, so only quotes are mapped by default.
+ */
+export const DEFAULT_JOBBER_STATUS_MAPPING: CrmStatusMapping = {
+  contactValues: {},
+  opportunityValues: {
+    draft: 'estimate_set',
+    awaiting_response: 'proposal_presented',
+    changes_requested: 'proposal_presented',
+    approved: 'job_booked',
+    converted: 'job_booked',
+    archived: 'job_lost',
+  },
+};
+
+const CLIENT_FIELDS = `
+  id
+  updatedAt
+  emails { address primary }
+  tags { nodes { label } }
+`;
+
+const QUOTE_FIELDS = `
+  id
+  quoteStatus
+  updatedAt
+  amounts { total }
+  client { id emails { address primary } }
+`;
+
+type JobberEmail = { address: string; primary?: boolean };
+
+type JobberClient = {
+  id: string;
+  updatedAt?: string;
+  emails?: JobberEmail[];
+  tags?: { nodes?: Array<{ label: string }> };
+};
+
+type JobberQuote = {
+  id: string;
+  quoteStatus?: string;
+  updatedAt?: string;
+  amounts?: { total?: number };
+  client?: { id: string; emails?: JobberEmail[] };
+};
+
+/**
+ * Jobber account of a client. Quotes are the opportunities, mapped through their status.
+ */
+export class JobberCrmConnector extends BaseCrmConnector {
+  readonly provider = 'jobber' as const;
+  private http: AxiosInstance;
+  private mapping: CrmStatusMapping;
+
+  constructor(
+    accountId: string,
+    revenueProClientId: string,
+    private accessToken: string,
+    private webhookSecret: string | null,
+    mapping?: CrmStatusMapping | null
+  ) {
+    super(accountId, revenueProClientId);
+    this.mapping = mapping ?? DEFAULT_JOBBER_STATUS_MAPPING;
+    this.http = axios.create({ timeout: 15000 });
+  }
+
+  async fetchOpportunities(): Promise<CrmOpportunity[]> {
+    const opportunities: CrmOpportunity[] = [];
+    let after: string | null = null;
+
+    do {
+      const data: any = await this.query(
+        `query Quotes($first: Int!, $after: String) {
+          quotes(first: $first, after: $after) {
+            nodes { ${QUOTE_FIELDS} }
+            pageInfo { hasNextPage endCursor }
+          }
+        }`,
+        { first: PAGE_SIZE, after }
+      );
+
+      opportunities.push(...(data?.quotes?.nodes ?? []).map((quote: JobberQuote) => this.toOpportunity(quote)));
+      after = data?.quotes?.pageInfo?.hasNextPage ? data.quotes.pageInfo.endCursor : null;
+    } while (after);
+
+    return opportunities;
+  }
+
+  async fetchContact(contactId: string): Promise<CrmContact | null> {
+    const data: any = await this.query(
+      `query Client($id: EncodedId!) { client(id: $id) { ${CLIENT_FIELDS} } }`,
+      { id: contactId }
+    );
+    const client: JobberClient | null = data?.client ?? null;
+    if (!client) return null;
+
+    return {
+      kind: 'contact',
+      id: client.id,
+      email: getPrimaryEmail(client.emails),
+      tags: (client.tags?.nodes ?? []).map(tag => tag.label),
+      properties: {},
+      updatedAt: client.updatedAt,
+    };
+  }
+
+  mapToLeadStatus(record: CrmRecord): CrmStatusMatch | null {
+    const match = record.kind === 'opportunity'
+      ? findMappedStatus(this.mapping.opportunityValues, [record.stage])
+      // Client tags stand in for a lead status property
+      : findMappedStatus(this.mapping.contactValues, record.tags);
+    if (!match) return null;
+
+    return {
+      ...match,
+      ...(match.status === 'unqualified' ? { unqualifiedReason: match.matchedValue } : {}),
+      ...(match.status === 'job_booked' && record.kind === 'opportunity' && record.amount !== undefined
+        ? { jobBookedAmount: record.amount }
+        : {}),
+    };
+  }
+
+  /**
+   * Verify a Jobber webhook and apply the quote or client it names. Jobber sends one event
+   * per delivery with only the item ID, so the item is fetched.
+   */
+  async receiveWebhook(request: CrmWebhookRequest, actor: LeadEventActor): Promise<CrmWebhookResult> {
+    this.verifySignature(request);
+
+    const event = request.payload?.data?.webHookEvent;
+    const topic = String(event?.topic ?? '');
+    const objectId = event?.itemId ? String(event.itemId) : '';
+
+    if (!objectId || !(topic.startsWith('QUOTE_') || topic.startsWith('CLIENT_'))) {
+      return this.summarize([{ objectId, outcome: 'ignored' }]);
+    }
+
+    if (topic.startsWith('CLIENT_')) {
+      const contact = await this.fetchContact(objectId);
+      return this.summarize([contact
+        ? await this.applyRecord(contact, contact.email, actor)
+        : { objectId, outcome: 'skipped', skipReason: 'object_not_found' }]);
+    }
+
+    const data: any = await this.query(
+      `query Quote($id: EncodedId!) { quote(id: $id) { ${QUOTE_FIELDS} } }`,
+      { id: objectId }
+    );
+    const opportunity = data?.quote ? this.toOpportunity(data.quote) : null;
+
+    return this.summarize([opportunity
+      ? await this.applyRecord(opportunity, opportunity.email, actor)
+      : { objectId, outcome: 'skipped', skipReason: 'object_not_found' }]);
+  }
+
+  // ============= PRIVATE HELPER METHODS =============
+
+  private toOpportunity(quote: JobberQuote): CrmOpportunity {
+    const total = Number(quote.amounts?.total);
+    return {
+      kind: 'opportunity',
+      id: quote.id,
+      contactId: quote.client?.id ?? null,
+      email: getPrimaryEmail(quote.client?.emails),
+      stage: quote.quoteStatus ?? null,
+      ...(quote.amounts?.total !== undefined && isFinite(total) ? { amount: total } : {}),
+      tags: [],
+      updatedAt: quote.updatedAt,
+    };
+  }
+
+  /**
+   * HMAC-SHA256 of the raw body with the app's client secret, base64 encoded
+   */
+  private verifySignature(request: CrmWebhookRequest): void {
+    if (!this.webhookSecret) {
+      throw new CustomError(ErrorCode.UNAUTHORIZED, `No webhook secret configured for Jobber account ${this.accountId}`);
+    }
+
+    const signature = request.headers['x-jobber-hmac-sha256'];
+    if (!signature) {
+      throw new CustomError(ErrorCode.UNAUTHORIZED, 'Missing Jobber webhook signature');
+    }
+
+    const body = request.rawBody ?? Buffer.from(JSON.stringify(request.payload ?? {}));
+    const expected = crypto.createHmac('sha256', this.webhookSecret).update(body).digest();
+
+    if (!signaturesMatch(expected, Buffer.from(signature, 'base64'))) {
+      throw new CustomError(ErrorCode.UNAUTHORIZED, 'Invalid Jobber webhook signature');
+    }
+  }
+
+  private async query(query: string, variables: Record<string, unknown>): Promise<any> {
+    const response = await this.http.post(
+      JOBBER_GRAPHQL_URL,
+      { query, variables },
+      {
+        headers: {
+          Authorization: `Bearer ${this.accessToken}`,
+          'Content-Type': 'application/json',
+          'X-JOBBER-GRAPHQL-VERSION': JOBBER_GRAPHQL_VERSION,
+        },
+        validateStatus: () => true,
+      }
+    );
+
+    const errors = response.data?.errors;
+    if (response.status >= 300 || (Array.isArray(errors) && errors.length > 0)) {
+      const message = errors?.[0]?.message || response.data?.message || response.statusText;
+      logger.error('[Jobber API] Request failed', {
+        accountId: this.accountId,
+        status: response.status,
+        message,
+      });
+      throw new Error(`Jobber request failed: ${response.status} - ${message}`);
+    }
+
+    return response.data?.data;
+  }
+}
+
+function getPrimaryEmail(emails?: JobberEmail[]): string | undefined {
+  return (emails?.find(email => email.primary) ?? emails?.[0])?.address;
+}
+
+/**
+ * Jobber webhooks name the account the event belongs to
+ */
+export function getJobberAccountId(payload: any): string | null {
+  const accountId = payload?.data?.webHookEvent?.accountId;
+  return accountId ? String(accountId) : null;
+}
@@ -0,0 +1,106 @@
+import { LeadEventActor, LeadStatus } from "../../leads/domain/leads.domain.js";
+
+export const CRM_PROVIDERS = ['ghl', 'hubspot', 'jobber'] as const;
+export type CrmProvider = typeof CRM_PROVIDERS[number];
+
+// A deal, opportunity or quote, depending on the CRM
+export interface CrmOpportunity {
+  kind: 'opportunity';
+  id: string;
+  contactId: string | null;
+  email?: string;
+  // Pipeline stage, deal stage or quote status
+  stage: string | null;
+  amount?: number;
+  tags: string[];
+  updatedAt?: string;
+}
+
+export interface CrmContact {
+  kind: 'contact';
+  id: string;
+  email?: string;
+  tags: string[];
+  properties: Record<string, string | null>;
+  updatedAt?: string;
+}
+
+export type CrmRecord = CrmOpportunity | CrmContact;
+
+export interface CrmStatusMatch {
+  status: LeadStatus;
+  unqualifiedReason?: string;
+  // Tag, property value or stage that decided the status
+  matchedValue: string;
+  // Needed when the status is job_booked
+  jobBookedAmount?: number;
+}
+
+// Maps CRM property values and opportunity stages to lead statuses (HubSpot and Jobber)
+export interface CrmStatusMapping {
+  // Contact property holding the lead status, e.g. hs_lead_status
+  contactProperty?: string;
+  contactValues: Record<string, LeadStatus>;
+  opportunityValues: Record<string, LeadStatus>;
+}
+
+export interface CrmWebhookRequest {
+  payload: any;
+  rawBody?: Buffer;
+  headers: Record<string, string | undefined>;
+  // Full URL the webhook was sent to, part of some signatures
+  url: string;
+  method: string;
+}
+
+export interface CrmWebhookResult {
+  received: number;
+  updated: number;
+  skipped: number;
+  results: Array<{
+    objectId: string;
+    outcome: 'updated' | 'skipped' | 'ignored';
+    skipReason?: string;
+    leadId?: string;
+    status?: LeadStatus;
+  }>;
+}
+
+/**
+ * One client's connection to its CRM. Every CRM the app syncs leads from implements this.
+ */
+export interface CrmConnector {
+  readonly provider: CrmProvider;
+  // GHL location ID, HubSpot portal ID or Jobber account ID
+  readonly accountId: string;
+  readonly revenueProClientId: string;
+
+  fetchOpportunities(): Promise<CrmOpportunity[]>;
+  fetchContact(contactId: string): Promise<CrmContact | null>;
+  mapToLeadStatus(record: CrmRecord): CrmStatusMatch | null;
+  // Verify a webhook delivery and apply it to the client's leads
+  receiveWebhook(request: CrmWebhookRequest, actor: LeadEventActor): Promise<CrmWebhookResult>;
+  // Apply every opportunity of the CRM to the client's leads, catching up on missed webhooks
+  syncStatuses(actor: LeadEventActor): Promise<CrmWebhookResult>;
+}
+
+export interface CrmConnectionSyncResult {
+  revenueProClientId: string;
+  provider: CrmProvider;
+  accountId: string;
+  received: number;
+  updated: number;
+  skipped: number;
+  error?: string;
+}
+
+export interface ICrmConnection {
+  revenueProClientId: string;
+  provider: CrmProvider;
+  accountId: string;
+  // Not set for GHL, its token is kept on the IGhlClient of the location
+  encryptedAccessToken?: string | null;
+  encryptedWebhookSecret?: string | null;
+  statusMapping?: CrmStatusMapping | null;
+  status: 'active' | 'inactive';
+}
@@ -0,0 +1,34 @@
+import CrmConnectionModel, { ICrmConnectionDocument } from './models/crmConnection.model.js';
+import { CrmProvider, ICrmConnection } from '../domain/crm.domain.js';
+
+export class CrmConnectionRepository {
+
+  async getByClientId(revenueProClientId: string): Promise<ICrmConnectionDocument | null> {
+    return await CrmConnectionModel.findOne({ revenueProClientId }).exec();
+  }
+
+  async getActiveByAccount(provider: CrmProvider, accountId: string): Promise<ICrmConnectionDocument[]> {
+    return await CrmConnectionModel.find({ provider, accountId, status: 'active' }).exec();
+  }
+
+  async getAll(filters: { provider?: CrmProvider; status?: 'active' | 'inactive' } = {}): Promise<ICrmConnectionDocument[]> {
+    const query: Record<string, string> = {};
+    if (filters.provider) query.provider = filters.provider;
+    if (filters.status) query.status = filters.status;
+    return await CrmConnectionModel.find(query).sort({ updatedAt: -1 }).exec();
+  }
+
+  /**
+   * A client has one CRM connection; saving another provider replaces it
+   */
+  async upsertByClientId(revenueProClientId: string, data: Partial<ICrmConnection>): Promise<ICrmConnectionDocument> {
+    return await CrmConnectionModel.findOneAndUpdate(
+      { revenueProClientId },
+      { $set: { ...data, revenueProClientId } },
+      { upsert: true, new: true, runValidators: true }
+    ).exec();
+  }
+}
+
+// Export singleton instance
+export const crmConnectionRepository = new CrmConnectionRepository();
@@ -0,0 +1,35 @@
+import { Schema, model, Document } from 'mongoose';
+import { CRM_PROVIDERS, ICrmConnection } from '../../domain/crm.domain.js';
+
+export interface ICrmConnectionDocument extends ICrmConnection, Document {
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const crmConnectionSchema = new Schema<ICrmConnectionDocument>(
+  {
+    revenueProClientId: { type: String, required: true, unique: true },
+    provider: { type: String, enum: CRM_PROVIDERS, required: true },
+    accountId: { type: String, required: true },
+    encryptedAccessToken: { type: String, default: null },
+    encryptedWebhookSecret: { type: String, default: null },
+    statusMapping: {
+      type: new Schema(
+        {
+          contactProperty: { type: String, required: false },
+          contactValues: { type: Object, default: {} },
+          opportunityValues: { type: Object, default: {} },
+        },
+        { _id: false }
+      ),
+      default: null,
+    },
+    status: { type: String, enum: ['active', 'inactive'], default: 'active' },
+  },
+  { timestamps: true }
+);
+
+// Webhooks only carry the CRM account, connections are looked up by it
+crmConnectionSchema.index({ provider: 1, accountId: 1 });
+
+export default model<ICrmConnectionDocument>('CrmConnection', crmConnectionSchema);
@@ -0,0 +1,235 @@
+import { CrmConnectionRepository, crmConnectionRepository } from "../repository/CrmConnectionRepository.js";
+import { ICrmConnectionDocument } from "../repository/models/crmConnection.model.js";
+import {
+  CRM_PROVIDERS,
+  CrmConnectionSyncResult,
+  CrmConnector,
+  CrmProvider,
+  CrmWebhookRequest,
+  CrmWebhookResult,
+  ICrmConnection
+} from "../domain/crm.domain.js";
+import { GhlCrmConnector, getGhlAccountId } from "../connectors/ghl.connector.js";
+import { HubSpotCrmConnector, getHubSpotAccountId } from "../connectors/hubspot.connector.js";
+import { JobberCrmConnector, getJobberAccountId } from "../connectors/jobber.connector.js";
+import { validateStatusMapping } from "../utils/statusMapping.js";
+import ghlClientService, { GhlClientService } from "../../ghlClient/service/service.js";
+import { encrypt, decrypt } from "../../ghlClient/utils/encryption.js";
+import { CustomError, ErrorCode } from "../../../pkg/error/custom_error.js";
+import logger from "../../../utils/logger.js";
+
+export interface CrmConnectionInput {
+  provider: CrmProvider;
+  accountId: string;
+  accessToken?: string;
+  webhookSecret?: string;
+  statusMapping?: unknown;
+  status?: 'active' | 'inactive';
+}
+
+const ACCOUNT_ID_READERS: Record<CrmProvider, (payload: any) => string | null> = {
+  ghl: getGhlAccountId,
+  hubspot: getHubSpotAccountId,
+  jobber: getJobberAccountId,
+};
+
+export class CrmConnectorService {
+
+  constructor(
+    private connectionRepo: CrmConnectionRepository = crmConnectionRepository,
+    private ghlClients: GhlClientService = ghlClientService
+  ) {}
+
+  /**
+   * The CRM connector of a client. Clients without a CRM connection use their GHL location,
+   * as they did before connections existed.
+   */
+  async getConnector(revenueProClientId: string): Promise<CrmConnector | null> {
+    const connection = await this.connectionRepo.getByClientId(revenueProClientId);
+    if (connection) {
+      return connection.status === 'active' ? await this.createConnector(connection) : null;
+    }
+
+    const [ghlClient] = (await this.ghlClients.getGhlClientsByRevenueProClientId(revenueProClientId))
+      .filter(client => client.status === 'active');
+    return ghlClient ? new GhlCrmConnector(ghlClient) : null;
+  }
+
+  async getConnection(revenueProClientId: string): Promise<ICrmConnectionDocument | null> {
+    return await this.connectionRepo.getByClientId(revenueProClientId);
+  }
+
+  async getConnections(filters: { provider?: CrmProvider; status?: 'active' | 'inactive' } = {}): Promise<ICrmConnectionDocument[]> {
+    return await this.connectionRepo.getAll(filters);
+  }
+
+  /**
+   * Configure the CRM a client's leads come from. Credentials are stored encrypted; leaving
+   * them out keeps the stored ones when the provider and account don't change.
+   */
+  async upsertConnection(revenueProClientId: string, input: CrmConnectionInput): Promise<ICrmConnectionDocument> {
+    if (!CRM_PROVIDERS.includes(input.provider)) {
+      throw new CustomError(ErrorCode.VALIDATION_ERROR, `provider must be one of: ${CRM_PROVIDERS.join(', ')}`);
+    }
+    const accountId = typeof input.accountId === 'string' ? input.accountId.trim() : '';
+    if (!accountId) {
+      throw new CustomError(ErrorCode.VALIDATION_ERROR, "accountId is required");
+    }
+    if (input.status !== undefined && !['active', 'inactive'].includes(input.status)) {
+      throw new CustomError(ErrorCode.VALIDATION_ERROR, "status must be 'active' or 'inactive'");
+    }
+
+    const existing = await this.connectionRepo.getByClientId(revenueProClientId);
+    const sameAccount = existing?.provider === input.provider && existing?.accountId === accountId;
+    const data: Partial<ICrmConnection> = {
+      provider: input.provider,
+      accountId,
+      status: input.status ?? existing?.status ?? 'active',
+    };
+
+    if (input.provider === 'ghl') {
+      // GHL credentials, tag mapping and webhook secret stay on the GHL client
+      const ghlClient = await this.ghlClients.getGhlClientByLocationId(accountId);
+      if (!ghlClient || ghlClient.revenueProClientId !== revenueProClientId) {
+        throw new CustomError(
+          ErrorCode.VALIDATION_ERROR,
+          `No GHL client with locationId ${accountId} is configured for this client`
+        );
+      }
+      data.encryptedAccessToken = null;
+      data.encryptedWebhookSecret = null;
+      data.statusMapping = null;
+    } else {
+      data.encryptedAccessToken = input.accessToken
+        ? encrypt(input.accessToken)
+        : sameAccount ? existing?.encryptedAccessToken ?? null : null;
+      data.encryptedWebhookSecret = input.webhookSecret
+        ? encrypt(input.webhookSecret)
+        : sameAccount ? existing?.encryptedWebhookSecret ?? null : null;
+      if (!data.encryptedAccessToken) {
+        throw new CustomError(ErrorCode.VALIDATION_ERROR, `accessToken is required for ${input.provider}`);
+      }
+
+      if (input.statusMapping !== undefined) {
+        data.statusMapping = input.statusMapping === null ? null : validateStatusMapping(input.statusMapping);
+      } else if (!sameAccount) {
+        data.statusMapping = null;
+      }
+    }
+
+    return await this.connectionRepo.upsertByClientId(revenueProClientId, data);
+  }
+
+  /**
+   * Apply a webhook delivery to every active connection of the CRM account it came from
+   */
+  async handleWebhook(provider: CrmProvider, request: CrmWebhookRequest): Promise<CrmWebhookResult> {
+    if (!CRM_PROVIDERS.includes(provider)) {
+      throw new CustomError(ErrorCode.NOT_FOUND, `Unknown CRM provider: ${provider}`);
+    }
+
+    const accountId = ACCOUNT_ID_READERS[provider](request.payload);
+    if (!accountId) {
+      throw new CustomError(ErrorCode.BAD_REQUEST, `Webhook payload does not name a ${provider} account`);
+    }
+
+    // GHL locations may predate CRM connections, their GHL client is enough
+    if (provider === 'ghl') {
+      const ghlClient = await this.ghlClients.getGhlClientByLocationId(accountId);
+      if (!ghlClient) {
+        throw new CustomError(ErrorCode.NOT_FOUND, `No GHL client configured for location ${accountId}`);
+      }
+      return await new GhlCrmConnector(ghlClient).receiveWebhook(request);
+    }
+
+    const connections = await this.connectionRepo.getActiveByAccount(provider, accountId);
+    if (connections.length === 0) {
+      throw new CustomError(ErrorCode.NOT_FOUND, `No active ${provider} connection for account ${accountId}`);
+    }
+
+    const actor = { source: 'webhook' as const, actorId: accountId };
+    const combined: CrmWebhookResult = { received: 0, updated: 0, skipped: 0, results: [] };
+    for (const connection of connections) {
+      const connector = await this.createConnector(connection);
+      const result = await connector.receiveWebhook(request, actor);
+      combined.received += result.received;
+      combined.updated += result.updated;
+      combined.skipped += result.skipped;
+      combined.results.push(...result.results);
+    }
+
+    logger.info('[CRM Webhook] Delivery processed', {
+      provider,
+      accountId,
+      received: combined.received,
+      updated: combined.updated,
+      skipped: combined.skipped,
+    });
+
+    return combined;
+  }
+
+  /**
+   * Reconcile the leads of every active HubSpot and Jobber connection with their CRM, so a
+   * missed webhook is picked up by the next scheduled sync. GHL locations are synced by the
+   * lead sheets sync. A connection that fails is logged and skipped.
+   */
+  async syncAllConnections(): Promise<CrmConnectionSyncResult[]> {
+    const connections = (await this.connectionRepo.getAll({ status: 'active' }))
+      .filter(connection => connection.provider !== 'ghl');
+
+    const results: CrmConnectionSyncResult[] = [];
+    for (const { revenueProClientId, provider, accountId } of connections) {
+      const summary: CrmConnectionSyncResult = { revenueProClientId, provider, accountId, received: 0, updated: 0, skipped: 0 };
+      try {
+        const connector = await this.getConnector(revenueProClientId);
+        if (connector) {
+          const result = await connector.syncStatuses({ source: 'crm_sync', actorId: accountId });
+          summary.received = result.received;
+          summary.updated = result.updated;
+          summary.skipped = result.skipped;
+        }
+        logger.info('[CRM Sync] Connection synced', summary);
+      } catch (error: any) {
+        summary.error = error?.message || String(error);
+        logger.error('[CRM Sync] Connection sync failed', summary);
+      }
+      results.push(summary);
+    }
+
+    return results;
+  }
+
+  // ============= PRIVATE HELPER METHODS =============
+
+  private async createConnector(connection: ICrmConnection): Promise<CrmConnector> {
+    if (connection.provider === 'ghl') {
+      const ghlClient = await this.ghlClients.getGhlClientByLocationId(connection.accountId);
+      if (!ghlClient) {
+        throw new CustomError(ErrorCode.NOT_FOUND, `No GHL client configured for location ${connection.accountId}`);
+      }
+      return new GhlCrmConnector(ghlClient);
+    }
+
+    if (!connection.encryptedAccessToken) {
+      throw new CustomError(
+        ErrorCode.INTERNAL_SERVER_ERROR,
+        `No access token configured for ${connection.provider} account ${connection.accountId}`
+      );
+    }
+    const accessToken = decrypt(connection.encryptedAccessToken);
+    const webhookSecret = connection.encryptedWebhookSecret ? decrypt(connection.encryptedWebhookSecret) : null;
+    const statusMapping = this.toPlainMapping(connection.statusMapping);
+
+    return connection.provider === 'hubspot'
+      ? new HubSpotCrmConnector(connection.accountId, connection.revenueProClientId, accessToken, webhookSecret, statusMapping)
+      : new JobberCrmConnector(connection.accountId, connection.revenueProClientId, accessToken, webhookSecret, statusMapping);
+  }
+
+  private toPlainMapping(mapping: any): ICrmConnection['statusMapping'] {
+    if (!mapping) return null;
+    return typeof mapping.toObject === 'function' ? mapping.toObject() : mapping;
+  }
+}
+
+export default new CrmConnectorService();
@@ -0,0 +1,142 @@
+import { ILead, LeadEventActor, LeadStatus } from '../../leads/domain/leads.domain.js';
+import { ILeadRepository } from '../../leads/repository/interfaces.js';
+import { leadRepository } from '../../leads/repository/LeadRepository.js';
+import { LeadService } from '../../leads/service/LeadService.js';
+import { checkLeadStatusTransition } from '../../leads/utils/leadStatusTransitions.js';
+import { CrmProvider, CrmStatusMatch } from '../domain/crm.domain.js';
+import logger from '../../../utils/logger.js';
+
+export type CrmLeadSkipReason =
+  | 'missing_email'
+  | 'lead_not_found'
+  | 'lead_missing_fields'
+  | 'transition_not_allowed';
+
+export interface ApplyCrmStatusInput {
+  provider: CrmProvider;
+  accountId: string;
+  revenueProClientId: string;
+  email?: string;
+  match: CrmStatusMatch;
+  actor: LeadEventActor;
+  // Only called when the lead converts to estimate_set; the amount is stored as jobBookedAmount
+  resolveEstimateSetAmount?: () => Promise<number | null>;
+}
+
+export interface ApplyCrmStatusResult {
+  outcome: 'updated' | 'skipped';
+  skipReason?: CrmLeadSkipReason;
+  leadId?: string;
+  previousStatus?: string;
+  status?: LeadStatus;
+  matchedValue?: string;
+}
+
+export class CrmLeadStatusService {
+
+  constructor(
+    private leadRepo: ILeadRepository = leadRepository,
+    private leadService: LeadService = new LeadService()
+  ) {}
+
+  /**
+   * Apply a status from a CRM to the client's lead with the same email, through the
+   * lead status state machine. Shared by the CRM syncs and webhooks.
+   */
+  async applyStatus(input: ApplyCrmStatusInput): Promise<ApplyCrmStatusResult> {
+    const { provider, accountId, revenueProClientId, match } = input;
+    const { status, unqualifiedReason, matchedValue } = match;
+    const email = input.email?.trim();
+    const logContext = { provider, accountId, revenueProClientId, email };
+
+    // Skip if no email
+    if (!email) {
+      return { outcome: 'skipped', skipReason: 'missing_email', status, matchedValue };
+    }
+
+    // Find existing lead by email and clientId
+    const existingLeads = await this.leadRepo.findLeads({
+      email,
+      clientId: revenueProClientId,
+    });
+
+    // Skip if lead doesn't exist in DB
+    if (!existingLeads || existingLeads.length === 0) {
+      logger.debug('[CRM Lead Status] Lead not found in DB, skipping', logContext);
+      return { outcome: 'skipped', skipReason: 'lead_not_found', status, matchedValue };
+    }
+
+    // Get the first matching lead (lean documents still carry _id)
+    const existingLead = existingLeads[0] as Partial<ILead> & { _id: unknown };
+    const leadRef = {
+      leadId: String(existingLead._id),
+      previousStatus: existingLead.status,
+      status,
+      matchedValue,
+    };
+
+    // Ensure required fields exist
+    if (!existingLead.service || !existingLead.zip) {
+      logger.debug('[CRM Lead Status] Lead missing required fields, skipping', {
+        ...logContext,
+        hasService: !!existingLead.service,
+        hasZip: !!existingLead.zip,
+      });
+      return { outcome: 'skipped', skipReason: 'lead_missing_fields', ...leadRef };
+    }
+
+    // Prepare lead data - only update status, unqualified reason and a booked amount from the CRM
+    const leadData: Partial<ILead> = {
+      status: status,
+      unqualifiedLeadReason: unqualifiedReason || '',
+      ...(match.jobBookedAmount !== undefined ? { jobBookedAmount: match.jobBookedAmount } : {}),
+    };
+
+    // Skip status changes the lead status state machine doesn't allow (e.g. job_booked -> estimate_set)
+    const transition = checkLeadStatusTransition(existingLead.status as LeadStatus, status, leadData);
+    if (!transition.allowed) {
+      logger.debug('[CRM Lead Status] Status transition not allowed, skipping', {
+        ...logContext,
+        currentStatus: existingLead.status,
+        newStatus: status,
+        errorCode: transition.errorCode,
+      });
+      return { outcome: 'skipped', skipReason: 'transition_not_allowed', ...leadRef };
+    }
+
+    const isConvertingToEstimateSet = status === 'estimate_set' && existingLead.status !== 'estimate_set';
+    if (isConvertingToEstimateSet && input.resolveEstimateSetAmount) {
+      const amount = await input.resolveEstimateSetAmount();
+      if (amount !== null) {
+        leadData.jobBookedAmount = amount;
+      }
+      logger.debug('[CRM Lead Status] Resolved amount for lead converting to estimate_set', {
+        ...logContext,
+        currentStatus: existingLead.status,
+        amount,
+      });
+    }
+
+    // Update lead using the existing lead's query fields
+    const query = {
+      email,
+      clientId: revenueProClientId,
+      service: existingLead.service,
+      zip: existingLead.zip,
+    };
+
+    await this.leadService.upsertLead(query, leadData, input.actor);
+
+    logger.debug('[CRM Lead Status] Processed lead', {
+      ...logContext,
+      status,
+      unqualifiedReason,
+      matchedValue,
+      source: input.actor.source,
+    });
+
+    return { outcome: 'updated', ...leadRef };
+  }
+}
+
+export default new CrmLeadStatusService();
@@ -0,0 +1,62 @@
+import crypto from "crypto";
+import { LeadStatus, VALID_LEAD_STATUSES } from "../../leads/domain/leads.domain.js";
+import { CrmStatusMapping } from "../domain/crm.domain.js";
+import { CustomError, ErrorCode } from "../../../pkg/error/custom_error.js";
+
+/**
+ * Look up CRM values (property value, stage or tags) in a value -> status map.
+ * Keys are compared case-insensitively; the first candidate with a mapping wins.
+ */
+export function findMappedStatus(
+  values: Record<string, LeadStatus>,
+  candidates: Array<string | null | undefined>
+): { status: LeadStatus; matchedValue: string } | null {
+  const normalized = new Map(Object.entries(values).map(([key, status]) => [key.toLowerCase().trim(), status]));
+
+  for (const candidate of candidates) {
+    const key = String(candidate ?? '').toLowerCase().trim();
+    const status = key ? normalized.get(key) : undefined;
+    if (status) return { status, matchedValue: key };
+  }
+  return null;
+}
+
+/**
+ * Compare two signatures in constant time
+ */
+export function signaturesMatch(expected: Buffer, received: Buffer): boolean {
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
+
+/**
+ * Validate a status mapping sent by an admin
+ */
+export function validateStatusMapping(input: any): CrmStatusMapping {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new CustomError(ErrorCode.VALIDATION_ERROR, "statusMapping must be an object");
+  }
+  if (input.contactProperty !== undefined && (typeof input.contactProperty !== 'string' || !input.contactProperty.trim())) {
+    throw new CustomError(ErrorCode.VALIDATION_ERROR, "statusMapping.contactProperty must be a non-empty string");
+  }
+
+  return {
+    ...(input.contactProperty ? { contactProperty: input.contactProperty.trim() } : {}),
+    contactValues: validateValueMap(input.contactValues ?? {}, 'statusMapping.contactValues'),
+    opportunityValues: validateValueMap(input.opportunityValues ?? {}, 'statusMapping.opportunityValues'),
+  };
+}
+
+function validateValueMap(values: any, path: string): Record<string, LeadStatus> {
+  if (!values || typeof values !== 'object' || Array.isArray(values)) {
+    throw new CustomError(ErrorCode.VALIDATION_ERROR, `${path} must be an object of value -> lead status`);
+  }
+
+  const invalid = Object.entries(values).filter(([, status]) => !VALID_LEAD_STATUSES.includes(status as LeadStatus));
+  if (invalid.length > 0) {
+    throw new CustomError(
+      ErrorCode.VALIDATION_ERROR,
+      `${path} has unknown statuses for: ${invalid.map(([key]) => key).join(', ')}. Must be one of: ${VALID_LEAD_STATUSES.join(', ')}`
+    );
+  }
+  return Object.fromEntries(Object.entries(values).map(([key, status]) => [key.trim(), status as LeadStatus]));
+}
@@ -1,5 +1,6 @@
 import cron from "node-cron";
 import { LeadScoringService, LeadService } from "../leads/service/index.js";
+import { CONVERSION_RATE_DECAY } from "../leads/utils/config.js";
 import logger from "../../utils/logger.js";
 import CronLogger from "../../utils/cronLogger.js";
 import { MongoCronLogger } from "../../utils/mongoCronLogger.js";
@@ -78,6 +79,7 @@ export class ConversionRateUpdateService {
               totalUpdatedConversionRates: result.totalUpdatedConversionRates,
               totalUpdatedLeads: result.totalUpdatedLeads,
               totalProcessedLeads: result.totalProcessedLeads,
+              decayHalfLifeWeeks: CONVERSION_RATE_DECAY.HALF_LIFE_WEEKS,
               errors: result.errors,
               durationMs: duration,
               breakdown: {
@@ -168,7 +170,10 @@ export class ConversionRateUpdateService {
           CronLogger.logClientUpdateStart(clientId);
           
           // Use the comprehensive update method that handles both conversion rates AND lead updates
-          const result = await this.leadScoringService.processLeadScoresAndCRsByClientId(clientId);
+          // Weekly run uses time-decayed rates so recent leads count more
+          const result = await this.leadScoringService.processLeadScoresAndCRsByClientId(clientId, {
+            decayHalfLifeWeeks: CONVERSION_RATE_DECAY.HALF_LIFE_WEEKS
+          });
           
           totalUpdatedConversionRates += result.updatedConversionRates;
           totalUpdatedLeads += result.updatedLeads;
@@ -89,32 +89,17 @@ async function fetchAndEnrichCreatives(
       const credentials = await facebookCredentialsService.getCredentials(clientId);
       
       if (credentials) {
-        // Fetch missing creatives in parallel (with batch size limit to avoid rate limits)
-        const BATCH_SIZE = 10;
-        for (let i = 0; i < missingCreativeIds.length; i += BATCH_SIZE) {
-          const batch = missingCreativeIds.slice(i, i + BATCH_SIZE);
-          
-          await Promise.all(
-            batch.map(async (creativeId) => {
-              try {
-                const creative = await creativesService.getCreative(
-                  creativeId,
-                  clientId,
-                  credentials.adAccountId,
-                  credentials.accessToken,
-                  false
-                );
-                
-                if (creative) {
-                  creativesMap[creativeId] = creative;
-                  console.log(`[AdPerformanceBoard] Fetched and cached creative ${creativeId} from Facebook`);
-                }
-              } catch (error: any) {
-                // Log error but don't block - continue with other creatives
-                console.error(`[AdPerformanceBoard] Failed to fetch creative ${creativeId} from Facebook:`, error.message || error);
-              }
-            })
-          );
+        // Fetch missing creatives through the batch endpoint; failed ones are skipped
+        const { creatives: fetched, failed } = await creativesService.getCreatives(
+          missingCreativeIds,
+          clientId,
+          credentials.adAccountId,
+          credentials.accessToken,
+          true
+        );
+        Object.assign(creativesMap, fetched);
+        if (failed.length > 0) {
+          console.error(`[AdPerformanceBoard] Failed to fetch ${failed.length} creatives from Facebook:`, failed.join(', '));
         }
         
         console.log(`[AdPerformanceBoard] Successfully fetched ${Object.keys(creativesMap).length - creatives.length} creatives from Facebook`);
@@ -39,10 +39,10 @@ export class FacebookConversionApiService {
   }
 
   /**
-   * Normalize and hash phone number
+   * Normalize phone number
    * Remove spaces, dashes, parentheses, and other non-numeric characters except leading +
    */
-  private normalizeAndHashPhone(phone: string): string {
+  normalizePhone(phone: string): string {
     // Remove all non-numeric characters except leading +
     let normalized = phone.replace(/[^\d+]/g, '');
 
@@ -53,7 +53,14 @@ export class FacebookConversionApiService {
       normalized = '+1' + normalized;
     }
 
-    return this.hashValue(normalized);
+    return normalized;
+  }
+
+  /**
+   * Normalize and hash phone number
+   */
+  private normalizeAndHashPhone(phone: string): string {
+    return this.hashValue(this.normalizePhone(phone));
   }
 
   /**
@@ -370,6 +370,21 @@ export interface SaveWeeklyAnalyticsParams {
   accessToken: string;
 }
 
+// async_status of an async insights report run
+export type InsightsReportRunStatus =
+  | 'Job Not Started'
+  | 'Job Started'
+  | 'Job Running'
+  | 'Job Completed'
+  | 'Job Failed'
+  | 'Job Skipped';
+
+export interface InsightsReportRun {
+  id: string;
+  status: InsightsReportRunStatus;
+  percentCompletion: number;
+}
+
 export interface SaveResult {
   savedCount: number;
   weeksSaved: number;
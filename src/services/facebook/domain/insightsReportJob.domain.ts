@@ -0,0 +1,59 @@
+import { Document } from "mongoose";
+import { InsightsReportRunStatus } from "./facebookAds.domain.js";
+
+export type InsightsReportJobStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface IInsightsReportJob {
+  clientId: string;
+  facebookAdAccountId: string;
+
+  // Monday-aligned range being backfilled
+  startDate: string; // YYYY-MM-DD format
+  endDate: string;   // YYYY-MM-DD format
+  totalWeeks: number;
+
+  // Progress; a resumed job continues with the week after lastCompletedWeek
+  status: InsightsReportJobStatus;
+  completedWeeks: number;
+  lastCompletedWeek: string | null; // weekStartDate of the last saved week
+  savedCount: number;
+
+  // Report run currently being waited on
+  reportRunId: string | null;
+  reportRunStatus: InsightsReportRunStatus | null;
+  reportRunPercent: number;
+
+  error: string | null;
+  attempts: number;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+  createdBy: string | null;
+}
+
+export interface IInsightsReportJobDocument extends IInsightsReportJob, Document {
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface InsightsReportJobProgress {
+  id: string;
+  clientId: string;
+  adAccountId: string;
+  startDate: string;
+  endDate: string;
+  status: InsightsReportJobStatus;
+  totalWeeks: number;
+  completedWeeks: number;
+  lastCompletedWeek: string | null;
+  savedCount: number;
+  // Completed weeks plus the share of the running report, 0-100
+  percent: number;
+  reportRunId: string | null;
+  reportRunStatus: InsightsReportRunStatus | null;
+  error: string | null;
+  attempts: number;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
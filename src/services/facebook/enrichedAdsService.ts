@@ -3,7 +3,7 @@ import { getAdInsights } from './fbInsightsService.js';
 import { getAdsWithCreatives, mapAdWithCreative } from './fbAdsService.js';
 import { getLeadForms } from './fbLeadFormsService.js';
 import { DateUtils } from '../../utils/date.utils.js';
-import { EnrichedAd, WeeklyMetaSpend } from './domain/facebookAds.domain.js';
+import { AdInsight, EnrichedAd, WeeklyMetaSpend } from './domain/facebookAds.domain.js';
 
 export async function getEnrichedAds({ 
   adAccountId, 
@@ -36,6 +36,14 @@ export async function getEnrichedAds({
   }
 
   const insightsRows = await getAdInsights({ adAccountId, since: _startDate, until: _endDate, accessToken });
+  return await enrichAdInsights(insightsRows, accessToken);
+}
+
+/**
+ * Join insight rows with their ads' creatives and lead forms, for rows pulled synchronously
+ * or from an async report run
+ */
+export async function enrichAdInsights(insightsRows: AdInsight[], accessToken: string): Promise<EnrichedAd[]> {
   if (!insightsRows.length) {
     return [];
   }
@@ -1,5 +1,7 @@
 // facebookCredentialsService.ts
 import UserService from '../user/service/service.js';
+import { IUser } from '../user/domain/user.domain.js';
+import { isMetaTokenUsable } from '../metaOAuth/utils/tokenStatus.js';
 import { config } from '../../config.js';
 
 export interface FacebookCredentials {
@@ -41,10 +43,7 @@ export class FacebookCredentialsService {
         ? rawAdAccountId
         : `act_${rawAdAccountId}`;
 
-      // Get Meta access token from hardcoded client
-      const metaTokenClientId = config.META_USER_TOKEN_ID;
-      const metaTokenUser = await this.userService.getUserById(metaTokenClientId);
-      const accessToken = (metaTokenUser as any)?.metaAccessToken as string | undefined;
+      const accessToken = await this.getAccessToken(clientUser);
 
       if (!accessToken) {
         console.error(`[FacebookCredentials] Meta access token not configured`);
@@ -60,6 +59,18 @@ export class FacebookCredentialsService {
       return null;
     }
   }
+
+  /**
+   * Meta access token for a client: their own token while it is valid and not expired,
+   * otherwise the shared token of the hardcoded token owner
+   */
+  async getAccessToken(clientUser: IUser): Promise<string | undefined> {
+    if (isMetaTokenUsable(clientUser)) {
+      return clientUser.metaAccessToken;
+    }
+    const metaTokenUser = await this.userService.getUserById(config.META_USER_TOKEN_ID);
+    return metaTokenUser?.metaAccessToken;
+  }
 }
 
 export const facebookCredentialsService = new FacebookCredentialsService();
@@ -1,5 +1,5 @@
 // fbAdAccountsService.ts
-import { fbGet } from './fbClient.js';
+import { fbGetAll } from './fbClient.js';
 import { AdAccount, AdAccountsResponse } from './domain/facebookAds.domain.js';
 
 /**
@@ -18,8 +18,7 @@ export async function getAllAdAccounts(
     fields: 'name',
     limit: 100,
   };
-  const ownedRes = await fbGet(`/me/adaccounts`, accountParams, accessToken);
-  const ownedAccounts: AdAccount[] = ownedRes.data || [];
+  const ownedAccounts = await fbGetAll<AdAccount>(`/me/adaccounts`, accountParams, accessToken);
   console.log(`[Ad Accounts] Retrieved ${ownedAccounts.length} owned ad accounts`);
 
   return {
@@ -61,8 +60,7 @@ export async function getOwnedAdAccounts(
     limit: 100,
   };
 
-  const res = await fbGet(`/${businessId}/owned_ad_accounts`, params, accessToken);
-  const accounts: AdAccount[] = res.data || [];
+  const accounts = await fbGetAll<AdAccount>(`/${businessId}/owned_ad_accounts`, params, accessToken);
   console.log(`[Ad Accounts] Retrieved ${accounts.length} owned ad accounts`);
   
   return accounts;
@@ -102,8 +100,7 @@ export async function getClientAdAccounts(
     limit: 100,
   };
 
-  const res = await fbGet(`/${businessId}/client_ad_accounts`, params, accessToken);
-  const accounts: AdAccount[] = res.data || [];
+  const accounts = await fbGetAll<AdAccount>(`/${businessId}/client_ad_accounts`, params, accessToken);
   console.log(`[Ad Accounts] Retrieved ${accounts.length} client ad accounts`);
   
   return accounts;
@@ -4,6 +4,59 @@ import { config } from '../../config.js';
 const FB_API_VERSION = config.META_API_VERSION || 'v24.0';
 const FB_BASE_URL = `https://graph.facebook.com/${FB_API_VERSION}`;
 
+// Graph error codes that succeed when retried later: unknown, service, app and user
+// request limits, and too many calls for the action
+const TRANSIENT_ERROR_CODES = [1, 2, 4, 17, 613];
+const RATE_LIMIT_ERROR_CODES = [4, 17, 613];
+const MAX_RETRIES = 4;
+const BASE_BACKOFF_MS = 1000;
+const RATE_LIMIT_BACKOFF_MS = 15 * 1000;
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+
+// Usage percentage from the usage headers where requests start being spaced out, and where
+// they wait until Meta reports access again
+const USAGE_SLOWDOWN_PERCENT = 75;
+const USAGE_PAUSE_PERCENT = 95;
+
+// Graph accepts at most 50 requests per batch call
+export const FB_BATCH_LIMIT = 50;
+
+/**
+ * Error returned by the Graph API. code and subcode are Meta's error codes, status is the HTTP status.
+ */
+export class FbApiError extends Error {
+  status: number;
+  code: number | null;
+  subcode: number | null;
+  isTransient: boolean;
+  fbtraceId: string | null;
+
+  constructor(status: number, body: any, fallbackText: string = '') {
+    const error = body?.error ?? {};
+    super(`Facebook API error: ${status} ${error.message || fallbackText}`);
+    this.name = 'FbApiError';
+    this.status = status;
+    this.code = typeof error.code === 'number' ? error.code : null;
+    this.subcode = typeof error.error_subcode === 'number' ? error.error_subcode : null;
+    this.isTransient = error.is_transient === true || (this.code !== null && TRANSIENT_ERROR_CODES.includes(this.code));
+    this.fbtraceId = error.fbtrace_id ?? null;
+  }
+}
+
+export interface FbBatchRequest {
+  path: string;
+  params?: Record<string, any>;
+}
+
+export interface FbBatchResult<T = any> {
+  request: FbBatchRequest;
+  data: T | null;
+  error: FbApiError | null;
+}
+
+// When the next request for an ad account (or token) may go out, from its last usage headers
+const nextRequestAt = new Map<string, number>();
+
 /**
  * Sleep/delay utility
  */
@@ -12,7 +65,8 @@ function sleep(ms: number): Promise<void> {
 }
 
 /**
- * Generic GET helper for Facebook Graph API
+ * Generic GET helper for Facebook Graph API. Waits when the usage headers say the account is
+ * close to its limits and retries transient errors with backoff.
  * @param path - e.g. '/act_123456789/insights' or '/'
  * @param params - query params as key->value
  * @param accessToken - Meta access token to use for this request
@@ -27,27 +81,268 @@ export async function fbGet(
   }
 
   const url = new URL(FB_BASE_URL + path);
+  setParams(url, params);
+  url.searchParams.set('access_token', accessToken);
+
+  return withRetry(path, throttleKey(path, accessToken), () => fetch(url.toString()));
+}
+
+/**
+ * POST helper for Graph API writes, e.g. starting an async insights report run. Uses the same
+ * throttling as fbGet, but only retries rate limit responses: after a timeout or a server
+ * error Meta may have done the write already, and sending it again would do it twice.
+ * @param path - e.g. '/act_123456789/insights'
+ * @param params - form params as key->value
+ * @param accessToken - Meta access token to use for this request
+ */
+export async function fbPost(
+  path: string,
+  params: Record<string, any> = {},
+  accessToken?: string
+): Promise<any> {
+  if (!accessToken) {
+    throw new Error('Meta access token is required for Facebook API calls');
+  }
 
+  const body = new URLSearchParams();
   Object.entries(params).forEach(([key, value]) => {
     if (value !== undefined && value !== null) {
-      url.searchParams.set(key, String(value));
+      body.set(key, String(value));
     }
   });
+  body.set('access_token', accessToken);
 
-  url.searchParams.set('access_token', accessToken);
+  return withRetry(path, throttleKey(path, accessToken), () => fetch(FB_BASE_URL + path, { method: 'POST', body }), false);
+}
+
+/**
+ * GET every page of an edge by following paging.next, e.g. insights or ad accounts
+ * @param maxPages - stop after this many pages, guards against endless paging
+ */
+export async function fbGetAll<T = any>(
+  path: string,
+  params: Record<string, any> = {},
+  accessToken?: string,
+  maxPages: number = 100
+): Promise<T[]> {
+  if (!accessToken) {
+    throw new Error('Meta access token is required for Facebook API calls');
+  }
+
+  const key = throttleKey(path, accessToken);
+  let page = await fbGet(path, params, accessToken);
+  const rows: T[] = [...(page?.data ?? [])];
+
+  for (let pages = 1; page?.paging?.next && pages < maxPages; pages++) {
+    // next already carries the query and the token
+    const next: string = page.paging.next;
+    page = await withRetry(path, key, () => fetch(next));
+    rows.push(...(page?.data ?? []));
+  }
+
+  if (page?.paging?.next) {
+    console.warn(`[FB API] Stopped paging ${path} after ${maxPages} pages`);
+  }
+  return rows;
+}
+
+/**
+ * Run GET requests through the /?batch= endpoint, 50 per call. Results keep the order of the
+ * requests; a failing request has its error instead of data and does not fail the others.
+ * Requests failing with a transient error are sent again with backoff.
+ */
+export async function fbBatch<T = any>(
+  requests: FbBatchRequest[],
+  accessToken?: string
+): Promise<FbBatchResult<T>[]> {
+  if (!accessToken) {
+    throw new Error('Meta access token is required for Facebook API calls');
+  }
+
+  const results: FbBatchResult<T>[] = requests.map((request) => ({ request, data: null, error: null }));
+
+  for (let i = 0; i < requests.length; i += FB_BATCH_LIMIT) {
+    let pending = results.slice(i, i + FB_BATCH_LIMIT);
+
+    for (let attempt = 0; pending.length > 0; attempt++) {
+      const responses = await postBatch(pending.map((result) => result.request), accessToken);
 
-  console.log(`[FB API] Making request to: ${path}`);
-  console.log(`[FB API] Params:`, JSON.stringify(params, null, 2));
+      pending.forEach((result, index) => {
+        const response = responses[index];
+        const body = parseJson(response?.body);
+        if (response && response.code >= 200 && response.code < 300) {
+          result.data = body;
+          result.error = null;
+        } else {
+          // Graph returns null for requests it did not get to, e.g. when the batch timed out
+          result.error = new FbApiError(response?.code ?? 500, body, response ? '' : 'Request was not processed');
+          if (!response) result.error.isTransient = true;
+        }
+      });
 
-  const res = await fetch(url.toString());
+      const retry = pending.filter((result) => result.error?.isTransient);
+      if (retry.length === 0 || attempt >= MAX_RETRIES) break;
+
+      const delay = backoffDelay(attempt, retry.some((result) => isRateLimit(result.error)));
+      console.warn(`[FB API] Retrying ${retry.length} batch requests in ${delay}ms (attempt ${attempt + 1})`);
+      await sleep(delay);
+      pending = retry;
+    }
+  }
+
+  return results;
+}
+
+// ============= PRIVATE HELPERS =============
+
+async function postBatch(
+  requests: FbBatchRequest[],
+  accessToken: string
+): Promise<Array<{ code: number; body: string } | null>> {
+  const batch = requests.map((request) => {
+    const url = new URL(FB_BASE_URL + request.path);
+    setParams(url, request.params ?? {});
+    // relative_url is resolved against the version of the batch call
+    return { method: 'GET', relative_url: `${request.path.replace(/^\//, '')}${url.search}` };
+  });
+
+  const body = new URLSearchParams({
+    access_token: accessToken,
+    batch: JSON.stringify(batch),
+    include_headers: 'false',
+  });
+
+  return withRetry('/?batch', throttleKey('/', accessToken), () => fetch(FB_BASE_URL + '/', { method: 'POST', body }));
+}
+
+/**
+ * Send a request, wait out the account's throttle first and retry transient failures.
+ * Requests that are not idempotent are only retried on rate limit responses, which Meta
+ * rejects before doing anything.
+ */
+async function withRetry(path: string, key: string, send: () => Promise<Response>, idempotent = true): Promise<any> {
+  for (let attempt = 0; ; attempt++) {
+    const wait = (nextRequestAt.get(key) ?? 0) - Date.now();
+    if (wait > 0) {
+      console.warn(`[FB API] Throttling ${path} for ${wait}ms`);
+      await sleep(wait);
+    }
+
+    let res: Response;
+    try {
+      res = await send();
+    } catch (error: any) {
+      // Network errors are retried like transient Graph errors
+      if (!idempotent || attempt >= MAX_RETRIES) throw error;
+      const delay = backoffDelay(attempt, false);
+      console.warn(`[FB API] Request to ${path} failed (${error?.message || error}), retrying in ${delay}ms`);
+      await sleep(delay);
+      continue;
+    }
+
+    updateThrottle(key, res.headers);
+
+    if (res.ok) {
+      console.log(`[FB API] ${path} - ${res.status}`);
+      return res.json();
+    }
 
-  if (!res.ok) {
     const text = await res.text();
-    console.error('[FB API] Error:', res.status, text);
-    throw new Error(`Facebook API error: ${res.status} ${text}`);
+    const error = new FbApiError(res.status, parseJson(text), text);
+    const retryable = idempotent ? error.isTransient || res.status >= 500 : isRateLimit(error);
+    if (!retryable) {
+      console.error('[FB API] Error:', path, res.status, error.code, error.message);
+      throw error;
+    }
+    if (attempt >= MAX_RETRIES) {
+      console.error(`[FB API] Giving up on ${path} after ${attempt + 1} attempts:`, error.message);
+      throw error;
+    }
+
+    const delay = Math.max(backoffDelay(attempt, isRateLimit(error)), (nextRequestAt.get(key) ?? 0) - Date.now());
+    console.warn(`[FB API] ${path} failed with code ${error.code ?? res.status}, retrying in ${delay}ms (attempt ${attempt + 1})`);
+    await sleep(delay);
   }
+}
+
+/**
+ * Space out or pause the next requests from the usage headers. x-ad-account-usage reports the
+ * account's utilization, x-business-use-case-usage and x-app-usage the business and app call,
+ * CPU and time percentages plus how long until access is regained.
+ */
+function updateThrottle(key: string, headers: Headers): void {
+  let usage = 0;
+  // Time until the usage resets, and until access is back once Meta blocked the business
+  let resetMs = 0;
+  let blockedMs = 0;
 
-  const data = await res.json();
-  console.log(`[FB API] Success - Response size:`, JSON.stringify(data).length, 'bytes');
-  return data;
+  const adAccountUsage = parseJson(headers.get('x-ad-account-usage'));
+  if (adAccountUsage) {
+    usage = Math.max(usage, Number(adAccountUsage.acc_id_util_pct) || 0);
+    resetMs = Math.max(resetMs, (Number(adAccountUsage.reset_time_duration) || 0) * 1000);
+  }
+
+  const businessUsage = parseJson(headers.get('x-business-use-case-usage'));
+  if (businessUsage && typeof businessUsage === 'object') {
+    Object.values(businessUsage).flat().forEach((entry: any) => {
+      usage = Math.max(usage, Number(entry?.call_count) || 0, Number(entry?.total_cputime) || 0, Number(entry?.total_time) || 0);
+      blockedMs = Math.max(blockedMs, (Number(entry?.estimated_time_to_regain_access) || 0) * 60 * 1000);
+    });
+  }
+
+  const appUsage = parseJson(headers.get('x-app-usage'));
+  if (appUsage) {
+    usage = Math.max(usage, Number(appUsage.call_count) || 0, Number(appUsage.total_cputime) || 0, Number(appUsage.total_time) || 0);
+  }
+
+  let delay = 0;
+  if (blockedMs > 0) {
+    delay = Math.min(blockedMs, MAX_BACKOFF_MS);
+  } else if (usage >= USAGE_PAUSE_PERCENT) {
+    delay = Math.min(Math.max(resetMs, RATE_LIMIT_BACKOFF_MS), MAX_BACKOFF_MS);
+  } else if (usage >= USAGE_SLOWDOWN_PERCENT) {
+    // Up to 5s between requests as usage approaches the pause threshold
+    delay = Math.round(((usage - USAGE_SLOWDOWN_PERCENT) / (USAGE_PAUSE_PERCENT - USAGE_SLOWDOWN_PERCENT)) * 5000);
+  }
+
+  if (delay > 0) {
+    nextRequestAt.set(key, Math.max(nextRequestAt.get(key) ?? 0, Date.now() + delay));
+  } else {
+    nextRequestAt.delete(key);
+  }
+}
+
+/**
+ * Usage limits are per ad account, other requests share the limits of their token
+ */
+function throttleKey(path: string, accessToken: string): string {
+  const adAccount = path.match(/act_\d+/)?.[0];
+  return adAccount ?? `token:${accessToken.slice(-12)}`;
+}
+
+function backoffDelay(attempt: number, rateLimited: boolean): number {
+  const base = rateLimited ? RATE_LIMIT_BACKOFF_MS : BASE_BACKOFF_MS;
+  const jitter = Math.random() * base;
+  return Math.round(Math.min(base * 2 ** attempt + jitter, MAX_BACKOFF_MS));
+}
+
+function isRateLimit(error: FbApiError | null): boolean {
+  return error?.code !== null && error?.code !== undefined && RATE_LIMIT_ERROR_CODES.includes(error.code);
+}
+
+function setParams(url: URL, params: Record<string, any>): void {
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) {
+      url.searchParams.set(key, String(value));
+    }
+  });
+}
+
+function parseJson(text: string | null | undefined): any {
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
 }
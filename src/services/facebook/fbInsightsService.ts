@@ -1,6 +1,73 @@
 // fbInsightsService.ts
-import { fbGet } from './fbClient.js';
-import { AdInsight } from './domain/facebookAds.domain.js';
+import { fbGet, fbGetAll, fbPost } from './fbClient.js';
+import { AdInsight, InsightsReportRun } from './domain/facebookAds.domain.js';
+
+// Fields requested for every ad insight row, by the synchronous pull and by async report runs
+const AD_INSIGHT_FIELDS = [
+  // ===== IDENTIFIERS =====
+  'ad_id',
+  'ad_name',
+  'adset_id',
+  'adset_name',
+  'campaign_id',
+  'campaign_name',
+  
+  // ===== CAMPAIGN SETTINGS =====
+  'objective',
+  'buying_type',
+  
+  // ===== BASIC PERFORMANCE =====
+  'impressions',
+  'reach',
+  'frequency',
+  'clicks',
+  'unique_clicks',
+  'ctr',
+  'unique_ctr',
+  'cpc',
+  'cpm',
+  'cpp',
+  
+  // ===== SPEND =====
+  'spend',
+  
+  // ===== LINK CLICKS =====
+  'inline_link_clicks',
+  'outbound_clicks',
+  'unique_outbound_clicks',
+  'inline_link_click_ctr',
+  'cost_per_inline_link_click',
+  
+  // ===== ENGAGEMENT =====
+  'inline_post_engagement',
+  
+  // ===== QUALITY RANKING =====
+  'quality_ranking',
+  
+  // ===== VIDEO METRICS =====
+  'video_30_sec_watched_actions',
+  'video_p25_watched_actions',
+  'video_p50_watched_actions',
+  'video_p75_watched_actions',
+  'video_p100_watched_actions',
+  'video_avg_time_watched_actions',
+  'video_play_actions',
+  'video_thruplay_watched_actions',
+  
+  // ===== ACTIONS & CONVERSIONS (Most Important) =====
+  'actions',
+  'action_values',
+  'cost_per_action_type',
+  'conversions',
+  'conversion_values',
+  
+  // ===== ROAS =====
+  'purchase_roas',
+  
+  // ===== DATE RANGE =====
+  'date_start',
+  'date_stop',
+].join(',');
 
 export async function getAdInsights({
   adAccountId,
@@ -24,78 +91,74 @@ export async function getAdInsights({
 
   const params = {
     level: 'ad',
-    fields: [
-      // ===== IDENTIFIERS =====
-      'ad_id',
-      'ad_name',
-      'adset_id',
-      'adset_name',
-      'campaign_id',
-      'campaign_name',
-      
-      // ===== CAMPAIGN SETTINGS =====
-      'objective',
-      'buying_type',
-      
-      // ===== BASIC PERFORMANCE =====
-      'impressions',
-      'reach',
-      'frequency',
-      'clicks',
-      'unique_clicks',
-      'ctr',
-      'unique_ctr',
-      'cpc',
-      'cpm',
-      'cpp',
-      
-      // ===== SPEND =====
-      'spend',
-      
-      // ===== LINK CLICKS =====
-      'inline_link_clicks',
-      'outbound_clicks',
-      'unique_outbound_clicks',
-      'inline_link_click_ctr',
-      'cost_per_inline_link_click',
-      
-      // ===== ENGAGEMENT =====
-      'inline_post_engagement',
-      
-      // ===== QUALITY RANKING =====
-      'quality_ranking',
-      
-      // ===== VIDEO METRICS =====
-      'video_30_sec_watched_actions',
-      'video_p25_watched_actions',
-      'video_p50_watched_actions',
-      'video_p75_watched_actions',
-      'video_p100_watched_actions',
-      'video_avg_time_watched_actions',
-      'video_play_actions',
-      'video_thruplay_watched_actions',
-      
-      // ===== ACTIONS & CONVERSIONS (Most Important) =====
-      'actions',
-      'action_values',
-      'cost_per_action_type',
-      'conversions',
-      'conversion_values',
-      
-      // ===== ROAS =====
-      'purchase_roas',
-      
-      // ===== DATE RANGE =====
-      'date_start',
-      'date_stop',
-    ].join(','),
+    fields: AD_INSIGHT_FIELDS,
     'time_range[since]': since,
     'time_range[until]': until,
     limit: 500,
   };
 
-  const res = await fbGet(`/${adAccountId}/insights`, params, accessToken);
-  const insights: AdInsight[] = res.data || [];
+  // Accounts with more than 500 ads in the range come back over several pages
+  const insights = await fbGetAll<AdInsight>(`/${adAccountId}/insights`, params, accessToken);
   console.log(`[Insights] Retrieved ${insights.length} comprehensive insight rows`);
   return insights;
 }
+
+/**
+ * Start an async insights report run (POST /act_x/insights) for large date ranges that time out
+ * when pulled synchronously. With timeIncrement=7 every row covers 7 days counted from since,
+ * so a since on a Monday gives one row per ad and week.
+ * @returns the report_run_id to poll
+ */
+export async function startAdInsightsReport({
+  adAccountId,
+  since,
+  until,
+  timeIncrement,
+  accessToken,
+}: {
+  adAccountId: string;
+  since: string;
+  until: string;
+  timeIncrement: number;
+  accessToken: string;
+}): Promise<string> {
+  console.log(`[Insights] Starting async insights report for ${adAccountId} from ${since} to ${until}`);
+
+  if (!adAccountId) {
+    throw new Error('adAccountId is required');
+  }
+
+  const response = await fbPost(`/${adAccountId}/insights`, {
+    level: 'ad',
+    fields: AD_INSIGHT_FIELDS,
+    'time_range[since]': since,
+    'time_range[until]': until,
+    time_increment: timeIncrement,
+  }, accessToken);
+
+  if (!response?.report_run_id) {
+    throw new Error('Meta did not return a report_run_id');
+  }
+  return String(response.report_run_id);
+}
+
+/**
+ * Current state of an async insights report run
+ */
+export async function getAdInsightsReport(reportRunId: string, accessToken: string): Promise<InsightsReportRun> {
+  const run = await fbGet(`/${reportRunId}`, { fields: 'id,async_status,async_percent_completion' }, accessToken);
+  return {
+    id: String(run?.id ?? reportRunId),
+    status: run?.async_status ?? 'Job Not Started',
+    percentCompletion: Number(run?.async_percent_completion) || 0,
+  };
+}
+
+/**
+ * Rows of a completed async insights report run, every page of them
+ */
+export async function getAdInsightsReportRows(reportRunId: string, accessToken: string): Promise<AdInsight[]> {
+  const insights = await fbGetAll<AdInsight>(`/${reportRunId}/insights`, { limit: 500 }, accessToken);
+  console.log(`[Insights] Retrieved ${insights.length} insight rows from report ${reportRunId}`);
+  return insights;
+}
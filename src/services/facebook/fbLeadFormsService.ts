@@ -1,5 +1,5 @@
 // fbLeadFormsService.ts
-import { fbGet } from './fbClient.js';
+import { fbBatch } from './fbClient.js';
 import { LeadForm } from './domain/facebookAds.domain.js';
 
 /**
@@ -24,21 +24,23 @@ export async function getLeadForms(
   console.log(`[Lead Forms] Fetching ${formIds.length} lead forms`);
   console.log(`[Lead Forms] Form IDs:`, formIds.join(', '));
 
-  const params = {
-    ids: formIds.join(','),
-    fields: ['id', 'name'].join(','),
-  };
-
-  const res = await fbGet('/', params, accessToken);
+  // One batch request per form, so a form the token cannot read does not fail the others
+  const results = await fbBatch<LeadForm>(
+    formIds.map((formId) => ({ path: `/${formId}`, params: { fields: ['id', 'name'].join(',') } })),
+    accessToken
+  );
   const map: Record<string, LeadForm> = {};
 
-  for (const [id, value] of Object.entries(res)) {
-    const formValue = value as LeadForm;
-    map[id] = {
-      id: formValue.id,
-      name: formValue.name,
+  results.forEach((result, index) => {
+    if (!result.data) {
+      console.error(`[Lead Forms] Failed to fetch lead form ${formIds[index]}:`, result.error?.message);
+      return;
+    }
+    map[formIds[index]] = {
+      id: result.data.id,
+      name: result.data.name,
     };
-  }
+  });
 
   console.log(`[Lead Forms] Retrieved ${Object.keys(map).length} lead forms`);
   return map;
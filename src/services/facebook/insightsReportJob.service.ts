@@ -0,0 +1,294 @@
+// insightsReportJob.service.ts
+import UserService from '../user/service/service.js';
+import { DateUtils, WeekRange } from '../../utils/date.utils.js';
+import { CustomError, ErrorCode } from '../../pkg/error/custom_error.js';
+import { startAdInsightsReport, getAdInsightsReport, getAdInsightsReportRows } from './fbInsightsService.js';
+import { enrichAdInsights } from './enrichedAdsService.js';
+import { toWeeklyAnalytics } from './saveWeeklyAnalytics.service.js';
+import { facebookCredentialsService } from './facebookCredentialsService.js';
+import { fbWeeklyAnalyticsRepository } from './repository/FbWeeklyAnalyticsRepository.js';
+import { insightsReportJobRepository } from './repository/InsightsReportJobRepository.js';
+import { IInsightsReportJobDocument, InsightsReportJobProgress } from './domain/insightsReportJob.domain.js';
+import { AdInsight, EnrichedAd } from './domain/facebookAds.domain.js';
+
+// Weeks pulled per report run; a failed run only repeats its own weeks
+const WEEKS_PER_REPORT = 13;
+const REPORT_POLL_INTERVAL_MS = 10 * 1000;
+const REPORT_TIMEOUT_MS = 60 * 60 * 1000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export class InsightsReportJobService {
+  private userService: UserService;
+  // Jobs running in this process; a pending or running job missing here was interrupted
+  private activeJobs = new Set<string>();
+
+  constructor() {
+    this.userService = new UserService();
+  }
+
+  /**
+   * Create a backfill job for the Monday to Sunday weeks covering startDate..endDate and start
+   * it in the background. Weeks are pulled with async report runs and saved as they complete.
+   */
+  async startBackfill({
+    clientId,
+    adAccountId,
+    startDate,
+    endDate,
+    createdBy = null,
+  }: {
+    clientId: string;
+    adAccountId: string;
+    startDate: string;
+    endDate: string;
+    createdBy?: string | null;
+  }): Promise<InsightsReportJobProgress> {
+    const weeks = this.getWeeks(startDate, endDate);
+    const rangeStart = weeks[0].weekStart;
+    const rangeEnd = weeks[weeks.length - 1].weekEnd;
+
+    const activeJob = await insightsReportJobRepository.findActiveJob(clientId, rangeStart, rangeEnd);
+    if (activeJob) {
+      throw new CustomError(
+        ErrorCode.CONFLICT,
+        this.activeJobs.has(String(activeJob._id))
+          ? 'A backfill for this date range is already running'
+          : 'A backfill for this date range was interrupted, resume it instead',
+        { jobId: String(activeJob._id) }
+      );
+    }
+
+    const job = await insightsReportJobRepository.createJob({
+      clientId,
+      facebookAdAccountId: adAccountId,
+      startDate: rangeStart,
+      endDate: rangeEnd,
+      totalWeeks: weeks.length,
+      createdBy,
+    });
+    console.log(`[Insights Report Job] Created job ${job._id} for ${adAccountId}: ${weeks.length} weeks from ${rangeStart} to ${rangeEnd}`);
+
+    this.runInBackground(String(job._id));
+    return this.toProgress(job);
+  }
+
+  /**
+   * Continue a failed or interrupted job with the week after its last completed week
+   */
+  async resumeJob(jobId: string): Promise<InsightsReportJobProgress> {
+    const job = await this.getJobDocument(jobId);
+    if (job.status === 'completed') {
+      throw new CustomError(ErrorCode.CONFLICT, 'Backfill job is already completed');
+    }
+    if (this.activeJobs.has(jobId)) {
+      throw new CustomError(ErrorCode.CONFLICT, 'Backfill job is already running');
+    }
+
+    const resumed = await insightsReportJobRepository.updateJob(jobId, { status: 'pending', error: null });
+    console.log(`[Insights Report Job] Resuming job ${jobId} after week ${job.lastCompletedWeek ?? 'none'}`);
+
+    this.runInBackground(jobId);
+    return this.toProgress(resumed ?? job);
+  }
+
+  async getJob(jobId: string): Promise<InsightsReportJobProgress> {
+    return this.toProgress(await this.getJobDocument(jobId));
+  }
+
+  async getJobsByClientId(clientId: string): Promise<InsightsReportJobProgress[]> {
+    const jobs = await insightsReportJobRepository.getJobsByClientId(clientId);
+    return jobs.map(job => this.toProgress(job));
+  }
+
+  // ============= PRIVATE HELPERS =============
+
+  private runInBackground(jobId: string): void {
+    this.activeJobs.add(jobId);
+    this.run(jobId)
+      .catch((error: any) => {
+        console.error(`[Insights Report Job] Job ${jobId} crashed:`, error?.message || error);
+      })
+      .finally(() => {
+        this.activeJobs.delete(jobId);
+      });
+  }
+
+  /**
+   * Pull the job's remaining weeks, WEEKS_PER_REPORT at a time, and save every week on its own
+   * so a failure leaves lastCompletedWeek on the last saved one
+   */
+  private async run(jobId: string): Promise<void> {
+    const job = await insightsReportJobRepository.getJobById(jobId);
+    if (!job) return;
+
+    let { completedWeeks, savedCount } = job;
+    await insightsReportJobRepository.updateJob(jobId, {
+      status: 'running',
+      attempts: job.attempts + 1,
+      startedAt: job.startedAt ?? new Date(),
+      finishedAt: null,
+      error: null,
+    });
+
+    try {
+      const accessToken = await this.getAccessToken(job.clientId);
+      const weeks = this.getWeeks(job.startDate, job.endDate)
+        .filter(week => !job.lastCompletedWeek || week.weekStart > job.lastCompletedWeek);
+
+      for (let i = 0; i < weeks.length; i += WEEKS_PER_REPORT) {
+        const chunk = weeks.slice(i, i + WEEKS_PER_REPORT);
+        const rows = await this.runReport(jobId, job.facebookAdAccountId, chunk[0].weekStart, chunk[chunk.length - 1].weekEnd, accessToken);
+        const adsByWeek = this.groupByWeek(await enrichAdInsights(rows, accessToken));
+
+        for (const { weekStart, weekEnd } of chunk) {
+          const ads = adsByWeek.get(weekStart) ?? [];
+          if (ads.length > 0) {
+            const result = await fbWeeklyAnalyticsRepository.bulkSaveWeeklyAnalytics(
+              toWeeklyAnalytics(ads, job.clientId, job.facebookAdAccountId, weekStart, weekEnd)
+            );
+            if (result.errors.length > 0) {
+              throw new Error(`Saving week ${weekStart} failed: ${result.errors[0]?.message || result.errors[0]}`);
+            }
+            savedCount += result.saved;
+          }
+
+          completedWeeks++;
+          await insightsReportJobRepository.updateJob(jobId, { completedWeeks, lastCompletedWeek: weekStart, savedCount });
+        }
+      }
+
+      await insightsReportJobRepository.updateJob(jobId, { status: 'completed', finishedAt: new Date() });
+      console.log(`[Insights Report Job] Job ${jobId} completed: ${completedWeeks} weeks, ${savedCount} records saved`);
+    } catch (error: any) {
+      console.error(`[Insights Report Job] Job ${jobId} failed after ${completedWeeks} weeks:`, error?.message || error);
+      await insightsReportJobRepository.updateJob(jobId, {
+        status: 'failed',
+        error: error?.message || String(error),
+        finishedAt: new Date(),
+      });
+    }
+  }
+
+  /**
+   * Start a report run with one row per ad and week, wait for Meta to finish it and read its rows
+   */
+  private async runReport(
+    jobId: string,
+    adAccountId: string,
+    since: string,
+    until: string,
+    accessToken: string
+  ): Promise<AdInsight[]> {
+    const reportRunId = await startAdInsightsReport({ adAccountId, since, until, timeIncrement: 7, accessToken });
+    await insightsReportJobRepository.updateJob(jobId, { reportRunId, reportRunStatus: 'Job Not Started', reportRunPercent: 0 });
+
+    const startedAt = Date.now();
+    for (;;) {
+      await sleep(REPORT_POLL_INTERVAL_MS);
+      const run = await getAdInsightsReport(reportRunId, accessToken);
+      await insightsReportJobRepository.updateJob(jobId, { reportRunStatus: run.status, reportRunPercent: run.percentCompletion });
+
+      if (run.status === 'Job Completed') {
+        // async_status can report completion before the percentage reaches 100
+        if (run.percentCompletion >= 100) break;
+      } else if (run.status === 'Job Failed' || run.status === 'Job Skipped') {
+        throw new Error(`Meta report run ${reportRunId} for ${since} to ${until} ended with "${run.status}"`);
+      }
+
+      if (Date.now() - startedAt > REPORT_TIMEOUT_MS) {
+        throw new Error(`Meta report run ${reportRunId} for ${since} to ${until} did not finish within ${REPORT_TIMEOUT_MS / 60000} minutes`);
+      }
+    }
+
+    return await getAdInsightsReportRows(reportRunId, accessToken);
+  }
+
+  /**
+   * Enriched ads by the Monday their row starts on; with time_increment=7 from a Monday every
+   * row covers exactly one week
+   */
+  private groupByWeek(ads: EnrichedAd[]): Map<string, EnrichedAd[]> {
+    const adsByWeek = new Map<string, EnrichedAd[]>();
+    ads.forEach(ad => {
+      const weekStart = ad.insights.date_start;
+      adsByWeek.set(weekStart, [...(adsByWeek.get(weekStart) ?? []), ad]);
+    });
+    return adsByWeek;
+  }
+
+  /**
+   * The client's own Meta token or the shared one, looked up on every run so resumed jobs use a
+   * refreshed token
+   */
+  private async getAccessToken(clientId: string): Promise<string> {
+    const clientUser = await this.userService.getUserById(clientId);
+    if (!clientUser) {
+      throw new Error('Client user not found');
+    }
+    const accessToken = await facebookCredentialsService.getAccessToken(clientUser);
+    if (!accessToken) {
+      throw new Error('Meta access token not configured');
+    }
+    return accessToken;
+  }
+
+  private getWeeks(startDate: string, endDate: string): WeekRange[] {
+    const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+    if (!dateRegex.test(startDate) || !dateRegex.test(endDate)
+      || isNaN(new Date(startDate).getTime()) || isNaN(new Date(endDate).getTime())) {
+      throw new CustomError(ErrorCode.VALIDATION_ERROR, 'startDate and endDate must be valid dates (YYYY-MM-DD)');
+    }
+    const rangeStart = DateUtils.getWeekDetails(startDate).weekStart;
+    const rangeEnd = DateUtils.getWeekDetails(endDate).weekEnd;
+    if (rangeStart > rangeEnd) {
+      throw new CustomError(ErrorCode.VALIDATION_ERROR, 'startDate must be before endDate');
+    }
+    return DateUtils.getMonthWeeks(rangeStart, rangeEnd);
+  }
+
+  private async getJobDocument(jobId: string): Promise<IInsightsReportJobDocument> {
+    const job = /^[a-f0-9]{24}$/i.test(jobId) ? await insightsReportJobRepository.getJobById(jobId) : null;
+    if (!job) {
+      throw new CustomError(ErrorCode.NOT_FOUND, `Backfill job ${jobId} not found`);
+    }
+    return job;
+  }
+
+  private toProgress(job: IInsightsReportJobDocument): InsightsReportJobProgress {
+    // The running report covers the next WEEKS_PER_REPORT weeks at most
+    const reportWeeks = job.status === 'running' && job.reportRunStatus !== 'Job Completed'
+      ? Math.min(WEEKS_PER_REPORT, job.totalWeeks - job.completedWeeks) * (job.reportRunPercent / 100)
+      : 0;
+    const percent = job.status === 'completed'
+      ? 100
+      : job.totalWeeks > 0 ? Math.round(((job.completedWeeks + reportWeeks) / job.totalWeeks) * 1000) / 10 : 0;
+
+    return {
+      id: String(job._id),
+      clientId: job.clientId,
+      adAccountId: job.facebookAdAccountId,
+      startDate: job.startDate,
+      endDate: job.endDate,
+      status: job.status,
+      totalWeeks: job.totalWeeks,
+      completedWeeks: job.completedWeeks,
+      lastCompletedWeek: job.lastCompletedWeek,
+      savedCount: job.savedCount,
+      percent,
+      reportRunId: job.reportRunId,
+      reportRunStatus: job.reportRunStatus,
+      error: job.error,
+      attempts: job.attempts,
+      startedAt: job.startedAt,
+      finishedAt: job.finishedAt,
+      createdAt: job.createdAt,
+      updatedAt: job.updatedAt,
+    };
+  }
+}
+
+// Export singleton instance
+export const insightsReportJobService = new InsightsReportJobService();
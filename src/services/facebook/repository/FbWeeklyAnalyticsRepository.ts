@@ -157,6 +157,53 @@ export class FbWeeklyAnalyticsRepository {
     return result.modifiedCount;
   }
 
+  /**
+   * Clients with stored analytics for weeks starting in a date range
+   */
+  async getClientIdsByDateRange(startDate: string, endDate: string): Promise<string[]> {
+    return await FbWeeklyAnalyticsModel.distinct('clientId', {
+      weekStartDate: { $gte: startDate, $lte: endDate },
+      isDeleted: false
+    }).exec();
+  }
+
+  /**
+   * Spend per week and ad name for weeks starting in a date range.
+   * Ads sharing a name are summed, the same way adNamesAmount lists them.
+   */
+  async getSpendByWeekAndAdName(
+    clientId: string,
+    startDate: string,
+    endDate: string
+  ): Promise<Array<{ weekStartDate: string; adName: string; spend: number }>> {
+    return await FbWeeklyAnalyticsModel.aggregate([
+      {
+        $match: {
+          clientId,
+          weekStartDate: { $gte: startDate, $lte: endDate },
+          isDeleted: false
+        }
+      },
+      {
+        $group: {
+          _id: { weekStartDate: '$weekStartDate', adName: '$adName' },
+          spend: { $sum: '$metrics.spend' }
+        }
+      },
+      {
+        $project: {
+          _id: 0,
+          weekStartDate: '$_id.weekStartDate',
+          adName: '$_id.adName',
+          spend: 1
+        }
+      },
+      {
+        $sort: { weekStartDate: 1, spend: -1 }
+      }
+    ]).exec();
+  }
+
   /**
    * Get aggregated insights by campaign for a date range
    */
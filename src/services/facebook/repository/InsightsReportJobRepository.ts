@@ -0,0 +1,42 @@
+import InsightsReportJobModel from './models/insightsReportJob.model.js';
+import { IInsightsReportJob, IInsightsReportJobDocument } from '../domain/insightsReportJob.domain.js';
+
+export class InsightsReportJobRepository {
+
+  async createJob(data: Partial<IInsightsReportJob>): Promise<IInsightsReportJobDocument> {
+    return await InsightsReportJobModel.create(data);
+  }
+
+  async getJobById(id: string): Promise<IInsightsReportJobDocument | null> {
+    return await InsightsReportJobModel.findById(id).exec();
+  }
+
+  /**
+   * Jobs of a client, newest first
+   */
+  async getJobsByClientId(clientId: string, limit: number = 20): Promise<IInsightsReportJobDocument[]> {
+    return await InsightsReportJobModel.find({ clientId })
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .exec();
+  }
+
+  /**
+   * A pending or running job of the client whose range overlaps startDate..endDate
+   */
+  async findActiveJob(clientId: string, startDate: string, endDate: string): Promise<IInsightsReportJobDocument | null> {
+    return await InsightsReportJobModel.findOne({
+      clientId,
+      status: { $in: ['pending', 'running'] },
+      startDate: { $lte: endDate },
+      endDate: { $gte: startDate }
+    }).exec();
+  }
+
+  async updateJob(id: string, update: Partial<IInsightsReportJob>): Promise<IInsightsReportJobDocument | null> {
+    return await InsightsReportJobModel.findByIdAndUpdate(id, { $set: update }, { new: true }).exec();
+  }
+}
+
+// Export singleton instance
+export const insightsReportJobRepository = new InsightsReportJobRepository();
@@ -0,0 +1,38 @@
+import { Schema, model } from 'mongoose';
+import { IInsightsReportJobDocument } from '../../domain/insightsReportJob.domain.js';
+
+const insightsReportJobSchema = new Schema<IInsightsReportJobDocument>(
+  {
+    // Client & Account Info
+    clientId: { type: String, required: true, index: true },
+    facebookAdAccountId: { type: String, required: true },
+
+    // Range (Monday to Sunday weeks)
+    startDate: { type: String, required: true },
+    endDate: { type: String, required: true },
+    totalWeeks: { type: Number, required: true },
+
+    // Progress
+    status: { type: String, enum: ['pending', 'running', 'completed', 'failed'], default: 'pending', index: true },
+    completedWeeks: { type: Number, default: 0 },
+    lastCompletedWeek: { type: String, default: null },
+    savedCount: { type: Number, default: 0 },
+
+    // Current Meta report run
+    reportRunId: { type: String, default: null },
+    reportRunStatus: { type: String, default: null },
+    reportRunPercent: { type: Number, default: 0 },
+
+    // Metadata
+    error: { type: String, default: null },
+    attempts: { type: Number, default: 0 },
+    startedAt: { type: Date, default: null },
+    finishedAt: { type: Date, default: null },
+    createdBy: { type: String, default: null }
+  },
+  { timestamps: true }
+);
+
+insightsReportJobSchema.index({ clientId: 1, createdAt: -1 });
+
+export default model<IInsightsReportJobDocument>('InsightsReportJob', insightsReportJobSchema);
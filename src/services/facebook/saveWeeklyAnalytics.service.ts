@@ -2,6 +2,7 @@ import { getEnrichedAds } from './enrichedAdsService.js';
 import { fbWeeklyAnalyticsRepository } from './repository/FbWeeklyAnalyticsRepository.js';
 import { DateUtils } from '../../utils/date.utils.js';
 import { EnrichedAd, SaveWeeklyAnalyticsParams, SaveResult } from './domain/facebookAds.domain.js';
+import { IFbWeeklyAnalytics } from './domain/fbWeeklyAnalytics.domain.js';
 
 /**
  * Fetch enriched ads data from Facebook and save it in weekly chunks
@@ -58,196 +59,7 @@ export async function saveWeeklyAnalyticsToDb({
         console.log(`[Save Weekly Analytics] ✓ Found ${ads.length} ads for this week`);
         console.log(`[Save Weekly Analytics] 🔄 Transforming ${ads.length} ads to database format...`);
 
-        // Check if this week has ended (to mark as complete)
-        const weekEndDate = new Date(weekEnd + 'T23:59:59Z');
-        const now = new Date();
-        const isWeekComplete = weekEndDate < now;
-        const lastSyncedAt = new Date();
-
-        if (isWeekComplete) {
-          console.log(`[Save Weekly Analytics] ✅ Week has ended - marking as complete`);
-        } else {
-          console.log(`[Save Weekly Analytics] ⏳ Week in progress - will re-sync after week ends`);
-        }
-
-        // Transform to database format with readable field names
-        const weeklyAnalytics = ads.map(ad => ({
-          // Client & Account
-          clientId,
-          facebookAdAccountId: adAccountId,
-          
-          // Campaign Hierarchy (Readable Names)
-          campaignId: ad.campaign_id,
-          campaignName: ad.campaign_name,
-          adSetId: ad.adset_id,
-          adSetName: ad.adset_name,
-          adId: ad.ad_id,
-          adName: ad.ad_name,
-          
-          // Campaign Settings
-          objective: ad.insights?.objective,
-          optimizationGoal: ad.insights?.optimization_goal,
-          buyingType: ad.insights?.buying_type,
-          attributionSetting: ad.insights?.attribution_setting,
-          accountCurrency: ad.insights?.account_currency,
-          
-          // Creative
-          creative: ad.creative ? {
-            raw: null,
-            id: ad.creative.id,
-            name: ad.creative.name,
-            primaryText: ad.creative.primary_text,
-            headline: ad.creative.headline,
-            rawData: ad.creative.raw
-          } : null,
-          
-          // Lead Form
-          leadForm: ad.lead_form ? {
-            id: ad.lead_form.id,
-            name: ad.lead_form.name
-          } : null,
-          
-          // Performance Metrics (Readable Names)
-          metrics: {
-            // Basic Performance
-            impressions: ad.insights.impressions ?? 0,
-            reach: ad.insights.reach ?? 0,
-            frequency: ad.insights.frequency ?? 0,
-            clicks: ad.insights.clicks ?? 0,
-            unique_clicks: ad.insights.unique_clicks ?? 0,
-            ctr: ad.insights.ctr ?? 0,
-            unique_ctr: ad.insights.unique_ctr ?? 0,
-            
-            // Costs
-            spend: ad.insights.spend ?? 0,
-            social_spend: ad.insights.social_spend ?? 0,
-            cpc: ad.insights.cpc ?? 0,
-            cpm: ad.insights.cpm ?? 0,
-            cpr: ad.insights.cpp ?? 0,
-            
-            // Link Clicks & CTR (Extended)
-            inline_link_clicks: ad.insights.inline_link_clicks ?? 0,
-            outbound_clicks: ad.insights.outbound_clicks ?? 0,
-            unique_outbound_clicks: ad.insights.unique_outbound_clicks ?? 0,
-            inline_link_click_ctr: ad.insights.inline_link_click_ctr ?? 0,
-            unique_inline_link_click_ctr: ad.insights.unique_inline_link_click_ctr ?? 0,
-            cost_per_inline_link_click: ad.insights.cost_per_inline_link_click ?? 0,
-            cost_per_unique_inline_link_click: ad.insights.cost_per_unique_inline_link_click ?? 0,
-            unique_link_clicks_ctr: ad.insights.unique_link_clicks_ctr ?? 0,
-            outbound_clicks_ctr: ad.insights.outbound_clicks_ctr ?? 0,
-            unique_outbound_clicks_ctr: ad.insights.unique_outbound_clicks_ctr ?? 0,
-            cost_per_outbound_click: ad.insights.cost_per_outbound_click ?? 0,
-            cost_per_unique_outbound_click: ad.insights.cost_per_unique_outbound_click ?? 0,
-            
-            // Engagement (Complete)
-            inline_post_engagement: ad.insights.inline_post_engagement ?? 0,
-            cost_per_inline_post_engagement: ad.insights.cost_per_inline_post_engagement ?? 0,
-            post_engagements: ad.insights.post_engagement ?? 0,
-            post_reactions: ad.insights.post_reactions ?? 0,
-            post_comments: ad.insights.post_comments ?? 0,
-            post_saves: ad.insights.post_saves ?? 0,
-            post_shares: ad.insights.post_shares ?? 0,
-            page_engagements: ad.insights.page_engagement ?? 0,
-            link_clicks: ad.insights.link_clicks ?? 0,
-            
-            // Quality & Delivery Rankings
-            quality_ranking: ad.insights.quality_ranking,
-            engagement_rate_ranking: ad.insights.engagement_rate_ranking,
-            conversion_rate_ranking: ad.insights.conversion_rate_ranking,
-            delivery: ad.insights.delivery,
-            
-            // Video Performance (Complete)
-            video_views: ad.insights.video_views ?? 0,
-            video_views_25pct: ad.insights.video_views_p25 ?? 0,
-            video_views_50pct: ad.insights.video_views_p50 ?? 0,
-            video_views_75pct: ad.insights.video_views_p75 ?? 0,
-            video_views_100pct: ad.insights.video_views_p100 ?? 0,
-            video_avg_watch_time: ad.insights.video_avg_time_watched ?? 0,
-            video_play_actions: ad.insights.video_play_actions ?? 0,
-            video_continuous_2_sec_watched: ad.insights.video_continuous_2_sec_watched ?? 0,
-            video_thruplay_watched: ad.insights.video_thruplay_watched ?? 0,
-            cost_per_thruplay: ad.insights.cost_per_thruplay ?? 0,
-            cost_per_2_sec_continuous_video_view: ad.insights.cost_per_2_sec_continuous_video_view ?? 0,
-            
-            // Conversions (Extended)
-            total_conversions: ad.insights.conversions ?? 0,
-            conversion_value: ad.insights.conversion_values ?? 0,
-            cost_per_conversion: ad.insights.cost_per_conversion ?? 0,
-            converted_product_quantity: ad.insights.converted_product_quantity ?? 0,
-            converted_product_value: ad.insights.converted_product_value ?? 0,
-            
-            // Landing Page & Website
-            landing_page_views: ad.insights.landing_page_views ?? 0,
-            cost_per_landing_page_view: ad.insights.cost_per_landing_page_view ?? 0,
-            website_ctr: ad.insights.website_ctr ?? 0,
-            offsite_conversions: ad.insights.offsite_conversions ?? 0,
-            
-            // Mobile App
-            mobile_app_purchase_roas: ad.insights.mobile_app_purchase_roas ?? 0,
-            website_purchase_roas: ad.insights.website_purchase_roas ?? 0,
-            purchase_roas: ad.insights.purchase_roas ?? 0,
-            app_store_clicks: ad.insights.app_store_clicks ?? 0,
-            deeplink_clicks: ad.insights.deeplink_clicks ?? 0,
-            
-            // Instant Experience (Canvas)
-            canvas_avg_view_percent: ad.insights.canvas_avg_view_percent ?? 0,
-            canvas_avg_view_time: ad.insights.canvas_avg_view_time ?? 0,
-            instant_experience_clicks_to_open: ad.insights.instant_experience_clicks_to_open ?? 0,
-            instant_experience_clicks_to_start: ad.insights.instant_experience_clicks_to_start ?? 0,
-            instant_experience_outbound_clicks: ad.insights.instant_experience_outbound_clicks ?? 0,
-            
-            // Catalog & Dynamic Ads
-            catalog_segment_actions: ad.insights.catalog_segment_actions ?? 0,
-            catalog_segment_value: ad.insights.catalog_segment_value ?? 0,
-            catalog_segment_value_mobile_purchase_roas: ad.insights.catalog_segment_value_mobile_purchase_roas ?? 0,
-            catalog_segment_value_website_purchase_roas: ad.insights.catalog_segment_value_website_purchase_roas ?? 0,
-            
-            // Brand Awareness
-            estimated_ad_recall_rate: ad.insights.estimated_ad_recall_rate ?? 0,
-            estimated_ad_recallers: ad.insights.estimated_ad_recallers ?? 0,
-            cost_per_estimated_ad_recaller: ad.insights.cost_per_estimated_ad_recaller ?? 0,
-            
-            // Store Traffic
-            store_visit_actions: ad.insights.store_visit_actions ?? 0,
-            cost_per_store_visit_action: ad.insights.cost_per_store_visit_action ?? 0,
-            
-            // Full Funnel Metrics
-            full_view_impressions: ad.insights.full_view_impressions ?? 0,
-            full_view_reach: ad.insights.full_view_reach ?? 0,
-            
-            // E-commerce Actions (from actions array)
-            purchases: ad.insights.purchases ?? 0,
-            add_to_cart: ad.insights.add_to_cart ?? 0,
-            initiate_checkout: ad.insights.initiate_checkout ?? 0,
-            view_content: ad.insights.view_content ?? 0,
-            search: ad.insights.search ?? 0,
-            add_payment_info: ad.insights.add_payment_info ?? 0,
-            complete_registration: ad.insights.complete_registration ?? 0,
-            contact: ad.insights.contact ?? 0,
-            customize_product: ad.insights.customize_product ?? 0,
-            donate: ad.insights.donate ?? 0,
-            find_location: ad.insights.find_location ?? 0,
-            schedule: ad.insights.schedule ?? 0,
-            start_trial: ad.insights.start_trial ?? 0,
-            submit_application: ad.insights.submit_application ?? 0,
-            subscribe: ad.insights.subscribe ?? 0,
-            
-            // Leads
-            total_leads: ad.insights.leads ?? 0,
-            cost_per_lead: ad.insights.cost_per_lead ?? 0
-          },
-          
-          // Week Period
-          weekStartDate: weekStart,
-          weekEndDate: weekEnd,
-          
-          // Week Completion Tracking
-          isWeekComplete,
-          lastSyncedAt,
-          
-          // Metadata
-          dataSource: 'facebook_api' as const
-        }));
+        const weeklyAnalytics = toWeeklyAnalytics(ads, clientId, adAccountId, weekStart, weekEnd);
 
         // Bulk save to database
         const result = await fbWeeklyAnalyticsRepository.bulkSaveWeeklyAnalytics(weeklyAnalytics);
@@ -287,6 +99,208 @@ export async function saveWeeklyAnalyticsToDb({
   }
 }
 
+/**
+ * Transform one week's enriched ads into weekly analytics records
+ */
+export function toWeeklyAnalytics(
+  ads: EnrichedAd[],
+  clientId: string,
+  adAccountId: string,
+  weekStart: string,
+  weekEnd: string
+): Omit<IFbWeeklyAnalytics, 'savedAt' | 'isDeleted' | 'deletedAt'>[] {
+  // Check if this week has ended (to mark as complete)
+  const weekEndDate = new Date(weekEnd + 'T23:59:59Z');
+  const now = new Date();
+  const isWeekComplete = weekEndDate < now;
+  const lastSyncedAt = new Date();
+
+  if (isWeekComplete) {
+    console.log(`[Save Weekly Analytics] ✅ Week has ended - marking as complete`);
+  } else {
+    console.log(`[Save Weekly Analytics] ⏳ Week in progress - will re-sync after week ends`);
+  }
+
+  // Transform to database format with readable field names
+  return ads.map(ad => ({
+    // Client & Account
+    clientId,
+    facebookAdAccountId: adAccountId,
+    
+    // Campaign Hierarchy (Readable Names)
+    campaignId: ad.campaign_id,
+    campaignName: ad.campaign_name,
+    adSetId: ad.adset_id,
+    adSetName: ad.adset_name,
+    adId: ad.ad_id,
+    adName: ad.ad_name,
+    
+    // Campaign Settings
+    objective: ad.insights?.objective,
+    optimizationGoal: ad.insights?.optimization_goal,
+    buyingType: ad.insights?.buying_type,
+    attributionSetting: ad.insights?.attribution_setting,
+    accountCurrency: ad.insights?.account_currency,
+    
+    // Creative
+    creative: ad.creative ? {
+      raw: null,
+      id: ad.creative.id,
+      name: ad.creative.name,
+      primaryText: ad.creative.primary_text,
+      headline: ad.creative.headline,
+      rawData: ad.creative.raw
+    } : null,
+    
+    // Lead Form
+    leadForm: ad.lead_form ? {
+      id: ad.lead_form.id,
+      name: ad.lead_form.name
+    } : null,
+    
+    // Performance Metrics (Readable Names)
+    metrics: {
+      // Basic Performance
+      impressions: ad.insights.impressions ?? 0,
+      reach: ad.insights.reach ?? 0,
+      frequency: ad.insights.frequency ?? 0,
+      clicks: ad.insights.clicks ?? 0,
+      unique_clicks: ad.insights.unique_clicks ?? 0,
+      ctr: ad.insights.ctr ?? 0,
+      unique_ctr: ad.insights.unique_ctr ?? 0,
+      
+      // Costs
+      spend: ad.insights.spend ?? 0,
+      social_spend: ad.insights.social_spend ?? 0,
+      cpc: ad.insights.cpc ?? 0,
+      cpm: ad.insights.cpm ?? 0,
+      cpr: ad.insights.cpp ?? 0,
+      
+      // Link Clicks & CTR (Extended)
+      inline_link_clicks: ad.insights.inline_link_clicks ?? 0,
+      outbound_clicks: ad.insights.outbound_clicks ?? 0,
+      unique_outbound_clicks: ad.insights.unique_outbound_clicks ?? 0,
+      inline_link_click_ctr: ad.insights.inline_link_click_ctr ?? 0,
+      unique_inline_link_click_ctr: ad.insights.unique_inline_link_click_ctr ?? 0,
+      cost_per_inline_link_click: ad.insights.cost_per_inline_link_click ?? 0,
+      cost_per_unique_inline_link_click: ad.insights.cost_per_unique_inline_link_click ?? 0,
+      unique_link_clicks_ctr: ad.insights.unique_link_clicks_ctr ?? 0,
+      outbound_clicks_ctr: ad.insights.outbound_clicks_ctr ?? 0,
+      unique_outbound_clicks_ctr: ad.insights.unique_outbound_clicks_ctr ?? 0,
+      cost_per_outbound_click: ad.insights.cost_per_outbound_click ?? 0,
+      cost_per_unique_outbound_click: ad.insights.cost_per_unique_outbound_click ?? 0,
+      
+      // Engagement (Complete)
+      inline_post_engagement: ad.insights.inline_post_engagement ?? 0,
+      cost_per_inline_post_engagement: ad.insights.cost_per_inline_post_engagement ?? 0,
+      post_engagements: ad.insights.post_engagement ?? 0,
+      post_reactions: ad.insights.post_reactions ?? 0,
+      post_comments: ad.insights.post_comments ?? 0,
+      post_saves: ad.insights.post_saves ?? 0,
+      post_shares: ad.insights.post_shares ?? 0,
+      page_engagements: ad.insights.page_engagement ?? 0,
+      link_clicks: ad.insights.link_clicks ?? 0,
+      
+      // Quality & Delivery Rankings
+      quality_ranking: ad.insights.quality_ranking,
+      engagement_rate_ranking: ad.insights.engagement_rate_ranking,
+      conversion_rate_ranking: ad.insights.conversion_rate_ranking,
+      delivery: ad.insights.delivery,
+      
+      // Video Performance (Complete)
+      video_views: ad.insights.video_views ?? 0,
+      video_views_25pct: ad.insights.video_views_p25 ?? 0,
+      video_views_50pct: ad.insights.video_views_p50 ?? 0,
+      video_views_75pct: ad.insights.video_views_p75 ?? 0,
+      video_views_100pct: ad.insights.video_views_p100 ?? 0,
+      video_avg_watch_time: ad.insights.video_avg_time_watched ?? 0,
+      video_play_actions: ad.insights.video_play_actions ?? 0,
+      video_continuous_2_sec_watched: ad.insights.video_continuous_2_sec_watched ?? 0,
+      video_thruplay_watched: ad.insights.video_thruplay_watched ?? 0,
+      cost_per_thruplay: ad.insights.cost_per_thruplay ?? 0,
+      cost_per_2_sec_continuous_video_view: ad.insights.cost_per_2_sec_continuous_video_view ?? 0,
+      
+      // Conversions (Extended)
+      total_conversions: ad.insights.conversions ?? 0,
+      conversion_value: ad.insights.conversion_values ?? 0,
+      cost_per_conversion: ad.insights.cost_per_conversion ?? 0,
+      converted_product_quantity: ad.insights.converted_product_quantity ?? 0,
+      converted_product_value: ad.insights.converted_product_value ?? 0,
+      
+      // Landing Page & Website
+      landing_page_views: ad.insights.landing_page_views ?? 0,
+      cost_per_landing_page_view: ad.insights.cost_per_landing_page_view ?? 0,
+      website_ctr: ad.insights.website_ctr ?? 0,
+      offsite_conversions: ad.insights.offsite_conversions ?? 0,
+      
+      // Mobile App
+      mobile_app_purchase_roas: ad.insights.mobile_app_purchase_roas ?? 0,
+      website_purchase_roas: ad.insights.website_purchase_roas ?? 0,
+      purchase_roas: ad.insights.purchase_roas ?? 0,
+      app_store_clicks: ad.insights.app_store_clicks ?? 0,
+      deeplink_clicks: ad.insights.deeplink_clicks ?? 0,
+      
+      // Instant Experience (Canvas)
+      canvas_avg_view_percent: ad.insights.canvas_avg_view_percent ?? 0,
+      canvas_avg_view_time: ad.insights.canvas_avg_view_time ?? 0,
+      instant_experience_clicks_to_open: ad.insights.instant_experience_clicks_to_open ?? 0,
+      instant_experience_clicks_to_start: ad.insights.instant_experience_clicks_to_start ?? 0,
+      instant_experience_outbound_clicks: ad.insights.instant_experience_outbound_clicks ?? 0,
+      
+      // Catalog & Dynamic Ads
+      catalog_segment_actions: ad.insights.catalog_segment_actions ?? 0,
+      catalog_segment_value: ad.insights.catalog_segment_value ?? 0,
+      catalog_segment_value_mobile_purchase_roas: ad.insights.catalog_segment_value_mobile_purchase_roas ?? 0,
+      catalog_segment_value_website_purchase_roas: ad.insights.catalog_segment_value_website_purchase_roas ?? 0,
+      
+      // Brand Awareness
+      estimated_ad_recall_rate: ad.insights.estimated_ad_recall_rate ?? 0,
+      estimated_ad_recallers: ad.insights.estimated_ad_recallers ?? 0,
+      cost_per_estimated_ad_recaller: ad.insights.cost_per_estimated_ad_recaller ?? 0,
+      
+      // Store Traffic
+      store_visit_actions: ad.insights.store_visit_actions ?? 0,
+      cost_per_store_visit_action: ad.insights.cost_per_store_visit_action ?? 0,
+      
+      // Full Funnel Metrics
+      full_view_impressions: ad.insights.full_view_impressions ?? 0,
+      full_view_reach: ad.insights.full_view_reach ?? 0,
+      
+      // E-commerce Actions (from actions array)
+      purchases: ad.insights.purchases ?? 0,
+      add_to_cart: ad.insights.add_to_cart ?? 0,
+      initiate_checkout: ad.insights.initiate_checkout ?? 0,
+      view_content: ad.insights.view_content ?? 0,
+      search: ad.insights.search ?? 0,
+      add_payment_info: ad.insights.add_payment_info ?? 0,
+      complete_registration: ad.insights.complete_registration ?? 0,
+      contact: ad.insights.contact ?? 0,
+      customize_product: ad.insights.customize_product ?? 0,
+      donate: ad.insights.donate ?? 0,
+      find_location: ad.insights.find_location ?? 0,
+      schedule: ad.insights.schedule ?? 0,
+      start_trial: ad.insights.start_trial ?? 0,
+      submit_application: ad.insights.submit_application ?? 0,
+      subscribe: ad.insights.subscribe ?? 0,
+      
+      // Leads
+      total_leads: ad.insights.leads ?? 0,
+      cost_per_lead: ad.insights.cost_per_lead ?? 0
+    },
+    
+    // Week Period
+    weekStartDate: weekStart,
+    weekEndDate: weekEnd,
+    
+    // Week Completion Tracking
+    isWeekComplete,
+    lastSyncedAt,
+    
+    // Metadata
+    dataSource: 'facebook_api' as const
+  }));
+}
+
 /**
  * Get saved weekly analytics from database
  */
@@ -5,6 +5,7 @@ import { DateUtils } from '../../utils/date.utils.js';
 import { fbWeeklyAnalyticsRepository } from './repository/FbWeeklyAnalyticsRepository.js';
 import { saveWeeklyAnalyticsToDb } from './saveWeeklyAnalytics.service.js';
 import { creativesService } from '../creatives/service/CreativesService.js';
+import { facebookCredentialsService } from './facebookCredentialsService.js';
 
 export class WeeklyDataSyncService {
   private userService: UserService;
@@ -42,11 +43,7 @@ export class WeeklyDataSyncService {
         return;
       }
 
-      // Get client's ad account info and access token in parallel
-      const [clientUser, metaTokenUser] = await Promise.all([
-        this.userService.getUserById(clientId),
-        this.userService.getUserById(config.META_USER_TOKEN_ID),
-      ]);
+      const clientUser = await this.userService.getUserById(clientId);
 
       if (!clientUser) {
         return;
@@ -61,7 +58,8 @@ export class WeeklyDataSyncService {
         ? rawAdAccountId
         : `act_${rawAdAccountId}`;
 
-      const accessToken = (metaTokenUser as any)?.metaAccessToken as string | undefined;
+      // The client's own Meta token, or the shared one
+      const accessToken = await facebookCredentialsService.getAccessToken(clientUser);
       if (!accessToken) {
         return;
       }
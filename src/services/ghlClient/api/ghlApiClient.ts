@@ -0,0 +1,462 @@
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+import { config } from '../../../config.js';
+import logger from '../../../utils/logger.js';
+import {
+  GhlContact,
+  GhlCustomField,
+  GhlCustomFieldSearchResponse,
+  GhlOpportunity,
+  GhlOpportunitySearchResponse,
+  GhlPipeline,
+  GhlPipelineResponse,
+} from '../domain/ghlApi.domain.js';
+
+const GHL_API_VERSION = '2021-07-28';
+// The custom field search is only served by the backend host
+const GHL_BACKEND_BASE_URL = 'https://backend.leadconnectorhq.com';
+
+// GHL allows 100 requests per 10 seconds per location; the response headers replace these
+const DEFAULT_BURST_LIMIT = 100;
+const DEFAULT_BURST_INTERVAL_MS = 10_000;
+// Page size of the incremental opportunity search, the API maximum
+const OPPORTUNITY_PAGE_LIMIT = 100;
+
+export interface GhlApiClientOptions {
+  timeoutMs: number;
+  // Requests in flight across all locations
+  maxConcurrent: number;
+  // Requests in flight for one location, so a single location can't take the whole pool
+  maxConcurrentPerLocation: number;
+  // Retries on 429, 5xx and network errors
+  maxRetries: number;
+  baseRetryDelayMs: number;
+}
+
+export interface GhlOpportunitySearchOptions {
+  // Only opportunities updated after this time. Pages are read newest first and paging stops
+  // at the first page reaching it, or all pages are read and filtered if the API doesn't sort
+  // them; without it every opportunity is returned.
+  updatedSince?: Date | null;
+}
+
+const DEFAULT_OPTIONS: GhlApiClientOptions = {
+  timeoutMs: 15000,
+  maxConcurrent: 10,
+  maxConcurrentPerLocation: 4,
+  maxRetries: 3,
+  baseRetryDelayMs: 1000,
+};
+
+export class GhlApiError extends Error {
+  constructor(
+    message: string,
+    public status: number | null,
+    public locationId: string,
+    public url?: string
+  ) {
+    super(message);
+    this.name = 'GhlApiError';
+  }
+
+  get isRateLimited(): boolean {
+    return this.status === 429;
+  }
+}
+
+/**
+ * Token bucket of one location. Tokens refill continuously; the GHL rate-limit headers
+ * lower the level to what the API reports and a 429 empties it until retry-after.
+ */
+class TokenBucket {
+  private capacity = DEFAULT_BURST_LIMIT;
+  private intervalMs = DEFAULT_BURST_INTERVAL_MS;
+  private tokens = DEFAULT_BURST_LIMIT;
+  private updatedAt = Date.now();
+  private blockedUntil = 0;
+
+  /**
+   * Take a token. Returns 0 when one was taken, otherwise the ms until one is available.
+   */
+  take(now = Date.now()): number {
+    if (now < this.blockedUntil) return this.blockedUntil - now;
+    this.refill(now);
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return 0;
+    }
+    return Math.ceil((1 - this.tokens) * (this.intervalMs / this.capacity));
+  }
+
+  applyHeaders(headers: Record<string, unknown>): void {
+    const max = Number(headers['x-ratelimit-max']);
+    const intervalMs = Number(headers['x-ratelimit-interval-milliseconds']);
+    const remaining = Number(headers['x-ratelimit-remaining']);
+
+    this.refill(Date.now());
+    if (max > 0) this.capacity = max;
+    if (intervalMs > 0) this.intervalMs = intervalMs;
+    if (headers['x-ratelimit-remaining'] !== undefined && remaining >= 0) {
+      this.tokens = Math.min(this.tokens, remaining);
+    }
+  }
+
+  block(ms: number): void {
+    this.tokens = 0;
+    this.updatedAt = Date.now();
+    this.blockedUntil = Math.max(this.blockedUntil, Date.now() + ms);
+  }
+
+  private refill(now: number): void {
+    const elapsed = Math.max(0, now - this.updatedAt);
+    this.tokens = Math.min(this.capacity, this.tokens + elapsed * (this.capacity / this.intervalMs));
+    this.updatedAt = now;
+  }
+}
+
+function getUpdatedAt(opportunity: GhlOpportunity): number {
+  return opportunity.updatedAt ? new Date(opportunity.updatedAt).getTime() : NaN;
+}
+
+interface LocationState {
+  bucket: TokenBucket;
+  queue: Array<() => void>;
+  active: number;
+  dailyLimitWarned: boolean;
+}
+
+/**
+ * Client for the GHL API shared by the syncs, the webhook and the client setup.
+ * Requests are queued per location and dispatched round-robin, limited by each
+ * location's token bucket and by the concurrency pool.
+ */
+export class GhlApiClient {
+  private http: AxiosInstance;
+  private options: GhlApiClientOptions;
+  private locations = new Map<string, LocationState>();
+  // Locations with queued requests, in dispatch order
+  private rotation: string[] = [];
+  private active = 0;
+  private wakeTimer: NodeJS.Timeout | null = null;
+  private wakeAt = 0;
+
+  constructor(options: Partial<GhlApiClientOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.http = axios.create({
+      baseURL: config.GHL_BASE_URL,
+      timeout: this.options.timeoutMs,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  /**
+   * All opportunities of a location, following nextPageUrl through every page, or only the ones
+   * updated since options.updatedSince
+   */
+  async searchOpportunities(
+    locationId: string,
+    apiToken: string,
+    options: GhlOpportunitySearchOptions = {}
+  ): Promise<GhlOpportunitySearchResponse> {
+    const { updatedSince } = options;
+    if (updatedSince) {
+      const changed = await this.searchOpportunitiesUpdatedSince(locationId, apiToken, updatedSince);
+      if (changed) return changed;
+
+      // The API ignored the sort, so read every page and filter here instead
+      logger.warn('[GHL API] Opportunity search not sorted by updatedAt, reading all pages', { locationId });
+      const all = await this.searchOpportunities(locationId, apiToken);
+      const opportunities = all.opportunities.filter(opportunity => {
+        const updatedAt = getUpdatedAt(opportunity);
+        return isNaN(updatedAt) || updatedAt > updatedSince.getTime();
+      });
+      return { opportunities, meta: { ...all.meta, total: opportunities.length } };
+    }
+
+    let url: string | null = `/opportunities/search?location_id=${encodeURIComponent(locationId)}`;
+    const aggregated: GhlOpportunity[] = [];
+    let lastMeta: GhlOpportunitySearchResponse['meta'] = { total: 0 };
+
+    while (url) {
+      const page: GhlOpportunitySearchResponse = await this.request<GhlOpportunitySearchResponse>(
+        locationId, apiToken, { method: 'GET', url }
+      );
+
+      if (page?.opportunities?.length) {
+        aggregated.push(...page.opportunities);
+      }
+      lastMeta = page?.meta || lastMeta;
+      const nextUrl: string | null | undefined = page?.meta?.nextPageUrl;
+      url = nextUrl && nextUrl.length > 0 ? nextUrl : null;
+    }
+
+    return { opportunities: aggregated, meta: { ...lastMeta, total: aggregated.length } };
+  }
+
+  async getContact(locationId: string, contactId: string, apiToken: string): Promise<GhlContact | null> {
+    const response = await this.request<{ contact?: GhlContact }>(locationId, apiToken, {
+      method: 'GET',
+      url: `/contacts/${encodeURIComponent(contactId)}`,
+    });
+    return response?.contact ?? null;
+  }
+
+  async searchCustomFields(locationId: string, apiToken: string, query: string): Promise<GhlCustomField[]> {
+    const response = await this.request<GhlCustomFieldSearchResponse>(locationId, apiToken, {
+      method: 'GET',
+      baseURL: GHL_BACKEND_BASE_URL,
+      url: `/locations/${encodeURIComponent(locationId)}/customFields/search`,
+      params: {
+        parentId: '',
+        skip: 0,
+        limit: 10,
+        documentType: 'field',
+        model: 'all',
+        query,
+        includeStandards: true,
+      },
+    });
+    return response?.customFields ?? [];
+  }
+
+  async getPipelines(locationId: string, apiToken: string): Promise<GhlPipeline[]> {
+    const response = await this.request<GhlPipelineResponse>(locationId, apiToken, {
+      method: 'GET',
+      url: `/opportunities/pipelines?locationId=${encodeURIComponent(locationId)}`,
+    });
+    return response?.pipelines ?? [];
+  }
+
+  // ============= PRIVATE HELPER METHODS =============
+
+  /**
+   * Opportunities sorted by updatedAt, newest first, paged with the startAfter and startAfterId
+   * of the previous page until a page reaches the given time. Returns null when the results
+   * turn out not to be sorted that way, since stopping at the cursor would then drop changes.
+   */
+  private async searchOpportunitiesUpdatedSince(
+    locationId: string,
+    apiToken: string,
+    updatedSince: Date
+  ): Promise<GhlOpportunitySearchResponse | null> {
+    const since = updatedSince.getTime();
+    const params: Record<string, string | number> = {
+      location_id: locationId,
+      order: 'updated_desc',
+      limit: OPPORTUNITY_PAGE_LIMIT,
+    };
+    const aggregated: GhlOpportunity[] = [];
+    let lastMeta: GhlOpportunitySearchResponse['meta'] = { total: 0 };
+    let previousUpdatedAt = Infinity;
+
+    for (;;) {
+      const page: GhlOpportunitySearchResponse = await this.request<GhlOpportunitySearchResponse>(
+        locationId, apiToken, { method: 'GET', url: '/opportunities/search', params: { ...params } }
+      );
+      lastMeta = page?.meta || lastMeta;
+
+      let reachedSince = false;
+      for (const opportunity of page?.opportunities ?? []) {
+        const updatedAt = getUpdatedAt(opportunity);
+        if (!isNaN(updatedAt)) {
+          if (updatedAt > previousUpdatedAt) return null;
+          previousUpdatedAt = updatedAt;
+        }
+        // Without a usable updatedAt there is no way to tell, so keep it
+        if (!isNaN(updatedAt) && updatedAt <= since) {
+          reachedSince = true;
+        } else {
+          aggregated.push(opportunity);
+        }
+      }
+
+      const { startAfter, startAfterId } = page?.meta ?? {};
+      if (reachedSince || !page?.opportunities?.length || !startAfter || !startAfterId) break;
+      params.startAfter = startAfter;
+      params.startAfterId = startAfterId;
+    }
+
+    return { opportunities: aggregated, meta: { ...lastMeta, total: aggregated.length } };
+  }
+
+  private async request<T>(locationId: string, apiToken: string, requestConfig: AxiosRequestConfig): Promise<T> {
+    const state = this.getLocation(locationId);
+
+    for (let attempt = 0; ; attempt++) {
+      const release = await this.acquire(locationId);
+      let response: AxiosResponse<T>;
+
+      try {
+        response = await this.http.request<T>({
+          ...requestConfig,
+          headers: {
+            ...requestConfig.headers,
+            Authorization: `Bearer ${apiToken}`,
+            Version: GHL_API_VERSION,
+          },
+          validateStatus: () => true,
+        });
+      } catch (error: any) {
+        release();
+        if (attempt >= this.options.maxRetries) {
+          throw new GhlApiError(`GHL request failed: ${error?.message || String(error)}`, null, locationId, requestConfig.url);
+        }
+        await this.sleep(this.getBackoffMs(attempt));
+        continue;
+      }
+
+      state.bucket.applyHeaders(response.headers as Record<string, unknown>);
+      this.checkDailyLimit(locationId, state, response.headers as Record<string, unknown>);
+      release();
+
+      if (response.status < 300) {
+        return response.data;
+      }
+
+      const retryable = response.status === 429 || response.status >= 500;
+      if (response.status === 429) {
+        const retryAfterMs = this.getRetryAfterMs(response.headers as Record<string, unknown>) ?? this.getBackoffMs(attempt);
+        // Every queued request of the location waits, not only this one
+        state.bucket.block(retryAfterMs);
+        logger.warn('[GHL API] Rate limited', { locationId, url: requestConfig.url, retryAfterMs, attempt: attempt + 1 });
+      }
+
+      if (!retryable || attempt >= this.options.maxRetries) {
+        const data: any = response.data;
+        throw new GhlApiError(
+          `GHL request failed: ${response.status} - ${data?.message || response.statusText}`,
+          response.status,
+          locationId,
+          requestConfig.url
+        );
+      }
+
+      if (response.status !== 429) {
+        await this.sleep(this.getBackoffMs(attempt));
+      }
+    }
+  }
+
+  /**
+   * Wait for a free slot of the location; resolves with the function that releases it
+   */
+  private acquire(locationId: string): Promise<() => void> {
+    const state = this.getLocation(locationId);
+
+    return new Promise(resolve => {
+      state.queue.push(() => {
+        let released = false;
+        resolve(() => {
+          if (released) return;
+          released = true;
+          state.active--;
+          this.active--;
+          this.dispatch();
+        });
+      });
+      if (!this.rotation.includes(locationId)) this.rotation.push(locationId);
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Start queued requests round-robin over the locations until the pool is full or every
+   * location is waiting for tokens. A timer resumes dispatching when the next token is due.
+   */
+  private dispatch(): void {
+    let waitMs = Infinity;
+    let skipped = 0;
+
+    while (this.active < this.options.maxConcurrent && skipped < this.rotation.length) {
+      const locationId = this.rotation.shift()!;
+      const state = this.getLocation(locationId);
+
+      if (state.queue.length === 0) continue;
+
+      // The location gets another turn when one of its requests finishes
+      if (state.active >= this.options.maxConcurrentPerLocation) {
+        this.rotation.push(locationId);
+        skipped++;
+        continue;
+      }
+
+      const tokenWaitMs = state.bucket.take();
+      if (tokenWaitMs > 0) {
+        waitMs = Math.min(waitMs, tokenWaitMs);
+        this.rotation.push(locationId);
+        skipped++;
+        continue;
+      }
+
+      const start = state.queue.shift()!;
+      state.active++;
+      this.active++;
+      if (state.queue.length > 0) this.rotation.push(locationId);
+      skipped = 0;
+      start();
+    }
+
+    if (waitMs !== Infinity) this.scheduleWake(waitMs);
+  }
+
+  private scheduleWake(waitMs: number): void {
+    const wakeAt = Date.now() + waitMs;
+    if (this.wakeTimer && this.wakeAt <= wakeAt) return;
+    if (this.wakeTimer) clearTimeout(this.wakeTimer);
+
+    this.wakeAt = wakeAt;
+    this.wakeTimer = setTimeout(() => {
+      this.wakeTimer = null;
+      this.dispatch();
+    }, waitMs);
+  }
+
+  private getLocation(locationId: string): LocationState {
+    let state = this.locations.get(locationId);
+    if (!state) {
+      state = { bucket: new TokenBucket(), queue: [], active: 0, dailyLimitWarned: false };
+      this.locations.set(locationId, state);
+    }
+    return state;
+  }
+
+  /**
+   * The daily limit resets at midnight and isn't enforced here, GHL answers with 429s.
+   * Warn once so it shows up in the logs before that happens.
+   */
+  private checkDailyLimit(locationId: string, state: LocationState, headers: Record<string, unknown>): void {
+    const dailyLimit = Number(headers['x-ratelimit-limit-daily']);
+    const dailyRemaining = Number(headers['x-ratelimit-daily-remaining']);
+    if (!(dailyLimit > 0) || isNaN(dailyRemaining)) return;
+
+    const low = dailyRemaining < dailyLimit * 0.05;
+    if (low && !state.dailyLimitWarned) {
+      logger.warn('[GHL API] Daily rate limit almost used up', { locationId, dailyLimit, dailyRemaining });
+    }
+    state.dailyLimitWarned = low;
+  }
+
+  private getRetryAfterMs(headers: Record<string, unknown>): number | null {
+    const retryAfter = headers['retry-after'];
+    if (retryAfter === undefined || retryAfter === null || retryAfter === '') return null;
+
+    const seconds = Number(retryAfter);
+    if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+    const date = new Date(String(retryAfter)).getTime();
+    return isNaN(date) ? null : Math.max(0, date - Date.now());
+  }
+
+  /**
+   * Exponential backoff with jitter
+   */
+  private getBackoffMs(attempt: number): number {
+    const backoff = this.options.baseRetryDelayMs * Math.pow(2, attempt);
+    return backoff + Math.floor(Math.random() * (backoff / 2));
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
+
+export default new GhlApiClient();
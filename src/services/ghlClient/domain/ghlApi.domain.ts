@@ -0,0 +1,89 @@
+// Response shapes of the GHL API endpoints used by GhlApiClient.
+// Only the fields the app reads are typed.
+
+export interface GhlOpportunity {
+  id: string;
+  name: string;
+  monetaryValue: number;
+  status: string;
+  pipelineId: string;
+  pipelineStageId: string;
+  contactId?: string;
+  contact?: {
+    id?: string;
+    name?: string;
+    email?: string;
+    phone?: string;
+    companyName?: string;
+    tags?: string[];
+    dateUpdated?: string;
+  };
+  relations?: Array<{
+    tags?: string[];
+  }>;
+  assignedTo?: string;
+  source?: string;
+  createdAt: string;
+  updatedAt: string;
+  lastStageChangeAt: string;
+  lastStatusChangeAt: string;
+}
+
+export interface GhlOpportunitySearchResponse {
+  opportunities: GhlOpportunity[];
+  meta: {
+    total: number;
+    nextPageUrl?: string | null;
+    startAfterId?: string | null;
+    startAfter?: number | null;
+  };
+}
+
+export interface GhlContactCustomField {
+  id?: string;
+  _id?: string;
+  value?: unknown;
+}
+
+export interface GhlContact {
+  id: string;
+  email?: string;
+  tags?: string[];
+  dateAdded?: string;
+  dateUpdated?: string;
+  customFields?: GhlContactCustomField[];
+}
+
+export interface GhlCustomField {
+  _id: string;
+  id: string;
+  name: string;
+  fieldKey: string;
+  locationId: string;
+  dataType: string;
+}
+
+export interface GhlCustomFieldSearchResponse {
+  customFields: GhlCustomField[];
+  totalItems: number;
+  traceId?: string;
+}
+
+export interface GhlPipeline {
+  id: string;
+  name: string;
+  stages: Array<{
+    id: string;
+    name: string;
+    position: number;
+  }>;
+  dateAdded: string;
+  dateUpdated: string;
+  originId?: string;
+  showInFunnel?: boolean;
+  showInPieChart?: boolean;
+}
+
+export interface GhlPipelineResponse {
+  pipelines: GhlPipeline[];
+}
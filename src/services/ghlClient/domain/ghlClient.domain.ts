@@ -1,8 +1,34 @@
 import { Document } from "mongoose";
+import { LeadStatus } from "../../leads/domain/leads.domain.js";
+
+// A group of tags that sets a lead status. When several rules match, the highest priority wins.
+export interface GhlStatusTagRule {
+  status: LeadStatus;
+  tags: string[];
+  priority: number;
+  // Only for 'unqualified'. Defaults to the matched tag.
+  unqualifiedReason?: string;
+}
+
+// Tags counted into the weekly actuals by the multi-client opportunity sync
+export interface GhlActualsTags {
+  estimateSetTags: string[];
+  estimateRanTags: string[];
+  jobWonTags: string[];
+}
+
+export interface GhlTagMapping {
+  // An opportunity needs one of these tags to be synced or counted. Empty means every opportunity.
+  leadSourceTags: string[];
+  statusRules: GhlStatusTagRule[];
+  actualsTags: GhlActualsTags;
+}
 
 export interface IGhlClient extends Document {
   locationId: string;
   encryptedApiToken: string;
+  // Signs the GHL webhooks of this location
+  encryptedWebhookSecret?: string | null;
   queryValue: string;
   customFieldId?: string;
   queryValue2?: string;
@@ -15,6 +41,8 @@ export interface IGhlClient extends Document {
   disqualifiedTagDateFieldId?: string;
   pipelineId: string;
   revenueProClientId: string;
+  // Falls back to DEFAULT_GHL_TAG_MAPPING when not set
+  tagMapping?: GhlTagMapping;
   status?: 'active' | 'deleted' | 'inactive';
   deletedAt?: Date;
   created_at: Date;
@@ -5,6 +5,27 @@ export interface IGhlClientModel extends Model<IGhlClient> {
   // Add any static methods here if needed
 }
 
+const tagMappingSchema = new Schema(
+  {
+    leadSourceTags: { type: [String], default: [] },
+    statusRules: [
+      {
+        _id: false,
+        status: { type: String, required: true },
+        tags: { type: [String], default: [] },
+        priority: { type: Number, required: true },
+        unqualifiedReason: { type: String, required: false },
+      },
+    ],
+    actualsTags: {
+      estimateSetTags: { type: [String], default: [] },
+      estimateRanTags: { type: [String], default: [] },
+      jobWonTags: { type: [String], default: [] },
+    },
+  },
+  { _id: false }
+);
+
 const ghlClientSchema = new Schema<IGhlClient, IGhlClientModel>(
   {
     locationId: {
@@ -17,6 +38,10 @@ const ghlClientSchema = new Schema<IGhlClient, IGhlClientModel>(
       type: String,
       required: true,
     },
+    encryptedWebhookSecret: {
+      type: String,
+      required: false,
+    },
     queryValue: {
       type: String,
       required: true,
@@ -63,6 +88,10 @@ const ghlClientSchema = new Schema<IGhlClient, IGhlClientModel>(
       required: true,
       index: true,
     },
+    tagMapping: {
+      type: tagMappingSchema,
+      required: false,
+    },
     status: {
       type: String,
       enum: ['active', 'deleted', 'inactive'],
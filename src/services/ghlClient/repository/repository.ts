@@ -1,5 +1,5 @@
 import { CustomError, ErrorCode } from "../../../pkg/error/custom_error.js";
-import { IGhlClient } from "../domain/ghlClient.domain.js";
+import { GhlTagMapping, IGhlClient } from "../domain/ghlClient.domain.js";
 import GhlClient from "./models/ghlClient.model.js";
 import utils from "../../../utils/utils.js";
 
@@ -100,6 +100,7 @@ export class GhlClientRepository {
     locationId: string,
     updates: {
       encryptedApiToken?: string;
+      encryptedWebhookSecret?: string | null;
       queryValue?: string;
       customFieldId?: string;
       queryValue2?: string;
@@ -112,6 +113,7 @@ export class GhlClientRepository {
       pipelineId?: string;
       revenueProClientId?: string;
       status?: 'active' | 'inactive' | 'deleted';
+      tagMapping?: GhlTagMapping | null;
     }
   ): Promise<IGhlClient | null> {
     try {
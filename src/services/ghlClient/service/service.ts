@@ -1,39 +1,10 @@
 import { GhlClientRepository } from "../repository/repository.js";
-import { IGhlClient } from "../domain/ghlClient.domain.js";
+import { GhlTagMapping, IGhlClient } from "../domain/ghlClient.domain.js";
 import { encrypt, decrypt } from "../utils/encryption.js";
-import http from "../../../pkg/http/client.js";
+import { evaluateTagMapping, resolveTagMapping, TagMappingEvaluation, validateTagMapping } from "../utils/tagMapping.js";
+import ghlApiClient from "../api/ghlApiClient.js";
 import { config } from "../../../config.js";
 
-type CustomFieldSearchResponse = {
-  customFields: Array<{
-    _id: string;
-    id: string;
-    name: string;
-    fieldKey: string;
-    locationId: string;
-    dataType: string;
-  }>;
-  totalItems: number;
-  traceId?: string;
-};
-
-type PipelineResponse = {
-  pipelines: Array<{
-    id: string;
-    name: string;
-    stages: Array<{
-      id: string;
-      name: string;
-      position: number;
-    }>;
-    dateAdded: string;
-    dateUpdated: string;
-    originId?: string;
-    showInFunnel?: boolean;
-    showInPieChart?: boolean;
-  }>;
-};
-
 export class GhlClientService {
   private repository: GhlClientRepository;
 
@@ -166,21 +137,10 @@ export class GhlClientService {
     apiToken: string,
     queryValue: string
   ): Promise<string | undefined> {
-    const client = new http("https://backend.leadconnectorhq.com", 15000);
-    const encodedQuery = encodeURIComponent(queryValue);
-
-    const response = await client.get<CustomFieldSearchResponse>(
-      `/locations/${locationId}/customFields/search?parentId=&skip=0&limit=10&documentType=field&model=all&query=${encodedQuery}&includeStandards=true`,
-      {
-        headers: {
-          Authorization: `Bearer ${apiToken}`,
-          Version: "2021-07-28",
-        },
-      }
-    );
+    const customFields = await ghlApiClient.searchCustomFields(locationId, apiToken, queryValue);
 
-    if (response?.customFields && response.customFields.length > 0) {
-      return response.customFields[0].id || response.customFields[0]._id;
+    if (customFields.length > 0) {
+      return customFields[0].id || customFields[0]._id;
     }
 
     return undefined;
@@ -246,7 +206,6 @@ export class GhlClientService {
     locationId: string,
     apiToken: string
   ): Promise<string | undefined> {
-    const client = new http(config.GHL_BASE_URL, 15000);
     const apiUrl = `/opportunities/pipelines?locationId=${encodeURIComponent(locationId)}`;
 
     console.log(`[GHL Client] Fetching pipeline ID from GHL API:`, {
@@ -258,26 +217,17 @@ export class GhlClientService {
     });
 
     try {
-      const response = await client.get<PipelineResponse>(
-        apiUrl,
-        {
-          headers: {
-            Authorization: `Bearer ${apiToken}`,
-            Version: "2021-07-28",
-          },
-        }
-      );
+      const pipelines = await ghlApiClient.getPipelines(locationId, apiToken);
 
       console.log(`[GHL Client] Pipeline API response received:`, {
         locationId,
-        hasResponse: !!response,
-        pipelinesCount: response?.pipelines?.length || 0,
-        pipelineNames: response?.pipelines?.map(p => p.name) || [],
+        pipelinesCount: pipelines.length,
+        pipelineNames: pipelines.map(p => p.name),
       });
 
-      if (response?.pipelines && response.pipelines.length > 0) {
+      if (pipelines.length > 0) {
         // Search for pipeline with name "Sales Pipeline 💵"
-        const salesPipeline = response.pipelines.find(
+        const salesPipeline = pipelines.find(
           (pipeline) => pipeline.name === "Sales Pipeline 💵"
         );
 
@@ -291,27 +241,24 @@ export class GhlClientService {
         } else {
           console.error(`[GHL Client] Pipeline "Sales Pipeline 💵" not found in response:`, {
             locationId,
-            availablePipelines: response.pipelines.map(p => ({ id: p.id, name: p.name })),
-            totalPipelines: response.pipelines.length,
+            availablePipelines: pipelines.map(p => ({ id: p.id, name: p.name })),
+            totalPipelines: pipelines.length,
           });
         }
       } else {
         console.error(`[GHL Client] No pipelines found in response:`, {
           locationId,
-          response: response,
         });
       }
     } catch (error: any) {
       const errorMessage = error?.message || String(error);
-      const errorCode = error?.code || error?.status || error?.statusCode;
-      const errorResponse = error?.response || error?.data;
+      const errorCode = error?.status ?? error?.code;
 
       console.error(`[GHL Client] API call to fetch pipeline ID FAILED:`, {
         locationId,
         apiUrl: `${config.GHL_BASE_URL}${apiUrl}`,
         error: errorMessage,
         errorCode: errorCode,
-        errorResponse: errorResponse,
         errorStack: error?.stack,
         errorType: error?.constructor?.name,
       });
@@ -351,6 +298,13 @@ export class GhlClientService {
     return decrypt(ghlClient.encryptedApiToken);
   }
 
+  /**
+   * Get decrypted webhook signing secret for a client, null when none is configured
+   */
+  getDecryptedWebhookSecret(ghlClient: IGhlClient): string | null {
+    return ghlClient.encryptedWebhookSecret ? decrypt(ghlClient.encryptedWebhookSecret) : null;
+  }
+
   /**
    * Update GHL client configuration by locationId
    */
@@ -362,8 +316,15 @@ export class GhlClientService {
       queryValue2?: string;
       revenueProClientId?: string;
       status?: 'active' | 'inactive' | 'deleted';
+      // null resets the client to the default mapping
+      tagMapping?: GhlTagMapping | null;
+      // null or empty removes the secret
+      webhookSecret?: string | null;
     }
   ): Promise<IGhlClient | null> {
+    // Validate the tag mapping before anything is fetched from GHL
+    const tagMapping = updates.tagMapping ? validateTagMapping(updates.tagMapping) : updates.tagMapping;
+
     // First, get the existing client to get the current API token if needed
     const existingClient = await this.repository.getGhlClientByLocationId(locationId);
     if (!existingClient) {
@@ -379,6 +340,7 @@ export class GhlClientService {
 
     const updateData: {
       encryptedApiToken?: string;
+      encryptedWebhookSecret?: string | null;
       queryValue?: string;
       customFieldId?: string;
       queryValue2?: string;
@@ -391,6 +353,7 @@ export class GhlClientService {
       pipelineId?: string;
       revenueProClientId?: string;
       status?: 'active' | 'inactive' | 'deleted';
+      tagMapping?: GhlTagMapping | null;
     } = {};
 
     // Determine which API token to use (new one if provided, otherwise existing one)
@@ -540,6 +503,12 @@ export class GhlClientService {
     if (updates.status) {
       updateData.status = updates.status;
     }
+    if (tagMapping !== undefined) {
+      updateData.tagMapping = tagMapping;
+    }
+    if (updates.webhookSecret !== undefined) {
+      updateData.encryptedWebhookSecret = updates.webhookSecret ? encrypt(updates.webhookSecret) : null;
+    }
 
     // Log final update data before saving
     console.log(`[GHL Client Update] Final update data:`, {
@@ -566,6 +535,26 @@ export class GhlClientService {
     return updatedClient;
   }
 
+  /**
+   * Run an opportunity's tags through a client's tag mapping. A mapping passed in is
+   * validated and used instead of the saved one, so changes can be tried before saving.
+   */
+  async testTagMapping(
+    locationId: string,
+    tags: string[],
+    tagMapping?: GhlTagMapping
+  ): Promise<TagMappingEvaluation & { mappingSource: 'request' | 'client' | 'default' }> {
+    const client = await this.repository.getGhlClientByLocationId(locationId);
+    if (!client) {
+      throw new Error(`GHL client with locationId ${locationId} not found`);
+    }
+
+    const mapping = tagMapping ? validateTagMapping(tagMapping) : resolveTagMapping(client);
+    const mappingSource = tagMapping ? 'request' : client.tagMapping ? 'client' : 'default';
+
+    return { mappingSource, ...evaluateTagMapping(tags, mapping) };
+  }
+
   /**
    * Delete GHL client (soft delete)
    */
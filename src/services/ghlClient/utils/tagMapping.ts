@@ -0,0 +1,254 @@
+import { LeadStatus, VALID_LEAD_STATUSES } from "../../leads/domain/leads.domain.js";
+import { GhlActualsTags, GhlStatusTagRule, GhlTagMapping, IGhlClient } from "../domain/ghlClient.domain.js";
+import { CustomError, ErrorCode } from "../../../pkg/error/custom_error.js";
+
+type TaggedOpportunity = {
+  contact?: { tags?: string[] };
+  relations?: Array<{ tags?: string[] }>;
+};
+
+export interface TagStatusMatch {
+  status: LeadStatus;
+  unqualifiedReason?: string;
+  matchedTag: string;
+  priority: number;
+}
+
+export interface TagMappingEvaluation {
+  tags: string[];
+  isLeadSource: boolean;
+  matchedLeadSourceTags: string[];
+  // null when the opportunity would be skipped, see skipReason
+  result: TagStatusMatch | null;
+  skipReason?: 'missing_lead_source_tag' | 'no_matching_status_rule';
+  matchedRules: TagStatusMatch[];
+  actuals: {
+    estimateSet: boolean;
+    estimateRan: boolean;
+    jobWon: boolean;
+  };
+}
+
+const IN_PROGRESS_TAGS = Array.from({ length: 14 }, (_, i) => [`day${i + 1}am`, `day${i + 1}pm`]).flat();
+
+/**
+ * The tag names used before mappings became configurable per client
+ */
+export const DEFAULT_GHL_TAG_MAPPING: GhlTagMapping = {
+  leadSourceTags: ['facebook lead'],
+  statusRules: [
+    {
+      status: 'unqualified',
+      priority: 400,
+      tags: [
+        'dq - bad phone number',
+        'dq - job too small',
+        'dq - looking for job',
+        'dq - no longer interested',
+        'dq - out of area',
+        'dq - said didn\'t fill out a form',
+        'dq - service not offered',
+        'dq - services we dont offer'
+      ]
+    },
+    { status: 'estimate_set', priority: 300, tags: ['appt_completed', 'appt_cancelled', 'job_won', 'job_lost', 'appt_booked'] },
+    { status: 'in_progress', priority: 200, tags: IN_PROGRESS_TAGS },
+    { status: 'new', priority: 100, tags: ['new_lead'] }
+  ],
+  actualsTags: {
+    estimateSetTags: ['appt_booked'],
+    estimateRanTags: ['job_won', 'job_lost', 'appt_completed', 'appt_completed_unresponsive', 'color_consultation_booked'],
+    jobWonTags: ['job_won']
+  }
+};
+
+export function normalizeTag(tag: unknown): string {
+  return String(tag ?? '').toLowerCase().trim();
+}
+
+export function toTagSet(tags: string[]): Set<string> {
+  return new Set(tags.map(normalizeTag).filter(Boolean));
+}
+
+/**
+ * Collect the contact and relation tags of an opportunity
+ */
+export function collectOpportunityTags(opportunity: TaggedOpportunity): string[] {
+  const tags: string[] = [];
+
+  if (Array.isArray(opportunity?.contact?.tags)) {
+    tags.push(...opportunity.contact.tags);
+  }
+
+  if (Array.isArray(opportunity?.relations)) {
+    for (const rel of opportunity.relations) {
+      if (Array.isArray(rel?.tags)) {
+        tags.push(...rel.tags);
+      }
+    }
+  }
+
+  return tags;
+}
+
+/**
+ * The client's own mapping, or the default one when none is configured
+ */
+export function resolveTagMapping(client: Pick<IGhlClient, 'tagMapping'>): GhlTagMapping {
+  const mapping = client?.tagMapping as any;
+  if (!mapping) return DEFAULT_GHL_TAG_MAPPING;
+  return typeof mapping.toObject === 'function' ? mapping.toObject() : mapping;
+}
+
+export function hasLeadSourceTag(tagSet: Set<string>, mapping: GhlTagMapping): boolean {
+  return mapping.leadSourceTags.length === 0 || mapping.leadSourceTags.some(tag => tagSet.has(normalizeTag(tag)));
+}
+
+/**
+ * All tags the weekly actuals look at
+ */
+export function getActualsTargetTags(mapping: GhlTagMapping): string[] {
+  const { estimateSetTags, estimateRanTags, jobWonTags } = mapping.actualsTags;
+  return Array.from(new Set([...estimateSetTags, ...estimateRanTags, ...jobWonTags].map(normalizeTag)));
+}
+
+export function hasAnyTag(tagSet: Set<string>, tags: string[]): boolean {
+  return tags.some(tag => tagSet.has(normalizeTag(tag)));
+}
+
+/**
+ * Determine the lead status of an opportunity's tags. The matching rule with the highest
+ * priority wins; rules with the same priority are checked in their configured order.
+ * Returns null when a lead source tag is missing or no rule matches.
+ */
+export function determineLeadStatusFromTags(tags: string[], mapping: GhlTagMapping): TagStatusMatch | null {
+  const tagSet = toTagSet(tags);
+  if (!hasLeadSourceTag(tagSet, mapping)) return null;
+  return matchStatusRules(tagSet, mapping)[0] ?? null;
+}
+
+/**
+ * Explain how a set of tags goes through a mapping, used by the test endpoint
+ */
+export function evaluateTagMapping(tags: string[], mapping: GhlTagMapping): TagMappingEvaluation {
+  const tagSet = toTagSet(tags);
+  const isLeadSource = hasLeadSourceTag(tagSet, mapping);
+  const matchedRules = matchStatusRules(tagSet, mapping);
+  const result = isLeadSource ? matchedRules[0] ?? null : null;
+
+  return {
+    tags: Array.from(tagSet),
+    isLeadSource,
+    matchedLeadSourceTags: mapping.leadSourceTags.map(normalizeTag).filter(tag => tagSet.has(tag)),
+    result,
+    ...(result ? {} : { skipReason: isLeadSource ? 'no_matching_status_rule' : 'missing_lead_source_tag' }),
+    matchedRules,
+    actuals: {
+      estimateSet: isLeadSource && hasAnyTag(tagSet, mapping.actualsTags.estimateSetTags),
+      estimateRan: isLeadSource && hasAnyTag(tagSet, mapping.actualsTags.estimateRanTags),
+      jobWon: isLeadSource && hasAnyTag(tagSet, mapping.actualsTags.jobWonTags)
+    }
+  };
+}
+
+/**
+ * Validate and normalize a mapping sent by an admin. Sections that are left out
+ * keep the default tags.
+ */
+export function validateTagMapping(input: any): GhlTagMapping {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new CustomError(ErrorCode.VALIDATION_ERROR, "tagMapping must be an object");
+  }
+
+  const leadSourceTags = input.leadSourceTags === undefined
+    ? DEFAULT_GHL_TAG_MAPPING.leadSourceTags
+    : validateTagList(input.leadSourceTags, 'tagMapping.leadSourceTags');
+
+  let statusRules = DEFAULT_GHL_TAG_MAPPING.statusRules;
+  if (input.statusRules !== undefined) {
+    if (!Array.isArray(input.statusRules) || input.statusRules.length === 0) {
+      throw new CustomError(ErrorCode.VALIDATION_ERROR, "tagMapping.statusRules must be a non-empty array");
+    }
+    statusRules = input.statusRules.map((rule: any, index: number) => validateStatusRule(rule, index));
+  }
+
+  const actualsInput = input.actualsTags ?? {};
+  if (typeof actualsInput !== 'object' || Array.isArray(actualsInput)) {
+    throw new CustomError(ErrorCode.VALIDATION_ERROR, "tagMapping.actualsTags must be an object");
+  }
+  const actualsTagList = (key: keyof GhlActualsTags) => actualsInput[key] === undefined
+    ? DEFAULT_GHL_TAG_MAPPING.actualsTags[key]
+    : validateTagList(actualsInput[key], `tagMapping.actualsTags.${key}`);
+
+  return {
+    leadSourceTags,
+    statusRules,
+    actualsTags: {
+      estimateSetTags: actualsTagList('estimateSetTags'),
+      estimateRanTags: actualsTagList('estimateRanTags'),
+      jobWonTags: actualsTagList('jobWonTags')
+    }
+  };
+}
+
+// ============= PRIVATE HELPERS =============
+
+function matchStatusRules(tagSet: Set<string>, mapping: GhlTagMapping): TagStatusMatch[] {
+  const matches: TagStatusMatch[] = [];
+
+  mapping.statusRules.forEach(rule => {
+    const matchedTag = rule.tags.map(normalizeTag).find(tag => tagSet.has(tag));
+    if (!matchedTag) return;
+
+    matches.push({
+      status: rule.status,
+      ...(rule.status === 'unqualified' ? { unqualifiedReason: rule.unqualifiedReason || matchedTag } : {}),
+      matchedTag,
+      priority: rule.priority
+    });
+  });
+
+  // Array sort is stable, so equal priorities keep the configured order
+  return matches.sort((a, b) => b.priority - a.priority);
+}
+
+function validateStatusRule(rule: any, index: number): GhlStatusTagRule {
+  const path = `tagMapping.statusRules[${index}]`;
+  if (!rule || typeof rule !== 'object') {
+    throw new CustomError(ErrorCode.VALIDATION_ERROR, `${path} must be an object`);
+  }
+  if (!VALID_LEAD_STATUSES.includes(rule.status)) {
+    throw new CustomError(
+      ErrorCode.VALIDATION_ERROR,
+      `${path}.status must be one of: ${VALID_LEAD_STATUSES.join(', ')}`
+    );
+  }
+  if (typeof rule.priority !== 'number' || !isFinite(rule.priority)) {
+    throw new CustomError(ErrorCode.VALIDATION_ERROR, `${path}.priority must be a number`);
+  }
+  if (rule.unqualifiedReason !== undefined && rule.status !== 'unqualified') {
+    throw new CustomError(ErrorCode.VALIDATION_ERROR, `${path}.unqualifiedReason is only allowed for status 'unqualified'`);
+  }
+  if (rule.unqualifiedReason !== undefined && typeof rule.unqualifiedReason !== 'string') {
+    throw new CustomError(ErrorCode.VALIDATION_ERROR, `${path}.unqualifiedReason must be a string`);
+  }
+
+  const tags = validateTagList(rule.tags, `${path}.tags`);
+  if (tags.length === 0) {
+    throw new CustomError(ErrorCode.VALIDATION_ERROR, `${path}.tags must contain at least one tag`);
+  }
+
+  return {
+    status: rule.status,
+    tags,
+    priority: rule.priority,
+    ...(rule.unqualifiedReason?.trim() ? { unqualifiedReason: rule.unqualifiedReason.trim() } : {})
+  };
+}
+
+function validateTagList(tags: any, path: string): string[] {
+  if (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string')) {
+    throw new CustomError(ErrorCode.VALIDATION_ERROR, `${path} must be an array of strings`);
+  }
+  return Array.from(new Set(tags.map(normalizeTag).filter(Boolean)));
+}
@@ -3,6 +3,7 @@ import { config } from '../../../config.js';
 import logger from '../../../utils/logger.js';
 import { MongoCronLogger } from '../../../utils/mongoCronLogger.js';
 import leadSheetsSyncService from '../service/leadSheetsSync.service.js';
+import crmConnectorService from '../../crm/service/crmConnector.service.js';
 
 class LeadSheetsSyncCron {
   private isRunning = false;
@@ -28,25 +29,43 @@ class LeadSheetsSyncCron {
     return this.isRunning;
   }
 
-  public async runOnce(): Promise<void> {
+  /**
+   * fullResync (admin trigger only) ignores the sync cursors and the contact cache.
+   * Returns the run ID the per-client sync run reports are stored under.
+   */
+  public async runOnce(options: { fullResync?: boolean; type?: 'manual' | 'cron' } = {}): Promise<string> {
     this.isRunning = true;
     const start = new Date();
+    const executionId = start.toISOString().replace(/[:.]/g, '-');
+    const type = options.type ?? 'cron';
     let logId: any = null;
 
     try {
       logId = await MongoCronLogger.logCronJobStart({
         jobName: 'leadSheetsSync',
-        details: { startedAt: start.toISOString() },
-        executionId: start.toISOString().replace(/[:.]/g, '-'),
+        details: { startedAt: start.toISOString(), fullResync: !!options.fullResync },
+        executionId,
+        type,
       });
 
       logger.info('[Lead Sheets Sync Cron] Starting sync');
 
-      await leadSheetsSyncService.syncAllClients();
+      await leadSheetsSyncService.syncAllClients({
+        fullResync: options.fullResync,
+        runId: executionId,
+        trigger: type,
+      });
+
+      // HubSpot and Jobber clients get their statuses from webhooks; this catches up on missed ones
+      const crmConnections = await crmConnectorService.syncAllConnections();
 
       await MongoCronLogger.logCronJobSuccess({
         logId,
-        details: { completedAt: new Date().toISOString() },
+        details: {
+          completedAt: new Date().toISOString(),
+          crmConnections: crmConnections.length,
+          crmConnectionsFailed: crmConnections.filter(connection => connection.error).length,
+        },
         processedCount: 0, // Count is logged in service
       });
 
@@ -67,6 +86,8 @@ class LeadSheetsSyncCron {
     } finally {
       this.isRunning = false;
     }
+
+    return executionId;
   }
 }
 
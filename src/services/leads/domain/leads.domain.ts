@@ -31,6 +31,22 @@ export interface StatusHistoryEntry {
   timestamp: Date;
 }
 
+export type LeadEventField = 'status' | 'proposalAmount' | 'jobBookedAmount' | 'notes';
+
+export type LeadEventSource = 'manual' | 'ghl_sync' | 'crm_sync' | 'webhook';
+
+// Who or what changed a lead. actorId is the user ID for manual changes and the GHL location or CRM account ID for syncs.
+export interface LeadEventActor {
+  source: LeadEventSource;
+  actorId?: string | null;
+}
+
+export interface LeadScoringProfileRef {
+  profileId: string | null; // null when the default weights were used
+  name: string;
+  version: number;
+}
+
 export interface ILead {
   leadDate: string;
   name: string;
@@ -47,7 +63,8 @@ export interface ILead {
   jobBookedAmount?: number; // allowed when status is: job_booked
   notes?: string; // New field for notes
   leadScore?: number; // calculated lead score
-  statusHistory?: StatusHistoryEntry[]; // Tracks latest timestamp for each unique status
+  scoringProfile?: LeadScoringProfileRef; // scoring profile version that produced leadScore
+  statusHistory?: StatusHistoryEntry[]; // Every status transition in order; see LeadEvent for the full change log
   conversionRates?: {
     service?: number;
     adSetName?: number;
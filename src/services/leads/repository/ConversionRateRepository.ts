@@ -25,6 +25,17 @@ export class ConversionRateRepository implements IConversionRateRepository {
     return await ConversionRateModel.find(filter).exec();
   }
 
+  async getConversionRatesByKeys(
+    clientId: string,
+    keys: Array<Pick<IConversionRate, "keyField" | "keyName">>
+  ): Promise<IConversionRateDocument[]> {
+    if (keys.length === 0) return [];
+    return await ConversionRateModel.find({
+      clientId,
+      $or: keys.map(key => ({ keyField: key.keyField, keyName: key.keyName }))
+    }).exec();
+  }
+
   // Bulk operations
   async insertMany(conversionRates: IConversionRate[]): Promise<IConversionRateDocument[]> {
     return await ConversionRateModel.insertMany(conversionRates);
@@ -89,6 +100,8 @@ export class ConversionRateRepository implements IConversionRateRepository {
       if (existing) {
         // Check if values actually changed
         if (existing.conversionRate !== rate.conversionRate || 
+            existing.confidence !== rate.confidence ||
+            (existing.decayHalfLifeWeeks ?? null) !== (rate.decayHalfLifeWeeks ?? null) ||
             existing.pastTotalCount !== rate.pastTotalCount || 
             existing.pastTotalEst !== rate.pastTotalEst) {
           actuallyUpdated++;
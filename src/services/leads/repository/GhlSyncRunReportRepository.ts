@@ -0,0 +1,35 @@
+import GhlSyncRunReportModel, { IGhlSyncRunReport, IGhlSyncRunReportDocument } from './models/ghlSyncRunReport.model.js';
+import { IGhlSyncRunReportRepository } from './interfaces.js';
+
+export class GhlSyncRunReportRepository implements IGhlSyncRunReportRepository {
+
+  async createReport(data: IGhlSyncRunReport): Promise<IGhlSyncRunReportDocument> {
+    return await GhlSyncRunReportModel.create(data);
+  }
+
+  async getReportById(id: string): Promise<IGhlSyncRunReportDocument | null> {
+    return await GhlSyncRunReportModel.findById(id).exec();
+  }
+
+  /**
+   * List reports, newest first. Entries are left out.
+   */
+  async getReports(
+    filters: { clientId?: string; locationId?: string; runId?: string },
+    limit: number = 50
+  ): Promise<IGhlSyncRunReportDocument[]> {
+    const query: Record<string, string> = {};
+    if (filters.clientId) query.clientId = filters.clientId;
+    if (filters.locationId) query.locationId = filters.locationId;
+    if (filters.runId) query.runId = filters.runId;
+
+    return await GhlSyncRunReportModel.find(query)
+      .select({ entries: 0 })
+      .sort({ startedAt: -1 })
+      .limit(limit)
+      .exec();
+  }
+}
+
+// Export singleton instance
+export const ghlSyncRunReportRepository = new GhlSyncRunReportRepository();
@@ -0,0 +1,72 @@
+import GhlWebhookEventModel, {
+  GhlWebhookEventStatus,
+  GhlWebhookEventType,
+  IGhlWebhookEvent,
+  IGhlWebhookEventDocument
+} from './models/ghlWebhookEvent.model.js';
+import { IGhlWebhookEventRepository } from './interfaces.js';
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+export class GhlWebhookEventRepository implements IGhlWebhookEventRepository {
+
+  /**
+   * Insert an event; returns null when an event with the same eventId was already stored
+   */
+  async createEvent(data: IGhlWebhookEvent): Promise<IGhlWebhookEventDocument | null> {
+    try {
+      return await GhlWebhookEventModel.create(data);
+    } catch (error: any) {
+      if (error?.code === DUPLICATE_KEY_ERROR) return null;
+      throw error;
+    }
+  }
+
+  async getEventById(id: string): Promise<IGhlWebhookEventDocument | null> {
+    return await GhlWebhookEventModel.findById(id).exec();
+  }
+
+  async getEventByEventId(eventId: string): Promise<IGhlWebhookEventDocument | null> {
+    return await GhlWebhookEventModel.findOne({ eventId }).exec();
+  }
+
+  /**
+   * Take over an event still marked received that hasn't been touched since staleBefore,
+   * e.g. because the process handling it crashed. Returns null when it is finished, or
+   * still being handled or already taken over by another delivery.
+   */
+  async claimStaleEvent(eventId: string, staleBefore: Date): Promise<IGhlWebhookEventDocument | null> {
+    return await GhlWebhookEventModel.findOneAndUpdate(
+      { eventId, status: 'received', updatedAt: { $lt: staleBefore } },
+      { $set: { updatedAt: new Date() } },
+      { new: true }
+    ).exec();
+  }
+
+  async updateEvent(id: string, update: Partial<IGhlWebhookEvent>): Promise<IGhlWebhookEventDocument | null> {
+    return await GhlWebhookEventModel.findByIdAndUpdate(id, { $set: update }, { new: true }).exec();
+  }
+
+  async incrementAttempts(id: string): Promise<void> {
+    await GhlWebhookEventModel.updateOne({ _id: id }, { $inc: { attempts: 1 } }).exec();
+  }
+
+  /**
+   * Newest events first
+   */
+  async getEvents(filters: {
+    locationId?: string;
+    status?: GhlWebhookEventStatus;
+    type?: GhlWebhookEventType;
+    limit: number;
+  }): Promise<IGhlWebhookEventDocument[]> {
+    const query: Record<string, string> = {};
+    if (filters.locationId) query.locationId = filters.locationId;
+    if (filters.status) query.status = filters.status;
+    if (filters.type) query.type = filters.type;
+    return await GhlWebhookEventModel.find(query).sort({ receivedAt: -1 }).limit(filters.limit).exec();
+  }
+}
+
+// Export singleton instance
+export const ghlWebhookEventRepository = new GhlWebhookEventRepository();
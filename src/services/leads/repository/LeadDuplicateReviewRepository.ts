@@ -0,0 +1,19 @@
+import LeadDuplicateReviewModel, {
+  ILeadDuplicateReview,
+  ILeadDuplicateReviewDocument
+} from './models/leadDuplicateReview.model.js';
+import { ILeadDuplicateReviewRepository } from './interfaces.js';
+
+export class LeadDuplicateReviewRepository implements ILeadDuplicateReviewRepository {
+
+  async createReview(data: ILeadDuplicateReview): Promise<ILeadDuplicateReviewDocument> {
+    return await LeadDuplicateReviewModel.create({ ...data, leadIds: [...data.leadIds].sort() });
+  }
+
+  async getDismissedReviews(clientId: string): Promise<ILeadDuplicateReviewDocument[]> {
+    return await LeadDuplicateReviewModel.find({ clientId, status: 'dismissed' }).exec();
+  }
+}
+
+// Export singleton instance
+export const leadDuplicateReviewRepository = new LeadDuplicateReviewRepository();
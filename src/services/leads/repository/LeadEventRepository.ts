@@ -0,0 +1,20 @@
+import LeadEventModel, { ILeadEvent, ILeadEventDocument } from './models/leadEvent.model.js';
+import { ILeadEventRepository } from './interfaces.js';
+
+export class LeadEventRepository implements ILeadEventRepository {
+
+  async insertEvents(events: ILeadEvent[]): Promise<ILeadEventDocument[]> {
+    if (events.length === 0) return [];
+    return await LeadEventModel.insertMany(events, { ordered: true }) as unknown as ILeadEventDocument[];
+  }
+
+  /**
+   * All events of a lead in the order they happened
+   */
+  async getEventsByLeadId(leadId: string): Promise<ILeadEventDocument[]> {
+    return await LeadEventModel.find({ leadId }).sort({ occurredAt: 1, _id: 1 }).exec();
+  }
+}
+
+// Export singleton instance
+export const leadEventRepository = new LeadEventRepository();
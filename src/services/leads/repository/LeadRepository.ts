@@ -1,6 +1,7 @@
+import { FilterQuery } from 'mongoose';
 import LeadModel from './models/leads.model.js';
 import { ILead, ILeadDocument } from '../domain/leads.domain.js';
-import { ILeadRepository } from './interfaces.js';
+import { ILeadRepository, LeadStream } from './interfaces.js';
 
 export class LeadRepository implements ILeadRepository {
   
@@ -57,10 +58,22 @@ export class LeadRepository implements ILeadRepository {
     }).exec();
   }
 
-  async findLeads(query: Partial<ILead> = {}): Promise<Partial<ILead>[]> {
+  async findLeads(query: FilterQuery<ILead> = {}): Promise<Partial<ILead>[]> {
     return await LeadModel.find(this.addSoftDeleteFilter(query)).lean().exec();
   }
 
+  /**
+   * Iterate over matching leads one at a time without loading them all into memory.
+   * Leaving the loop early does not close the cursor; call close() when done.
+   */
+  streamLeads(query: any = {}, sort: Record<string, 1 | -1> = { leadDate: -1 }): LeadStream {
+    return LeadModel.find(this.addSoftDeleteFilter(query)).sort(sort).lean().cursor();
+  }
+
+  async countLeads(query: any = {}): Promise<number> {
+    return await LeadModel.countDocuments(this.addSoftDeleteFilter(query)).exec();
+  }
+
   // Bulk operations
   async insertMany(leads: ILead[]): Promise<ILeadDocument[]> {
     const normalizedLeads = leads.map(lead => ({ ...lead, isDeleted: false }));
@@ -0,0 +1,27 @@
+import ScoringBacktestModel, { IScoringBacktest, IScoringBacktestDocument } from './models/scoringBacktest.model.js';
+import { IScoringBacktestRepository } from './interfaces.js';
+
+export class ScoringBacktestRepository implements IScoringBacktestRepository {
+
+  async createBacktest(data: IScoringBacktest): Promise<IScoringBacktestDocument> {
+    return await ScoringBacktestModel.create(data);
+  }
+
+  async getBacktestById(id: string): Promise<IScoringBacktestDocument | null> {
+    return await ScoringBacktestModel.findById(id).exec();
+  }
+
+  /**
+   * List backtest runs of a client, newest first. Calibration and decile details are left out.
+   */
+  async getBacktestsByClientId(clientId: string, limit: number = 50): Promise<IScoringBacktestDocument[]> {
+    return await ScoringBacktestModel.find({ clientId })
+      .select({ calibration: 0, deciles: 0 })
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .exec();
+  }
+}
+
+// Export singleton instance
+export const scoringBacktestRepository = new ScoringBacktestRepository();
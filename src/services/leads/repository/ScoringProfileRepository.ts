@@ -0,0 +1,53 @@
+import mongoose from 'mongoose';
+import ScoringProfileModel, { IScoringProfile, IScoringProfileDocument } from './models/scoringProfile.model.js';
+import { IScoringProfileRepository } from './interfaces.js';
+
+export class ScoringProfileRepository implements IScoringProfileRepository {
+
+  async createProfile(data: IScoringProfile): Promise<IScoringProfileDocument> {
+    return await ScoringProfileModel.create(data);
+  }
+
+  async getProfileById(id: string): Promise<IScoringProfileDocument | null> {
+    return await ScoringProfileModel.findById(id).exec();
+  }
+
+  async getProfilesByClientId(clientId: string): Promise<IScoringProfileDocument[]> {
+    return await ScoringProfileModel.find({ clientId }).sort({ name: 1, version: -1 }).exec();
+  }
+
+  async getActiveProfile(clientId: string): Promise<IScoringProfileDocument | null> {
+    return await ScoringProfileModel.findOne({ clientId, isActive: true }).exec();
+  }
+
+  async getLatestVersion(clientId: string, name: string): Promise<number> {
+    const latest = await ScoringProfileModel.findOne({ clientId, name })
+      .sort({ version: -1 })
+      .select({ version: 1 })
+      .lean()
+      .exec();
+    return latest?.version ?? 0;
+  }
+
+  /**
+   * Activate a profile and deactivate every other profile of the same client, in one
+   * transaction so the client never ends up with zero or two active profiles
+   */
+  async activateProfile(id: string, clientId: string): Promise<IScoringProfileDocument | null> {
+    return await mongoose.connection.transaction(async () => {
+      await ScoringProfileModel.updateMany(
+        { clientId, isActive: true, _id: { $ne: id } },
+        { $set: { isActive: false } }
+      ).exec();
+
+      return await ScoringProfileModel.findByIdAndUpdate(
+        id,
+        { $set: { isActive: true, activatedAt: new Date() } },
+        { new: true }
+      ).exec();
+    });
+  }
+}
+
+// Export singleton instance
+export const scoringProfileRepository = new ScoringProfileRepository();
@@ -5,5 +5,11 @@ export * from './interfaces.js';
 export { LeadRepository, leadRepository } from './LeadRepository.js';
 export { ConversionRateRepository, conversionRateRepository } from './ConversionRateRepository.js';
 export { LeadAggregationRepository, leadAggregationRepository } from './LeadAggregationRepository.js';
+export { ScoringProfileRepository, scoringProfileRepository } from './ScoringProfileRepository.js';
+export { ScoringBacktestRepository, scoringBacktestRepository } from './ScoringBacktestRepository.js';
+export { LeadEventRepository, leadEventRepository } from './LeadEventRepository.js';
+export { LeadDuplicateReviewRepository, leadDuplicateReviewRepository } from './LeadDuplicateReviewRepository.js';
+export { GhlWebhookEventRepository, ghlWebhookEventRepository } from './GhlWebhookEventRepository.js';
+export { GhlSyncRunReportRepository, ghlSyncRunReportRepository } from './GhlSyncRunReportRepository.js';
 
 // Old repository file removed - using new refactored repositories
@@ -1,5 +1,20 @@
+import { FilterQuery } from 'mongoose';
 import { ILead, ILeadDocument } from '../domain/leads.domain.js';
 import { IConversionRate, IConversionRateDocument } from './models/conversionRate.model.js';
+import { IScoringProfile, IScoringProfileDocument } from './models/scoringProfile.model.js';
+import { IScoringBacktest, IScoringBacktestDocument } from './models/scoringBacktest.model.js';
+import { ILeadEvent, ILeadEventDocument } from './models/leadEvent.model.js';
+import { ILeadDuplicateReview, ILeadDuplicateReviewDocument } from './models/leadDuplicateReview.model.js';
+import {
+  GhlWebhookEventStatus,
+  GhlWebhookEventType,
+  IGhlWebhookEvent,
+  IGhlWebhookEventDocument
+} from './models/ghlWebhookEvent.model.js';
+import { IGhlSyncRunReport, IGhlSyncRunReportDocument } from './models/ghlSyncRunReport.model.js';
+
+// Cursor over leads; close() releases it when iteration stops early
+export type LeadStream = AsyncIterable<Partial<ILead>> & { close(): Promise<void> };
 
 // Lead Repository Interface
 export interface ILeadRepository {
@@ -15,7 +30,9 @@ export interface ILeadRepository {
   getLeads(filter?: Partial<ILead>): Promise<ILeadDocument[]>;
   getLeadsByClientId(clientId: string): Promise<Partial<ILead>[]>;
   getLeadsByDateRange(start: string, end: string): Promise<ILeadDocument[]>;
-  findLeads(query?: Partial<ILead>): Promise<Partial<ILead>[]>;
+  findLeads(query?: FilterQuery<ILead>): Promise<Partial<ILead>[]>;
+  streamLeads(query?: any, sort?: Record<string, 1 | -1>): LeadStream;
+  countLeads(query?: any): Promise<number>;
   
   // Bulk operations
   insertMany(leads: ILead[]): Promise<ILeadDocument[]>;
@@ -48,6 +65,10 @@ export interface IConversionRateRepository {
   // Query operations
   getConversionRateById(id: string): Promise<IConversionRateDocument | null>;
   getConversionRates(filter?: Partial<IConversionRate>): Promise<IConversionRateDocument[]>;
+  getConversionRatesByKeys(
+    clientId: string,
+    keys: Array<Pick<IConversionRate, "keyField" | "keyName">>
+  ): Promise<IConversionRateDocument[]>;
   
   // Bulk operations
   insertMany(conversionRates: IConversionRate[]): Promise<IConversionRateDocument[]>;
@@ -64,6 +85,35 @@ export interface IConversionRateRepository {
   upsertConversionRate(data: IConversionRate): Promise<IConversionRateDocument>;
 }
 
+// Scoring Profile Repository Interface
+export interface IScoringProfileRepository {
+  createProfile(data: IScoringProfile): Promise<IScoringProfileDocument>;
+  getProfileById(id: string): Promise<IScoringProfileDocument | null>;
+  getProfilesByClientId(clientId: string): Promise<IScoringProfileDocument[]>;
+  getActiveProfile(clientId: string): Promise<IScoringProfileDocument | null>;
+  getLatestVersion(clientId: string, name: string): Promise<number>;
+  activateProfile(id: string, clientId: string): Promise<IScoringProfileDocument | null>;
+}
+
+// Scoring Backtest Repository Interface
+export interface IScoringBacktestRepository {
+  createBacktest(data: IScoringBacktest): Promise<IScoringBacktestDocument>;
+  getBacktestById(id: string): Promise<IScoringBacktestDocument | null>;
+  getBacktestsByClientId(clientId: string, limit?: number): Promise<IScoringBacktestDocument[]>;
+}
+
+// Lead Event Repository Interface (append-only)
+export interface ILeadEventRepository {
+  insertEvents(events: ILeadEvent[]): Promise<ILeadEventDocument[]>;
+  getEventsByLeadId(leadId: string): Promise<ILeadEventDocument[]>;
+}
+
+// Lead Duplicate Review Repository Interface
+export interface ILeadDuplicateReviewRepository {
+  createReview(data: ILeadDuplicateReview): Promise<ILeadDuplicateReviewDocument>;
+  getDismissedReviews(clientId: string): Promise<ILeadDuplicateReviewDocument[]>;
+}
+
 // Lead Aggregation Repository Interface (for complex queries)
 export interface ILeadAggregationRepository {
   // Pagination and filtering
@@ -100,3 +150,29 @@ export interface ILeadAggregationRepository {
     sortOptions?: any
   ): Promise<{ totalCount: number; data: any[] }>;
 }
+
+// GHL Webhook Event Repository Interface
+export interface IGhlWebhookEventRepository {
+  createEvent(data: IGhlWebhookEvent): Promise<IGhlWebhookEventDocument | null>;
+  getEventById(id: string): Promise<IGhlWebhookEventDocument | null>;
+  getEventByEventId(eventId: string): Promise<IGhlWebhookEventDocument | null>;
+  claimStaleEvent(eventId: string, staleBefore: Date): Promise<IGhlWebhookEventDocument | null>;
+  updateEvent(id: string, update: Partial<IGhlWebhookEvent>): Promise<IGhlWebhookEventDocument | null>;
+  incrementAttempts(id: string): Promise<void>;
+  getEvents(filters: {
+    locationId?: string;
+    status?: GhlWebhookEventStatus;
+    type?: GhlWebhookEventType;
+    limit: number;
+  }): Promise<IGhlWebhookEventDocument[]>;
+}
+
+// GHL Sync Run Report Repository Interface
+export interface IGhlSyncRunReportRepository {
+  createReport(data: IGhlSyncRunReport): Promise<IGhlSyncRunReportDocument>;
+  getReportById(id: string): Promise<IGhlSyncRunReportDocument | null>;
+  getReports(
+    filters: { clientId?: string; locationId?: string; runId?: string },
+    limit?: number
+  ): Promise<IGhlSyncRunReportDocument[]>;
+}
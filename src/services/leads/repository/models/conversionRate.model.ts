@@ -4,9 +4,12 @@ export interface IConversionRate {
   clientId: string; // MongoDB ObjectId stored as string
   keyName: string;
   keyField: string;
-  conversionRate: number;
+  conversionRate: number; // smoothed rate used for lead scoring
+  rawConversionRate?: number; // pastTotalEst / pastTotalCount before smoothing
+  confidence?: number; // 0-1, how much of conversionRate comes from this key's own outcomes
   pastTotalCount: number;
   pastTotalEst: number;
+  decayHalfLifeWeeks?: number | null; // half-life used for the counts, null when every lead counted equally
 }
 
 export interface IConversionRateDocument extends IConversionRate, Document {}
@@ -17,8 +20,11 @@ const conversionRateSchema = new Schema<IConversionRateDocument>(
     keyName: { type: String, required: true },
     keyField: { type: String, required: true },
     conversionRate: { type: Number, required: true },
-    pastTotalCount: { type: Number, required: true }, // (estimate_set + unqualified)
+    rawConversionRate: { type: Number, default: 0 },
+    confidence: { type: Number, default: 0 },
+    pastTotalCount: { type: Number, required: true }, // (estimate_set + unqualified), weighted when decayed
     pastTotalEst: { type: Number, required: true },
+    decayHalfLifeWeeks: { type: Number, default: null },
   },
   { timestamps: true }
 );
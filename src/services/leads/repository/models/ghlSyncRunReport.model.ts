@@ -0,0 +1,78 @@
+import { Schema, model, Document } from 'mongoose';
+
+export type GhlSyncReportOutcome = 'updated' | 'skipped' | 'error';
+
+// One opportunity the sync looked at
+export interface GhlSyncReportEntry {
+  opportunityId: string;
+  contactId: string | null;
+  email: string | null;
+  leadId: string | null;
+  outcome: GhlSyncReportOutcome;
+  previousStatus: string | null;
+  status: string | null; // status the tags mapped to
+  tags: string[];
+  matchedTag: string | null; // tag of the status rule that decided the status
+  skipReason: string | null;
+  error: string | null;
+}
+
+export interface IGhlSyncRunReport {
+  runId: string; // shared by the reports of all clients synced in one run
+  trigger: 'cron' | 'manual';
+  clientId: string;
+  locationId: string;
+  mode: 'full' | 'incremental';
+  status: 'completed' | 'failed';
+  startedAt: Date;
+  finishedAt: Date;
+  stats: {
+    fetched: number;
+    processed: number;
+    updated: number;
+    skipped: number;
+    errors: number;
+    skipReasons: Record<string, number>;
+  };
+  entries: GhlSyncReportEntry[];
+  entriesTruncated: boolean;
+  error?: string | null; // why the run failed as a whole, e.g. the opportunity search
+}
+
+export interface IGhlSyncRunReportDocument extends IGhlSyncRunReport, Document {
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ghlSyncRunReportSchema = new Schema<IGhlSyncRunReportDocument>(
+  {
+    runId: { type: String, required: true },
+    trigger: { type: String, enum: ['cron', 'manual'], required: true },
+    clientId: { type: String, required: true },
+    locationId: { type: String, required: true },
+    mode: { type: String, enum: ['full', 'incremental'], required: true },
+    status: { type: String, enum: ['completed', 'failed'], required: true },
+    startedAt: { type: Date, required: true },
+    finishedAt: { type: Date, required: true },
+    stats: {
+      fetched: { type: Number, default: 0 },
+      processed: { type: Number, default: 0 },
+      updated: { type: Number, default: 0 },
+      skipped: { type: Number, default: 0 },
+      errors: { type: Number, default: 0 },
+      skipReasons: { type: Object, default: {} },
+    },
+    entries: { type: [Object], default: [] },
+    entriesTruncated: { type: Boolean, default: false },
+    error: { type: String, default: null },
+  },
+  { timestamps: true }
+);
+
+ghlSyncRunReportSchema.index({ clientId: 1, startedAt: -1 });
+ghlSyncRunReportSchema.index({ locationId: 1, startedAt: -1 });
+ghlSyncRunReportSchema.index({ runId: 1 });
+// Reports are for debugging recent runs; drop them after 90 days
+ghlSyncRunReportSchema.index({ startedAt: 1 }, { expireAfterSeconds: 90 * 24 * 60 * 60 });
+
+export default model<IGhlSyncRunReportDocument>('GhlSyncRunReport', ghlSyncRunReportSchema);
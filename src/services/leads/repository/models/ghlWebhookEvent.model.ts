@@ -0,0 +1,61 @@
+import { Schema, model, Document } from 'mongoose';
+
+export const GHL_WEBHOOK_EVENT_TYPES = [
+  'OpportunityStatusUpdate',
+  'OpportunityStageUpdate',
+  'ContactTagUpdate',
+  'ContactCreate'
+] as const;
+
+export type GhlWebhookEventType = typeof GHL_WEBHOOK_EVENT_TYPES[number];
+export type GhlWebhookEventStatus = 'received' | 'processed' | 'skipped' | 'failed';
+
+export interface GhlWebhookEventResult {
+  leadId?: string;
+  previousStatus?: string;
+  status?: string;
+  skipReason?: string;
+}
+
+export interface IGhlWebhookEvent {
+  eventId: string; // webhookId of the delivery, or a hash of the body when GHL doesn't send one
+  type: GhlWebhookEventType;
+  locationId: string;
+  clientId: string;
+  contactId: string | null;
+  payload: Record<string, any>;
+  status: GhlWebhookEventStatus;
+  result?: GhlWebhookEventResult | null;
+  error?: string | null;
+  attempts: number;
+  receivedAt: Date;
+  processedAt?: Date | null;
+}
+
+export interface IGhlWebhookEventDocument extends IGhlWebhookEvent, Document {
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ghlWebhookEventSchema = new Schema<IGhlWebhookEventDocument>(
+  {
+    eventId: { type: String, required: true, unique: true },
+    type: { type: String, enum: GHL_WEBHOOK_EVENT_TYPES, required: true },
+    locationId: { type: String, required: true },
+    clientId: { type: String, required: true },
+    contactId: { type: String, default: null },
+    payload: { type: Schema.Types.Mixed, required: true },
+    status: { type: String, enum: ['received', 'processed', 'skipped', 'failed'], default: 'received' },
+    result: { type: Schema.Types.Mixed, default: null },
+    error: { type: String, default: null },
+    attempts: { type: Number, default: 0 },
+    receivedAt: { type: Date, required: true },
+    processedAt: { type: Date, default: null },
+  },
+  { timestamps: true }
+);
+
+ghlWebhookEventSchema.index({ locationId: 1, receivedAt: -1 });
+ghlWebhookEventSchema.index({ status: 1, receivedAt: -1 });
+
+export default model<IGhlWebhookEventDocument>('GhlWebhookEvent', ghlWebhookEventSchema);
@@ -0,0 +1,29 @@
+import { Schema, model, Document } from 'mongoose';
+
+export interface ILeadDuplicateReview {
+  clientId: string;
+  leadIds: string[]; // sorted lead IDs of the reviewed group
+  status: 'dismissed' | 'merged';
+  winnerId?: string | null; // set when the group was merged
+  reviewedBy?: string;
+}
+
+export interface ILeadDuplicateReviewDocument extends ILeadDuplicateReview, Document {
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const leadDuplicateReviewSchema = new Schema<ILeadDuplicateReviewDocument>(
+  {
+    clientId: { type: String, required: true },
+    leadIds: { type: [String], required: true },
+    status: { type: String, enum: ['dismissed', 'merged'], required: true },
+    winnerId: { type: String, default: null },
+    reviewedBy: { type: String, required: false },
+  },
+  { timestamps: true }
+);
+
+leadDuplicateReviewSchema.index({ clientId: 1, status: 1 });
+
+export default model<ILeadDuplicateReviewDocument>('LeadDuplicateReview', leadDuplicateReviewSchema);
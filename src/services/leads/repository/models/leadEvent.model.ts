@@ -0,0 +1,41 @@
+import { Schema, model, Document } from 'mongoose';
+import { LeadEventField, LeadEventSource } from '../../domain/leads.domain.js';
+
+export interface ILeadEvent {
+  leadId: string;
+  clientId: string;
+  field: LeadEventField;
+  oldValue: string | number | null;
+  newValue: string | number | null;
+  source: LeadEventSource;
+  actorId: string | null;
+  occurredAt: Date;
+}
+
+export interface ILeadEventDocument extends ILeadEvent, Document {
+  createdAt: Date;
+}
+
+// Append-only: events are inserted once and never updated or deleted
+const leadEventSchema = new Schema<ILeadEventDocument>(
+  {
+    leadId: { type: String, required: true },
+    clientId: { type: String, required: true },
+    field: {
+      type: String,
+      enum: ['status', 'proposalAmount', 'jobBookedAmount', 'notes'],
+      required: true
+    },
+    oldValue: { type: Schema.Types.Mixed, default: null },
+    newValue: { type: Schema.Types.Mixed, default: null },
+    source: { type: String, enum: ['manual', 'ghl_sync', 'crm_sync', 'webhook'], required: true },
+    actorId: { type: String, default: null },
+    occurredAt: { type: Date, required: true },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+leadEventSchema.index({ leadId: 1, occurredAt: 1 });
+leadEventSchema.index({ clientId: 1, occurredAt: -1 });
+
+export default model<ILeadEventDocument>('LeadEvent', leadEventSchema);
@@ -10,6 +10,12 @@ const statusHistoryEntrySchema = new Schema({
   timestamp: { type: Date, required: true, default: Date.now }
 }, { _id: false });
 
+const scoringProfileRefSchema = new Schema({
+  profileId: { type: String, default: null },
+  name: { type: String, required: true },
+  version: { type: Number, required: true }
+}, { _id: false });
+
 const leadSchema = new Schema<ILeadDocument>(
   {
     leadDate: { type: String, required: true, default: new Date().toISOString() },
@@ -32,6 +38,7 @@ const leadSchema = new Schema<ILeadDocument>(
     jobBookedAmount: { type: Number, required: false, default: 0 },
     notes: { type: String, default: '', maxlength: 2000 }, // New notes field with max length
     leadScore: { type: Number, required: false },
+    scoringProfile: { type: scoringProfileRefSchema, required: false },
     statusHistory: {
       type: [statusHistoryEntrySchema],
       default: [],
@@ -0,0 +1,83 @@
+import { Schema, model, Document } from 'mongoose';
+import { LeadScoringProfileRef } from '../../domain/leads.domain.js';
+
+export interface BacktestCalibrationBucket {
+  range: string; // score range, e.g. "40-49"
+  leads: number;
+  predictedRate: number; // average score / 100
+  actualRate: number; // share of leads that reached estimate_set
+}
+
+export interface BacktestDecile {
+  decile: number; // 1 = highest scores
+  leads: number;
+  minScore: number;
+  maxScore: number;
+  estimateSet: number;
+  conversionRate: number;
+  lift: number; // conversionRate / overall conversion rate
+  cumulativeLift: number;
+}
+
+export interface IScoringBacktest {
+  clientId: string;
+  scoringProfile: LeadScoringProfileRef;
+  fieldWeights: Record<string, number>;
+  extraFieldWeights: Record<string, number>;
+  parameters: {
+    priorStrength: number;
+    minSampleSize: number;
+  };
+  status: 'completed' | 'failed';
+  totalLeads: number;
+  evaluatedLeads: number; // leads with a known outcome (estimate set or unqualified)
+  overallConversionRate: number;
+  auc: number | null;
+  calibration: BacktestCalibrationBucket[];
+  deciles: BacktestDecile[];
+  dateRange: { from: string | null; to: string | null };
+  durationMs: number;
+  error?: string;
+  createdBy?: string;
+}
+
+export interface IScoringBacktestDocument extends IScoringBacktest, Document {
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const scoringBacktestSchema = new Schema<IScoringBacktestDocument>(
+  {
+    clientId: { type: String, required: true },
+    scoringProfile: {
+      profileId: { type: String, default: null },
+      name: { type: String, required: true },
+      version: { type: Number, required: true }
+    },
+    fieldWeights: { type: Object, required: true },
+    extraFieldWeights: { type: Object, default: {} },
+    parameters: {
+      priorStrength: { type: Number, required: true },
+      minSampleSize: { type: Number, required: true }
+    },
+    status: { type: String, enum: ['completed', 'failed'], required: true },
+    totalLeads: { type: Number, default: 0 },
+    evaluatedLeads: { type: Number, default: 0 },
+    overallConversionRate: { type: Number, default: 0 },
+    auc: { type: Number, default: null },
+    calibration: { type: [Object], default: [] },
+    deciles: { type: [Object], default: [] },
+    dateRange: {
+      from: { type: String, default: null },
+      to: { type: String, default: null }
+    },
+    durationMs: { type: Number, default: 0 },
+    error: { type: String, required: false },
+    createdBy: { type: String, required: false },
+  },
+  { timestamps: true }
+);
+
+scoringBacktestSchema.index({ clientId: 1, createdAt: -1 });
+
+export default model<IScoringBacktestDocument>('ScoringBacktest', scoringBacktestSchema);
@@ -0,0 +1,63 @@
+import { Schema, model, Document } from 'mongoose';
+
+export interface IScoringProfile {
+  clientId: string; // MongoDB ObjectId stored as string
+  name: string;
+  version: number;
+  description?: string;
+  fieldWeights: {
+    service: number;
+    adSetName: number;
+    adName: number;
+    leadDate: number;
+    zip: number;
+  };
+  extraFieldWeights: {
+    phonePresent: number;
+    emailPresent: number;
+  };
+  isActive: boolean;
+  activatedAt?: Date | null;
+  createdBy?: string;
+}
+
+export interface IScoringProfileDocument extends IScoringProfile, Document {}
+
+const fieldWeightsSchema = new Schema({
+  service: { type: Number, required: true, min: 0 },
+  adSetName: { type: Number, required: true, min: 0 },
+  adName: { type: Number, required: true, min: 0 },
+  leadDate: { type: Number, required: true, min: 0 },
+  zip: { type: Number, required: true, min: 0 }
+}, { _id: false });
+
+const extraFieldWeightsSchema = new Schema({
+  phonePresent: { type: Number, default: 0, min: 0 },
+  emailPresent: { type: Number, default: 0, min: 0 }
+}, { _id: false });
+
+const scoringProfileSchema = new Schema<IScoringProfileDocument>(
+  {
+    clientId: { type: String, required: true },
+    name: { type: String, required: true, trim: true },
+    version: { type: Number, required: true, default: 1 },
+    description: { type: String, default: '', maxlength: 500 },
+    fieldWeights: { type: fieldWeightsSchema, required: true },
+    extraFieldWeights: { type: extraFieldWeightsSchema, default: () => ({}) },
+    isActive: { type: Boolean, default: false },
+    activatedAt: { type: Date, default: null },
+    createdBy: { type: String, required: false },
+  },
+  { timestamps: true }
+);
+
+// Each saved change to a named profile is a new immutable version
+scoringProfileSchema.index({ clientId: 1, name: 1, version: 1 }, { unique: true });
+// At most one active profile per client; concurrent activations fail instead of both winning
+scoringProfileSchema.index({ clientId: 1, isActive: 1 }, {
+  name: 'clientId_1_isActive_1_unique',
+  unique: true,
+  partialFilterExpression: { isActive: true }
+});
+
+export default model<IScoringProfileDocument>('ScoringProfile', scoringProfileSchema);
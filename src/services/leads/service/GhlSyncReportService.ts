@@ -0,0 +1,81 @@
+import { IGhlSyncRunReportRepository } from "../repository/interfaces.js";
+import { ghlSyncRunReportRepository } from "../repository/GhlSyncRunReportRepository.js";
+import {
+  GhlSyncReportEntry,
+  GhlSyncReportOutcome,
+  IGhlSyncRunReport,
+  IGhlSyncRunReportDocument
+} from "../repository/models/ghlSyncRunReport.model.js";
+import { CustomError, ErrorCode } from "../../../pkg/error/custom_error.js";
+import logger from "../../../utils/logger.js";
+
+// Keeps a report of a full sync of a large location well below the document size limit
+const MAX_REPORT_ENTRIES = 5000;
+
+export interface GhlSyncReportEntryFilters {
+  outcome?: GhlSyncReportOutcome;
+  skipReason?: string;
+  email?: string;
+  leadId?: string;
+}
+
+export class GhlSyncReportService {
+
+  constructor(
+    private reportRepo: IGhlSyncRunReportRepository = ghlSyncRunReportRepository
+  ) {}
+
+  /**
+   * Store the report of one client's sync run. A report that can't be saved is logged
+   * and doesn't fail the sync.
+   */
+  async saveReport(report: Omit<IGhlSyncRunReport, 'entriesTruncated'>): Promise<IGhlSyncRunReportDocument | null> {
+    try {
+      return await this.reportRepo.createReport({
+        ...report,
+        entries: report.entries.slice(0, MAX_REPORT_ENTRIES),
+        entriesTruncated: report.entries.length > MAX_REPORT_ENTRIES,
+      });
+    } catch (error: any) {
+      logger.error('[GHL Sync Report] Failed to save sync run report', {
+        runId: report.runId,
+        locationId: report.locationId,
+        clientId: report.clientId,
+        error: error?.message || String(error),
+      });
+      return null;
+    }
+  }
+
+  async getReports(
+    filters: { clientId?: string; locationId?: string; runId?: string },
+    limit?: number
+  ): Promise<IGhlSyncRunReportDocument[]> {
+    return await this.reportRepo.getReports(filters, limit);
+  }
+
+  /**
+   * A report with its entries, optionally narrowed down to some leads or outcomes
+   */
+  async getReportById(
+    id: string,
+    filters: GhlSyncReportEntryFilters = {}
+  ): Promise<IGhlSyncRunReport & { _id: unknown; matchingEntries: number }> {
+    const report = await this.reportRepo.getReportById(id);
+    if (!report) {
+      throw new CustomError(ErrorCode.NOT_FOUND, "Sync run report not found");
+    }
+
+    const email = filters.email?.trim().toLowerCase();
+    const entries = (report.entries as GhlSyncReportEntry[]).filter(entry =>
+      (!filters.outcome || entry.outcome === filters.outcome) &&
+      (!filters.skipReason || entry.skipReason === filters.skipReason) &&
+      (!email || entry.email?.toLowerCase() === email) &&
+      (!filters.leadId || entry.leadId === filters.leadId)
+    );
+
+    return { ...report.toObject(), entries, matchingEntries: entries.length };
+  }
+}
+
+export default new GhlSyncReportService();
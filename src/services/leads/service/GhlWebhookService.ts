@@ -0,0 +1,242 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import ghlClientService from '../../ghlClient/service/service.js';
+import { resolveTagMapping } from '../../ghlClient/utils/tagMapping.js';
+import { IGhlClient } from '../../ghlClient/domain/ghlClient.domain.js';
+import { IGhlWebhookEventRepository } from '../repository/interfaces.js';
+import { ghlWebhookEventRepository } from '../repository/GhlWebhookEventRepository.js';
+import {
+  GHL_WEBHOOK_EVENT_TYPES,
+  GhlWebhookEventStatus,
+  GhlWebhookEventType,
+  IGhlWebhookEventDocument
+} from '../repository/models/ghlWebhookEvent.model.js';
+import leadSheetsSyncService, { LeadSheetsSyncService } from './leadSheetsSync.service.js';
+import ghlApiClient, { GhlApiClient } from '../../ghlClient/api/ghlApiClient.js';
+import { CustomError, ErrorCode } from '../../../pkg/error/custom_error.js';
+import logger from '../../../utils/logger.js';
+
+const OPPORTUNITY_EVENT_TYPES: GhlWebhookEventType[] = ['OpportunityStatusUpdate', 'OpportunityStageUpdate'];
+// A received event not finished within this time was interrupted, and a redelivery handles it again
+const STALE_RECEIVED_EVENT_MS = 5 * 60 * 1000;
+
+interface GhlWebhookDelivery {
+  payload: Record<string, any>;
+  rawBody?: Buffer;
+  signature?: string;
+}
+
+export interface GhlWebhookOutcome {
+  status: GhlWebhookEventStatus | 'ignored';
+  duplicate: boolean;
+  eventId?: string;
+  event?: IGhlWebhookEventDocument;
+}
+
+export class GhlWebhookService {
+
+  constructor(
+    private eventRepo: IGhlWebhookEventRepository = ghlWebhookEventRepository,
+    private syncService: LeadSheetsSyncService = leadSheetsSyncService,
+    private ghlApi: GhlApiClient = ghlApiClient
+  ) {}
+
+  /**
+   * Verify a GHL delivery, store it in the event log and apply it to the matching lead.
+   * Deliveries that were already stored are not applied again, unless they failed before or
+   * were left unfinished for longer than STALE_RECEIVED_EVENT_MS.
+   */
+  async handleWebhook(delivery: GhlWebhookDelivery): Promise<GhlWebhookOutcome> {
+    const { payload } = delivery;
+    const type = payload?.type;
+
+    if (!GHL_WEBHOOK_EVENT_TYPES.includes(type)) {
+      logger.debug('[GHL Webhook] Ignoring unsupported event type', { type, locationId: payload?.locationId });
+      return { status: 'ignored', duplicate: false };
+    }
+
+    const locationId = payload.locationId;
+    if (!locationId || typeof locationId !== 'string') {
+      throw new CustomError(ErrorCode.BAD_REQUEST, 'locationId is required');
+    }
+
+    const client = await ghlClientService.getGhlClientByLocationId(locationId);
+    if (!client) {
+      throw new CustomError(ErrorCode.NOT_FOUND, `No active GHL client configured for location ${locationId}`);
+    }
+
+    const rawBody = delivery.rawBody ?? Buffer.from(JSON.stringify(payload));
+    this.verifySignature(client, rawBody, delivery.signature);
+
+    const eventId = typeof payload.webhookId === 'string' && payload.webhookId
+      ? payload.webhookId
+      : crypto.createHash('sha256').update(rawBody).digest('hex');
+
+    const created = await this.eventRepo.createEvent({
+      eventId,
+      type,
+      locationId,
+      clientId: client.revenueProClientId,
+      contactId: this.getContactId(type, payload),
+      payload,
+      status: 'received',
+      attempts: 0,
+      receivedAt: new Date(),
+    });
+
+    if (!created) {
+      const stale = await this.eventRepo.claimStaleEvent(eventId, new Date(Date.now() - STALE_RECEIVED_EVENT_MS));
+      if (stale) {
+        logger.warn('[GHL Webhook] Retrying event left unfinished', { eventId, locationId, type, attempts: stale.attempts });
+        const event = await this.processEvent(stale, client);
+        return { status: event.status, duplicate: true, eventId, event };
+      }
+
+      const existing = await this.eventRepo.getEventByEventId(eventId);
+      if (existing && existing.status !== 'failed') {
+        logger.info('[GHL Webhook] Duplicate delivery, already handled', { eventId, locationId, type });
+        return { status: existing.status, duplicate: true, eventId, event: existing };
+      }
+      if (!existing) {
+        throw new CustomError(ErrorCode.INTERNAL_SERVER_ERROR, `Webhook event ${eventId} could not be stored`);
+      }
+      const event = await this.processEvent(existing, client);
+      return { status: event.status, duplicate: true, eventId, event };
+    }
+
+    const event = await this.processEvent(created, client);
+    return { status: event.status, duplicate: false, eventId, event };
+  }
+
+  /**
+   * Apply a stored event again, e.g. after fixing a client's tag mapping. The signature
+   * was checked when the event was received.
+   */
+  async replayEvent(locationId: string, id: string): Promise<IGhlWebhookEventDocument> {
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      throw new CustomError(ErrorCode.NOT_FOUND, `Webhook event ${id} not found for location ${locationId}`);
+    }
+    const event = await this.eventRepo.getEventById(id);
+    if (!event || event.locationId !== locationId) {
+      throw new CustomError(ErrorCode.NOT_FOUND, `Webhook event ${id} not found for location ${locationId}`);
+    }
+
+    const client = await ghlClientService.getGhlClientByLocationId(locationId);
+    if (!client) {
+      throw new CustomError(ErrorCode.NOT_FOUND, `No active GHL client configured for location ${locationId}`);
+    }
+
+    return await this.processEvent(event, client);
+  }
+
+  async getEvents(filters: {
+    locationId: string;
+    status?: GhlWebhookEventStatus;
+    type?: GhlWebhookEventType;
+    limit: number;
+  }): Promise<IGhlWebhookEventDocument[]> {
+    return await this.eventRepo.getEvents(filters);
+  }
+
+  // ============= PRIVATE HELPER METHODS =============
+
+  /**
+   * HMAC-SHA256 of the raw body with the location's signing secret, hex encoded.
+   * An optional "sha256=" prefix on the header is accepted.
+   */
+  private verifySignature(client: IGhlClient, rawBody: Buffer, signature?: string): void {
+    const secret = ghlClientService.getDecryptedWebhookSecret(client);
+    if (!secret) {
+      throw new CustomError(ErrorCode.UNAUTHORIZED, `No webhook secret configured for location ${client.locationId}`);
+    }
+    if (!signature) {
+      throw new CustomError(ErrorCode.UNAUTHORIZED, 'Missing webhook signature');
+    }
+
+    const expected = crypto.createHmac('sha256', secret).update(rawBody).digest();
+    const received = Buffer.from(signature.trim().replace(/^sha256=/i, ''), 'hex');
+
+    if (received.length !== expected.length || !crypto.timingSafeEqual(received, expected)) {
+      throw new CustomError(ErrorCode.UNAUTHORIZED, 'Invalid webhook signature');
+    }
+  }
+
+  private getContactId(type: GhlWebhookEventType, payload: Record<string, any>): string | null {
+    const contactId = OPPORTUNITY_EVENT_TYPES.includes(type) ? payload.contactId : payload.id;
+    return typeof contactId === 'string' && contactId ? contactId : null;
+  }
+
+  /**
+   * Contact events carry the email and tags; opportunity events only the contact ID,
+   * so the contact is fetched for those
+   */
+  private async processEvent(event: IGhlWebhookEventDocument, client: IGhlClient): Promise<IGhlWebhookEventDocument> {
+    const id = String(event._id);
+    const { payload, locationId } = event;
+    await this.eventRepo.incrementAttempts(id);
+
+    try {
+      const apiToken = ghlClientService.getDecryptedApiToken(client);
+      let email: string | undefined = payload.email;
+      let tags: string[] | undefined = Array.isArray(payload.tags) ? payload.tags : undefined;
+
+      if (event.contactId && (!email || !tags)) {
+        const contact = await this.ghlApi.getContact(locationId, event.contactId, apiToken);
+        email = email || contact?.email;
+        tags = tags ?? (Array.isArray(contact?.tags) ? contact.tags : []);
+      }
+
+      const result = await this.syncService.applyContactTags({
+        locationId,
+        revenueProClientId: client.revenueProClientId,
+        apiToken,
+        customFieldId: client.customFieldId,
+        tagMapping: resolveTagMapping(client),
+        email,
+        contactId: event.contactId ?? undefined,
+        contactVersion: payload.dateUpdated || '',
+        tags: tags ?? [],
+        refreshContact: true,
+        actor: { source: 'webhook', actorId: locationId },
+      });
+
+      const updated = await this.eventRepo.updateEvent(id, {
+        status: result.outcome === 'updated' ? 'processed' : 'skipped',
+        result: {
+          leadId: result.leadId,
+          previousStatus: result.previousStatus,
+          status: result.status,
+          skipReason: result.skipReason,
+        },
+        error: null,
+        processedAt: new Date(),
+      });
+
+      logger.info('[GHL Webhook] Event handled', {
+        eventId: event.eventId,
+        locationId,
+        type: event.type,
+        outcome: result.outcome,
+        skipReason: result.skipReason,
+      });
+
+      return updated ?? event;
+    } catch (error: any) {
+      await this.eventRepo.updateEvent(id, {
+        status: 'failed',
+        error: error?.message || String(error),
+        processedAt: new Date(),
+      });
+      logger.error('[GHL Webhook] Failed to handle event', {
+        eventId: event.eventId,
+        locationId,
+        type: event.type,
+        error: error?.message || String(error),
+      });
+      // Let the caller answer with an error so GHL retries the delivery
+      throw error;
+    }
+  }
+}
+
+export default new GhlWebhookService();
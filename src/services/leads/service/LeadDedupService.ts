@@ -0,0 +1,320 @@
+import _ from "lodash";
+import mongoose from "mongoose";
+import { ILead, LeadEventActor, LeadStatus, StatusHistoryEntry } from "../domain/leads.domain.js";
+import { ILeadDuplicateReviewRepository, ILeadRepository } from "../repository/interfaces.js";
+import { leadRepository } from "../repository/LeadRepository.js";
+import { leadDuplicateReviewRepository } from "../repository/LeadDuplicateReviewRepository.js";
+import { ILeadDuplicateReviewDocument } from "../repository/models/leadDuplicateReview.model.js";
+import { LeadService } from "./LeadService.js";
+import { DEDUP } from "../utils/config.js";
+import { normalizeContactEmail, normalizeContactPhone } from "../utils/leads.util.js";
+import { CustomError, ErrorCode } from "../../../pkg/error/custom_error.js";
+
+// Types for dedup operations
+type DuplicateMatchReason = 'email' | 'phone' | 'name_zip';
+
+interface DuplicateLeadSummary {
+  _id: string;
+  name: string;
+  email?: string;
+  phone?: string;
+  zip: string;
+  service: string;
+  leadDate: string;
+  status: string;
+  adSetName: string;
+  adName: string;
+}
+
+interface DuplicateGroup {
+  leadIds: string[];
+  reasons: DuplicateMatchReason[];
+  suggestedWinnerId: string;
+  leads: DuplicateLeadSummary[];
+}
+
+interface MergeLeadsInput {
+  winnerId: string;
+  loserIds: string[];
+  actor: LeadEventActor;
+}
+
+type LeanLead = Partial<ILead> & { _id: any };
+
+// How far a status is through the funnel; a merge can't move a lead back
+const STATUS_FUNNEL_RANK: Record<LeadStatus, number> = {
+  new: 0,
+  in_progress: 1,
+  unqualified: 1,
+  estimate_set: 2,
+  estimate_rescheduled: 2,
+  estimate_canceled: 2,
+  virtual_quote: 2,
+  proposal_presented: 3,
+  job_lost: 4,
+  job_booked: 4
+};
+
+export class LeadDedupService {
+
+  constructor(
+    private leadRepo: ILeadRepository = leadRepository,
+    private reviewRepo: ILeadDuplicateReviewRepository = leadDuplicateReviewRepository,
+    private leadService: LeadService = new LeadService()
+  ) {}
+
+  /**
+   * Review queue: groups of a client's leads that look like the same person.
+   * Leads are linked on normalized email, normalized phone, or a similar name in the same zip.
+   * Groups that were dismissed before are left out.
+   */
+  async getDuplicateQueue(clientId: string): Promise<DuplicateGroup[]> {
+    const leads = (await this.leadRepo.getLeadsByClientId(clientId)) as LeanLead[];
+    const dismissed = await this.reviewRepo.getDismissedReviews(clientId);
+
+    return this.findDuplicateGroups(leads)
+      .filter(group => !this.isDismissed(group.leadIds, dismissed))
+      .sort((a, b) => b.leadIds.length - a.leadIds.length);
+  }
+
+  /**
+   * Mark a group as "not duplicates" so it no longer shows up in the queue
+   */
+  async dismissGroup(clientId: string, leadIds: string[], reviewedBy?: string): Promise<ILeadDuplicateReviewDocument> {
+    if (leadIds.length < 2) {
+      throw new CustomError(ErrorCode.VALIDATION_ERROR, "At least two leadIds are required");
+    }
+    return await this.reviewRepo.createReview({ clientId, leadIds, status: 'dismissed', reviewedBy });
+  }
+
+  /**
+   * Merge duplicate leads into the winner: status histories are combined, distinct notes are
+   * appended, the highest amounts allowed by the winner's status are kept, and missing contact
+   * details are filled in. The losers are soft-deleted. A winner whose status is behind a
+   * loser's, or can't hold a loser's amounts, is rejected. All writes run in one transaction.
+   */
+  async mergeLeads(input: MergeLeadsInput) {
+    const loserIds = _.uniq(input.loserIds.map(String)).filter(id => id !== input.winnerId);
+    if (loserIds.length === 0) {
+      throw new CustomError(ErrorCode.VALIDATION_ERROR, "At least one lead to merge into the winner is required");
+    }
+
+    const winner = await this.leadRepo.getLeadById(input.winnerId);
+    if (!winner) {
+      throw new CustomError(ErrorCode.NOT_FOUND, "Winner lead not found");
+    }
+
+    const losers = (await this.leadRepo.findLeads({ _id: { $in: loserIds } })) as LeanLead[];
+    if (losers.length !== loserIds.length) {
+      throw new CustomError(ErrorCode.NOT_FOUND, "One or more leads to merge were not found");
+    }
+    if (losers.some(loser => loser.clientId !== winner.clientId)) {
+      throw new CustomError(ErrorCode.VALIDATION_ERROR, "Leads of different clients cannot be merged");
+    }
+
+    this.assertWinnerKeepsLoserStatus(winner.toObject(), losers);
+
+    const allLeads: LeanLead[] = [winner.toObject(), ...losers];
+    const merged = await mongoose.connection.transaction(async () => {
+      // Contact details and status history are not tracked by the lead event log
+      await this.leadRepo.updateLead(input.winnerId, {
+        statusHistory: this.mergeStatusHistory(allLeads),
+        email: winner.email || losers.find(loser => loser.email)?.email,
+        phone: winner.phone || losers.find(loser => loser.phone)?.phone
+      });
+
+      // Notes and amounts go through updateLead so the changes land in the lead event log
+      const trackedUpdate: Partial<ILead> = {};
+      const notes = this.mergeNotes(allLeads);
+      if (notes !== (winner.notes || '')) {
+        trackedUpdate.notes = notes;
+      }
+      if (this.leadService.allowsProposalAmount(winner.status)) {
+        trackedUpdate.proposalAmount = _.max(allLeads.map(lead => Number(lead.proposalAmount) || 0));
+      }
+      if (this.leadService.allowsJobBookedAmount(winner.status)) {
+        trackedUpdate.jobBookedAmount = _.max(allLeads.map(lead => Number(lead.jobBookedAmount) || 0));
+      }
+      const updated = await this.leadService.updateLead(input.winnerId, trackedUpdate, input.actor);
+
+      await this.leadRepo.bulkDeleteLeads(loserIds);
+      await this.reviewRepo.createReview({
+        clientId: winner.clientId,
+        leadIds: [input.winnerId, ...loserIds],
+        status: 'merged',
+        winnerId: input.winnerId,
+        reviewedBy: input.actor.actorId ?? undefined
+      });
+      return updated;
+    });
+
+    console.log(`[Lead Dedup] Merged ${loserIds.length} lead(s) into ${input.winnerId} for client ${winner.clientId}`);
+
+    return { lead: merged, mergedLeadIds: loserIds };
+  }
+
+  // ============= PRIVATE HELPER METHODS =============
+
+  /**
+   * The winner keeps its own status, so it has to be at least as far through the funnel as
+   * every loser and allow the amounts the losers carry
+   */
+  private assertWinnerKeepsLoserStatus(winner: LeanLead, losers: LeanLead[]): void {
+    const winnerStatus = winner.status as LeadStatus;
+    for (const loser of losers) {
+      const loserStatus = loser.status as LeadStatus;
+      const dropsAmount =
+        (Number(loser.proposalAmount) > 0 && !this.leadService.allowsProposalAmount(winnerStatus)) ||
+        (Number(loser.jobBookedAmount) > 0 && !this.leadService.allowsJobBookedAmount(winnerStatus));
+
+      if (STATUS_FUNNEL_RANK[loserStatus] > STATUS_FUNNEL_RANK[winnerStatus] || dropsAmount) {
+        throw new CustomError(
+          ErrorCode.VALIDATION_ERROR,
+          `Lead ${loser._id} is '${loserStatus}' and can't be merged into a '${winnerStatus}' winner; pick it as the winner or update the winner's status first`,
+          { loserId: String(loser._id), loserStatus, winnerStatus }
+        );
+      }
+    }
+  }
+
+  private findDuplicateGroups(leads: LeanLead[]): DuplicateGroup[] {
+    const parent = leads.map((_lead, index) => index);
+    const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+    const reasonsByPair: Array<{ a: number; b: number; reason: DuplicateMatchReason }> = [];
+
+    const link = (a: number, b: number, reason: DuplicateMatchReason) => {
+      reasonsByPair.push({ a, b, reason });
+      parent[find(a)] = find(b);
+    };
+
+    // Exact matches on normalized email and phone
+    const linkByKey = (keyFn: (lead: LeanLead) => string | null, reason: DuplicateMatchReason) => {
+      const firstByKey = new Map<string, number>();
+      leads.forEach((lead, index) => {
+        const key = keyFn(lead);
+        if (!key) return;
+        const first = firstByKey.get(key);
+        if (first === undefined) {
+          firstByKey.set(key, index);
+        } else {
+          link(first, index, reason);
+        }
+      });
+    };
+    linkByKey(lead => normalizeContactEmail(lead.email), 'email');
+    linkByKey(lead => normalizeContactPhone(lead.phone), 'phone');
+
+    // Fuzzy name matches, only compared within the same zip
+    const byZip = _.groupBy(
+      leads.map((lead, index) => ({ index, zip: this.normalizeZip(lead.zip), name: this.normalizeName(lead.name) }))
+        .filter(entry => entry.zip && entry.name),
+      entry => entry.zip
+    );
+    for (const entries of Object.values(byZip)) {
+      for (let i = 0; i < entries.length; i++) {
+        for (let j = i + 1; j < entries.length; j++) {
+          if (this.nameSimilarity(entries[i].name, entries[j].name) >= DEDUP.NAME_SIMILARITY_THRESHOLD) {
+            link(entries[i].index, entries[j].index, 'name_zip');
+          }
+        }
+      }
+    }
+
+    const members = _.groupBy(leads.map((_lead, index) => index), index => find(index));
+
+    return Object.values(members)
+      .filter(indexes => indexes.length > 1)
+      .map(indexes => {
+        const root = find(indexes[0]);
+        const groupLeads = indexes.map(index => leads[index]);
+        const reasons = _.uniq(
+          reasonsByPair.filter(pair => find(pair.a) === root).map(pair => pair.reason)
+        );
+
+        return {
+          leadIds: groupLeads.map(lead => String(lead._id)).sort(),
+          reasons,
+          suggestedWinnerId: String(this.pickSuggestedWinner(groupLeads)._id),
+          leads: groupLeads.map(lead => this.toSummary(lead))
+        };
+      });
+  }
+
+  /**
+   * Prefer the lead that has gone furthest through the funnel, then the oldest lead
+   */
+  private pickSuggestedWinner(leads: LeanLead[]): LeanLead {
+    return _.orderBy(
+      leads,
+      [lead => lead.statusHistory?.length ?? 0, lead => new Date(lead.leadDate ?? 0).getTime()],
+      ['desc', 'asc']
+    )[0];
+  }
+
+  private isDismissed(leadIds: string[], dismissed: ILeadDuplicateReviewDocument[]): boolean {
+    return dismissed.some(review => leadIds.every(id => review.leadIds.includes(id)));
+  }
+
+  private mergeStatusHistory(leads: LeanLead[]): StatusHistoryEntry[] {
+    const entries = leads.flatMap(lead => lead.statusHistory ?? []);
+    return _.sortBy(
+      _.uniqBy(entries, entry => `${entry.status}:${new Date(entry.timestamp).getTime()}`),
+      entry => new Date(entry.timestamp).getTime()
+    ).map(entry => ({ status: entry.status, timestamp: entry.timestamp }));
+  }
+
+  private mergeNotes(leads: LeanLead[]): string {
+    return _.uniq(leads.map(lead => (lead.notes || '').trim()).filter(Boolean)).join('\n\n');
+  }
+
+  private normalizeZip(zip?: string): string {
+    return String(zip ?? '').trim().slice(0, DEDUP.ZIP_LENGTH);
+  }
+
+  /**
+   * Lowercase letters only, name parts sorted so "Smith John" matches "John Smith"
+   */
+  private normalizeName(name?: string): string {
+    return String(name ?? '')
+      .toLowerCase()
+      .replace(/[^a-z\s]/g, ' ')
+      .split(/\s+/)
+      .filter(Boolean)
+      .sort()
+      .join(' ');
+  }
+
+  private nameSimilarity(a: string, b: string): number {
+    if (a === b) return 1;
+    const longest = Math.max(a.length, b.length);
+    return longest === 0 ? 0 : 1 - this.editDistance(a, b) / longest;
+  }
+
+  private editDistance(a: string, b: string): number {
+    let previous = _.range(b.length + 1);
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+        current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      }
+      previous = current;
+    }
+    return previous[b.length];
+  }
+
+  private toSummary(lead: LeanLead): DuplicateLeadSummary {
+    return {
+      _id: String(lead._id),
+      name: lead.name ?? '',
+      email: lead.email,
+      phone: lead.phone,
+      zip: lead.zip ?? '',
+      service: lead.service ?? '',
+      leadDate: lead.leadDate ?? '',
+      status: lead.status ?? '',
+      adSetName: lead.adSetName ?? '',
+      adName: lead.adName ?? ''
+    };
+  }
+}
@@ -0,0 +1,214 @@
+import { Writable } from "stream";
+import * as XLSX from "xlsx";
+import { ILead, VALID_LEAD_STATUSES } from "../domain/leads.domain.js";
+import { ILeadRepository } from "../repository/interfaces.js";
+import { leadRepository } from "../repository/LeadRepository.js";
+import { FilterOptions, LeadService } from "./LeadService.js";
+import { EXPORT } from "../utils/config.js";
+import { CustomError, ErrorCode } from "../../../pkg/error/custom_error.js";
+
+// Types for export operations
+export type LeadExportFormat = 'csv' | 'xlsx';
+
+interface LeadExportRequest {
+  clientId?: string;
+  startDate?: string;
+  endDate?: string;
+  filters: FilterOptions;
+  columns: string[];
+  format: LeadExportFormat;
+  sortBy: 'date' | 'score';
+  sortOrder: 'asc' | 'desc';
+}
+
+type CellValue = string | number | null;
+
+interface ExportColumn {
+  header: string;
+  value: (lead: Partial<ILead>) => CellValue;
+}
+
+const toIso = (value?: Date | string | null): string | null =>
+  value ? new Date(value).toISOString() : null;
+
+// Latest time the lead entered a status
+const latestStatusTimestamp = (lead: Partial<ILead>, status: string): string | null => {
+  const entries = (lead.statusHistory ?? []).filter(entry => entry.status === status);
+  return entries.length === 0 ? null : toIso(entries[entries.length - 1].timestamp);
+};
+
+const EXPORT_COLUMNS: Record<string, ExportColumn> = {
+  leadDate: { header: 'Lead Date', value: lead => lead.leadDate ?? null },
+  name: { header: 'Name', value: lead => lead.name ?? null },
+  email: { header: 'Email', value: lead => lead.email ?? null },
+  phone: { header: 'Phone', value: lead => lead.phone ?? null },
+  zip: { header: 'Zip', value: lead => lead.zip ?? null },
+  service: { header: 'Service', value: lead => lead.service ?? null },
+  adSetName: { header: 'Ad Set Name', value: lead => lead.adSetName ?? null },
+  adName: { header: 'Ad Name', value: lead => lead.adName ?? null },
+  status: { header: 'Status', value: lead => lead.status ?? null },
+  unqualifiedLeadReason: { header: 'Unqualified Lead Reason', value: lead => lead.unqualifiedLeadReason ?? null },
+  proposalAmount: { header: 'Proposal Amount', value: lead => lead.proposalAmount ?? 0 },
+  jobBookedAmount: { header: 'Job Booked Amount', value: lead => lead.jobBookedAmount ?? 0 },
+  notes: { header: 'Notes', value: lead => lead.notes ?? null },
+  leadScore: { header: 'Lead Score', value: lead => lead.leadScore ?? 0 },
+  entrySource: { header: 'Entry Source', value: lead => lead.entrySource ?? null },
+  'conversionRates.service': { header: 'Service CR', value: lead => lead.conversionRates?.service ?? null },
+  'conversionRates.adSetName': { header: 'Ad Set CR', value: lead => lead.conversionRates?.adSetName ?? null },
+  'conversionRates.adName': { header: 'Ad Name CR', value: lead => lead.conversionRates?.adName ?? null },
+  'conversionRates.leadDate': { header: 'Lead Month CR', value: lead => lead.conversionRates?.leadDate ?? null },
+  'conversionRates.zip': { header: 'Zip CR', value: lead => lead.conversionRates?.zip ?? null },
+  statusHistory: {
+    header: 'Status History',
+    value: lead => (lead.statusHistory ?? [])
+      .map(entry => `${entry.status} (${toIso(entry.timestamp)})`)
+      .join(' > ') || null
+  },
+  ...Object.fromEntries(VALID_LEAD_STATUSES.map(status => [
+    `statusHistory.${status}`,
+    { header: `${status} At`, value: (lead: Partial<ILead>) => latestStatusTimestamp(lead, status) }
+  ]))
+};
+
+export const DEFAULT_EXPORT_COLUMNS = [
+  'leadDate', 'name', 'email', 'phone', 'zip', 'service', 'adSetName', 'adName',
+  'status', 'unqualifiedLeadReason', 'proposalAmount', 'jobBookedAmount', 'leadScore'
+];
+
+export class LeadExportService {
+
+  constructor(
+    private leadRepo: ILeadRepository = leadRepository,
+    private leadService: LeadService = new LeadService()
+  ) {}
+
+  /**
+   * Validate the requested columns. No columns means the default set.
+   */
+  resolveColumns(columns?: string[]): string[] {
+    if (!columns || columns.length === 0) return DEFAULT_EXPORT_COLUMNS;
+
+    const unknown = columns.filter(column => !EXPORT_COLUMNS[column]);
+    if (unknown.length > 0) {
+      throw new CustomError(
+        ErrorCode.VALIDATION_ERROR,
+        `Unknown export columns: ${unknown.join(', ')}. Available columns: ${Object.keys(EXPORT_COLUMNS).join(', ')}`
+      );
+    }
+    return columns;
+  }
+
+  /**
+   * Write the leads matching the lead table filters to output. CSV rows are streamed from a
+   * database cursor; XLSX has to be built as a whole in memory, so it is limited to
+   * EXPORT.XLSX_MAX_ROWS leads and larger exports have to use CSV.
+   * Returns the number of exported leads.
+   */
+  async exportLeads(request: LeadExportRequest, output: Writable): Promise<number> {
+    const columns = this.resolveColumns(request.columns);
+    const query = this.leadService.buildLeadQuery(request.clientId, request.startDate, request.endDate, request.filters);
+    const sortField = request.sortBy === 'score' ? 'leadScore' : 'leadDate';
+
+    if (request.format === 'xlsx') {
+      const total = await this.leadRepo.countLeads(query);
+      if (total > EXPORT.XLSX_MAX_ROWS) {
+        throw new CustomError(
+          ErrorCode.VALIDATION_ERROR,
+          `XLSX exports are limited to ${EXPORT.XLSX_MAX_ROWS} leads, this export has ${total}. Use format=csv or narrow the filters.`
+        );
+      }
+    }
+
+    const leads = this.leadRepo.streamLeads(query, { [sortField]: request.sortOrder === 'asc' ? 1 : -1 });
+
+    try {
+      return request.format === 'xlsx'
+        ? await this.writeXlsx(leads, columns, output)
+        : await this.writeCsv(leads, columns, output);
+    } finally {
+      // An aborted download leaves the cursor open otherwise
+      await leads.close().catch(() => {});
+    }
+  }
+
+  // ============= PRIVATE HELPER METHODS =============
+
+  private async writeCsv(leads: AsyncIterable<Partial<ILead>>, columns: string[], output: Writable): Promise<number> {
+    let count = 0;
+    await this.write(output, this.toCsvLine(columns.map(column => EXPORT_COLUMNS[column].header)));
+
+    for await (const lead of leads) {
+      await this.write(output, this.toCsvLine(columns.map(column => EXPORT_COLUMNS[column].value(lead))));
+      count++;
+    }
+
+    output.end();
+    return count;
+  }
+
+  private async writeXlsx(leads: AsyncIterable<Partial<ILead>>, columns: string[], output: Writable): Promise<number> {
+    const rows: CellValue[][] = [columns.map(column => EXPORT_COLUMNS[column].header)];
+
+    for await (const lead of leads) {
+      rows.push(columns.map(column => EXPORT_COLUMNS[column].value(lead)));
+    }
+
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), 'Leads');
+    await this.write(output, XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }));
+
+    output.end();
+    return rows.length - 1;
+  }
+
+  /**
+   * Respect backpressure so a slow client doesn't make rows pile up in memory. Rejects when the
+   * client disconnects, which ends the export loop and closes the database cursor.
+   */
+  private async write(output: Writable, chunk: string | Buffer): Promise<void> {
+    if (output.destroyed) {
+      throw new Error('Export output closed before the export finished');
+    }
+    if (output.write(chunk)) return;
+
+    await new Promise<void>((resolve, reject) => {
+      const settle = (error?: Error) => {
+        output.off('drain', onDrain);
+        output.off('close', onClose);
+        output.off('error', onError);
+        if (error) {
+          reject(error);
+        } else {
+          resolve();
+        }
+      };
+      const onDrain = () => settle();
+      // A disconnected client emits neither 'drain' nor 'error'
+      const onClose = () => settle(new Error('Export output closed before the export finished'));
+      const onError = (error: Error) => settle(error);
+
+      output.on('drain', onDrain);
+      output.on('close', onClose);
+      output.on('error', onError);
+    });
+  }
+
+  private toCsvLine(values: CellValue[]): string {
+    return values.map(value => this.toCsvCell(value)).join(',') + '\r\n';
+  }
+
+  /**
+   * Quote cells that need it and neutralise text that spreadsheets would run as a formula.
+   * Phone numbers like "+1 555-123-4567" are left alone.
+   */
+  private toCsvCell(value: CellValue): string {
+    if (value === null || value === undefined) return '';
+    if (typeof value === 'number') return String(value);
+
+    let text = value;
+    if (/^[=+\-@]/.test(text) && !/^[+-]?[\d\s().-]+$/.test(text)) {
+      text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
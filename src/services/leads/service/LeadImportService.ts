@@ -0,0 +1,287 @@
+import * as XLSX from "xlsx";
+import { ILead, LeadStatus, VALID_LEAD_STATUSES } from "../domain/leads.domain.js";
+import { ILeadRepository } from "../repository/interfaces.js";
+import { leadRepository } from "../repository/LeadRepository.js";
+import { LeadService } from "./LeadService.js";
+import { VALIDATION } from "../utils/config.js";
+import { normalizeContactEmail, normalizeContactPhone, sanitizeLeadData } from "../utils/leads.util.js";
+import { getMissingRequiredFields } from "../utils/leadStatusTransitions.js";
+import { CustomError, ErrorCode } from "../../../pkg/error/custom_error.js";
+import utils from "../../../utils/utils.js";
+
+// Lead fields a file column can be mapped to
+export const IMPORTABLE_LEAD_FIELDS = [
+  'leadDate', 'name', 'email', 'phone', 'zip', 'service', 'adSetName', 'adName',
+  'status', 'unqualifiedLeadReason', 'proposalAmount', 'jobBookedAmount', 'notes'
+] as const;
+
+export type ImportableLeadField = typeof IMPORTABLE_LEAD_FIELDS[number];
+
+// Lead field -> column header in the uploaded file
+export type LeadImportMapping = Partial<Record<ImportableLeadField, string>>;
+
+const REQUIRED_MAPPED_FIELDS: ImportableLeadField[] = ['leadDate', 'name', 'service', 'zip'];
+const MAX_REPORTED_ERRORS = 500;
+const PREVIEW_SIZE = 20;
+
+interface LeadImportInput {
+  clientId: string;
+  file: { buffer: Buffer; originalname: string };
+  mapping: LeadImportMapping;
+  dryRun: boolean;
+  skipInvalidRows: boolean;
+}
+
+interface ImportRowError {
+  row: number; // row number in the file, header row is 1
+  field?: ImportableLeadField;
+  value?: string;
+  message: string;
+}
+
+interface LeadImportReport {
+  dryRun: boolean;
+  committed: boolean;
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  errors: ImportRowError[];
+  errorsTruncated: boolean;
+  preview: Partial<ILead>[];
+  database?: {
+    newLeadsAdded: number;
+    duplicatesUpdated: number;
+  };
+}
+
+export class LeadImportService {
+
+  constructor(
+    private leadRepo: ILeadRepository = leadRepository,
+    private leadService: LeadService = new LeadService()
+  ) {}
+
+  /**
+   * Validate an uploaded CSV/XLSX file against a column mapping. In dry-run mode only the report
+   * is returned; otherwise the valid rows are saved through bulkCreateLeads. Rows with errors block
+   * the import unless skipInvalidRows is set.
+   */
+  async importLeads(input: LeadImportInput): Promise<LeadImportReport> {
+    this.validateMapping(input.mapping);
+
+    const rows = this.readRows(input.file);
+    const { leads, errors, invalidRows } = await this.validateRows(rows, input.clientId, input.mapping);
+
+    const report: LeadImportReport = {
+      dryRun: input.dryRun,
+      committed: false,
+      totalRows: rows.length,
+      validRows: leads.length,
+      invalidRows,
+      errors: errors.slice(0, MAX_REPORTED_ERRORS),
+      errorsTruncated: errors.length > MAX_REPORTED_ERRORS,
+      preview: leads.slice(0, PREVIEW_SIZE)
+    };
+
+    if (input.dryRun) return report;
+
+    if (invalidRows > 0 && !input.skipInvalidRows) {
+      throw new CustomError(
+        ErrorCode.VALIDATION_ERROR,
+        `${invalidRows} row(s) failed validation. Fix them or set skipInvalidRows to import only the valid rows`,
+        { invalidRows, errors: report.errors }
+      );
+    }
+
+    const { stats } = await this.leadService.bulkCreateLeads(leads as ILead[]);
+
+    return {
+      ...report,
+      committed: true,
+      database: {
+        newLeadsAdded: stats.newInserts,
+        duplicatesUpdated: stats.duplicatesUpdated
+      }
+    };
+  }
+
+  // ============= PRIVATE HELPER METHODS =============
+
+  private validateMapping(mapping: LeadImportMapping): void {
+    const unknownFields = Object.keys(mapping).filter(field => !IMPORTABLE_LEAD_FIELDS.includes(field as any));
+    if (unknownFields.length > 0) {
+      throw new CustomError(
+        ErrorCode.VALIDATION_ERROR,
+        `Unknown lead fields in mapping: ${unknownFields.join(', ')}. Allowed fields: ${IMPORTABLE_LEAD_FIELDS.join(', ')}`
+      );
+    }
+
+    // Values come straight from the request body, so anything but a column name is rejected
+    const invalidFields = Object.keys(mapping).filter(field => {
+      const column: unknown = mapping[field as keyof LeadImportMapping];
+      return typeof column !== 'string' || column.trim() === '';
+    });
+    if (invalidFields.length > 0) {
+      throw new CustomError(
+        ErrorCode.VALIDATION_ERROR,
+        `Mapping values must be non-empty column names: ${invalidFields.join(', ')}`
+      );
+    }
+
+    const missingFields = REQUIRED_MAPPED_FIELDS.filter(field => !mapping[field]?.trim());
+    if (missingFields.length > 0) {
+      throw new CustomError(ErrorCode.VALIDATION_ERROR, `Mapping is missing required fields: ${missingFields.join(', ')}`);
+    }
+  }
+
+  /**
+   * Read the first sheet of a CSV or XLSX file into objects keyed by the trimmed header
+   */
+  private readRows(file: { buffer: Buffer; originalname: string }): Record<string, string>[] {
+    let sheetRows: string[][];
+    try {
+      // CSV values are kept as text so dates reach utils.parseDate as written
+      const isCsv = /\.csv$/i.test(file.originalname);
+      const workbook = XLSX.read(file.buffer, { type: "buffer", cellDates: true, raw: isCsv });
+      const sheet = workbook.Sheets[workbook.SheetNames[0]];
+      sheetRows = sheet
+        ? XLSX.utils.sheet_to_json<string[]>(sheet, { header: 1, raw: false, dateNF: "yyyy-mm-dd", defval: "", blankrows: false })
+        : [];
+    } catch (error: any) {
+      throw new CustomError(ErrorCode.VALIDATION_ERROR, `Failed to read ${file.originalname}: ${error.message}`);
+    }
+
+    if (sheetRows.length === 0) {
+      throw new CustomError(ErrorCode.VALIDATION_ERROR, "The uploaded file is empty");
+    }
+
+    const headers = sheetRows[0].map(header => String(header ?? "").trim());
+    return sheetRows.slice(1).map(values =>
+      Object.fromEntries(headers.map((header, index) => [header, String(values[index] ?? "")]))
+    );
+  }
+
+  private async validateRows(
+    rows: Record<string, string>[],
+    clientId: string,
+    mapping: LeadImportMapping
+  ): Promise<{ leads: Partial<ILead>[]; errors: ImportRowError[]; invalidRows: number }> {
+    const headers = rows.length > 0 ? Object.keys(rows[0]) : [];
+    const unknownHeaders = Object.values(mapping).filter(header => header && !headers.includes(header.trim()));
+    if (rows.length > 0 && unknownHeaders.length > 0) {
+      throw new CustomError(
+        ErrorCode.VALIDATION_ERROR,
+        `Mapped columns not found in file: ${unknownHeaders.join(', ')}. File columns: ${headers.join(', ')}`
+      );
+    }
+
+    // Existing leads of the client, matched on normalized email and phone
+    const existingLeads = await this.leadRepo.getLeadsByClientId(clientId);
+    const existingKeys = new Set(existingLeads.flatMap(lead => this.getContactKeys(lead)));
+    const fileKeys = new Map<string, number>();
+
+    const leads: Partial<ILead>[] = [];
+    const errors: ImportRowError[] = [];
+    let invalidRows = 0;
+
+    rows.forEach((row, index) => {
+      const rowNumber = index + 2;
+      const value = (field: ImportableLeadField) => {
+        const header = mapping[field]?.trim();
+        return header ? String(row[header] ?? "").trim() : "";
+      };
+      const rowErrors: ImportRowError[] = [];
+      const addError = (message: string, field?: ImportableLeadField) =>
+        rowErrors.push({ row: rowNumber, field, value: field ? value(field) : undefined, message });
+
+      for (const field of ['name', 'service', 'zip'] as ImportableLeadField[]) {
+        if (!value(field)) addError(`${field} is required`, field);
+      }
+
+      const leadDate = value('leadDate') ? utils.parseDate(value('leadDate'), rowNumber) : "";
+      if (!leadDate) addError("leadDate is missing or not a valid date", 'leadDate');
+
+      const email = value('email');
+      if (email && !VALIDATION.EMAIL_REGEX.test(email)) addError("Invalid email address", 'email');
+
+      const rawStatus = value('status');
+      const status = (rawStatus ? rawStatus.toLowerCase().replace(/[\s-]+/g, '_') : 'new') as LeadStatus;
+      if (!VALID_LEAD_STATUSES.includes(status)) {
+        addError(`Unknown status. Must be one of: ${VALID_LEAD_STATUSES.join(', ')}`, 'status');
+      }
+
+      const proposalAmount = this.parseAmount(value('proposalAmount'));
+      const jobBookedAmount = this.parseAmount(value('jobBookedAmount'));
+      if (proposalAmount === null) addError("proposalAmount must be a non-negative number", 'proposalAmount');
+      if (jobBookedAmount === null) addError("jobBookedAmount must be a non-negative number", 'jobBookedAmount');
+
+      const unqualifiedLeadReason = status === 'unqualified' ? value('unqualifiedLeadReason') : '';
+      if (VALID_LEAD_STATUSES.includes(status)) {
+        for (const field of getMissingRequiredFields(status, { unqualifiedLeadReason, jobBookedAmount: jobBookedAmount ?? 0 })) {
+          addError(`${field} is required for status '${status}'`, field);
+        }
+      }
+
+      const lead = sanitizeLeadData({
+        clientId,
+        leadDate,
+        name: value('name'),
+        email,
+        phone: value('phone'),
+        zip: value('zip'),
+        service: value('service'),
+        adSetName: value('adSetName'),
+        adName: value('adName'),
+        status,
+        unqualifiedLeadReason
+      });
+
+      const contactKeys = this.getContactKeys(lead);
+      const duplicateRow = contactKeys.map(key => fileKeys.get(key)).find(row => row !== undefined);
+      if (duplicateRow !== undefined) {
+        addError(`Duplicate of row ${duplicateRow} (same email or phone)`);
+      } else if (contactKeys.some(key => existingKeys.has(key))) {
+        addError("Duplicate of an existing lead (same email or phone)");
+      }
+
+      contactKeys.forEach(key => {
+        if (!fileKeys.has(key)) fileKeys.set(key, rowNumber);
+      });
+
+      if (rowErrors.length > 0) {
+        errors.push(...rowErrors);
+        invalidRows++;
+        return;
+      }
+      leads.push({
+        ...lead,
+        proposalAmount: this.leadService.allowsProposalAmount(status) ? proposalAmount ?? 0 : 0,
+        jobBookedAmount: this.leadService.allowsJobBookedAmount(status) ? jobBookedAmount ?? 0 : 0,
+        notes: value('notes'),
+        statusHistory: [{ status, timestamp: new Date() }],
+        entrySource: 'manual',
+        isDeleted: false
+      });
+    });
+
+    return { leads, errors, invalidRows };
+  }
+
+  /**
+   * Empty is 0; anything that isn't a non-negative number is null
+   */
+  private parseAmount(raw: string): number | null {
+    if (!raw) return 0;
+    const amount = Number(raw.replace(/[$,\s]/g, ''));
+    return isFinite(amount) && amount >= 0 ? amount : null;
+  }
+
+  private getContactKeys(lead: Partial<ILead>): string[] {
+    const keys: string[] = [];
+    const email = normalizeContactEmail(lead.email);
+    const phone = normalizeContactPhone(lead.phone);
+    if (email) keys.push(`email:${email}`);
+    if (phone) keys.push(`phone:${phone}`);
+    return keys;
+  }
+}
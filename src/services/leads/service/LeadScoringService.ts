@@ -1,19 +1,26 @@
-import { ILead } from "../domain/leads.domain.js";
+import { ILead, LeadScoringProfileRef } from "../domain/leads.domain.js";
 import _ from "lodash";
-import { ILeadRepository, IConversionRateRepository } from "../repository/interfaces.js";
+import { ILeadRepository, IConversionRateRepository, IScoringProfileRepository } from "../repository/interfaces.js";
 import { leadRepository } from "../repository/LeadRepository.js";
 import { conversionRateRepository } from "../repository/ConversionRateRepository.js";
+import { scoringProfileRepository } from "../repository/ScoringProfileRepository.js";
 import {
-  FIELD_WEIGHTS,
+  DEFAULT_SCORING_PROFILE,
+  calculateLeadScore,
+  toResolvedScoringProfile,
   getMonthlyName,
   createConversionRatesMap,
   getConversionRateFromMap,
   getMonthIndex,
   isEmptyValue,
+  safeStringTrim,
   type LeadKeyField,
-  type UniqueKey
+  type UniqueKey,
+  type ResolvedScoringProfile
 } from "../utils/leads.util.js";
 import { isEstimateSetStatus, isUnqualifiedStatus } from "../utils/estimateSetConstants.js";
+import { CONVERSION_RATE_SMOOTHING, CONVERSION_RATE_DECAY } from "../utils/config.js";
+import { CustomError, ErrorCode } from "../../../pkg/error/custom_error.js";
 
 // Types for scoring operations
 interface UpdateResult {
@@ -33,20 +40,79 @@ interface RecalculateResult {
   errors: string[];
 }
 
+interface ScorePreviewResult {
+  profile: LeadScoringProfileRef;
+  totalLeads: number;
+  changedLeads: number;
+  averageScore: { current: number; preview: number };
+  distribution: Array<{ range: string; current: number; preview: number }>;
+  biggestMovers: Array<{
+    leadId: string;
+    name: string;
+    currentScore: number;
+    previewScore: number;
+    delta: number;
+  }>;
+}
+
+interface ScoreExplanationField {
+  field: LeadKeyField;
+  value: string;
+  conversionRate: number; // rate stored on the lead when it was scored
+  currentConversionRate: number | null; // rate in the conversion-rate collection today
+  weight: number;
+  points: number;
+  sampleSize: {
+    pastTotalCount: number;
+    pastTotalEst: number;
+    confidence: number | null;
+  } | null;
+  fellBackToDefault: boolean;
+  fallbackReason: 'empty_value' | 'no_conversion_rate' | null;
+}
+
+interface ScoreExplanation {
+  leadId: string;
+  leadScore: number;
+  computedScore: number;
+  scoringProfile: LeadScoringProfileRef;
+  fields: ScoreExplanationField[];
+  extraFields: Array<{ field: string; present: boolean; weight: number; points: number }>;
+}
+
+export interface ConversionRateOptions {
+  priorStrength?: number;
+  minSampleSize?: number;
+  decayHalfLifeWeeks?: number | null; // weight leads by leadDate age; null/undefined counts every lead equally
+                                      // (processLeadScoresAndCRsByClientId defaults undefined to the configured half-life)
+  asOf?: Date; // reference date for lead age when decaying (defaults to now)
+}
+
+interface ConversionRateComparison {
+  keyField: LeadKeyField;
+  keyName: string;
+  allTime: { conversionRate: number; rawConversionRate: number; confidence: number; pastTotalCount: number; pastTotalEst: number };
+  decayed: { conversionRate: number; rawConversionRate: number; confidence: number; pastTotalCount: number; pastTotalEst: number };
+}
+
 interface ConversionData {
   clientId: string;
   keyName: string;
   keyField: LeadKeyField;
   conversionRate: number;
+  rawConversionRate: number;
+  confidence: number;
   pastTotalCount: number;
   pastTotalEst: number;
+  decayHalfLifeWeeks: number | null;
 }
 
 export class LeadScoringService {
   
   constructor(
     private leadRepo: ILeadRepository = leadRepository,
-    private conversionRateRepo: IConversionRateRepository = conversionRateRepository
+    private conversionRateRepo: IConversionRateRepository = conversionRateRepository,
+    private scoringProfileRepo: IScoringProfileRepository = scoringProfileRepository
   ) {}
 
   // ============= MAIN SCORING METHODS =============
@@ -57,9 +123,22 @@ export class LeadScoringService {
    * - Upserts conversion rates to DB
    * - Recalculates lead scores for all leads
    * - Stores conversion rates for each lead in a new field 'conversionRates'
+   * - Uses the client's active scoring profile (or the default weights) and stamps it on each lead
+   * - Rates are time-decayed with CONVERSION_RATE_DECAY.HALF_LIFE_WEEKS unless decayHalfLifeWeeks
+   *   is given; pass null for all-time rates. Every recompute writes the same rates collection,
+   *   so callers that don't opt out must not replace the weekly decayed rates with all-time ones.
    */
-  async processLeadScoresAndCRsByClientId(clientId: string): Promise<UpdateResult> {
+  async processLeadScoresAndCRsByClientId(
+    clientId: string,
+    options: ConversionRateOptions = {}
+  ): Promise<UpdateResult> {
     const errors: string[] = [];
+    const rateOptions: ConversionRateOptions = {
+      ...options,
+      decayHalfLifeWeeks: options.decayHalfLifeWeeks === undefined
+        ? CONVERSION_RATE_DECAY.HALF_LIFE_WEEKS
+        : options.decayHalfLifeWeeks,
+    };
     try {
       // 1. Fetch all leads for client
       const leads = await this.leadRepo.getLeadsByClientId(clientId);
@@ -68,7 +147,7 @@ export class LeadScoringService {
       }
 
       // 2. Calculate conversion rates for all unique fields
-      const conversionData = this.computeConversionRatesForClient(leads as ILead[], clientId);
+      const conversionData = this.computeConversionRatesForClient(leads as ILead[], clientId, rateOptions);
 
       // 3. Upsert conversion rates to DB
       const crUpsertResult = await this.conversionRateRepo.batchUpsertConversionRates(conversionData);
@@ -76,9 +155,10 @@ export class LeadScoringService {
       // 4. Fetch conversion rates from DB for this client
       const dbConversionRates = await this.conversionRateRepo.getConversionRates({ clientId });
       const conversionRatesMap = createConversionRatesMap(dbConversionRates);
+      const scoringProfile = await this.getActiveScoringProfile(clientId);
       
       // 5. Build bulk operations using helper function
-      const { bulkOps, actuallyUpdatedLeads } = this.prepareLeadScoreAndCRUpdates(leads, conversionRatesMap);
+      const { bulkOps, actuallyUpdatedLeads } = this.prepareLeadScoreAndCRUpdates(leads, conversionRatesMap, scoringProfile);
 
       // 6. Bulk update only changed leads
       let modifiedCount = 0;
@@ -132,11 +212,13 @@ export class LeadScoringService {
 
       // Get conversion rates for this client  
       const conversionRates = await this.conversionRateRepo.getConversionRates({ clientId });
+      const scoringProfile = await this.getActiveScoringProfile(clientId);
       
       if (conversionRates.length === 0) {
         const updatePayload = { 
           $set: { 
             leadScore: 0,
+            scoringProfile: this.toProfileRef(scoringProfile),
             conversionRates: {
               service: 0,
               adSetName: 0,
@@ -163,7 +245,7 @@ export class LeadScoringService {
       const conversionRatesMap = createConversionRatesMap(conversionRates);
 
       // Build bulk operations using helper function
-      const { bulkOps, actuallyUpdatedLeads } = this.prepareLeadScoreAndCRUpdates(allLeads, conversionRatesMap);
+      const { bulkOps, actuallyUpdatedLeads } = this.prepareLeadScoreAndCRUpdates(allLeads, conversionRatesMap, scoringProfile);
 
       // Bulk update only changed leads
       let modifiedCount = 0;
@@ -191,12 +273,183 @@ export class LeadScoringService {
     }
   }
 
+  /**
+   * Score all leads of a client with the given profile without saving anything
+   * Used by admins to compare a profile against the scores currently stored on leads
+   */
+  async previewLeadScores(clientId: string, scoringProfile: ResolvedScoringProfile): Promise<ScorePreviewResult> {
+    const leads = await this.leadRepo.getLeadsByClientId(clientId);
+    const conversionRates = await this.conversionRateRepo.getConversionRates({ clientId });
+    const conversionRatesMap = createConversionRatesMap(conversionRates);
+
+    const buckets = [0, 20, 40, 60, 80].map(min => ({
+      range: `${min}-${min === 80 ? 100 : min + 19}`,
+      current: 0,
+      preview: 0
+    }));
+    const bucketIndex = (score: number) => Math.min(4, Math.floor(score / 20));
+
+    let changedLeads = 0;
+    let currentTotal = 0;
+    let previewTotal = 0;
+    const movers: ScorePreviewResult['biggestMovers'] = [];
+
+    for (const lead of leads) {
+      const currentScore = lead.leadScore ?? 0;
+      const { leadScore: previewScore } = this.calculateLeadScoreAndCR(lead, conversionRatesMap, scoringProfile);
+
+      currentTotal += currentScore;
+      previewTotal += previewScore;
+      buckets[bucketIndex(currentScore)].current++;
+      buckets[bucketIndex(previewScore)].preview++;
+
+      if (previewScore !== currentScore) {
+        changedLeads++;
+        movers.push({
+          leadId: String((lead as any)._id),
+          name: lead.name || '',
+          currentScore,
+          previewScore,
+          delta: previewScore - currentScore
+        });
+      }
+    }
+
+    const average = (total: number) =>
+      leads.length === 0 ? 0 : Math.round((total / leads.length) * 100) / 100;
+
+    return {
+      profile: this.toProfileRef(scoringProfile),
+      totalLeads: leads.length,
+      changedLeads,
+      averageScore: { current: average(currentTotal), preview: average(previewTotal) },
+      distribution: buckets,
+      biggestMovers: _.orderBy(movers, m => Math.abs(m.delta), 'desc').slice(0, 20)
+    };
+  }
+
+  /**
+   * Compute decayed and all-time conversion rates side by side without saving them
+   */
+  async compareConversionRates(
+    clientId: string,
+    decayHalfLifeWeeks: number = CONVERSION_RATE_DECAY.HALF_LIFE_WEEKS
+  ): Promise<ConversionRateComparison[]> {
+    const leads = await this.leadRepo.getLeadsByClientId(clientId) as ILead[];
+    const allTime = this.computeConversionRatesForClient(leads, clientId);
+    const decayedByKey = new Map(
+      this.computeConversionRatesForClient(leads, clientId, { decayHalfLifeWeeks })
+        .map(rate => [`${rate.keyField}:${rate.keyName}`, rate])
+    );
+
+    const pickRates = (rate: ConversionData) => ({
+      conversionRate: rate.conversionRate,
+      rawConversionRate: rate.rawConversionRate,
+      confidence: rate.confidence,
+      pastTotalCount: rate.pastTotalCount,
+      pastTotalEst: rate.pastTotalEst
+    });
+
+    return allTime.map(rate => ({
+      keyField: rate.keyField,
+      keyName: rate.keyName,
+      allTime: pickRates(rate),
+      decayed: pickRates(decayedByKey.get(`${rate.keyField}:${rate.keyName}`) ?? rate)
+    }));
+  }
+
+  /**
+   * Explain how a lead's score was built: per-field rate, weight, points and the sample size behind each rate
+   * Uses the scoring profile version stamped on the lead so the weights match the stored leadScore
+   */
+  async explainLeadScore(leadId: string): Promise<ScoreExplanation> {
+    const lead = await this.leadRepo.getLeadById(leadId);
+    if (!lead) {
+      throw new CustomError(ErrorCode.NOT_FOUND, "Lead not found");
+    }
+
+    const profileId = lead.scoringProfile?.profileId;
+    const scoringProfile = profileId
+      ? toResolvedScoringProfile(await this.scoringProfileRepo.getProfileById(profileId))
+      : DEFAULT_SCORING_PROFILE;
+
+    const fieldValues: Array<{ field: LeadKeyField; value: string }> = [
+      { field: 'service', value: lead.service || '' },
+      { field: 'adSetName', value: lead.adSetName || '' },
+      { field: 'adName', value: lead.adName || '' },
+      { field: 'leadDate', value: getMonthlyName(lead.leadDate) || '' },
+      { field: 'zip', value: lead.zip || '' }
+    ];
+
+    const rateDocs = await this.conversionRateRepo.getConversionRatesByKeys(
+      lead.clientId,
+      fieldValues
+        .filter(({ value }) => !isEmptyValue(value))
+        .map(({ field, value }) => ({ keyField: field, keyName: value }))
+    );
+    const rateDocsByKey = new Map(rateDocs.map(doc => [`${doc.keyField}:${doc.keyName}`, doc]));
+
+    const fields: ScoreExplanationField[] = fieldValues.map(({ field, value }) => {
+      const rateDoc = isEmptyValue(value) ? undefined : rateDocsByKey.get(`${field}:${value}`);
+      const conversionRate = lead.conversionRates?.[field] ?? 0;
+      const weight = scoringProfile.fieldWeights[field];
+      const fallbackReason = isEmptyValue(value) ? 'empty_value' : !rateDoc ? 'no_conversion_rate' : null;
+
+      return {
+        field,
+        value,
+        conversionRate,
+        currentConversionRate: rateDoc ? rateDoc.conversionRate : null,
+        weight,
+        points: Math.round(conversionRate * weight * 100) / 100,
+        sampleSize: rateDoc ? {
+          pastTotalCount: rateDoc.pastTotalCount,
+          pastTotalEst: rateDoc.pastTotalEst,
+          confidence: rateDoc.confidence ?? null
+        } : null,
+        fellBackToDefault: fallbackReason !== null,
+        fallbackReason
+      };
+    });
+
+    const extraFields = [
+      { field: 'phonePresent', present: !isEmptyValue(safeStringTrim(lead.phone)), weight: scoringProfile.extraFieldWeights.phonePresent },
+      { field: 'emailPresent', present: !isEmptyValue(safeStringTrim(lead.email)), weight: scoringProfile.extraFieldWeights.emailPresent }
+    ].map(extra => ({ ...extra, points: extra.present ? extra.weight : 0 }));
+
+    const totalPoints = [...fields, ...extraFields].reduce((sum, item) => sum + item.points, 0);
+
+    return {
+      leadId: String(lead._id),
+      leadScore: lead.leadScore ?? 0,
+      computedScore: Math.round(Math.max(0, Math.min(100, totalPoints))),
+      scoringProfile: this.toProfileRef(scoringProfile),
+      fields,
+      extraFields
+    };
+  }
+
+  /**
+   * Get the active scoring profile of a client, falling back to the default FIELD_WEIGHTS
+   */
+  async getActiveScoringProfile(clientId: string): Promise<ResolvedScoringProfile> {
+    const profile = await this.scoringProfileRepo.getActiveProfile(clientId);
+    return toResolvedScoringProfile(profile);
+  }
+
   // ============= CORE PROCESSING METHODS =============
 
   /**
    * Process leads to calculate conversion rates for all unique field values
+   * Rates are smoothed toward the client's overall conversion rate so keys with few outcomes
+   * (e.g. a zip with a single estimate) don't dominate the lead score.
+   * With decayHalfLifeWeeks set, each lead counts 0.5^(ageWeeks / halfLife) instead of 1.
    */
-  computeConversionRatesForClient(leads: ILead[], clientId: string): ConversionData[] {
+  computeConversionRatesForClient(
+    leads: ILead[],
+    clientId: string,
+    options: ConversionRateOptions = {}
+  ): ConversionData[] {
     const result: ConversionData[] = [];
 
     // Filter leads by clientId
@@ -207,23 +460,112 @@ export class LeadScoringService {
     }
 
     const allKeys = this.getUniqueFieldValues(clientLeads);
+    const weightOf = this.createLeadWeightFn(options);
+    const priorRate = this.calculateClientPriorRate(clientLeads, weightOf);
 
     for (const { value: keyName, field: keyField } of allKeys) {
-      const { conversionRate, pastTotalCount, pastTotalEst } =
-        this.calculateConversionRate(clientLeads, keyName, keyField);
+      const { conversionRate: rawConversionRate, pastTotalCount, pastTotalEst } =
+        this.calculateConversionRate(clientLeads, keyName, keyField, weightOf);
+      const { conversionRate, confidence } =
+        this.smoothConversionRate(pastTotalEst, pastTotalCount, priorRate, options);
       result.push({
         clientId,
         keyName,
         keyField,
         conversionRate,
+        rawConversionRate,
+        confidence,
         pastTotalCount,
         pastTotalEst,
+        decayHalfLifeWeeks: options.decayHalfLifeWeeks ?? null,
       });
     }
 
     return result;
   }
 
+  // ============= SCORING PRIMITIVES =============
+
+  /**
+   * Blend a key's own outcomes with the client's prior rate
+   * smoothed = (pastTotalEst + priorStrength * priorRate) / (pastTotalCount + priorStrength)
+   * confidence = pastTotalCount / (pastTotalCount + priorStrength), or 0 below the minimum sample size
+   */
+  smoothConversionRate(
+    pastTotalEst: number,
+    pastTotalCount: number,
+    priorRate: number,
+    options: ConversionRateOptions
+  ): { conversionRate: number; confidence: number } {
+    const priorStrength = options.priorStrength ?? CONVERSION_RATE_SMOOTHING.PRIOR_STRENGTH;
+    const minSampleSize = options.minSampleSize ?? CONVERSION_RATE_SMOOTHING.MIN_SAMPLE_SIZE;
+    const round = (value: number) => Math.round(value * 100) / 100;
+
+    // Not enough outcomes (or nothing to blend) - fall back to the client's overall rate
+    if (pastTotalCount < minSampleSize || pastTotalCount + priorStrength === 0) {
+      return { conversionRate: round(priorRate), confidence: 0 };
+    }
+
+    const denominator = pastTotalCount + priorStrength;
+    return {
+      conversionRate: round((pastTotalEst + priorStrength * priorRate) / denominator),
+      confidence: round(pastTotalCount / denominator)
+    };
+  }
+
+  /**
+   * Calculate conversion rates and lead score for a single lead
+   */
+  calculateLeadScoreAndCR(
+    lead: any,
+    conversionRatesMap: any,
+    scoringProfile: ResolvedScoringProfile = DEFAULT_SCORING_PROFILE
+  ): {
+    conversionRates: {
+      service: number;
+      adSetName: number;
+      adName: number;
+      leadDate: number;
+      zip: number;
+    };
+    leadScore: number;
+  } {
+    // Get conversion rates for each field from DB using efficient Map lookups
+    const serviceRate = getConversionRateFromMap(conversionRatesMap, 'service', lead.service || '');
+    const adSetNameRate = getConversionRateFromMap(conversionRatesMap, 'adSetName', lead.adSetName || '');
+    const adNameRate = getConversionRateFromMap(conversionRatesMap, 'adName', lead.adName || '');
+    
+    const dt = new Date(lead.leadDate);
+    const monthName = dt.toLocaleString("en-US", { month: "long" });
+    const leadDateRate = getConversionRateFromMap(conversionRatesMap, 'leadDate', monthName);
+    const zipRate = getConversionRateFromMap(conversionRatesMap, 'zip', lead.zip || '');
+
+    // Build conversionRates object for this lead
+    const conversionRates = {
+      service: serviceRate,
+      adSetName: adSetNameRate,
+      adName: adNameRate,
+      leadDate: leadDateRate,
+      zip: zipRate
+    };
+
+    // Calculate leadScore using all fields with the profile's weights
+    const leadScore = calculateLeadScore(conversionRates, lead, scoringProfile);
+
+    return { conversionRates, leadScore };
+  }
+
+  /**
+   * Reference to the profile version stored on each lead
+   */
+  toProfileRef(scoringProfile: ResolvedScoringProfile): LeadScoringProfileRef {
+    return {
+      profileId: scoringProfile.profileId,
+      name: scoringProfile.name,
+      version: scoringProfile.version
+    };
+  }
+
   // ============= PRIVATE HELPER METHODS =============
 
   /**
@@ -284,7 +626,8 @@ export class LeadScoringService {
   private calculateConversionRate(
     clientLeads: ILead[], // Already filtered by clientId
     keyName: string,
-    keyField: LeadKeyField
+    keyField: LeadKeyField,
+    weightOf: (lead: ILead) => number = () => 1
   ) {
     let netEstimates = 0; // estimate_set + virtual_quote + proposal_presented + job_booked
     let netUnqualifieds = 0; // unqualified + estimate_canceled + job_lost
@@ -310,11 +653,11 @@ export class LeadScoringService {
 
       // Count qualified/successful statuses using centralized helper
       if (isEstimateSetStatus(lead.status)) {
-        netEstimates++;
+        netEstimates += weightOf(lead);
       }
       // Count unqualified/unsuccessful statuses using centralized helper
       else if (isUnqualifiedStatus(lead.status)) {
-        netUnqualifieds++;
+        netUnqualifieds += weightOf(lead);
       }
     }
 
@@ -323,82 +666,85 @@ export class LeadScoringService {
     const conversionRate = effectiveTotal === 0 ? 0 :
       Math.round((netEstimates / effectiveTotal) * 100) / 100;
 
+    // Decayed counts are fractional - keep 2 decimals
     return {
       conversionRate,
-      pastTotalCount: effectiveTotal,
-      pastTotalEst: netEstimates,
+      pastTotalCount: Math.round(effectiveTotal * 100) / 100,
+      pastTotalEst: Math.round(netEstimates * 100) / 100,
     };
   }
 
   /**
-   * Calculate conversion rates and lead score for a single lead
+   * Client-wide conversion rate used as the prior for smoothing
    */
-  private calculateLeadScoreAndCR(lead: any, conversionRatesMap: any): {
-    conversionRates: {
-      service: number;
-      adSetName: number;
-      adName: number;
-      leadDate: number;
-      zip: number;
-    };
-    leadScore: number;
-  } {
-    // Get conversion rates for each field from DB using efficient Map lookups
-    const serviceRate = getConversionRateFromMap(conversionRatesMap, 'service', lead.service || '');
-    const adSetNameRate = getConversionRateFromMap(conversionRatesMap, 'adSetName', lead.adSetName || '');
-    const adNameRate = getConversionRateFromMap(conversionRatesMap, 'adName', lead.adName || '');
-    
-    const dt = new Date(lead.leadDate);
-    const monthName = dt.toLocaleString("en-US", { month: "long" });
-    const leadDateRate = getConversionRateFromMap(conversionRatesMap, 'leadDate', monthName);
-    const zipRate = getConversionRateFromMap(conversionRatesMap, 'zip', lead.zip || '');
+  private calculateClientPriorRate(clientLeads: ILead[], weightOf: (lead: ILead) => number): number {
+    let netEstimates = 0;
+    let netUnqualifieds = 0;
 
-    // Build conversionRates object for this lead
-    const conversionRates = {
-      service: serviceRate,
-      adSetName: adSetNameRate,
-      adName: adNameRate,
-      leadDate: leadDateRate,
-      zip: zipRate
-    };
+    for (const lead of clientLeads) {
+      if (isEstimateSetStatus(lead.status)) {
+        netEstimates += weightOf(lead);
+      } else if (isUnqualifiedStatus(lead.status)) {
+        netUnqualifieds += weightOf(lead);
+      }
+    }
 
-    // Calculate leadScore using all fields
-    const weightedScore =
-      (serviceRate * FIELD_WEIGHTS.service) +
-      (adSetNameRate * FIELD_WEIGHTS.adSetName) +
-      (adNameRate * FIELD_WEIGHTS.adName) +
-      (leadDateRate * FIELD_WEIGHTS.leadDate) +
-      (zipRate * FIELD_WEIGHTS.zip);
-    
-    const leadScore = Math.round(Math.max(0, Math.min(100, weightedScore)));
+    const effectiveTotal = netEstimates + netUnqualifieds;
+    return effectiveTotal === 0 ? 0 : netEstimates / effectiveTotal;
+  }
 
-    return { conversionRates, leadScore };
+  /**
+   * Build the per-lead weight used when counting outcomes
+   * Without a half-life every lead weighs 1; otherwise weight halves every decayHalfLifeWeeks of leadDate age
+   */
+  private createLeadWeightFn(options: ConversionRateOptions): (lead: ILead) => number {
+    const halfLifeWeeks = options.decayHalfLifeWeeks;
+    if (!halfLifeWeeks || halfLifeWeeks <= 0) {
+      return () => 1;
+    }
+
+    const asOf = (options.asOf ?? new Date()).getTime();
+    const msPerWeek = 7 * 24 * 60 * 60 * 1000;
+
+    return (lead: ILead) => {
+      const leadTime = new Date(lead.leadDate).getTime();
+      if (isNaN(leadTime)) return 1;
+      const ageWeeks = Math.max(0, (asOf - leadTime) / msPerWeek);
+      return Math.pow(0.5, ageWeeks / halfLifeWeeks);
+    };
   }
 
   /**
    * Build bulk operations for lead score and conversion rates updates
    */
-  private prepareLeadScoreAndCRUpdates(leads: any[], conversionRatesMap: any): {
+  private prepareLeadScoreAndCRUpdates(
+    leads: any[],
+    conversionRatesMap: any,
+    scoringProfile: ResolvedScoringProfile = DEFAULT_SCORING_PROFILE
+  ): {
     bulkOps: any[];
     actuallyUpdatedLeads: number;
   } {
     const bulkOps = [];
     let actuallyUpdatedLeads = 0;
+    const profileRef = this.toProfileRef(scoringProfile);
 
     for (const lead of leads) {
-      const { conversionRates, leadScore } = this.calculateLeadScoreAndCR(lead, conversionRatesMap);
-      // Only update if leadScore or conversionRates have changed - performance optimization
+      const { conversionRates, leadScore } = this.calculateLeadScoreAndCR(lead, conversionRatesMap, scoringProfile);
+      // Only update if leadScore, conversionRates or the scoring profile have changed - performance optimization
       const leadScoreChanged = lead.leadScore !== leadScore;
       const conversionRatesChanged = !_.isEqual(lead.conversionRates ?? {}, conversionRates);
+      const scoringProfileChanged = !_.isEqual(lead.scoringProfile ?? null, profileRef);
       
-      if (leadScoreChanged || conversionRatesChanged) {
+      if (leadScoreChanged || conversionRatesChanged || scoringProfileChanged) {
         bulkOps.push({
           updateOne: {
             filter: { _id: lead._id },
             update: {
               $set: {
                 leadScore,
-                conversionRates
+                conversionRates,
+                scoringProfile: profileRef
               }
             }
           }
@@ -1,12 +1,16 @@
-import { ILead, ILeadDocument } from "../domain/leads.domain.js";
-import { ILeadRepository, ILeadAggregationRepository } from "../repository/interfaces.js";
+import { ILead, ILeadDocument, LeadEventActor, LeadEventField, LeadStatus } from "../domain/leads.domain.js";
+import { ILeadRepository, ILeadAggregationRepository, ILeadEventRepository } from "../repository/interfaces.js";
 import { leadRepository } from "../repository/LeadRepository.js";
 import { leadAggregationRepository } from "../repository/LeadAggregationRepository.js";
+import { leadEventRepository } from "../repository/LeadEventRepository.js";
+import { ILeadEvent, ILeadEventDocument } from "../repository/models/leadEvent.model.js";
 import { ActualRepository } from "../../actual/repository/repository.js";
 import { DISENGAGEMENT } from '../utils/config.js';
+import { assertLeadStatusTransition } from '../utils/leadStatusTransitions.js';
 import mongoose from "mongoose";
 import User from "../../user/repository/models/user.model.js";
 import { facebookConversionApiService } from "../../facebook/conversionApiService.js";
+import { CustomError, ErrorCode } from "../../../pkg/error/custom_error.js";
 
 // Types for service operations
 interface UpdateLeadByEmailParams {
@@ -26,13 +30,16 @@ interface PaginationOptions {
   sortOrder: 'asc' | 'desc';
 }
 
-interface FilterOptions {
+export interface FilterOptions {
   service?: string;
   adSetName?: string;
   adName?: string;
+  zip?: string;
   status?: string;
   unqualifiedLeadReason?: string;
   name?: string;
+  minLeadScore?: number;
+  maxLeadScore?: number;
   $or?: any[];
 }
 
@@ -57,6 +64,15 @@ interface BulkCreateResult {
   };
 }
 
+interface LeadHistoryResult {
+  leadId: string;
+  clientId: string;
+  currentStatus: string;
+  events: ILeadEventDocument[];
+}
+
+const LEAD_EVENT_FIELDS: LeadEventField[] = ['status', 'proposalAmount', 'jobBookedAmount', 'notes'];
+
 interface ClientActivityData {
   clientId: string;
   email: string;
@@ -78,7 +94,8 @@ export class LeadService {
   constructor(
     private leadRepo: ILeadRepository = leadRepository,
     private aggregationRepo: ILeadAggregationRepository = leadAggregationRepository,
-    private actualRepo: ActualRepository = new ActualRepository()
+    private actualRepo: ActualRepository = new ActualRepository(),
+    private leadEventRepo: ILeadEventRepository = leadEventRepository
   ) {}
 
   // ============= BASIC CRUD OPERATIONS =============
@@ -100,17 +117,69 @@ export class LeadService {
     });
   }
 
+  /**
+   * Append an event for every tracked field whose value differs between the lead before
+   * the update and what was written. A failure is logged and does not fail the update.
+   */
+  private async recordLeadEvents(
+    existing: Partial<ILead> & { _id?: any },
+    written: Partial<ILead>,
+    actor: LeadEventActor
+  ): Promise<void> {
+    const occurredAt = new Date();
+    const events: ILeadEvent[] = [];
+
+    for (const field of LEAD_EVENT_FIELDS) {
+      if (written[field] === undefined) continue;
+
+      const oldValue = this.toEventValue(field, existing[field]);
+      const newValue = this.toEventValue(field, written[field]);
+      if (oldValue === newValue) continue;
+
+      events.push({
+        leadId: String(existing._id),
+        clientId: String(existing.clientId),
+        field,
+        oldValue,
+        newValue,
+        source: actor.source,
+        actorId: actor.actorId ?? null,
+        occurredAt
+      });
+    }
+
+    try {
+      await this.leadEventRepo.insertEvents(events);
+    } catch (error: any) {
+      console.error(`Error recording lead events for lead ${existing._id}:`, error.message);
+    }
+  }
+
+  /**
+   * Missing amounts are stored as 0 and missing notes as '' so they don't show up as changes
+   */
+  private toEventValue(field: LeadEventField, value: any): string | number | null {
+    if (field === 'proposalAmount' || field === 'jobBookedAmount') {
+      const amount = Number(value ?? 0);
+      return isFinite(amount) ? amount : 0;
+    }
+    if (field === 'notes') {
+      return value ?? '';
+    }
+    return value ?? null;
+  }
+
   /**
    * Helper method to check if status allows proposalAmount
    */
-  private allowsProposalAmount(status: string): boolean {
+  allowsProposalAmount(status: string): boolean {
     return ['estimate_set', 'virtual_quote', 'proposal_presented', 'job_lost'].includes(status);
   }
 
   /**
    * Helper method to check if status allows jobBookedAmount
    */
-  private allowsJobBookedAmount(status: string): boolean {
+  allowsJobBookedAmount(status: string): boolean {
     return status === 'job_booked';
   }
 
@@ -169,11 +238,20 @@ export class LeadService {
    */
   async updateLead(
     id: string,
-    data: Partial<Pick<ILead, "status" | "unqualifiedLeadReason" | "proposalAmount" | "jobBookedAmount" | "notes">>
+    data: Partial<Pick<ILead, "status" | "unqualifiedLeadReason" | "proposalAmount" | "jobBookedAmount" | "notes">>,
+    actor: LeadEventActor,
+    options: { overrideTransition?: boolean } = {}
   ): Promise<ILeadDocument> {
     const existing = await this.leadRepo.getLeadById(id);
     if (!existing) throw new Error("Lead not found");
 
+    if (data.status && data.status !== existing.status) {
+      assertLeadStatusTransition(existing.status, data.status, data, options.overrideTransition);
+      if (options.overrideTransition) {
+        console.log(`[Lead Status] Transition override for lead ${id}: ${existing.status} -> ${data.status} by ${actor.actorId}`);
+      }
+    }
+
     let statusChanged = false;
     const updatePayload: any = {
       lastManualUpdate: new Date()
@@ -235,6 +313,7 @@ export class LeadService {
 
     // Perform the update
     await existing.updateOne({ $set: updatePayload });
+    await this.recordLeadEvents(existing, updatePayload, actor);
 
     // Refresh the document to get updated values
     const updated = await this.leadRepo.getLeadById(id);
@@ -248,6 +327,25 @@ export class LeadService {
     return updated;
   }
 
+  /**
+   * Get the full change history of a lead, oldest event first
+   */
+  async getLeadHistory(leadId: string): Promise<LeadHistoryResult> {
+    const lead = await this.leadRepo.getLeadById(leadId);
+    if (!lead) {
+      throw new CustomError(ErrorCode.NOT_FOUND, "Lead not found");
+    }
+
+    const events = await this.leadEventRepo.getEventsByLeadId(leadId);
+
+    return {
+      leadId,
+      clientId: lead.clientId,
+      currentStatus: lead.status,
+      events
+    };
+  }
+
   /**
    * Soft delete multiple leads
    */
@@ -261,7 +359,8 @@ export class LeadService {
    */
   async upsertLead(
     query: Pick<ILeadDocument, "clientId" | "email" | "phone" | "service" | "zip">, 
-    payload: Partial<ILeadDocument>
+    payload: Partial<ILeadDocument>,
+    actor: LeadEventActor
   ): Promise<ILeadDocument> {
     const existingLead: Partial<ILead> | null = (await this.leadRepo.findLeads(query))[0] || null;
     
@@ -280,6 +379,8 @@ export class LeadService {
       
       // Update statusHistory if status is changing
       if (updatePayload.status && updatePayload.status !== existingLead.status) {
+        assertLeadStatusTransition(existingLead.status as LeadStatus, updatePayload.status, updatePayload);
+
         // Need to get the document to update statusHistory
         const existingDoc = await this.leadRepo.getLeadById((existingLead as any)._id);
         if (existingDoc) {
@@ -290,6 +391,7 @@ export class LeadService {
       
       const result = await this.leadRepo.updateLead(query, updatePayload);
       if (!result) throw new Error("Failed to update lead");
+      await this.recordLeadEvents(existingLead, updatePayload, actor);
       return this.normalizeLeadAmounts(result);
     } else {
       if (!payload.clientId || (!payload.phone && !payload.email)) {
@@ -409,31 +511,7 @@ export class LeadService {
     pagination: PaginationOptions = { page: 1, limit: 50, sortBy: 'date', sortOrder: 'desc' },
     filters: FilterOptions = {},
   ): Promise<PaginatedLeadsResult> {
-    const query: any = {};
-
-    // Client filter
-    if (clientId) query.clientId = clientId;
-
-    // Date filter - use timezone-aware date range query
-    if (startDate || endDate) {
-      const dateRange = createDateRangeQuery(startDate, endDate);
-      if (dateRange.leadDate) {
-        query.leadDate = dateRange.leadDate;
-      }
-    }
-
-    // Filters
-    if (filters.service) query.service = filters.service;
-    if (filters.adSetName) query.adSetName = filters.adSetName
-    if (filters.adName) query.adName = filters.adName
-    if (filters.status) query.status = filters.status;
-    if (filters.unqualifiedLeadReason) {
-      query.status = 'unqualified';
-      query.unqualifiedLeadReason = filters.unqualifiedLeadReason;
-    }
-    if (filters.$or) {
-      query.$or = filters.$or;
-    }
+    const query = this.buildLeadQuery(clientId, startDate, endDate, filters);
 
     // Pagination setup
     const skip = (pagination.page - 1) * pagination.limit;
@@ -463,6 +541,50 @@ export class LeadService {
     };
   }
 
+  /**
+   * Build the lead query shared by the lead table and the lead export
+   */
+  buildLeadQuery(
+    clientId?: string,
+    startDate?: string,
+    endDate?: string,
+    filters: FilterOptions = {},
+  ): any {
+    const query: any = {};
+
+    // Client filter
+    if (clientId) query.clientId = clientId;
+
+    // Date filter - use timezone-aware date range query
+    if (startDate || endDate) {
+      const dateRange = createDateRangeQuery(startDate, endDate);
+      if (dateRange.leadDate) {
+        query.leadDate = dateRange.leadDate;
+      }
+    }
+
+    // Filters
+    if (filters.service) query.service = filters.service;
+    if (filters.adSetName) query.adSetName = filters.adSetName
+    if (filters.adName) query.adName = filters.adName
+    if (filters.zip) query.zip = filters.zip;
+    if (filters.status) query.status = filters.status;
+    if (filters.unqualifiedLeadReason) {
+      query.status = 'unqualified';
+      query.unqualifiedLeadReason = filters.unqualifiedLeadReason;
+    }
+    if (filters.minLeadScore !== undefined || filters.maxLeadScore !== undefined) {
+      query.leadScore = {};
+      if (filters.minLeadScore !== undefined) query.leadScore.$gte = filters.minLeadScore;
+      if (filters.maxLeadScore !== undefined) query.leadScore.$lte = filters.maxLeadScore;
+    }
+    if (filters.$or) {
+      query.$or = filters.$or;
+    }
+
+    return query;
+  }
+
   /**
    * Get filter options and status counts
    */
@@ -539,7 +661,8 @@ export class LeadService {
    * Find and update a lead by email and clientId, using leadDate to disambiguate if needed
    */
   async findAndUpdateLeadByEmail(
-    params: UpdateLeadByEmailParams
+    params: UpdateLeadByEmailParams,
+    actor: LeadEventActor
   ): Promise<ILeadDocument> {
     const { email, clientId, status, unqualifiedLeadReason, proposalAmount, jobBookedAmount, leadDate } = params;
     // Find leads matching email and clientId
@@ -590,6 +713,10 @@ export class LeadService {
     const oldStatus = existingLead.status;
     const statusChanged = status !== oldStatus;
 
+    if (statusChanged) {
+      assertLeadStatusTransition(oldStatus, status as LeadStatus, { unqualifiedLeadReason, jobBookedAmount });
+    }
+
     // Prepare update data
     const updateData: any = {
       status,
@@ -634,6 +761,7 @@ export class LeadService {
     if (!updated) {
       throw new Error("Failed to update lead");
     }
+    await this.recordLeadEvents(existingLead, updateData, actor);
 
     // Send Facebook Conversion API event if status changed to job_booked
     if (statusChanged) {
@@ -0,0 +1,309 @@
+import _ from "lodash";
+import { ILead } from "../domain/leads.domain.js";
+import { ILeadRepository, IScoringBacktestRepository, IScoringProfileRepository } from "../repository/interfaces.js";
+import { leadRepository } from "../repository/LeadRepository.js";
+import { scoringBacktestRepository } from "../repository/ScoringBacktestRepository.js";
+import { scoringProfileRepository } from "../repository/ScoringProfileRepository.js";
+import {
+  BacktestCalibrationBucket,
+  BacktestDecile,
+  IScoringBacktestDocument
+} from "../repository/models/scoringBacktest.model.js";
+import { LeadScoringService } from "./LeadScoringService.js";
+import { CONVERSION_RATE_SMOOTHING } from "../utils/config.js";
+import { isEstimateSetStatus, isUnqualifiedStatus } from "../utils/estimateSetConstants.js";
+import {
+  getMonthlyName,
+  isEmptyValue,
+  toResolvedScoringProfile,
+  type LeadKeyField,
+  type ResolvedScoringProfile
+} from "../utils/leads.util.js";
+import { CustomError, ErrorCode } from "../../../pkg/error/custom_error.js";
+
+// Types for backtest operations
+interface RunBacktestInput {
+  clientId: string;
+  profileId?: string; // defaults to the client's active profile
+  priorStrength?: number;
+  minSampleSize?: number;
+  createdBy?: string;
+}
+
+interface ScoredOutcome {
+  score: number;
+  estimateSet: boolean;
+}
+
+interface OutcomeCounts {
+  est: number;
+  total: number;
+}
+
+const KEY_FIELDS: LeadKeyField[] = ['service', 'adSetName', 'adName', 'leadDate', 'zip'];
+
+export class ScoringBacktestService {
+
+  constructor(
+    private leadRepo: ILeadRepository = leadRepository,
+    private backtestRepo: IScoringBacktestRepository = scoringBacktestRepository,
+    private scoringProfileRepo: IScoringProfileRepository = scoringProfileRepository,
+    private scoringService: LeadScoringService = new LeadScoringService()
+  ) {}
+
+  /**
+   * Replay a client's leads in leadDate order and score each one using only the outcomes
+   * of leads from earlier days, then measure how well the scores predict estimate_set.
+   * The run is saved (also when it fails) so runs with different profiles can be compared.
+   */
+  async runBacktest(input: RunBacktestInput): Promise<IScoringBacktestDocument> {
+    const startTime = Date.now();
+    const scoringProfile = await this.resolveProfile(input.clientId, input.profileId);
+    const parameters = {
+      priorStrength: input.priorStrength ?? CONVERSION_RATE_SMOOTHING.PRIOR_STRENGTH,
+      minSampleSize: input.minSampleSize ?? CONVERSION_RATE_SMOOTHING.MIN_SAMPLE_SIZE
+    };
+
+    const baseRecord = {
+      clientId: input.clientId,
+      scoringProfile: this.scoringService.toProfileRef(scoringProfile),
+      fieldWeights: scoringProfile.fieldWeights,
+      extraFieldWeights: scoringProfile.extraFieldWeights,
+      parameters,
+      createdBy: input.createdBy
+    };
+
+    try {
+      const leads = (await this.leadRepo.getLeadsByClientId(input.clientId)) as ILead[];
+      const orderedLeads = _.sortBy(
+        leads.filter(lead => !isNaN(new Date(lead.leadDate).getTime())),
+        lead => new Date(lead.leadDate).getTime()
+      );
+
+      const outcomes = this.replayLeads(orderedLeads, scoringProfile, parameters);
+      const positives = outcomes.filter(outcome => outcome.estimateSet).length;
+      const overallConversionRate = outcomes.length === 0 ? 0 : positives / outcomes.length;
+
+      return await this.backtestRepo.createBacktest({
+        ...baseRecord,
+        status: 'completed',
+        totalLeads: orderedLeads.length,
+        evaluatedLeads: outcomes.length,
+        overallConversionRate: this.round(overallConversionRate, 4),
+        auc: this.calculateAuc(outcomes),
+        calibration: this.buildCalibrationBuckets(outcomes),
+        deciles: this.buildDeciles(outcomes, overallConversionRate),
+        dateRange: {
+          from: orderedLeads[0]?.leadDate ?? null,
+          to: orderedLeads[orderedLeads.length - 1]?.leadDate ?? null
+        },
+        durationMs: Date.now() - startTime
+      });
+    } catch (error: any) {
+      console.error(`[Backtest] Error running backtest for clientId ${input.clientId}:`, error);
+      return await this.backtestRepo.createBacktest({
+        ...baseRecord,
+        status: 'failed',
+        totalLeads: 0,
+        evaluatedLeads: 0,
+        overallConversionRate: 0,
+        auc: null,
+        calibration: [],
+        deciles: [],
+        dateRange: { from: null, to: null },
+        durationMs: Date.now() - startTime,
+        error: error.message || String(error)
+      });
+    }
+  }
+
+  async getBacktests(clientId: string): Promise<IScoringBacktestDocument[]> {
+    return await this.backtestRepo.getBacktestsByClientId(clientId);
+  }
+
+  async getBacktestById(id: string): Promise<IScoringBacktestDocument> {
+    const backtest = await this.backtestRepo.getBacktestById(id);
+    if (!backtest) {
+      throw new CustomError(ErrorCode.NOT_FOUND, "Backtest not found");
+    }
+    return backtest;
+  }
+
+  // ============= PRIVATE HELPER METHODS =============
+
+  private async resolveProfile(clientId: string, profileId?: string): Promise<ResolvedScoringProfile> {
+    if (!profileId) {
+      return await this.scoringService.getActiveScoringProfile(clientId);
+    }
+
+    const profile = await this.scoringProfileRepo.getProfileById(profileId);
+    if (!profile || profile.clientId !== clientId) {
+      throw new CustomError(ErrorCode.NOT_FOUND, "Scoring profile not found for this client");
+    }
+    return toResolvedScoringProfile(profile);
+  }
+
+  /**
+   * Walk through leads day by day. Leads of the same day are scored before any of their
+   * outcomes are counted, so a lead never sees its own (or a same-day) outcome.
+   */
+  private replayLeads(
+    orderedLeads: ILead[],
+    scoringProfile: ResolvedScoringProfile,
+    parameters: { priorStrength: number; minSampleSize: number }
+  ): ScoredOutcome[] {
+    const keyCounts = new Map<string, OutcomeCounts>();
+    const clientCounts: OutcomeCounts = { est: 0, total: 0 };
+    const outcomes: ScoredOutcome[] = [];
+
+    const dayGroups = _.groupBy(orderedLeads, lead => new Date(lead.leadDate).toISOString().slice(0, 10));
+
+    for (const day of Object.keys(dayGroups).sort()) {
+      const dayLeads = dayGroups[day];
+      const priorRate = clientCounts.total === 0 ? 0 : clientCounts.est / clientCounts.total;
+
+      for (const lead of dayLeads) {
+        const estimateSet = isEstimateSetStatus(lead.status);
+        if (!estimateSet && !isUnqualifiedStatus(lead.status)) continue;
+
+        const ratesMap = new Map<string, number>();
+        for (const field of KEY_FIELDS) {
+          const { mapValue, countKey } = this.getLeadKey(lead, field);
+          if (isEmptyValue(mapValue)) continue;
+
+          const counts = keyCounts.get(countKey) ?? { est: 0, total: 0 };
+          const { conversionRate } = this.scoringService.smoothConversionRate(
+            counts.est, counts.total, priorRate, parameters
+          );
+          ratesMap.set(`${field}:${mapValue}`, conversionRate);
+        }
+
+        const { leadScore } = this.scoringService.calculateLeadScoreAndCR(lead, ratesMap, scoringProfile);
+        outcomes.push({ score: leadScore, estimateSet });
+      }
+
+      // Only now make the day's outcomes known to later days
+      for (const lead of dayLeads) {
+        const estimateSet = isEstimateSetStatus(lead.status);
+        if (!estimateSet && !isUnqualifiedStatus(lead.status)) continue;
+
+        clientCounts.total++;
+        if (estimateSet) clientCounts.est++;
+
+        for (const field of KEY_FIELDS) {
+          const { mapValue, countKey } = this.getLeadKey(lead, field);
+          if (isEmptyValue(mapValue)) continue;
+
+          const counts = keyCounts.get(countKey) ?? { est: 0, total: 0 };
+          counts.total++;
+          if (estimateSet) counts.est++;
+          keyCounts.set(countKey, counts);
+        }
+      }
+    }
+
+    return outcomes;
+  }
+
+  /**
+   * mapValue matches the lookup done by calculateLeadScoreAndCR; countKey groups values
+   * the same way conversion rates do (trimmed, case-insensitive)
+   */
+  private getLeadKey(lead: ILead, field: LeadKeyField): { mapValue: string; countKey: string } {
+    const mapValue = field === 'leadDate'
+      ? getMonthlyName(lead.leadDate) || ''
+      : String((lead as any)[field] ?? '');
+    return { mapValue, countKey: `${field}:${mapValue.trim().toLowerCase()}` };
+  }
+
+  /**
+   * AUC via the Mann-Whitney U statistic with average ranks for tied scores
+   */
+  private calculateAuc(outcomes: ScoredOutcome[]): number | null {
+    const positives = outcomes.filter(outcome => outcome.estimateSet).length;
+    const negatives = outcomes.length - positives;
+    if (positives === 0 || negatives === 0) return null;
+
+    const sorted = _.sortBy(outcomes, outcome => outcome.score);
+    let positiveRankSum = 0;
+    let i = 0;
+
+    while (i < sorted.length) {
+      let j = i;
+      while (j + 1 < sorted.length && sorted[j + 1].score === sorted[i].score) j++;
+
+      const averageRank = (i + j + 2) / 2; // ranks are 1-based
+      for (let k = i; k <= j; k++) {
+        if (sorted[k].estimateSet) positiveRankSum += averageRank;
+      }
+      i = j + 1;
+    }
+
+    const u = positiveRankSum - (positives * (positives + 1)) / 2;
+    return this.round(u / (positives * negatives), 4);
+  }
+
+  private buildCalibrationBuckets(outcomes: ScoredOutcome[]): BacktestCalibrationBucket[] {
+    const buckets = _.range(0, 100, 10).map(min => ({
+      range: `${min}-${min === 90 ? 100 : min + 9}`,
+      scoreSum: 0,
+      positives: 0,
+      leads: 0
+    }));
+
+    for (const outcome of outcomes) {
+      const bucket = buckets[Math.min(9, Math.floor(outcome.score / 10))];
+      bucket.leads++;
+      bucket.scoreSum += outcome.score;
+      if (outcome.estimateSet) bucket.positives++;
+    }
+
+    return buckets.map(bucket => ({
+      range: bucket.range,
+      leads: bucket.leads,
+      predictedRate: bucket.leads === 0 ? 0 : this.round(bucket.scoreSum / bucket.leads / 100, 4),
+      actualRate: bucket.leads === 0 ? 0 : this.round(bucket.positives / bucket.leads, 4)
+    }));
+  }
+
+  private buildDeciles(outcomes: ScoredOutcome[], overallConversionRate: number): BacktestDecile[] {
+    if (outcomes.length === 0) return [];
+
+    const sorted = _.orderBy(outcomes, outcome => outcome.score, 'desc');
+    const deciles: BacktestDecile[] = [];
+    let cumulativeLeads = 0;
+    let cumulativePositives = 0;
+
+    for (let decile = 0; decile < 10; decile++) {
+      const start = Math.floor((decile * sorted.length) / 10);
+      const end = Math.floor(((decile + 1) * sorted.length) / 10);
+      const slice = sorted.slice(start, end);
+      if (slice.length === 0) continue;
+
+      const estimateSet = slice.filter(outcome => outcome.estimateSet).length;
+      const conversionRate = estimateSet / slice.length;
+      cumulativeLeads += slice.length;
+      cumulativePositives += estimateSet;
+
+      deciles.push({
+        decile: decile + 1,
+        leads: slice.length,
+        minScore: slice[slice.length - 1].score,
+        maxScore: slice[0].score,
+        estimateSet,
+        conversionRate: this.round(conversionRate, 4),
+        lift: overallConversionRate === 0 ? 0 : this.round(conversionRate / overallConversionRate, 2),
+        cumulativeLift: overallConversionRate === 0
+          ? 0
+          : this.round(cumulativePositives / cumulativeLeads / overallConversionRate, 2)
+      });
+    }
+
+    return deciles;
+  }
+
+  private round(value: number, decimals: number): number {
+    const factor = Math.pow(10, decimals);
+    return Math.round(value * factor) / factor;
+  }
+}
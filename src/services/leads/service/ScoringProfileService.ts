@@ -0,0 +1,138 @@
+import { IScoringProfileRepository } from "../repository/interfaces.js";
+import { scoringProfileRepository } from "../repository/ScoringProfileRepository.js";
+import { IScoringProfileDocument } from "../repository/models/scoringProfile.model.js";
+import { LeadScoringService } from "./LeadScoringService.js";
+import { SCORE_BOUNDS } from "../utils/config.js";
+import { toResolvedScoringProfile, type ExtraFieldWeights, type ScoringFieldWeights } from "../utils/leads.util.js";
+import { CustomError, ErrorCode } from "../../../pkg/error/custom_error.js";
+
+// Types for scoring profile operations
+interface CreateScoringProfileInput {
+  clientId: string;
+  name: string;
+  description?: string;
+  fieldWeights: Partial<ScoringFieldWeights>;
+  extraFieldWeights?: Partial<ExtraFieldWeights>;
+  createdBy?: string;
+}
+
+const FIELD_WEIGHT_KEYS: (keyof ScoringFieldWeights)[] = ['service', 'adSetName', 'adName', 'leadDate', 'zip'];
+const EXTRA_FIELD_WEIGHT_KEYS: (keyof ExtraFieldWeights)[] = ['phonePresent', 'emailPresent'];
+const WEIGHT_TOTAL_EPSILON = 1e-6;
+
+export class ScoringProfileService {
+
+  constructor(
+    private scoringProfileRepo: IScoringProfileRepository = scoringProfileRepository,
+    private scoringService: LeadScoringService = new LeadScoringService()
+  ) {}
+
+  /**
+   * List all profile versions of a client, newest version first per name
+   */
+  async getProfiles(clientId: string): Promise<IScoringProfileDocument[]> {
+    return await this.scoringProfileRepo.getProfilesByClientId(clientId);
+  }
+
+  /**
+   * Create a profile. Saving an existing name creates the next version of that profile;
+   * versions are never edited in place so lead scores can always be traced back to their weights.
+   */
+  async createProfile(input: CreateScoringProfileInput): Promise<IScoringProfileDocument> {
+    const name = input.name?.trim();
+    if (!name) {
+      throw new CustomError(ErrorCode.VALIDATION_ERROR, "Profile name is required");
+    }
+
+    const fieldWeights = this.validateWeights(input.fieldWeights, FIELD_WEIGHT_KEYS, true) as ScoringFieldWeights;
+    const extraFieldWeights = this.validateWeights(input.extraFieldWeights ?? {}, EXTRA_FIELD_WEIGHT_KEYS, false) as ExtraFieldWeights;
+
+    const totalWeight = [...Object.values(fieldWeights), ...Object.values(extraFieldWeights)]
+      .reduce((sum, weight) => sum + weight, 0);
+    // Fractional weights such as 33.3/33.3/33.4 don't add up exactly in floating point
+    if (Math.abs(totalWeight - SCORE_BOUNDS.MAX) > WEIGHT_TOTAL_EPSILON) {
+      throw new CustomError(
+        ErrorCode.VALIDATION_ERROR,
+        `Profile weights must add up to ${SCORE_BOUNDS.MAX}. Current total: ${Math.round(totalWeight * 1000) / 1000}`
+      );
+    }
+
+    const latestVersion = await this.scoringProfileRepo.getLatestVersion(input.clientId, name);
+
+    return await this.scoringProfileRepo.createProfile({
+      clientId: input.clientId,
+      name,
+      version: latestVersion + 1,
+      description: input.description?.trim() || '',
+      fieldWeights,
+      extraFieldWeights,
+      isActive: false,
+      activatedAt: null,
+      createdBy: input.createdBy
+    });
+  }
+
+  /**
+   * Score the client's leads with a profile without saving the results
+   */
+  async previewProfile(profileId: string) {
+    const profile = await this.getProfileOrThrow(profileId);
+    return await this.scoringService.previewLeadScores(profile.clientId, toResolvedScoringProfile(profile));
+  }
+
+  /**
+   * Activate a profile for its client and re-score all of the client's leads with it
+   */
+  async activateProfile(profileId: string) {
+    const profile = await this.getProfileOrThrow(profileId);
+
+    const activated = await this.scoringProfileRepo.activateProfile(profileId, profile.clientId);
+    if (!activated) {
+      throw new CustomError(ErrorCode.NOT_FOUND, "Scoring profile not found");
+    }
+
+    const rescoreResult = await this.scoringService.processLeadScoresAndCRsByClientId(profile.clientId);
+
+    return { profile: activated, rescoreResult };
+  }
+
+  // ============= PRIVATE HELPER METHODS =============
+
+  private async getProfileOrThrow(profileId: string): Promise<IScoringProfileDocument> {
+    const profile = await this.scoringProfileRepo.getProfileById(profileId);
+    if (!profile) {
+      throw new CustomError(ErrorCode.NOT_FOUND, "Scoring profile not found");
+    }
+    return profile;
+  }
+
+  /**
+   * Ensure every weight is a finite, non-negative number. Optional keys default to 0.
+   */
+  private validateWeights(
+    weights: Record<string, any>,
+    keys: string[],
+    required: boolean
+  ): Record<string, number> {
+    const result: Record<string, number> = {};
+
+    for (const key of keys) {
+      const raw = weights?.[key];
+      if (raw === undefined || raw === null) {
+        if (required) {
+          throw new CustomError(ErrorCode.VALIDATION_ERROR, `Weight for '${key}' is required`);
+        }
+        result[key] = 0;
+        continue;
+      }
+
+      const value = Number(raw);
+      if (!isFinite(value) || value < 0) {
+        throw new CustomError(ErrorCode.VALIDATION_ERROR, `Weight for '${key}' must be a non-negative number`);
+      }
+      result[key] = value;
+    }
+
+    return result;
+  }
+}
@@ -2,19 +2,32 @@
 export { LeadService } from './LeadService.js';
 export { LeadAnalyticsService } from './LeadAnalyticsService.js';
 export { LeadScoringService } from './LeadScoringService.js';
+export { ScoringProfileService } from './ScoringProfileService.js';
+export { ScoringBacktestService } from './ScoringBacktestService.js';
+export { LeadDedupService } from './LeadDedupService.js';
+export { LeadExportService } from './LeadExportService.js';
+export { LeadImportService } from './LeadImportService.js';
 
 // Export sheets service (keep existing)
 export * from './sheets.service.js';
 
 // Import service classes for instance creation
+import { Writable } from 'stream';
+import { LeadEventActor } from '../domain/leads.domain.js';
 import { LeadService } from './LeadService.js';
 import { LeadAnalyticsService } from './LeadAnalyticsService.js';
 import { LeadScoringService } from './LeadScoringService.js';
+import { ScoringProfileService } from './ScoringProfileService.js';
+import { LeadDedupService } from './LeadDedupService.js';
+import { LeadExportService } from './LeadExportService.js';
+import { LeadImportService } from './LeadImportService.js';
+import { CONVERSION_RATE_DECAY } from '../utils/config.js';
 
 // Create service instances for easy import
 export const leadService = new LeadService();
 export const leadAnalyticsService = new LeadAnalyticsService();
 export const leadScoringService = new LeadScoringService();
+export const scoringProfileService = new ScoringProfileService();
 
 // For backward compatibility - export a combined service that delegates to the new services
 // This allows existing controllers to work without changes during migration
@@ -22,24 +35,34 @@ export class CombinedLeadService {
   private leadService: LeadService;
   private analyticsService: LeadAnalyticsService;
   private scoringService: LeadScoringService;
+  private dedupService: LeadDedupService;
+  private exportService: LeadExportService;
+  private importService: LeadImportService;
 
   constructor(
     leadSvc?: LeadService,
     analyticsSvc?: LeadAnalyticsService,
-    scoringSvc?: LeadScoringService
+    scoringSvc?: LeadScoringService,
+    dedupSvc?: LeadDedupService
   ) {
     this.leadService = leadSvc || new LeadService();
     this.analyticsService = analyticsSvc || new LeadAnalyticsService();
     this.scoringService = scoringSvc || new LeadScoringService();
+    this.dedupService = dedupSvc || new LeadDedupService(undefined, undefined, this.leadService);
+    this.exportService = new LeadExportService(undefined, this.leadService);
+    this.importService = new LeadImportService(undefined, this.leadService);
   }
 
   // Delegate CRUD operations to LeadService
-  async updateLead(id: string, data: any) { return this.leadService.updateLead(id, data); }
+  async updateLead(id: string, data: any, actor: LeadEventActor, options?: { overrideTransition?: boolean }) {
+    return this.leadService.updateLead(id, data, actor, options);
+  }
   async deleteLeads(ids: string[]) { return this.leadService.deleteLeads(ids); }
-  async upsertLead(query: any, payload: any) { return this.leadService.upsertLead(query, payload); }
-  async findAndUpdateLeadByEmail(params: any) {
-    return this.leadService.findAndUpdateLeadByEmail(params);
+  async upsertLead(query: any, payload: any, actor: LeadEventActor) { return this.leadService.upsertLead(query, payload, actor); }
+  async findAndUpdateLeadByEmail(params: any, actor: LeadEventActor) {
+    return this.leadService.findAndUpdateLeadByEmail(params, actor);
   }
+  async getLeadHistory(leadId: string) { return this.leadService.getLeadHistory(leadId); }
   async bulkCreateLeads(payloads: any[]) { 
     return this.leadService.bulkCreateLeads(payloads); 
   }
@@ -55,6 +78,22 @@ export class CombinedLeadService {
   async getAllLeadsForClient(clientId: string) { return this.leadService.getAllLeadsForClient(clientId); }
   async getClientActivityData() { return this.leadService.getClientActivityData(); }
 
+  // Delegate exports to LeadExportService
+  resolveExportColumns(columns?: string[]) { return this.exportService.resolveColumns(columns); }
+  async exportLeads(request: any, output: Writable) { return this.exportService.exportLeads(request, output); }
+
+  // Delegate file imports to LeadImportService
+  async importLeads(input: any) { return this.importService.importLeads(input); }
+
+  // Delegate duplicate handling to LeadDedupService
+  async getDuplicateQueue(clientId: string) { return this.dedupService.getDuplicateQueue(clientId); }
+  async dismissDuplicateGroup(clientId: string, leadIds: string[], reviewedBy?: string) {
+    return this.dedupService.dismissGroup(clientId, leadIds, reviewedBy);
+  }
+  async mergeLeads(winnerId: string, loserIds: string[], actor: LeadEventActor) {
+    return this.dedupService.mergeLeads({ winnerId, loserIds, actor });
+  }
+
   // Delegate analytics operations to LeadAnalyticsService
   async getLeadAnalytics(clientId: string, startDate?: string, endDate?: string, sort?: string) { 
     return this.analyticsService.getLeadAnalytics(clientId, startDate, endDate, sort);
@@ -67,14 +106,23 @@ export class CombinedLeadService {
   }
 
   // Delegate scoring operations to LeadScoringService
-  async processLeadScoresAndCRsByClientId(clientId: string) { 
-    return this.scoringService.processLeadScoresAndCRsByClientId(clientId); 
+  async processLeadScoresAndCRsByClientId(clientId: string, options?: { decayHalfLifeWeeks?: number | null }) { 
+    return this.scoringService.processLeadScoresAndCRsByClientId(clientId, options); 
   }
   async recalculateAllLeadScores(clientId: string) { 
     return this.scoringService.recalculateAllLeadScores(clientId); 
   }
+  // The sheet upload saves these rates, so they are decayed like every other recompute
   computeConversionRatesForClient(leads: any[], clientId: string) { 
-    return this.scoringService.computeConversionRatesForClient(leads, clientId); 
+    return this.scoringService.computeConversionRatesForClient(leads, clientId, {
+      decayHalfLifeWeeks: CONVERSION_RATE_DECAY.HALF_LIFE_WEEKS
+    }); 
+  }
+  async compareConversionRates(clientId: string, decayHalfLifeWeeks?: number) {
+    return this.scoringService.compareConversionRates(clientId, decayHalfLifeWeeks);
+  }
+  async explainLeadScore(leadId: string) {
+    return this.scoringService.explainLeadScore(leadId);
   }
 }
 
@@ -1,225 +1,80 @@
-import http from '../../../pkg/http/client.js';
-import { config } from '../../../config.js';
+import ghlApiClient, { GhlApiClient } from '../../ghlClient/api/ghlApiClient.js';
 import ghlClientService from '../../ghlClient/service/service.js';
-import { LeadService } from './LeadService.js';
-import { leadRepository } from '../repository/LeadRepository.js';
+import ghlSyncStateService from '../../opportunities/service/ghlSyncState.service.js';
+import { GhlTagMapping } from '../../ghlClient/domain/ghlClient.domain.js';
+import {
+  collectOpportunityTags,
+  DEFAULT_GHL_TAG_MAPPING,
+  determineLeadStatusFromTags,
+  hasLeadSourceTag,
+  normalizeTag,
+  resolveTagMapping,
+  toTagSet,
+} from '../../ghlClient/utils/tagMapping.js';
+import crmLeadStatusService from '../../crm/service/crmLeadStatus.service.js';
 import logger from '../../../utils/logger.js';
-import { ILead } from '../domain/leads.domain.js';
-
-type GhlOpportunity = {
-  id: string;
-  name: string;
-  monetaryValue: number;
-  status: string;
-  pipelineId: string;
-  pipelineStageId: string;
+import ghlSyncReportService from './GhlSyncReportService.js';
+import { GhlSyncReportEntry } from '../repository/models/ghlSyncRunReport.model.js';
+import { LeadEventActor, LeadStatus } from '../domain/leads.domain.js';
+
+export type GhlTagSkipReason =
+  | 'missing_email'
+  | 'missing_lead_source_tag'
+  | 'no_matching_status_rule'
+  | 'lead_not_found'
+  | 'lead_missing_fields'
+  | 'transition_not_allowed';
+
+export interface ApplyContactTagsInput {
+  locationId: string;
+  revenueProClientId: string;
+  apiToken: string;
+  customFieldId?: string;
+  tagMapping: GhlTagMapping;
+  email?: string;
   contactId?: string;
-  contact?: {
-    name?: string;
-    email?: string;
-    phone?: string;
-    companyName?: string;
-    tags?: string[];
-  };
-  relations?: Array<{
-    tags?: string[];
-  }>;
-  assignedTo?: string;
-  source?: string;
-  createdAt: string;
-  updatedAt: string;
-  lastStageChangeAt: string;
-  lastStatusChangeAt: string;
-};
-
-type GhlResponse = {
-  opportunities: GhlOpportunity[];
-  meta: {
-    total: number;
-    nextPageUrl?: string | null;
-    startAfterId?: string | null;
-    startAfter?: number | null;
-  };
-};
-
-type RetryOptions = {
-  retries: number;
-  baseDelayMs: number;
-};
-
-// Tag mappings
-const NEW_LEAD_TAGS = ['new_lead', 'facebook lead'];
-const IN_PROGRESS_TAGS = [
-  'day1am', 'day1pm', 'day2am', 'day2pm', 'day3am', 'day3pm',
-  'day4am', 'day4pm', 'day5am', 'day5pm', 'day6am', 'day6pm',
-  'day7am', 'day7pm', 'day8am', 'day8pm', 'day9am', 'day9pm',
-  'day10am', 'day10pm', 'day11am', 'day11pm', 'day12am', 'day12pm',
-  'day13am', 'day13pm', 'day14am', 'day14pm'
-];
-const ESTIMATE_SET_TAGS = ['appt_completed', 'appt_cancelled', 'job_won', 'job_lost', 'appt_booked'];
-const UNQUALIFIED_TAGS = [
-  'dq - bad phone number',
-  'dq - job too small',
-  'dq - looking for job',
-  'dq - no longer interested',
-  'dq - out of area',
-  'dq - said didn\'t fill out a form',
-  'dq - service not offered',
-  'dq - services we dont offer'
-];
-
-async function withRetry<T>(fn: () => Promise<T>, { retries, baseDelayMs }: RetryOptions): Promise<T> {
-  let attempt = 0;
-  while (true) {
-    try {
-      return await fn();
-    } catch (err) {
-      attempt += 1;
-      if (attempt > retries) throw err;
-      const backoff = baseDelayMs * Math.pow(2, attempt - 1);
-      const jitter = Math.floor(Math.random() * (backoff / 2));
-      const sleep = backoff + jitter;
-      await new Promise((r) => setTimeout(r, sleep));
-    }
-  }
+  // Contact cache key, see GhlSyncStateService.getContactVersion
+  contactVersion: string;
+  tags: string[];
+  refreshContact: boolean;
+  actor: LeadEventActor;
 }
 
-async function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+export interface ApplyContactTagsResult {
+  outcome: 'updated' | 'skipped';
+  skipReason?: GhlTagSkipReason;
+  leadId?: string;
+  previousStatus?: string;
+  status?: LeadStatus;
+  matchedTag?: string;
 }
 
-/**
- * Collect all tags from an opportunity
- */
-function collectTags(opportunity: GhlOpportunity): string[] {
-  const tags: string[] = [];
-  
-  // Collect from contact tags
-  if (Array.isArray(opportunity.contact?.tags)) {
-    tags.push(...opportunity.contact.tags);
-  }
-  
-  // Collect from relations tags
-  if (Array.isArray(opportunity.relations)) {
-    for (const rel of opportunity.relations) {
-      if (Array.isArray(rel?.tags)) {
-        tags.push(...rel.tags);
-      }
-    }
-  }
-  
-  return tags;
-}
-
-/**
- * Determine lead status based on tags with priority:
- * unqualified > estimate_set > in_progress > new_lead
- * 
- * Only processes tags that are in ALL_ALLOWED_TAGS (unknown tags are ignored)
- * Requires "facebook lead" tag to be present (returns null if missing)
- * For 'new' status, requires BOTH 'new_lead' AND 'facebook lead' tags
- */
-function determineLeadStatus(tags: string[]): { status: 'new' | 'in_progress' | 'estimate_set' | 'unqualified'; unqualifiedReason?: string } | null {
-  // Define all allowed tags (unknown tags will be filtered out)
-  const ALL_ALLOWED_TAGS = [
-    ...NEW_LEAD_TAGS,
-    ...IN_PROGRESS_TAGS,
-    ...ESTIMATE_SET_TAGS,
-    ...UNQUALIFIED_TAGS,
-  ];
-  
-  // Normalize tags to lowercase and filter to only allowed tags
-  const lowerTags = tags.map(t => String(t).toLowerCase().trim());
-  const allowedTags = lowerTags.filter(tag => 
-    ALL_ALLOWED_TAGS.some(allowed => allowed.toLowerCase() === tag)
-  );
-  const tagSet = new Set(allowedTags);
-  
-  // Mandatory check: "facebook lead" tag must be present
-  if (!tagSet.has('facebook lead')) {
-    return null; // Skip this lead
-  }
-  
-  // Check for unqualified tags (highest priority)
-  for (const unqualifiedTag of UNQUALIFIED_TAGS) {
-    if (tagSet.has(unqualifiedTag.toLowerCase())) {
-      return {
-        status: 'unqualified',
-        unqualifiedReason: unqualifiedTag
-      };
-    }
-  }
-  
-  // Check for estimate_set tags
-  for (const estimateTag of ESTIMATE_SET_TAGS) {
-    if (tagSet.has(estimateTag.toLowerCase())) {
-      return { status: 'estimate_set' };
-    }
-  }
-  
-  // Check for in_progress tags
-  for (const progressTag of IN_PROGRESS_TAGS) {
-    if (tagSet.has(progressTag.toLowerCase())) {
-      return { status: 'in_progress' };
-    }
-  }
-  
-  // Check for new_lead status - requires BOTH 'new_lead' AND 'facebook lead' tags
-  if (tagSet.has('new_lead') && tagSet.has('facebook lead')) {
-    return { status: 'new' };
-  }
-  
-  // If we reach here, the opportunity has 'facebook lead' but doesn't match any status category
-  // This should not happen in normal flow, but return null to skip
-  return null;
+export interface LeadSheetsSyncOptions {
+  fullResync?: boolean;
+  // Groups the reports of the clients synced in one run
+  runId?: string;
+  trigger?: 'cron' | 'manual';
 }
 
 export class LeadSheetsSyncService {
-  private httpClient: http;
-  private leadService: LeadService;
+  private ghlApi: GhlApiClient;
 
   constructor() {
-    this.httpClient = new http(config.GHL_BASE_URL, 15000);
-    this.leadService = new LeadService();
-  }
-
-  /**
-   * Fetch opportunities from GHL API for a specific location
-   */
-  private async fetchOpportunities(locationId: string, apiToken: string): Promise<GhlResponse> {
-    let url: string | null = `/opportunities/search?location_id=${encodeURIComponent(locationId)}`;
-    const aggregated: GhlOpportunity[] = [];
-    let lastMeta: GhlResponse['meta'] = { total: 0 } as any;
-
-    while (url) {
-      const page: GhlResponse = await this.httpClient.get<GhlResponse>(url, {
-        headers: {
-          Authorization: `Bearer ${apiToken}`,
-          Version: '2021-07-28',
-        },
-      });
-
-      if (page?.opportunities?.length) {
-        aggregated.push(...page.opportunities);
-      }
-      lastMeta = page?.meta || lastMeta;
-      const nextUrl: string | null | undefined = page?.meta?.nextPageUrl;
-      url = nextUrl && nextUrl.length > 0 ? nextUrl : null;
-    }
-
-    return { opportunities: aggregated, meta: { ...lastMeta, total: aggregated.length } } as GhlResponse;
+    this.ghlApi = ghlApiClient;
   }
 
   /**
    * Fetch contact and extract queryValue (customFieldId) value
+   * Unchanged contacts come from the contact cache; refresh bypasses it
    * Returns the value if found, null otherwise
    */
   private async getContactQueryValue(
     contactId: string,
+    contactVersion: string,
     locationId: string,
     apiToken: string,
     customFieldId: string | undefined,
-    retry: RetryOptions = { retries: 3, baseDelayMs: 1000 }
+    refresh: boolean
   ): Promise<number | null> {
     if (!customFieldId) {
       logger.debug('[Lead Sheets Sync] No customFieldId provided, skipping queryValue fetch', {
@@ -230,29 +85,9 @@ export class LeadSheetsSyncService {
     }
 
     try {
-      const resp = await withRetry(
-        async () => {
-          try {
-            return await this.httpClient.get<any>(`/contacts/${encodeURIComponent(contactId)}`, {
-              headers: {
-                Authorization: `Bearer ${apiToken}`,
-                Version: '2021-07-28',
-              },
-            });
-          } catch (error: any) {
-            // If we get a 429, throw a specific error that can be handled
-            if (error?.message?.includes('429') || error?.code === 429) {
-              const rateLimitError: any = new Error('Rate limit exceeded');
-              rateLimitError.code = 429;
-              throw rateLimitError;
-            }
-            throw error;
-          }
-        },
-        retry,
-      );
-      
-      const contact = resp?.contact;
+      const fetchContact = () => this.ghlApi.getContact(locationId, contactId, apiToken);
+
+      const contact = await ghlSyncStateService.getContact(locationId, contactId, contactVersion, fetchContact, refresh);
       if (!contact) return null;
       
       const customFields = contact?.customFields;
@@ -277,175 +112,188 @@ export class LeadSheetsSyncService {
     }
   }
 
+  /**
+   * Apply a GHL contact's tags to the matching lead, using the client's tag mapping and the
+   * lead status state machine. Shared by the sync and the GHL webhook.
+   */
+  async applyContactTags(input: ApplyContactTagsInput): Promise<ApplyContactTagsResult> {
+    const { locationId, revenueProClientId, apiToken, customFieldId, tagMapping, contactId, tags } = input;
+    const email = input.email?.trim();
+
+    // Skip if no email
+    if (!email) {
+      return { outcome: 'skipped', skipReason: 'missing_email' };
+    }
+
+    // Determine status from the client's tag mapping (null if no lead source tag or no rule matches)
+    const statusResult = determineLeadStatusFromTags(tags, tagMapping);
+
+    if (!statusResult) {
+      const skipReason = hasLeadSourceTag(toTagSet(tags), tagMapping) ? 'no_matching_status_rule' : 'missing_lead_source_tag';
+      logger.debug('[GHL Lead Status] Contact has no lead source tag or matching status tag, skipping', {
+        locationId,
+        revenueProClientId,
+        email,
+        skipReason,
+      });
+      return { outcome: 'skipped', skipReason };
+    }
+
+    const result = await crmLeadStatusService.applyStatus({
+      provider: 'ghl',
+      accountId: locationId,
+      revenueProClientId,
+      email,
+      match: {
+        status: statusResult.status,
+        unqualifiedReason: statusResult.unqualifiedReason,
+        matchedValue: statusResult.matchedTag,
+      },
+      actor: input.actor,
+      // The client's queryValue custom field is stored when the lead converts to estimate_set
+      resolveEstimateSetAmount: contactId
+        ? () => this.getContactQueryValue(
+          contactId,
+          input.contactVersion,
+          locationId,
+          apiToken,
+          customFieldId,
+          input.refreshContact
+        )
+        : undefined,
+    });
+
+    return {
+      outcome: result.outcome,
+      skipReason: result.skipReason,
+      leadId: result.leadId,
+      previousStatus: result.previousStatus,
+      status: result.status,
+      matchedTag: result.matchedValue,
+    };
+  }
+
   /**
    * Process opportunities and sync lead statuses
+   * Only opportunities changed since the location's last successful run are processed,
+   * unless fullResync is set or a daily full sync is due
    */
   async syncLeadSheetsForClient(
     locationId: string,
     pipelineId: string,
     revenueProClientId: string,
     apiToken: string,
-    customFieldId?: string
+    customFieldId?: string,
+    tagMapping: GhlTagMapping = DEFAULT_GHL_TAG_MAPPING,
+    options: LeadSheetsSyncOptions = {}
   ): Promise<{
+    mode: 'full' | 'incremental';
+    fetched: number;
     processed: number;
     updated: number;
     skipped: number;
     errors: number;
   }> {
+    const run = await ghlSyncStateService.startRun('leadSheets', locationId, options.fullResync);
     const stats = {
+      mode: run.full ? 'full' as const : 'incremental' as const,
+      fetched: 0,
       processed: 0,
       updated: 0,
       skipped: 0,
       errors: 0,
     };
+    // Per-opportunity record of the run, saved as the client's sync run report
+    const entries: GhlSyncReportEntry[] = [];
+    const skipReasons: Record<string, number> = {};
+    const saveReport = (status: 'completed' | 'failed', error?: string) => ghlSyncReportService.saveReport({
+      runId: options.runId ?? run.startedAt.toISOString().replace(/[:.]/g, '-'),
+      trigger: options.trigger ?? 'manual',
+      clientId: revenueProClientId,
+      locationId,
+      mode: stats.mode,
+      status,
+      startedAt: run.startedAt,
+      finishedAt: new Date(),
+      stats: {
+        fetched: stats.fetched,
+        processed: stats.processed,
+        updated: stats.updated,
+        skipped: stats.skipped,
+        errors: stats.errors,
+        skipReasons,
+      },
+      entries,
+      error: error ?? null,
+    });
 
     try {
-      // Fetch all opportunities
-      const ghlResponse = await this.fetchOpportunities(locationId, apiToken);
+      // Fetch the opportunities changed since the cursor; all of them for a full run
+      const ghlResponse = await this.ghlApi.searchOpportunities(locationId, apiToken, { updatedSince: run.since });
       const opportunities = ghlResponse.opportunities || [];
+      stats.fetched = opportunities.length;
 
       logger.info('[Lead Sheets Sync] Fetched opportunities', {
         locationId,
         revenueProClientId,
-        totalOpportunities: opportunities.length,
-      });
-
-      // Process all opportunities from all pipelines
-      logger.info('[Lead Sheets Sync] Processing all pipelines', {
-        locationId,
-        revenueProClientId,
+        mode: stats.mode,
+        since: run.since?.toISOString() ?? null,
         totalOpportunities: opportunities.length,
       });
 
       // Process each opportunity
       for (const opportunity of opportunities) {
-        try {
-          const email = opportunity.contact?.email;
-          
-          // Skip if no email
-          if (!email || !email.trim()) {
-            stats.skipped++;
-            continue;
-          }
-
-          // Collect tags
-          const tags = collectTags(opportunity);
-          
-          // Determine status (returns null if "facebook lead" tag is missing)
-          const statusResult = determineLeadStatus(tags);
-          
-          // Skip if "facebook lead" tag is not present
-          if (!statusResult) {
-            stats.skipped++;
-            logger.debug('[Lead Sheets Sync] Opportunity missing "facebook lead" tag, skipping', {
-              locationId,
-              revenueProClientId,
-              email: email.trim(),
-            });
-            continue;
-          }
-          
-          const { status, unqualifiedReason } = statusResult;
+        const tags = collectOpportunityTags(opportunity);
+        const entry: GhlSyncReportEntry = {
+          opportunityId: opportunity.id,
+          contactId: opportunity.contactId ?? null,
+          email: opportunity.contact?.email?.trim() || null,
+          leadId: null,
+          outcome: 'updated',
+          previousStatus: null,
+          status: null,
+          tags: Array.from(new Set(tags.map(normalizeTag).filter(Boolean))),
+          matchedTag: null,
+          skipReason: null,
+          error: null,
+        };
+        entries.push(entry);
 
-          // Find existing lead by email and clientId
-          const existingLeads = await leadRepository.findLeads({
-            email: email.trim(),
-            clientId: revenueProClientId,
+        try {
+          const result = await this.applyContactTags({
+            locationId,
+            revenueProClientId,
+            apiToken,
+            customFieldId,
+            tagMapping,
+            email: opportunity.contact?.email,
+            contactId: opportunity.contactId,
+            contactVersion: ghlSyncStateService.getContactVersion(opportunity),
+            tags,
+            refreshContact: run.full,
+            actor: { source: 'ghl_sync', actorId: locationId },
           });
 
-          // Skip if lead doesn't exist in DB
-          if (!existingLeads || existingLeads.length === 0) {
-            stats.skipped++;
-            logger.debug('[Lead Sheets Sync] Lead not found in DB, skipping', {
-              locationId,
-              revenueProClientId,
-              email: email.trim(),
-            });
-            continue;
-          }
-
-          // Get the first matching lead
-          const existingLead = existingLeads[0];
+          Object.assign(entry, {
+            outcome: result.outcome,
+            leadId: result.leadId ?? null,
+            previousStatus: result.previousStatus ?? null,
+            status: result.status ?? null,
+            matchedTag: result.matchedTag ?? null,
+            skipReason: result.skipReason ?? null,
+          });
 
-          // Ensure required fields exist
-          if (!existingLead.service || !existingLead.zip) {
+          if (result.outcome === 'skipped') {
             stats.skipped++;
-            logger.debug('[Lead Sheets Sync] Lead missing required fields, skipping', {
-              locationId,
-              revenueProClientId,
-              email: email.trim(),
-              hasService: !!existingLead.service,
-              hasZip: !!existingLead.zip,
-            });
+            skipReasons[result.skipReason!] = (skipReasons[result.skipReason!] ?? 0) + 1;
             continue;
           }
 
-          // Prepare lead data - only update status and unqualified reason
-          const leadData: Partial<ILead> = {
-            status: status,
-            unqualifiedLeadReason: unqualifiedReason || '',
-          };
-
-          // Only fetch queryValue when lead CONVERTS to estimate_set (current status is NOT estimate_set)
-          const isConvertingToEstimateSet = status === 'estimate_set' && existingLead.status !== 'estimate_set';
-          
-          if (isConvertingToEstimateSet && opportunity.contactId) {
-            const retry: RetryOptions = { retries: 3, baseDelayMs: 1000 };
-            const queryValue = await this.getContactQueryValue(
-              opportunity.contactId,
-              locationId,
-              apiToken,
-              customFieldId,
-              retry
-            );
-            
-            if (queryValue !== null) {
-              leadData.jobBookedAmount = queryValue;
-              logger.debug('[Lead Sheets Sync] Fetched queryValue from contact for converting lead', {
-                locationId,
-                revenueProClientId,
-                email: email.trim(),
-                contactId: opportunity.contactId,
-                currentStatus: existingLead.status,
-                newStatus: status,
-                queryValue,
-              });
-            } else {
-              logger.debug('[Lead Sheets Sync] Could not fetch queryValue from contact', {
-                locationId,
-                revenueProClientId,
-                email: email.trim(),
-                contactId: opportunity.contactId,
-                customFieldId,
-              });
-            }
-            
-            // Small delay between contact fetches to avoid rate limits
-            await delay(30);
-          }
-
-          // Update lead using the existing lead's query fields
-          const query = {
-            email: email.trim(),
-            clientId: revenueProClientId,
-            service: existingLead.service,
-            zip: existingLead.zip,
-          };
-
-          await this.leadService.upsertLead(query, leadData);
-          
           stats.updated++;
           stats.processed++;
-
-          logger.debug('[Lead Sheets Sync] Processed lead', {
-            locationId,
-            revenueProClientId,
-            email: email.trim(),
-            status,
-            unqualifiedReason,
-            tags,
-          });
         } catch (error: any) {
+          entry.outcome = 'error';
+          entry.error = error?.message || String(error);
           stats.errors++;
           logger.error('[Lead Sheets Sync] Error processing opportunity', {
             locationId,
@@ -456,12 +304,24 @@ export class LeadSheetsSyncService {
         }
       }
 
+      // Keep the old cursor when opportunities failed so the next run picks them up again
+      if (stats.errors === 0) {
+        await ghlSyncStateService.completeRun(run, opportunities);
+      } else {
+        logger.warn('[Lead Sheets Sync] Errors during sync, sync cursor not advanced', {
+          locationId,
+          revenueProClientId,
+          errors: stats.errors,
+        });
+      }
+
       logger.info('[Lead Sheets Sync] Completed sync', {
         locationId,
         revenueProClientId,
         stats,
       });
 
+      await saveReport('completed');
       return stats;
     } catch (error: any) {
       logger.error('[Lead Sheets Sync] Failed to sync', {
@@ -469,14 +329,16 @@ export class LeadSheetsSyncService {
         revenueProClientId,
         error: error?.message || String(error),
       });
+      await saveReport('failed', error?.message || String(error));
       throw error;
     }
   }
 
   /**
    * Sync lead sheets for all active GHL clients
+   * fullResync ignores the sync cursors and the contact cache
    */
-  async syncAllClients(): Promise<void> {
+  async syncAllClients(options: LeadSheetsSyncOptions = {}): Promise<void> {
     const clients = await ghlClientService.getAllActiveGhlClients();
     
     if (!clients || clients.length === 0) {
@@ -486,11 +348,10 @@ export class LeadSheetsSyncService {
 
     logger.info('[Lead Sheets Sync] Starting sync for all clients', {
       clientCount: clients.length,
+      fullResync: !!options.fullResync,
+      runId: options.runId,
     });
 
-    const retry: RetryOptions = { retries: 3, baseDelayMs: 1000 };
-    const perClientDelayMs = 1000; // 1s between clients
-
     for (const client of clients) {
       const locationId = client.locationId;
       const decryptedToken = ghlClientService.getDecryptedApiToken(client);
@@ -505,20 +366,19 @@ export class LeadSheetsSyncService {
           hasPipelineId: !!pipelineId,
           revenueProClientId,
         });
-        await delay(perClientDelayMs);
         continue;
       }
 
       try {
-        const stats = await withRetry(
-          () => this.syncLeadSheetsForClient(
-            locationId,
-            pipelineId,
-            revenueProClientId,
-            decryptedToken,
-            customFieldId
-          ),
-          retry
+        // GHL requests are retried and rate limited per location by the GHL API client
+        const stats = await this.syncLeadSheetsForClient(
+          locationId,
+          pipelineId,
+          revenueProClientId,
+          decryptedToken,
+          customFieldId,
+          resolveTagMapping(client),
+          options
         );
 
         logger.info('[Lead Sheets Sync] Client sync completed', {
@@ -533,9 +393,6 @@ export class LeadSheetsSyncService {
           error: error?.message || String(error),
         });
       }
-
-      // Delay between clients
-      await delay(perClientDelayMs);
     }
 
     logger.info('[Lead Sheets Sync] Completed sync for all clients');
@@ -0,0 +1,31 @@
+import { describe, it, expect } from '@jest/globals';
+import { normalizeContactEmail, normalizeContactPhone } from '../utils/leads.util.js';
+
+describe('normalizeContactPhone', () => {
+  it('strips formatting and adds the US country code', () => {
+    expect(normalizeContactPhone('(555) 123-4567')).toBe('+15551234567');
+    expect(normalizeContactPhone('555.123.4567')).toBe('+15551234567');
+  });
+
+  it('keeps an existing country code', () => {
+    expect(normalizeContactPhone('+1 555 123 4567')).toBe('+15551234567');
+    expect(normalizeContactPhone('+44 20 7946 0958')).toBe('+442079460958');
+  });
+
+  it('returns null for empty values and placeholders without digits', () => {
+    for (const phone of [undefined, null, '', '   ', 'N/A', '-', '+']) {
+      expect(normalizeContactPhone(phone)).toBeNull();
+    }
+  });
+});
+
+describe('normalizeContactEmail', () => {
+  it('trims and lowercases', () => {
+    expect(normalizeContactEmail('  Jane.Doe@Example.COM ')).toBe('jane.doe@example.com');
+  });
+
+  it('returns null for blank values', () => {
+    expect(normalizeContactEmail('  ')).toBeNull();
+    expect(normalizeContactEmail(undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from '@jest/globals';
+import { LeadScoringService } from '../service/LeadScoringService.js';
+import { ILead, LeadStatus } from '../domain/leads.domain.js';
+
+const CLIENT_ID = 'client-1';
+const AS_OF = new Date('2025-06-30T00:00:00.000Z');
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+function lead(status: LeadStatus, weeksOld: number, overrides: Partial<ILead> = {}): ILead {
+  return {
+    clientId: CLIENT_ID,
+    status,
+    leadDate: new Date(AS_OF.getTime() - weeksOld * WEEK_MS).toISOString(),
+    service: 'Roofing',
+    adSetName: 'Ad Set A',
+    adName: 'Ad A',
+    zip: '75001',
+    ...overrides,
+  } as ILead;
+}
+
+describe('LeadScoringService.smoothConversionRate', () => {
+  const service = new LeadScoringService();
+
+  it('falls back to the prior below the minimum sample size', () => {
+    expect(service.smoothConversionRate(2, 2, 0.4, {})).toEqual({ conversionRate: 0.4, confidence: 0 });
+  });
+
+  it('blends the key outcomes with the prior', () => {
+    // (8 + 10 * 0.5) / (10 + 10)
+    expect(service.smoothConversionRate(8, 10, 0.5, {})).toEqual({ conversionRate: 0.65, confidence: 0.5 });
+  });
+
+  it('honors the prior strength and minimum sample size options', () => {
+    expect(service.smoothConversionRate(1, 1, 0.2, { priorStrength: 0, minSampleSize: 1 }))
+      .toEqual({ conversionRate: 1, confidence: 1 });
+  });
+});
+
+describe('LeadScoringService.computeConversionRatesForClient', () => {
+  const service = new LeadScoringService();
+  const findRate = (rates: ReturnType<LeadScoringService['computeConversionRatesForClient']>, keyName: string) =>
+    rates.find(rate => rate.keyField === 'service' && rate.keyName === keyName)!;
+
+  it('counts every lead equally without a half-life', () => {
+    const leads = [lead('estimate_set', 0), lead('unqualified', 4)];
+
+    const rate = findRate(service.computeConversionRatesForClient(leads, CLIENT_ID, { asOf: AS_OF }), 'Roofing');
+
+    expect(rate).toMatchObject({ rawConversionRate: 0.5, pastTotalCount: 2, pastTotalEst: 1, decayHalfLifeWeeks: null });
+  });
+
+  it('halves the weight of a lead every half-life', () => {
+    const leads = [lead('estimate_set', 0), lead('unqualified', 4)];
+
+    const rate = findRate(
+      service.computeConversionRatesForClient(leads, CLIENT_ID, { asOf: AS_OF, decayHalfLifeWeeks: 4 }),
+      'Roofing'
+    );
+
+    // The unqualified lead is one half-life old and counts 0.5
+    expect(rate).toMatchObject({ rawConversionRate: 0.67, pastTotalCount: 1.5, pastTotalEst: 1, decayHalfLifeWeeks: 4 });
+  });
+
+  it('smooths small keys toward the client rate', () => {
+    const leads = [
+      ...Array.from({ length: 6 }, () => lead('estimate_set', 1)),
+      ...Array.from({ length: 4 }, () => lead('unqualified', 1)),
+      lead('job_booked', 1, { service: 'Siding' }),
+    ];
+
+    const rates = service.computeConversionRatesForClient(leads, CLIENT_ID, { asOf: AS_OF });
+    const siding = findRate(rates, 'Siding');
+
+    expect(siding.rawConversionRate).toBe(1);
+    // One outcome is below the minimum sample size, so the client rate of 7/11 is used
+    expect(siding).toMatchObject({ conversionRate: 0.64, confidence: 0 });
+  });
+
+  it('ignores leads of other clients', () => {
+    const leads = [lead('estimate_set', 0), lead('unqualified', 0, { clientId: 'client-2' })];
+
+    const rate = findRate(service.computeConversionRatesForClient(leads, CLIENT_ID), 'Roofing');
+
+    expect(rate).toMatchObject({ rawConversionRate: 1, pastTotalCount: 1 });
+  });
+});
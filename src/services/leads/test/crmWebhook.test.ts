@@ -0,0 +1,55 @@
+import { describe, it, expect } from '@jest/globals';
+import crypto from 'crypto';
+import { HubSpotCrmConnector } from '../../crm/connectors/hubspot.connector.js';
+import { CrmWebhookRequest } from '../../crm/domain/crm.domain.js';
+import { ErrorCode } from '../../../pkg/error/custom_error.js';
+
+const SECRET = 'hubspot-secret';
+const URL = 'https://api.example.com/api/v1/crm/webhooks/hubspot';
+const ACTOR = { source: 'webhook' as const, actorId: 'portal-1' };
+
+function signedRequest(overrides: { timestamp?: number; secret?: string; body?: string } = {}): CrmWebhookRequest {
+  const body = '[]';
+  const timestamp = overrides.timestamp ?? Date.now();
+  const signature = crypto
+    .createHmac('sha256', overrides.secret ?? SECRET)
+    .update(`POST${URL}${body}${timestamp}`)
+    .digest('base64');
+
+  return {
+    payload: [],
+    rawBody: Buffer.from(overrides.body ?? body),
+    headers: {
+      'x-hubspot-signature-v3': signature,
+      'x-hubspot-request-timestamp': String(timestamp),
+    },
+    url: URL,
+    method: 'post',
+  };
+}
+
+describe('HubSpotCrmConnector webhook signature (v3)', () => {
+  const connector = new HubSpotCrmConnector('portal-1', 'client-1', 'access-token', SECRET);
+
+  it('accepts a signature over method, URL, body and timestamp', async () => {
+    expect(await connector.receiveWebhook(signedRequest(), ACTOR)).toMatchObject({ received: 0, updated: 0, skipped: 0 });
+  });
+
+  it('rejects a signature made with another secret or over another body', async () => {
+    await expect(connector.receiveWebhook(signedRequest({ secret: 'other-secret' }), ACTOR))
+      .rejects.toMatchObject({ code: ErrorCode.UNAUTHORIZED });
+    await expect(connector.receiveWebhook(signedRequest({ body: '[{"objectId":1}]' }), ACTOR))
+      .rejects.toMatchObject({ code: ErrorCode.UNAUTHORIZED });
+  });
+
+  it('rejects signatures older than five minutes', async () => {
+    await expect(connector.receiveWebhook(signedRequest({ timestamp: Date.now() - 6 * 60 * 1000 }), ACTOR))
+      .rejects.toMatchObject({ code: ErrorCode.UNAUTHORIZED, message: 'HubSpot webhook signature has expired' });
+  });
+
+  it('rejects deliveries when no secret is configured', async () => {
+    const unsigned = new HubSpotCrmConnector('portal-1', 'client-1', 'access-token', null);
+
+    await expect(unsigned.receiveWebhook(signedRequest(), ACTOR)).rejects.toMatchObject({ code: ErrorCode.UNAUTHORIZED });
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect, jest, afterEach } from '@jest/globals';
+import { AxiosRequestConfig } from 'axios';
+import { GhlApiClient, GhlApiClientOptions } from '../../ghlClient/api/ghlApiClient.js';
+import { GhlOpportunity } from '../../ghlClient/domain/ghlApi.domain.js';
+
+type FakeResponse = { status: number; data?: unknown; headers?: Record<string, string> };
+
+const ok = (data: unknown = {}, headers: Record<string, string> = {}): FakeResponse => ({ status: 200, data, headers });
+
+function createClient(
+  respond: (requestConfig: AxiosRequestConfig) => FakeResponse | Promise<FakeResponse>,
+  options: Partial<GhlApiClientOptions> = {}
+) {
+  const client = new GhlApiClient({ baseRetryDelayMs: 1, ...options });
+  const request = jest.fn(async (requestConfig: AxiosRequestConfig) => ({ statusText: '', headers: {}, ...(await respond(requestConfig)) }));
+  Object.assign(client, { http: { request } });
+  return { client, request };
+}
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('GhlApiClient request pool', () => {
+  it('limits requests in flight overall and per location', async () => {
+    const pending: Array<() => void> = [];
+    const inFlight = new Map<string, number>();
+    let maxTotal = 0;
+    let maxPerLocation = 0;
+
+    const { client } = createClient(requestConfig => {
+      const location = String(requestConfig.headers?.Authorization);
+      inFlight.set(location, (inFlight.get(location) ?? 0) + 1);
+      maxPerLocation = Math.max(maxPerLocation, inFlight.get(location)!);
+      maxTotal = Math.max(maxTotal, [...inFlight.values()].reduce((sum, count) => sum + count, 0));
+
+      return new Promise(resolve => pending.push(() => {
+        inFlight.set(location, inFlight.get(location)! - 1);
+        resolve(ok());
+      }));
+    }, { maxConcurrent: 3, maxConcurrentPerLocation: 2 });
+
+    const calls = [
+      ...Array.from({ length: 5 }, (_, i) => client.getContact('location-a', `contact-${i}`, 'a')),
+      ...Array.from({ length: 5 }, (_, i) => client.getContact('location-b', `contact-${i}`, 'b')),
+    ];
+
+    await flush();
+    while (pending.length > 0) {
+      pending.shift()!();
+      await flush();
+    }
+    await Promise.all(calls);
+
+    expect(maxTotal).toBe(3);
+    expect(maxPerLocation).toBe(2);
+  });
+
+  it('serves locations round-robin instead of first come, first served', async () => {
+    const order: string[] = [];
+    const { client } = createClient(requestConfig => {
+      order.push(String(requestConfig.headers?.Authorization).replace('Bearer ', ''));
+      return ok();
+    }, { maxConcurrent: 1 });
+
+    await Promise.all([
+      ...Array.from({ length: 4 }, (_, i) => client.getContact('location-a', `contact-${i}`, 'a')),
+      client.getContact('location-b', 'contact-0', 'b'),
+    ]);
+
+    expect(order).toEqual(['a', 'a', 'b', 'a', 'a']);
+  });
+});
+
+describe('GhlApiClient token bucket', () => {
+  it('waits for a token once the rate limit headers report none left', async () => {
+    jest.useFakeTimers({ now: new Date('2025-06-30T12:00:00.000Z') });
+    const { client, request } = createClient(() => ok({}, {
+      'x-ratelimit-max': '100',
+      'x-ratelimit-interval-milliseconds': '10000',
+      'x-ratelimit-remaining': '0',
+    }));
+
+    await client.getContact('location-a', 'contact-1', 'a');
+    const next = client.getContact('location-a', 'contact-2', 'a');
+    await jest.advanceTimersByTimeAsync(50);
+    expect(request).toHaveBeenCalledTimes(1);
+
+    // One token refills every 10000 / 100 ms
+    await jest.advanceTimersByTimeAsync(50);
+    await next;
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it('holds the location for retry-after on a 429 and then retries', async () => {
+    jest.useFakeTimers({ now: new Date('2025-06-30T12:00:00.000Z') });
+    const responses: FakeResponse[] = [{ status: 429, headers: { 'retry-after': '2' } }, ok({ contact: { id: 'contact-1' } })];
+    const { client, request } = createClient(() => responses.shift()!);
+
+    const contact = client.getContact('location-a', 'contact-1', 'a');
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(request).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(await contact).toEqual({ id: 'contact-1' });
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry client errors', async () => {
+    const { client, request } = createClient(() => ({ status: 401, data: { message: 'Invalid token' } }));
+
+    await expect(client.getContact('location-a', 'contact-1', 'a')).rejects.toMatchObject({ status: 401 });
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('GhlApiClient.searchOpportunities with updatedSince', () => {
+  const opportunity = (id: string, updatedAt: string) => ({ id, updatedAt }) as GhlOpportunity;
+  const since = new Date('2025-06-30T10:00:00.000Z');
+
+  it('reads pages newest first until a page reaches the cursor', async () => {
+    const { client, request } = createClient(requestConfig => {
+      const page = requestConfig.params?.startAfterId
+        ? [opportunity('3', '2025-06-30T10:30:00.000Z'), opportunity('4', '2025-06-30T09:00:00.000Z')]
+        : [opportunity('1', '2025-06-30T12:00:00.000Z'), opportunity('2', '2025-06-30T11:00:00.000Z')];
+      return ok({ opportunities: page, meta: { total: 100, startAfter: 1, startAfterId: 'next' } });
+    });
+
+    const result = await client.searchOpportunities('location-a', 'a', { updatedSince: since });
+
+    expect(result.opportunities.map(item => item.id)).toEqual(['1', '2', '3']);
+    expect(request).toHaveBeenCalledTimes(2);
+    expect(request.mock.calls[0][0].params).toMatchObject({ order: 'updated_desc', location_id: 'location-a' });
+  });
+
+  it('reads and filters every page when the results are not sorted', async () => {
+    const all = [
+      opportunity('1', '2025-06-30T09:00:00.000Z'),
+      opportunity('2', '2025-06-30T11:00:00.000Z'),
+      { id: '3' } as GhlOpportunity,
+    ];
+    const { client } = createClient(requestConfig => (requestConfig.params
+      ? ok({ opportunities: [all[0], all[1]], meta: { total: 3 } })
+      : ok({ opportunities: all, meta: { total: 3 } })));
+
+    const result = await client.searchOpportunities('location-a', 'a', { updatedSince: since });
+
+    // Opportunities without updatedAt are kept
+    expect(result.opportunities.map(item => item.id)).toEqual(['2', '3']);
+    expect(result.meta.total).toBe(2);
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { GhlSyncStateService } from '../../opportunities/service/ghlSyncState.service.js';
+import { GhlSyncCursorRepository } from '../../opportunities/repository/GhlSyncCursorRepository.js';
+import { GhlContactCacheRepository } from '../../opportunities/repository/GhlContactCacheRepository.js';
+
+const NOW = new Date('2025-06-30T12:00:00.000Z');
+const LOCATION_ID = 'location-1';
+const HOUR_MS = 60 * 60 * 1000;
+
+type Cursor = { lastUpdatedAt?: Date | null; lastFullSyncAt?: Date | null } | null;
+
+function createService(cursor: Cursor, cachedContact: { dateUpdated: string; contact: object } | null = null) {
+  const cursorRepo = {
+    getCursor: jest.fn(async () => cursor),
+    saveCursor: jest.fn(async (_cursor: unknown) => undefined),
+  };
+  const contactCacheRepo = {
+    getContact: jest.fn(async () => cachedContact),
+    saveContact: jest.fn(async (_contact: unknown) => undefined),
+  };
+  const service = new GhlSyncStateService(
+    cursorRepo as unknown as GhlSyncCursorRepository,
+    contactCacheRepo as unknown as GhlContactCacheRepository
+  );
+  return { service, cursorRepo, contactCacheRepo };
+}
+
+beforeEach(() => {
+  jest.useFakeTimers({ now: NOW });
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('GhlSyncStateService.startRun', () => {
+  it('runs a full sync without a cursor', async () => {
+    const { service } = createService(null);
+
+    const run = await service.startRun('leadSheets', LOCATION_ID);
+
+    expect(run).toMatchObject({ full: true, since: null, previousFullSyncAt: null });
+  });
+
+  it('resumes from the cursor minus the overlap', async () => {
+    const lastUpdatedAt = new Date(NOW.getTime() - 2 * HOUR_MS);
+    const { service } = createService({ lastUpdatedAt, lastFullSyncAt: new Date(NOW.getTime() - 3 * HOUR_MS) });
+
+    const run = await service.startRun('leadSheets', LOCATION_ID);
+
+    expect(run.full).toBe(false);
+    expect(run.since).toEqual(new Date(lastUpdatedAt.getTime() - 5 * 60 * 1000));
+  });
+
+  it('runs a full sync when the last one is more than a day old', async () => {
+    const { service } = createService({
+      lastUpdatedAt: new Date(NOW.getTime() - HOUR_MS),
+      lastFullSyncAt: new Date(NOW.getTime() - 25 * HOUR_MS),
+    });
+
+    expect((await service.startRun('leadSheets', LOCATION_ID)).full).toBe(true);
+  });
+
+  it('runs a full sync when forced', async () => {
+    const { service } = createService({ lastUpdatedAt: NOW, lastFullSyncAt: NOW });
+
+    expect((await service.startRun('opportunityActuals', LOCATION_ID, true)).full).toBe(true);
+  });
+});
+
+describe('GhlSyncStateService.completeRun', () => {
+  it('moves the cursor to the newest updatedAt and keeps the last full sync of an incremental run', async () => {
+    const lastFullSyncAt = new Date(NOW.getTime() - 3 * HOUR_MS);
+    const { service, cursorRepo } = createService({ lastUpdatedAt: new Date('2025-06-30T10:00:00.000Z'), lastFullSyncAt });
+    const run = await service.startRun('leadSheets', LOCATION_ID);
+
+    await service.completeRun(run, [
+      { updatedAt: '2025-06-30T11:00:00.000Z' },
+      { updatedAt: '2025-06-30T11:30:00.000Z' },
+      { updatedAt: 'not a date' },
+    ]);
+
+    expect(cursorRepo.saveCursor).toHaveBeenCalledWith({
+      locationId: LOCATION_ID,
+      syncName: 'leadSheets',
+      lastUpdatedAt: new Date('2025-06-30T11:30:00.000Z'),
+      lastSuccessAt: NOW,
+      lastFullSyncAt,
+    });
+  });
+
+  it('never moves the cursor back and records a full run', async () => {
+    const lastUpdatedAt = new Date('2025-06-30T11:00:00.000Z');
+    const { service, cursorRepo } = createService({ lastUpdatedAt, lastFullSyncAt: null });
+    const run = await service.startRun('leadSheets', LOCATION_ID);
+
+    await service.completeRun(run, [{ updatedAt: '2025-06-29T08:00:00.000Z' }]);
+
+    expect(cursorRepo.saveCursor).toHaveBeenCalledWith(expect.objectContaining({ lastUpdatedAt, lastFullSyncAt: NOW }));
+  });
+});
+
+describe('GhlSyncStateService.getContact', () => {
+  const fetched = { dateAdded: '2025-01-01', customFields: [{ id: 'field-1', value: 'x' }] };
+
+  it('uses the cached contact when the version matches', async () => {
+    const { service } = createService(null, { dateUpdated: 'v1', contact: { dateAdded: '2024-12-31' } });
+    const fetchContact = jest.fn(async () => fetched);
+
+    expect(await service.getContact(LOCATION_ID, 'contact-1', 'v1', fetchContact)).toEqual({ dateAdded: '2024-12-31' });
+    expect(fetchContact).not.toHaveBeenCalled();
+  });
+
+  it('fetches and stores the contact when the version changed or a refresh is requested', async () => {
+    const { service, contactCacheRepo } = createService(null, { dateUpdated: 'v1', contact: {} });
+    const fetchContact = jest.fn(async () => fetched);
+
+    await service.getContact(LOCATION_ID, 'contact-1', 'v2', fetchContact);
+    await service.getContact(LOCATION_ID, 'contact-1', 'v1', fetchContact, true);
+
+    expect(fetchContact).toHaveBeenCalledTimes(2);
+    expect(contactCacheRepo.saveContact).toHaveBeenCalledWith(expect.objectContaining({ dateUpdated: 'v2', contact: fetched }));
+  });
+
+  it('does not cache contacts without a version', async () => {
+    const { service, contactCacheRepo } = createService(null);
+
+    await service.getContact(LOCATION_ID, 'contact-1', '', async () => fetched);
+
+    expect(contactCacheRepo.getContact).not.toHaveBeenCalled();
+    expect(contactCacheRepo.saveContact).not.toHaveBeenCalled();
+  });
+
+  it('versions contacts by their own dateUpdated only', () => {
+    const { service } = createService(null);
+
+    expect(service.getContactVersion({ updatedAt: '2025-06-30', contact: { dateUpdated: '2025-06-29' } })).toBe('2025-06-29');
+    expect(service.getContactVersion({ updatedAt: '2025-06-30' })).toBe('');
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import crypto from 'crypto';
+import { GhlWebhookService } from '../service/GhlWebhookService.js';
+import { LeadSheetsSyncService } from '../service/leadSheetsSync.service.js';
+import { IGhlWebhookEventRepository } from '../repository/interfaces.js';
+import { IGhlWebhookEvent, IGhlWebhookEventDocument } from '../repository/models/ghlWebhookEvent.model.js';
+import ghlClientService from '../../ghlClient/service/service.js';
+import { GhlApiClient } from '../../ghlClient/api/ghlApiClient.js';
+import { IGhlClient } from '../../ghlClient/domain/ghlClient.domain.js';
+import { ErrorCode } from '../../../pkg/error/custom_error.js';
+
+const SECRET = 'webhook-secret';
+const LOCATION_ID = 'location-1';
+const CLIENT = { locationId: LOCATION_ID, revenueProClientId: 'client-1', customFieldId: 'field-1' } as unknown as IGhlClient;
+
+const payload = {
+  type: 'ContactTagUpdate',
+  webhookId: 'webhook-1',
+  locationId: LOCATION_ID,
+  id: 'contact-1',
+  email: 'jane@example.com',
+  tags: ['estimate set'],
+};
+
+function sign(body: Buffer, secret = SECRET): string {
+  return crypto.createHmac('sha256', secret).update(body).digest('hex');
+}
+
+function delivery(signature?: string) {
+  const rawBody = Buffer.from(JSON.stringify(payload));
+  return { payload, rawBody, signature: signature ?? sign(rawBody) };
+}
+
+function storedEvent(overrides: Partial<IGhlWebhookEvent> = {}): IGhlWebhookEventDocument {
+  return {
+    _id: 'event-1',
+    eventId: payload.webhookId,
+    type: payload.type,
+    locationId: LOCATION_ID,
+    contactId: payload.id,
+    payload,
+    status: 'received',
+    attempts: 0,
+    ...overrides,
+  } as unknown as IGhlWebhookEventDocument;
+}
+
+function createService(options: { created?: IGhlWebhookEventDocument | null; existing?: IGhlWebhookEventDocument | null; stale?: IGhlWebhookEventDocument | null } = {}) {
+  const eventRepo = {
+    createEvent: jest.fn(async (_data: IGhlWebhookEvent) => (options.created === undefined ? storedEvent() : options.created)),
+    getEventByEventId: jest.fn(async () => options.existing ?? null),
+    claimStaleEvent: jest.fn(async (_eventId: string, _staleBefore: Date) => options.stale ?? null),
+    incrementAttempts: jest.fn(async () => undefined),
+    updateEvent: jest.fn(async (_id: string, update: Partial<IGhlWebhookEvent>) => storedEvent(update)),
+  };
+  const syncService = {
+    applyContactTags: jest.fn(async () => ({ outcome: 'updated', leadId: 'lead-1', status: 'estimate_set' })),
+  };
+  const service = new GhlWebhookService(
+    eventRepo as unknown as IGhlWebhookEventRepository,
+    syncService as unknown as LeadSheetsSyncService,
+    {} as GhlApiClient
+  );
+  return { service, eventRepo, syncService };
+}
+
+beforeEach(() => {
+  jest.restoreAllMocks();
+  jest.spyOn(ghlClientService, 'getGhlClientByLocationId').mockResolvedValue(CLIENT);
+  jest.spyOn(ghlClientService, 'getDecryptedWebhookSecret').mockReturnValue(SECRET);
+  jest.spyOn(ghlClientService, 'getDecryptedApiToken').mockReturnValue('api-token');
+});
+
+describe('GhlWebhookService signature checks', () => {
+  it('accepts a hex signature with or without the sha256= prefix', async () => {
+    const { service, syncService } = createService();
+    const { rawBody } = delivery();
+
+    expect((await service.handleWebhook(delivery())).status).toBe('processed');
+    expect((await service.handleWebhook(delivery(`sha256=${sign(rawBody)}`))).status).toBe('processed');
+    expect(syncService.applyContactTags).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects a signature made with another secret', async () => {
+    const { service, eventRepo } = createService();
+
+    await expect(service.handleWebhook(delivery(sign(delivery().rawBody, 'other-secret'))))
+      .rejects.toMatchObject({ code: ErrorCode.UNAUTHORIZED });
+    expect(eventRepo.createEvent).not.toHaveBeenCalled();
+  });
+
+  it('rejects deliveries without a signature or without a configured secret', async () => {
+    const { service } = createService();
+
+    await expect(service.handleWebhook({ ...delivery(), signature: undefined }))
+      .rejects.toMatchObject({ code: ErrorCode.UNAUTHORIZED });
+
+    jest.spyOn(ghlClientService, 'getDecryptedWebhookSecret').mockReturnValue(null);
+    await expect(service.handleWebhook(delivery())).rejects.toMatchObject({ code: ErrorCode.UNAUTHORIZED });
+  });
+
+  it('ignores unsupported event types before verifying', async () => {
+    const { service } = createService();
+
+    const outcome = await service.handleWebhook({ payload: { type: 'InboundMessage', locationId: LOCATION_ID } });
+
+    expect(outcome).toEqual({ status: 'ignored', duplicate: false });
+  });
+});
+
+describe('GhlWebhookService idempotency', () => {
+  it('does not apply a delivery that was already handled', async () => {
+    const { service, syncService } = createService({ created: null, existing: storedEvent({ status: 'processed' }) });
+
+    const outcome = await service.handleWebhook(delivery());
+
+    expect(outcome).toMatchObject({ status: 'processed', duplicate: true, eventId: 'webhook-1' });
+    expect(syncService.applyContactTags).not.toHaveBeenCalled();
+  });
+
+  it('does not apply a delivery that is still being handled', async () => {
+    const { service, syncService } = createService({ created: null, existing: storedEvent({ status: 'received' }) });
+
+    expect(await service.handleWebhook(delivery())).toMatchObject({ status: 'received', duplicate: true });
+    expect(syncService.applyContactTags).not.toHaveBeenCalled();
+  });
+
+  it('applies a redelivery of a failed event again', async () => {
+    const { service, syncService } = createService({ created: null, existing: storedEvent({ status: 'failed' }) });
+
+    expect(await service.handleWebhook(delivery())).toMatchObject({ status: 'processed', duplicate: true });
+    expect(syncService.applyContactTags).toHaveBeenCalledTimes(1);
+  });
+
+  it('applies a redelivery of an event left unfinished past the timeout', async () => {
+    const { service, eventRepo, syncService } = createService({ created: null, stale: storedEvent({ status: 'received' }) });
+
+    const outcome = await service.handleWebhook(delivery());
+
+    expect(outcome).toMatchObject({ status: 'processed', duplicate: true });
+    expect(syncService.applyContactTags).toHaveBeenCalledTimes(1);
+    const [eventId, staleBefore] = eventRepo.claimStaleEvent.mock.calls[0];
+    expect(eventId).toBe('webhook-1');
+    expect(Date.now() - staleBefore.getTime()).toBeGreaterThanOrEqual(5 * 60 * 1000);
+    expect(eventRepo.getEventByEventId).not.toHaveBeenCalled();
+  });
+
+  it('falls back to a hash of the body as event ID', async () => {
+    const { service, eventRepo } = createService();
+    const { webhookId: _webhookId, ...withoutId } = payload;
+    const rawBody = Buffer.from(JSON.stringify(withoutId));
+
+    await service.handleWebhook({ payload: withoutId, rawBody, signature: sign(rawBody) });
+
+    expect(eventRepo.createEvent).toHaveBeenCalledWith(expect.objectContaining({
+      eventId: crypto.createHash('sha256').update(rawBody).digest('hex'),
+    }));
+  });
+
+  it('marks the event failed and rethrows when applying it fails', async () => {
+    const { service, eventRepo, syncService } = createService();
+    syncService.applyContactTags.mockRejectedValueOnce(new Error('database down'));
+
+    await expect(service.handleWebhook(delivery())).rejects.toThrow('database down');
+    expect(eventRepo.updateEvent).toHaveBeenCalledWith('event-1', expect.objectContaining({ status: 'failed', error: 'database down' }));
+  });
+});
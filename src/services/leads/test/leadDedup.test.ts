@@ -0,0 +1,199 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import mongoose from 'mongoose';
+import { LeadDedupService } from '../service/LeadDedupService.js';
+import { LeadService } from '../service/LeadService.js';
+import { ILeadDuplicateReviewRepository, ILeadRepository } from '../repository/interfaces.js';
+import { ILeadDuplicateReviewDocument } from '../repository/models/leadDuplicateReview.model.js';
+import { ILead, ILeadDocument } from '../domain/leads.domain.js';
+import { CustomError, ErrorCode } from '../../../pkg/error/custom_error.js';
+
+const CLIENT_ID = 'client-1';
+const ACTOR = { source: 'manual' as const, actorId: 'user-1' };
+
+type TestLead = Partial<ILead> & { _id: string };
+
+function lead(_id: string, overrides: Partial<ILead> = {}): TestLead {
+  return {
+    _id,
+    clientId: CLIENT_ID,
+    name: `Lead ${_id}`,
+    zip: '75001',
+    service: 'Roofing',
+    leadDate: '2025-03-01',
+    status: 'new',
+    statusHistory: [],
+    ...overrides,
+  };
+}
+
+function createService(leads: TestLead[], dismissed: Array<{ leadIds: string[] }> = []) {
+  const leadRepo = {
+    getLeadsByClientId: jest.fn(async () => leads),
+    getLeadById: jest.fn(async (id: string) => {
+      const found = leads.find(item => item._id === id);
+      return found ? ({ ...found, toObject: () => found } as unknown as ILeadDocument) : null;
+    }),
+    findLeads: jest.fn(async (query: { _id: { $in: string[] } }) => leads.filter(item => query._id.$in.includes(item._id))),
+    updateLead: jest.fn(async (_id: string, _update: Partial<ILead>) => null),
+    bulkDeleteLeads: jest.fn(async (_ids: string[]) => ({ deletedCount: 1 })),
+  };
+  const reviewRepo = {
+    getDismissedReviews: jest.fn(async () => dismissed as ILeadDuplicateReviewDocument[]),
+    createReview: jest.fn(async (data: unknown) => data as ILeadDuplicateReviewDocument),
+  };
+  const leadService = new LeadService();
+  const updateLead = jest.spyOn(leadService, 'updateLead').mockImplementation(
+    async (id: string) => ({ _id: id }) as unknown as ILeadDocument
+  );
+
+  const service = new LeadDedupService(
+    leadRepo as unknown as ILeadRepository,
+    reviewRepo as unknown as ILeadDuplicateReviewRepository,
+    leadService
+  );
+  return { service, leadRepo, reviewRepo, updateLead };
+}
+
+describe('LeadDedupService.getDuplicateQueue', () => {
+  it('groups leads on normalized email and phone', async () => {
+    const { service } = createService([
+      lead('a', { email: 'Jane@Example.com ' }),
+      lead('b', { email: 'jane@example.com', zip: '10001' }),
+      lead('c', { phone: '(555) 123-4567', zip: '20002' }),
+      lead('d', { phone: '+1 555 123 4567', zip: '30003' }),
+      lead('e', { phone: 'N/A', zip: '40004' }),
+      lead('f', { phone: 'N/A', zip: '50005' }),
+    ]);
+
+    const groups = await service.getDuplicateQueue(CLIENT_ID);
+
+    expect(groups.map(group => ({ leadIds: group.leadIds, reasons: group.reasons }))).toEqual([
+      { leadIds: ['a', 'b'], reasons: ['email'] },
+      { leadIds: ['c', 'd'], reasons: ['phone'] },
+    ]);
+  });
+
+  it('matches similar names only within the same zip', async () => {
+    const { service } = createService([
+      lead('a', { name: 'John Smith', zip: '75001' }),
+      lead('b', { name: 'Smith, Jon', zip: '75001-1234' }),
+      lead('c', { name: 'John Smith', zip: '75002' }),
+    ]);
+
+    const groups = await service.getDuplicateQueue(CLIENT_ID);
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0]).toMatchObject({ leadIds: ['a', 'b'], reasons: ['name_zip'] });
+  });
+
+  it('joins chained matches into one group and suggests the furthest lead', async () => {
+    const { service } = createService([
+      lead('a', { email: 'jane@example.com' }),
+      lead('b', { email: 'jane@example.com', phone: '555-123-4567' }),
+      lead('c', {
+        phone: '5551234567',
+        status: 'estimate_set',
+        statusHistory: [{ status: 'estimate_set', timestamp: new Date('2025-03-02') }],
+      }),
+    ]);
+
+    const [group] = await service.getDuplicateQueue(CLIENT_ID);
+
+    expect(group.leadIds).toEqual(['a', 'b', 'c']);
+    expect(group.reasons.sort()).toEqual(['email', 'phone']);
+    expect(group.suggestedWinnerId).toBe('c');
+  });
+
+  it('leaves out dismissed groups', async () => {
+    const { service } = createService(
+      [lead('a', { email: 'jane@example.com' }), lead('b', { email: 'jane@example.com' })],
+      [{ leadIds: ['a', 'b'] }]
+    );
+
+    expect(await service.getDuplicateQueue(CLIENT_ID)).toEqual([]);
+  });
+});
+
+describe('LeadDedupService.mergeLeads', () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.spyOn(mongoose.connection, 'transaction').mockImplementation(
+      (async (fn: (session: unknown) => Promise<unknown>) => fn(null)) as unknown as typeof mongoose.connection.transaction
+    );
+  });
+
+  it('combines history, notes, amounts and contact details into the winner', async () => {
+    const { service, leadRepo, reviewRepo, updateLead } = createService([
+      lead('winner', {
+        status: 'proposal_presented',
+        notes: 'Called twice',
+        proposalAmount: 5000,
+        statusHistory: [{ status: 'proposal_presented', timestamp: new Date('2025-03-05') }],
+      }),
+      lead('loser', {
+        status: 'estimate_set',
+        email: 'jane@example.com',
+        notes: 'Wants a quote',
+        proposalAmount: 7000,
+        statusHistory: [{ status: 'estimate_set', timestamp: new Date('2025-03-02') }],
+      }),
+    ]);
+
+    const result = await service.mergeLeads({ winnerId: 'winner', loserIds: ['loser', 'winner'], actor: ACTOR });
+
+    expect(result.mergedLeadIds).toEqual(['loser']);
+    expect(leadRepo.updateLead).toHaveBeenCalledWith('winner', {
+      statusHistory: [
+        { status: 'estimate_set', timestamp: new Date('2025-03-02') },
+        { status: 'proposal_presented', timestamp: new Date('2025-03-05') },
+      ],
+      email: 'jane@example.com',
+      phone: undefined,
+    });
+    expect(updateLead).toHaveBeenCalledWith(
+      'winner',
+      { notes: 'Called twice\n\nWants a quote', proposalAmount: 7000 },
+      ACTOR
+    );
+    expect(leadRepo.bulkDeleteLeads).toHaveBeenCalledWith(['loser']);
+    expect(reviewRepo.createReview).toHaveBeenCalledWith(expect.objectContaining({
+      status: 'merged',
+      winnerId: 'winner',
+      leadIds: ['winner', 'loser'],
+    }));
+  });
+
+  it('rejects a winner behind a loser in the funnel', async () => {
+    const { service, leadRepo } = createService([
+      lead('winner', { status: 'estimate_set' }),
+      lead('loser', { status: 'job_booked', jobBookedAmount: 9000 }),
+    ]);
+
+    const merge = service.mergeLeads({ winnerId: 'winner', loserIds: ['loser'], actor: ACTOR });
+
+    await expect(merge).rejects.toBeInstanceOf(CustomError);
+    await expect(merge).rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR });
+    expect(leadRepo.updateLead).not.toHaveBeenCalled();
+    expect(mongoose.connection.transaction).not.toHaveBeenCalled();
+  });
+
+  it('rejects a winner that would drop a loser amount', async () => {
+    const { service } = createService([
+      lead('winner', { status: 'job_booked', jobBookedAmount: 9000 }),
+      lead('loser', { status: 'job_lost', proposalAmount: 4000 }),
+    ]);
+
+    await expect(service.mergeLeads({ winnerId: 'winner', loserIds: ['loser'], actor: ACTOR }))
+      .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR, details: { loserId: 'loser' } });
+  });
+
+  it('rejects leads of different clients', async () => {
+    const { service } = createService([
+      lead('winner'),
+      lead('loser', { clientId: 'client-2' }),
+    ]);
+
+    await expect(service.mergeLeads({ winnerId: 'winner', loserIds: ['loser'], actor: ACTOR }))
+      .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR });
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { Writable } from 'stream';
+import { LeadExportService } from '../service/LeadExportService.js';
+import { LeadImportMapping, LeadImportService } from '../service/LeadImportService.js';
+import { LeadService } from '../service/LeadService.js';
+import { ILeadRepository } from '../repository/interfaces.js';
+import { ILead } from '../domain/leads.domain.js';
+import { EXPORT } from '../utils/config.js';
+import { CustomError, ErrorCode } from '../../../pkg/error/custom_error.js';
+
+const CLIENT_ID = 'client-1';
+
+function collect(): { output: Writable; text: () => string } {
+  const chunks: Buffer[] = [];
+  const output = new Writable({
+    write(chunk, _encoding, callback) {
+      chunks.push(Buffer.from(chunk));
+      callback();
+    },
+  });
+  return { output, text: () => Buffer.concat(chunks).toString('utf8') };
+}
+
+function stream(leads: Partial<ILead>[]) {
+  const close = jest.fn(async () => undefined);
+  return {
+    close,
+    async *[Symbol.asyncIterator]() {
+      yield* leads;
+    },
+  };
+}
+
+describe('LeadExportService.exportLeads', () => {
+  const exportRequest = {
+    clientId: CLIENT_ID,
+    filters: {},
+    columns: ['name', 'phone', 'notes'],
+    sortBy: 'date' as const,
+    sortOrder: 'desc' as const,
+  };
+
+  it('rejects XLSX exports above the row limit before reading any lead', async () => {
+    const leadRepo = {
+      countLeads: jest.fn(async () => EXPORT.XLSX_MAX_ROWS + 1),
+      streamLeads: jest.fn(),
+    };
+    const service = new LeadExportService(leadRepo as unknown as ILeadRepository, new LeadService());
+
+    const exported = service.exportLeads({ ...exportRequest, format: 'xlsx' }, collect().output);
+
+    await expect(exported).rejects.toBeInstanceOf(CustomError);
+    await expect(exported).rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR });
+    expect(leadRepo.streamLeads).not.toHaveBeenCalled();
+  });
+
+  it('streams CSV without a row limit, escaping cells and closing the cursor', async () => {
+    const leads = stream([
+      { name: 'Doe, Jane', phone: '+1 555-123-4567', notes: '=HYPERLINK("http://example.com")' },
+      { name: 'Bob', phone: undefined, notes: 'Said "call later"' },
+    ]);
+    const leadRepo = { countLeads: jest.fn(), streamLeads: jest.fn((_query: unknown, _sort: unknown) => leads) };
+    const service = new LeadExportService(leadRepo as unknown as ILeadRepository, new LeadService());
+    const { output, text } = collect();
+
+    const count = await service.exportLeads({ ...exportRequest, format: 'csv' }, output);
+
+    expect(count).toBe(2);
+    expect(leadRepo.countLeads).not.toHaveBeenCalled();
+    expect(leadRepo.streamLeads).toHaveBeenCalledWith(expect.anything(), { leadDate: -1 });
+    expect(text()).toBe([
+      'Name,Phone,Notes',
+      '"Doe, Jane",+1 555-123-4567,"\'=HYPERLINK(""http://example.com"")"',
+      'Bob,,"Said ""call later"""',
+      '',
+    ].join('\r\n'));
+    expect(leads.close).toHaveBeenCalled();
+  });
+
+  it('rejects unknown columns', () => {
+    const service = new LeadExportService({} as ILeadRepository, new LeadService());
+
+    expect(() => service.resolveColumns(['name', 'password'])).toThrow('Unknown export columns: password');
+  });
+});
+
+describe('LeadImportService.importLeads', () => {
+  const mapping: LeadImportMapping = {
+    leadDate: 'Date',
+    name: 'Name',
+    email: 'Email',
+    phone: 'Phone',
+    zip: 'Zip',
+    service: 'Service',
+    status: 'Status',
+    jobBookedAmount: 'Amount',
+  };
+
+  const csv = [
+    'Date,Name,Email,Phone,Zip,Service,Status,Amount',
+    '2025-03-01,Jane Doe,jane@example.com,(555) 123-4567,75001,Roofing,Job Booked,"$1,200"',
+    '2025-03-02,Jane D,JANE@example.com,,75001,Roofing,,',
+    '2025-03-03,Bob Roe,,555-000-1111,75002,Siding,job_booked,',
+    '2025-03-04,Ann Poe,ann@,,75003,Siding,,',
+    '2025-03-05,Old Lead,old@example.com,,75004,Siding,new,',
+  ].join('\n');
+
+  function createService() {
+    const leadRepo = { getLeadsByClientId: jest.fn(async () => [{ email: 'Old@Example.com' }]) };
+    const leadService = new LeadService();
+    const bulkCreateLeads = jest.spyOn(leadService, 'bulkCreateLeads').mockResolvedValue(
+      { stats: { newInserts: 1, duplicatesUpdated: 0 } } as Awaited<ReturnType<LeadService['bulkCreateLeads']>>
+    );
+    const service = new LeadImportService(leadRepo as unknown as ILeadRepository, leadService);
+    return { service, bulkCreateLeads };
+  }
+
+  const input = (overrides: Partial<Parameters<LeadImportService['importLeads']>[0]> = {}) => ({
+    clientId: CLIENT_ID,
+    file: { buffer: Buffer.from(csv), originalname: 'leads.csv' },
+    mapping,
+    dryRun: true,
+    skipInvalidRows: false,
+    ...overrides,
+  });
+
+  it('rejects mapping values that are not column names, naming the fields', async () => {
+    const { service } = createService();
+    const badMapping = { ...mapping, phone: 3, email: '  ' } as unknown as LeadImportMapping;
+
+    await expect(service.importLeads(input({ mapping: badMapping }))).rejects.toMatchObject({
+      code: ErrorCode.VALIDATION_ERROR,
+      message: 'Mapping values must be non-empty column names: email, phone',
+    });
+  });
+
+  it('rejects unknown and missing mapped fields', async () => {
+    const { service } = createService();
+    const { zip: _zip, ...withoutZip } = mapping;
+
+    await expect(service.importLeads(input({ mapping: { ...mapping, password: 'Password' } as LeadImportMapping })))
+      .rejects.toThrow('Unknown lead fields in mapping: password');
+    await expect(service.importLeads(input({ mapping: withoutZip })))
+      .rejects.toThrow('Mapping is missing required fields: zip');
+  });
+
+  it('rejects mapped columns that are not in the file', async () => {
+    const { service } = createService();
+
+    await expect(service.importLeads(input({ mapping: { ...mapping, notes: 'Comments' } })))
+      .rejects.toThrow('Mapped columns not found in file: Comments');
+  });
+
+  it('reports invalid and duplicate rows in a dry run', async () => {
+    const { service, bulkCreateLeads } = createService();
+
+    const report = await service.importLeads(input());
+
+    expect(report).toMatchObject({ dryRun: true, committed: false, totalRows: 5, validRows: 1, invalidRows: 4 });
+    expect(report.preview[0]).toMatchObject({ name: 'Jane Doe', status: 'job_booked', jobBookedAmount: 1200 });
+    expect(report.errors).toEqual([
+      { row: 3, message: 'Duplicate of row 2 (same email or phone)' },
+      expect.objectContaining({ row: 4, field: 'jobBookedAmount', message: "jobBookedAmount is required for status 'job_booked'" }),
+      expect.objectContaining({ row: 5, field: 'email', message: 'Invalid email address' }),
+      { row: 6, message: 'Duplicate of an existing lead (same email or phone)' },
+    ]);
+    expect(bulkCreateLeads).not.toHaveBeenCalled();
+  });
+
+  it('blocks the import on invalid rows unless they are skipped', async () => {
+    const { service, bulkCreateLeads } = createService();
+
+    await expect(service.importLeads(input({ dryRun: false })))
+      .rejects.toMatchObject({ code: ErrorCode.VALIDATION_ERROR, details: { invalidRows: 4 } });
+    expect(bulkCreateLeads).not.toHaveBeenCalled();
+
+    const report = await service.importLeads(input({ dryRun: false, skipInvalidRows: true }));
+
+    expect(report).toMatchObject({ committed: true, database: { newLeadsAdded: 1, duplicatesUpdated: 0 } });
+    expect(bulkCreateLeads).toHaveBeenCalledWith([expect.objectContaining({ name: 'Jane Doe', entrySource: 'manual' })]);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  assertLeadStatusTransition,
+  checkLeadStatusTransition,
+  getMissingRequiredFields,
+  LeadTransitionErrorCode
+} from '../utils/leadStatusTransitions.js';
+import { CustomError, ErrorCode } from '../../../pkg/error/custom_error.js';
+
+describe('checkLeadStatusTransition', () => {
+  it('allows keeping the current status', () => {
+    expect(checkLeadStatusTransition('job_booked', 'job_booked', {})).toEqual({ allowed: true });
+  });
+
+  it('allows transitions of the graph', () => {
+    expect(checkLeadStatusTransition('new', 'in_progress', {}).allowed).toBe(true);
+    expect(checkLeadStatusTransition('estimate_set', 'proposal_presented', {}).allowed).toBe(true);
+  });
+
+  it('rejects transitions outside the graph', () => {
+    const check = checkLeadStatusTransition('new', 'proposal_presented', {});
+
+    expect(check.allowed).toBe(false);
+    expect(check.errorCode).toBe(LeadTransitionErrorCode.TRANSITION_NOT_ALLOWED);
+  });
+
+  it('requires a positive amount for job_booked', () => {
+    for (const jobBookedAmount of [undefined, 0, -5]) {
+      const check = checkLeadStatusTransition('estimate_set', 'job_booked', { jobBookedAmount });
+      expect(check.errorCode).toBe(LeadTransitionErrorCode.REQUIRED_FIELD_MISSING);
+      expect(check.missingFields).toEqual(['jobBookedAmount']);
+    }
+
+    expect(checkLeadStatusTransition('estimate_set', 'job_booked', { jobBookedAmount: 1200 }).allowed).toBe(true);
+  });
+
+  it('requires a non-blank reason for unqualified', () => {
+    expect(getMissingRequiredFields('unqualified', { unqualifiedLeadReason: '  ' })).toEqual(['unqualifiedLeadReason']);
+    expect(checkLeadStatusTransition('new', 'unqualified', { unqualifiedLeadReason: 'Out of area' }).allowed).toBe(true);
+  });
+
+  it('lets an override skip the graph but not the required fields', () => {
+    expect(checkLeadStatusTransition('new', 'job_lost', {}, true).allowed).toBe(true);
+
+    const check = checkLeadStatusTransition('new', 'job_booked', {}, true);
+    expect(check.errorCode).toBe(LeadTransitionErrorCode.REQUIRED_FIELD_MISSING);
+  });
+});
+
+describe('assertLeadStatusTransition', () => {
+  it('throws an invalid input error with the allowed transitions', () => {
+    let thrown: unknown;
+    try {
+      assertLeadStatusTransition('unqualified', 'job_booked', { jobBookedAmount: 500 });
+    } catch (error) {
+      thrown = error;
+    }
+
+    expect(thrown).toBeInstanceOf(CustomError);
+    const error = thrown as CustomError;
+    expect(error.code).toBe(ErrorCode.INVALID_INPUT);
+    expect(error.details).toMatchObject({
+      errorCode: LeadTransitionErrorCode.TRANSITION_NOT_ALLOWED,
+      from: 'unqualified',
+      to: 'job_booked',
+      allowedTransitions: ['in_progress'],
+    });
+  });
+
+  it('does not throw for an allowed transition', () => {
+    expect(() => assertLeadStatusTransition('proposal_presented', 'job_lost', {})).not.toThrow();
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { ScoringBacktestService } from '../service/ScoringBacktestService.js';
+import { LeadScoringService } from '../service/LeadScoringService.js';
+import { ILeadRepository, IScoringBacktestRepository, IScoringProfileRepository } from '../repository/interfaces.js';
+import { IScoringBacktestDocument } from '../repository/models/scoringBacktest.model.js';
+import { ILead, LeadStatus } from '../domain/leads.domain.js';
+import { DEFAULT_SCORING_PROFILE } from '../utils/leads.util.js';
+
+const CLIENT_ID = 'client-1';
+
+function lead(status: LeadStatus, leadDate: string, service: string): ILead {
+  return {
+    clientId: CLIENT_ID,
+    status,
+    leadDate,
+    service,
+    adSetName: 'Ad Set A',
+    adName: 'Ad A',
+    zip: '75001',
+  } as ILead;
+}
+
+function createService(leads: ILead[]) {
+  const leadRepo = { getLeadsByClientId: jest.fn(async () => leads) } as unknown as ILeadRepository;
+  const backtestRepo = {
+    createBacktest: jest.fn(async (data: unknown) => data as IScoringBacktestDocument),
+  } as unknown as IScoringBacktestRepository;
+  const scoringService = new LeadScoringService();
+  jest.spyOn(scoringService, 'getActiveScoringProfile').mockResolvedValue(DEFAULT_SCORING_PROFILE);
+
+  return new ScoringBacktestService(leadRepo, backtestRepo, {} as IScoringProfileRepository, scoringService);
+}
+
+const outcome = (score: number, estimateSet: boolean) => ({ score, estimateSet });
+
+describe('ScoringBacktestService.runBacktest', () => {
+  it('does not let leads see outcomes of the same day', async () => {
+    const service = createService([
+      lead('estimate_set', '2025-03-03', 'Roofing'),
+      lead('unqualified', '2025-03-03', 'Roofing'),
+    ]);
+
+    const backtest = await service.runBacktest({ clientId: CLIENT_ID });
+
+    // Both leads are scored from an empty history, so they tie
+    expect(backtest.status).toBe('completed');
+    expect(backtest.evaluatedLeads).toBe(2);
+    expect(backtest.auc).toBe(0.5);
+    expect(backtest.calibration[0]).toMatchObject({ range: '0-9', leads: 2, predictedRate: 0, actualRate: 0.5 });
+  });
+
+  it('scores later leads from earlier outcomes', async () => {
+    const service = createService([
+      ...['2025-03-03', '2025-03-04', '2025-03-05', '2025-03-06'].flatMap(day => [
+        lead('estimate_set', day, 'Roofing'),
+        lead('unqualified', day, 'Siding'),
+      ]),
+      lead('estimate_set', '2025-03-10', 'Roofing'),
+      lead('unqualified', '2025-03-10', 'Siding'),
+    ]);
+
+    const backtest = await service.runBacktest({ clientId: CLIENT_ID });
+
+    expect(backtest.totalLeads).toBe(10);
+    expect(backtest.overallConversionRate).toBe(0.5);
+    expect(backtest.auc).toBeGreaterThan(0.5);
+    expect(backtest.dateRange).toEqual({ from: '2025-03-03', to: '2025-03-10' });
+  });
+
+  it('skips leads without an outcome and reports no AUC for a single class', async () => {
+    const service = createService([
+      lead('new', '2025-03-03', 'Roofing'),
+      lead('estimate_set', '2025-03-04', 'Roofing'),
+    ]);
+
+    const backtest = await service.runBacktest({ clientId: CLIENT_ID });
+
+    expect(backtest.totalLeads).toBe(2);
+    expect(backtest.evaluatedLeads).toBe(1);
+    expect(backtest.auc).toBeNull();
+  });
+});
+
+describe('ScoringBacktestService metrics', () => {
+  const service = createService([]);
+
+  it('calculates the AUC with average ranks for ties', () => {
+    expect(service['calculateAuc']([outcome(80, true), outcome(20, false)])).toBe(1);
+    expect(service['calculateAuc']([outcome(50, true), outcome(50, false)])).toBe(0.5);
+    // 3 of 4 pairs ranked right, one tied
+    expect(service['calculateAuc']([
+      outcome(90, true),
+      outcome(50, true),
+      outcome(50, false),
+      outcome(10, false),
+    ])).toBe(0.875);
+  });
+
+  it('calculates decile lift against the overall conversion rate', () => {
+    const outcomes = [100, 90, 80, 70, 60, 50, 40, 30, 20, 10].map((score, index) => outcome(score, index < 2));
+
+    const deciles = service['buildDeciles'](outcomes, 0.2);
+
+    expect(deciles).toHaveLength(10);
+    expect(deciles[0]).toMatchObject({ decile: 1, maxScore: 100, conversionRate: 1, lift: 5, cumulativeLift: 5 });
+    expect(deciles[2]).toMatchObject({ decile: 3, conversionRate: 0, lift: 0, cumulativeLift: 3.33 });
+  });
+
+  it('buckets calibration by score', () => {
+    const buckets = service['buildCalibrationBuckets']([outcome(95, true), outcome(100, false), outcome(5, false)]);
+
+    expect(buckets[9]).toEqual({ range: '90-100', leads: 2, predictedRate: 0.975, actualRate: 0.5 });
+    expect(buckets[0]).toEqual({ range: '0-9', leads: 1, predictedRate: 0.05, actualRate: 0 });
+  });
+});
@@ -13,6 +13,23 @@ export const LEAD_CONFIG = {
     zip: 50
   } as const,
   
+  // Bayesian smoothing of conversion rates toward the client's overall rate
+  CONVERSION_RATE_SMOOTHING: {
+    PRIOR_STRENGTH: 10,  // pseudo-outcomes at the client's overall rate blended into every key
+    MIN_SAMPLE_SIZE: 3   // keys with fewer outcomes than this use the client's overall rate as-is
+  } as const,
+
+  // Time decay of conversion rates - default for every conversion rate recompute
+  CONVERSION_RATE_DECAY: {
+    HALF_LIFE_WEEKS: 26  // a lead's outcome counts half as much every 26 weeks of leadDate age
+  } as const,
+
+  // Duplicate lead detection
+  DEDUP: {
+    NAME_SIMILARITY_THRESHOLD: 0.85, // 1 - edit distance / length of the longer normalized name
+    ZIP_LENGTH: 5                    // zips are compared on their first 5 characters
+  } as const,
+
   // Score boundaries
   SCORE_BOUNDS: {
     MIN: 0,
@@ -76,6 +93,12 @@ export const LEAD_CONFIG = {
     GID_REGEX: /[?&#]gid=([0-9]+)/
   } as const,
   
+  // Lead export
+  EXPORT: {
+    // XLSX workbooks are built in memory; larger exports have to use the streamed CSV format
+    XLSX_MAX_ROWS: 10000
+  } as const,
+
   // Performance settings
   PERFORMANCE: {
     DEFAULT_AD_SET_PAGE_SIZE: 15,
@@ -86,4 +109,4 @@ export const LEAD_CONFIG = {
 } as const;
 
 // Export individual configs for convenience
-export const { FIELD_WEIGHTS, SCORE_BOUNDS, DISENGAGEMENT, MONTH_MAP, ANALYTICS, SHEET, VALIDATION, PERFORMANCE } = LEAD_CONFIG;
+export const { FIELD_WEIGHTS, CONVERSION_RATE_SMOOTHING, CONVERSION_RATE_DECAY, DEDUP, SCORE_BOUNDS, DISENGAGEMENT, MONTH_MAP, ANALYTICS, SHEET, VALIDATION, EXPORT, PERFORMANCE } = LEAD_CONFIG;
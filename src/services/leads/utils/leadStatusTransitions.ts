@@ -0,0 +1,120 @@
+/**
+ * Lead status state machine
+ *
+ * Declares which status changes are allowed and which fields must be provided when a
+ * lead enters a status. Used for manual updates, the update-lead webhook and the GHL sync.
+ */
+
+import { ILead, LeadStatus } from '../domain/leads.domain.js';
+import { CustomError, ErrorCode } from '../../../pkg/error/custom_error.js';
+
+export enum LeadTransitionErrorCode {
+  TRANSITION_NOT_ALLOWED = 'TRANSITION_NOT_ALLOWED',
+  REQUIRED_FIELD_MISSING = 'REQUIRED_FIELD_MISSING'
+}
+
+export type TransitionRequiredField = keyof Pick<ILead, 'jobBookedAmount' | 'unqualifiedLeadReason'>;
+
+// Allowed next statuses for every status. Keeping the current status is always allowed.
+export const LEAD_STATUS_TRANSITIONS: Readonly<Record<LeadStatus, readonly LeadStatus[]>> = {
+  new: ['in_progress', 'estimate_set', 'virtual_quote', 'unqualified'],
+  in_progress: ['estimate_set', 'virtual_quote', 'unqualified'],
+  estimate_set: ['estimate_rescheduled', 'estimate_canceled', 'virtual_quote', 'proposal_presented', 'job_booked', 'job_lost'],
+  estimate_rescheduled: ['estimate_set', 'estimate_canceled', 'virtual_quote', 'proposal_presented', 'job_booked', 'job_lost'],
+  virtual_quote: ['estimate_set', 'estimate_canceled', 'proposal_presented', 'job_booked', 'job_lost'],
+  estimate_canceled: ['in_progress', 'estimate_set', 'estimate_rescheduled', 'unqualified'],
+  proposal_presented: ['estimate_rescheduled', 'job_booked', 'job_lost'],
+  job_booked: ['job_lost'],
+  job_lost: ['estimate_set', 'proposal_presented', 'job_booked'],
+  unqualified: ['in_progress']
+};
+
+// Fields that must be provided when a lead enters a status
+export const LEAD_STATUS_REQUIRED_FIELDS: Readonly<Partial<Record<LeadStatus, readonly TransitionRequiredField[]>>> = {
+  job_booked: ['jobBookedAmount'],
+  unqualified: ['unqualifiedLeadReason']
+};
+
+export interface LeadTransitionCheck {
+  allowed: boolean;
+  errorCode?: LeadTransitionErrorCode;
+  message?: string;
+  missingFields?: TransitionRequiredField[];
+}
+
+export function getAllowedTransitions(status: LeadStatus): readonly LeadStatus[] {
+  return LEAD_STATUS_TRANSITIONS[status] ?? [];
+}
+
+/**
+ * Required fields of a status that are missing or empty. jobBookedAmount has to be above 0.
+ */
+export function getMissingRequiredFields(
+  status: LeadStatus,
+  fields: Partial<Pick<ILead, TransitionRequiredField>>
+): TransitionRequiredField[] {
+  return (LEAD_STATUS_REQUIRED_FIELDS[status] ?? []).filter(field => {
+    const value = fields[field];
+    if (field === 'jobBookedAmount') {
+      return value === undefined || value === null || !(Number(value) > 0);
+    }
+    return typeof value !== 'string' || value.trim() === '';
+  });
+}
+
+/**
+ * Check a status change against the transition graph and the required fields of the target status.
+ * With override (admins only) any transition is allowed, but required fields are still checked.
+ */
+export function checkLeadStatusTransition(
+  from: LeadStatus,
+  to: LeadStatus,
+  fields: Partial<Pick<ILead, TransitionRequiredField>>,
+  override: boolean = false
+): LeadTransitionCheck {
+  if (from === to) {
+    return { allowed: true };
+  }
+
+  if (!override && !getAllowedTransitions(from).includes(to)) {
+    return {
+      allowed: false,
+      errorCode: LeadTransitionErrorCode.TRANSITION_NOT_ALLOWED,
+      message: `Status cannot change from '${from}' to '${to}'`
+    };
+  }
+
+  const missingFields = getMissingRequiredFields(to, fields);
+
+  if (missingFields.length > 0) {
+    return {
+      allowed: false,
+      errorCode: LeadTransitionErrorCode.REQUIRED_FIELD_MISSING,
+      message: `Status '${to}' requires: ${missingFields.join(', ')}`,
+      missingFields
+    };
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Same as checkLeadStatusTransition, but throws a CustomError with the structured details
+ */
+export function assertLeadStatusTransition(
+  from: LeadStatus,
+  to: LeadStatus,
+  fields: Partial<Pick<ILead, TransitionRequiredField>>,
+  override: boolean = false
+): void {
+  const check = checkLeadStatusTransition(from, to, fields, override);
+  if (check.allowed) return;
+
+  throw new CustomError(ErrorCode.INVALID_INPUT, check.message, {
+    errorCode: check.errorCode,
+    from,
+    to,
+    allowedTransitions: getAllowedTransitions(from),
+    ...(check.missingFields ? { missingFields: check.missingFields } : {})
+  });
+}
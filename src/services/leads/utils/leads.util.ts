@@ -1,5 +1,7 @@
 import { IConversionRate } from "../repository/models/conversionRate.model.js";
+import { IScoringProfileDocument } from "../repository/models/scoringProfile.model.js";
 import { ILead } from "../domain/leads.domain.js";
+import { facebookConversionApiService } from "../../facebook/conversionApiService.js";
 
 /**
  * Lead Service Utility Functions
@@ -15,6 +17,18 @@ export const FIELD_WEIGHTS = {
   zip: 50
 } as const;
 
+// Default profile used when a client has no active scoring profile
+export const DEFAULT_SCORING_PROFILE: ResolvedScoringProfile = {
+  profileId: null,
+  name: 'default',
+  version: 0,
+  fieldWeights: { ...FIELD_WEIGHTS },
+  extraFieldWeights: {
+    phonePresent: 0,
+    emailPresent: 0
+  }
+};
+
 // Static month map for better performance
 export const MONTH_MAP: Record<string, number> = {
   january: 0,
@@ -122,34 +136,58 @@ export function getDateConversionRateFromMap(conversionRatesMap: Map<string, num
 // Removed deprecated getConversionRate function - use getConversionRateFromMap for better performance
 
 /**
- * Calculate lead score using conversion rates map and field weights
+ * Calculate lead score from the lead's conversion rates with the scoring profile's weights.
+ * Extra fields award their full weight when the value is present on the lead.
+ * Shared by live scoring, previews and backtests so they all score the same way.
  */
 export function calculateLeadScore(
-  lead: { service: string; adSetName: string; adName: string; leadDate: string; zip?: string },
-  conversionRatesMap: Map<string, number>
+  conversionRates: Record<LeadKeyField, number>,
+  lead: { phone?: string; email?: string },
+  scoringProfile: ResolvedScoringProfile = DEFAULT_SCORING_PROFILE
 ): number {
-  if (!conversionRatesMap || conversionRatesMap.size === 0) {
-    return 0;
+  const { fieldWeights, extraFieldWeights } = scoringProfile;
+  let weightedScore =
+    (conversionRates.service * fieldWeights.service) +
+    (conversionRates.adSetName * fieldWeights.adSetName) +
+    (conversionRates.adName * fieldWeights.adName) +
+    (conversionRates.leadDate * fieldWeights.leadDate) +
+    (conversionRates.zip * fieldWeights.zip);
+
+  if (!isEmptyValue(safeStringTrim(lead.phone))) {
+    weightedScore += extraFieldWeights.phonePresent;
+  }
+  if (!isEmptyValue(safeStringTrim(lead.email))) {
+    weightedScore += extraFieldWeights.emailPresent;
   }
 
-  // Use map lookups for O(1) access instead of array.find() which is O(n)
-  const serviceRate = getConversionRateFromMap(conversionRatesMap, 'service', lead.service);
-  const adSetRate = getConversionRateFromMap(conversionRatesMap, 'adSetName', lead.adSetName);
-  const adNameRate = getConversionRateFromMap(conversionRatesMap, 'adName', lead.adName);
-  const dateRate = getDateConversionRateFromMap(conversionRatesMap, lead.leadDate);
-  const zipRate = getConversionRateFromMap(conversionRatesMap, 'zip', lead.zip || '');
-
-  const weightedScore = 
-    (serviceRate * FIELD_WEIGHTS.service) +
-    (adSetRate * FIELD_WEIGHTS.adSetName) +
-    (adNameRate * FIELD_WEIGHTS.adName) +
-    (dateRate * FIELD_WEIGHTS.leadDate) +
-    (zipRate * FIELD_WEIGHTS.zip);
-
-  // Simplified calculation - weightedScore is already 0-100 range
   return Math.round(Math.max(0, Math.min(100, weightedScore)));
 }
 
+/**
+ * Convert a stored scoring profile into the weights used by the scoring engine
+ * Missing extra field weights fall back to 0 so older profiles keep scoring the same way
+ */
+export function toResolvedScoringProfile(profile: IScoringProfileDocument | null): ResolvedScoringProfile {
+  if (!profile) return DEFAULT_SCORING_PROFILE;
+
+  return {
+    profileId: String(profile._id),
+    name: profile.name,
+    version: profile.version,
+    fieldWeights: {
+      service: profile.fieldWeights.service,
+      adSetName: profile.fieldWeights.adSetName,
+      adName: profile.fieldWeights.adName,
+      leadDate: profile.fieldWeights.leadDate,
+      zip: profile.fieldWeights.zip
+    },
+    extraFieldWeights: {
+      phonePresent: profile.extraFieldWeights?.phonePresent ?? 0,
+      emailPresent: profile.extraFieldWeights?.emailPresent ?? 0
+    }
+  };
+}
+
 export function isValidMonthName(monthName: string): boolean {
   return monthName.toLowerCase() in MONTH_MAP;
 }
@@ -202,6 +240,25 @@ export function isEmptyValue(value: string): boolean {
   return !value || value.length === 0;
 }
 
+/**
+ * Email as compared when looking for duplicate leads; null when there is none
+ */
+export function normalizeContactEmail(email?: string | null): string | null {
+  const normalized = (email || '').trim().toLowerCase();
+  return normalized || null;
+}
+
+/**
+ * Phone as compared when looking for duplicate leads; null when there is none or it has no
+ * digits, e.g. placeholders like "N/A" or "-"
+ */
+export function normalizeContactPhone(phone?: string | null): string | null {
+  if (!phone || !phone.trim()) return null;
+  const normalized = facebookConversionApiService.normalizePhone(phone);
+  // "+1" alone means there were no digits at all
+  return normalized.replace(/\D/g, '').length > 1 ? normalized : null;
+}
+
 // ---------------- TYPE DEFINITIONS ----------------
 
 export type LeadKeyField = "service" | "adSetName" | "adName" | "leadDate" | "zip";
@@ -210,3 +267,20 @@ export type UniqueKey = {
   value: string;
   field: LeadKeyField;
 };
+
+export type ExtraScoringField = "phonePresent" | "emailPresent";
+
+export type ScoringFieldWeights = Record<LeadKeyField, number>;
+
+export type ExtraFieldWeights = Record<ExtraScoringField, number>;
+
+/**
+ * Scoring profile with all weights filled in - either a client's active profile or the default
+ */
+export interface ResolvedScoringProfile {
+  profileId: string | null;
+  name: string;
+  version: number;
+  fieldWeights: ScoringFieldWeights;
+  extraFieldWeights: ExtraFieldWeights;
+}
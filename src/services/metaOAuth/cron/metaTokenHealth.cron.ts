@@ -0,0 +1,88 @@
+import cron from 'node-cron';
+import { config } from '../../../config.js';
+import logger from '../../../utils/logger.js';
+import { MongoCronLogger } from '../../../utils/mongoCronLogger.js';
+import { MetaTokenCheckSummary } from '../domain/metaOAuth.domain.js';
+import metaTokenHealthService from '../service/tokenHealth.service.js';
+
+class MetaTokenHealthCron {
+  private isRunning = false;
+
+  public start(): void {
+    const schedule = config.META_TOKEN_HEALTH_CRON; // Default: daily at 6 AM UTC
+    cron.schedule(
+      schedule,
+      async () => {
+        if (this.isRunning) {
+          logger.warn('[Meta Token Health Cron] Already running; skipping this tick');
+          return;
+        }
+        await this.runOnce();
+      },
+      { timezone: 'UTC' },
+    );
+
+    logger.info(`[Meta Token Health Cron] Scheduled with '${schedule}'`);
+  }
+
+  public isRunningCheck(): boolean {
+    return this.isRunning;
+  }
+
+  public async runOnce(
+    options: { warningDays?: number; type?: 'manual' | 'cron' } = {}
+  ): Promise<MetaTokenCheckSummary | null> {
+    this.isRunning = true;
+    const start = new Date();
+    const executionId = start.toISOString().replace(/[:.]/g, '-');
+    const type = options.type ?? 'cron';
+    const warningDays = options.warningDays ?? config.META_TOKEN_EXPIRY_WARNING_DAYS;
+    let logId: any = null;
+    let summary: MetaTokenCheckSummary | null = null;
+
+    try {
+      logId = await MongoCronLogger.logCronJobStart({
+        jobName: 'metaTokenHealth',
+        details: { startedAt: start.toISOString(), warningDays },
+        executionId,
+        type,
+      });
+
+      logger.info('[Meta Token Health Cron] Checking Meta tokens', { warningDays });
+
+      summary = await metaTokenHealthService.checkAllTokens(warningDays);
+
+      await MongoCronLogger.logCronJobSuccess({
+        logId,
+        details: { ...summary, completedAt: new Date().toISOString() },
+        processedCount: summary.checked,
+      });
+
+      logger.info('[Meta Token Health Cron] Check completed', {
+        checked: summary.checked,
+        invalid: summary.invalid,
+        expiringSoon: summary.expiringSoon.length,
+        failedClients: summary.failedClients.length,
+      });
+    } catch (error: any) {
+      logger.error('[Meta Token Health Cron] Check failed', {
+        error: error?.message || String(error),
+        stack: error?.stack,
+      });
+
+      if (logId) {
+        await MongoCronLogger.logCronJobFailure({
+          logId,
+          error: error?.message || String(error),
+          details: { stack: error?.stack },
+        });
+      }
+    } finally {
+      this.isRunning = false;
+    }
+
+    return summary;
+  }
+}
+
+export default new MetaTokenHealthCron();
@@ -0,0 +1,49 @@
+import { MetaTokenKind } from "../../user/domain/user.domain.js";
+
+// not_connected: no token of its own; unchecked: not seen by the health check yet
+export type MetaTokenStatus = 'healthy' | 'expiring' | 'expired' | 'invalid' | 'unchecked' | 'not_connected';
+
+export interface MetaTokenDebugInfo {
+  isValid: boolean;
+  kind: MetaTokenKind;
+  // null when the token does not expire, e.g. system-user tokens
+  expiresAt: Date | null;
+  scopes: string[];
+  error: string | null;
+}
+
+export interface MetaTokenHealth {
+  status: MetaTokenStatus;
+  kind: MetaTokenKind | null;
+  expiresAt: Date | null;
+  daysUntilExpiry: number | null;
+  checkedAt: Date | null;
+  error: string | null;
+}
+
+export interface MetaClientConnection {
+  clientId: string;
+  name: string;
+  email: string;
+  fbAdAccountId: string | null;
+  connectedAt: Date | null;
+  // Which token the client's Meta requests use
+  tokenSource: 'client' | 'shared';
+  ownToken: MetaTokenHealth;
+  effectiveToken: MetaTokenHealth;
+}
+
+export interface MetaConnectionHealthReport {
+  warningDays: number;
+  sharedToken: MetaTokenHealth & { ownerId: string };
+  clients: MetaClientConnection[];
+}
+
+export interface MetaTokenCheckSummary {
+  warningDays: number;
+  checked: number;
+  valid: number;
+  invalid: number;
+  expiringSoon: Array<{ clientId: string; name: string; expiresAt: Date | null; daysUntilExpiry: number | null }>;
+  failedClients: Array<{ clientId: string; error: string }>;
+}
@@ -1,5 +1,8 @@
 import axios from 'axios';
+import jwt from 'jsonwebtoken';
 import { config } from '../../../config.js';
+import { MetaTokenKind } from '../../user/domain/user.domain.js';
+import { MetaTokenDebugInfo } from '../domain/metaOAuth.domain.js';
 import { CustomError, ErrorCode } from '../../../pkg/error/custom_error.js';
 import di from '../../../di/di.js';
 import utils from '../../../utils/utils.js';
@@ -8,8 +11,15 @@ interface TokenData {
   accessToken: string;
   tokenType: string;
   expiresIn: number;
+  kind?: MetaTokenKind;
+  scopes?: string[];
 }
 
+// Permissions asked for when a client connects their own Meta account
+const CONNECT_SCOPES = ['ads_read', 'ads_management', 'business_management', 'leads_retrieval'];
+// purpose claim of the OAuth state, so a login token signed with the same secret is not a valid state
+const CONNECT_STATE_PURPOSE = 'meta_connect';
+
 export class MetaOAuthService {
   /**
    * Exchange authorization code for short-lived access token
@@ -111,13 +121,19 @@ export class MetaOAuthService {
         });
       }
 
-      const expiresAt = new Date(Date.now() + (tokenData.expiresIn * 1000));
+      // System-user tokens come without expires_in and do not expire
+      const expiresAt = tokenData.expiresIn > 0 ? new Date(Date.now() + (tokenData.expiresIn * 1000)) : null;
 
       await di.UserService().updateUser(userId, {
         metaAccessToken: tokenData.accessToken,
         metaTokenExpiresAt: expiresAt,
         metaTokenType: tokenData.tokenType,
         metaConnectedAt: new Date(),
+        metaTokenKind: tokenData.kind ?? 'user',
+        metaTokenValid: true,
+        metaTokenCheckedAt: new Date(),
+        metaTokenError: null,
+        ...(tokenData.scopes ? { metaTokenScopes: tokenData.scopes } : {}),
       });
     } catch (error) {
       throw utils.ThrowableError(error);
@@ -132,14 +148,106 @@ export class MetaOAuthService {
       // Step 1: Exchange code for short-lived token
       const shortLivedToken = await this.exchangeCodeForToken(code);
 
-      // Step 2: Exchange for long-lived token (recommended for production)
+      // Step 2: System-user tokens are stored as they are; user tokens are exchanged for a
+      // long-lived token. Without token details it is treated as a user token.
+      const debugInfo = await this.debugToken(shortLivedToken.accessToken).catch(() => null);
+      if (debugInfo?.kind === 'system_user') {
+        await this.storeMetaToken(userId, { ...shortLivedToken, kind: 'system_user', scopes: debugInfo.scopes });
+        return;
+      }
+
       const longLivedToken = await this.getLongLivedToken(shortLivedToken.accessToken);
 
       // Step 3: Store the long-lived token
-      await this.storeMetaToken(userId, longLivedToken);
+      await this.storeMetaToken(userId, { ...longLivedToken, kind: 'user', scopes: debugInfo?.scopes });
     } catch (error) {
       throw utils.ThrowableError(error);
     }
   }
-}
 
+  /**
+   * Inspect a token with Meta's debug_token endpoint, authenticated as the app
+   */
+  async debugToken(accessToken: string): Promise<MetaTokenDebugInfo> {
+    try {
+      const response = await axios.get(
+        `https://graph.facebook.com/${config.META_API_VERSION}/debug_token`,
+        {
+          params: {
+            input_token: accessToken,
+            access_token: `${config.META_CLIENT_ID}|${config.META_CLIENT_SECRET}`,
+          },
+        }
+      );
+
+      const data = response.data?.data;
+      if (!data) {
+        throw new CustomError(ErrorCode.INTERNAL_SERVER_ERROR, {
+          message: 'Meta returned no token details',
+          status: 500,
+        });
+      }
+
+      // expires_at is 0 for tokens that do not expire
+      return {
+        isValid: data.is_valid === true,
+        kind: data.type === 'SYSTEM_USER' ? 'system_user' : 'user',
+        expiresAt: data.expires_at ? new Date(data.expires_at * 1000) : null,
+        scopes: Array.isArray(data.scopes) ? data.scopes : [],
+        error: data.error?.message ?? null,
+      };
+    } catch (error: any) {
+      if (error instanceof CustomError) throw error;
+      const errorMessage = error.response?.data?.error?.message || error.message || 'Failed to debug token';
+      throw new CustomError(ErrorCode.INTERNAL_SERVER_ERROR, {
+        message: errorMessage,
+        status: error.response?.status || 500,
+      });
+    }
+  }
+
+  /**
+   * Meta login dialog URL for a client to connect their own account. The state names the
+   * client so the callback stores the token on them instead of on the shared token owner.
+   */
+  getConnectUrl(clientId: string): string {
+    const params = new URLSearchParams({
+      client_id: config.META_CLIENT_ID,
+      redirect_uri: config.META_REDIRECT_URI,
+      state: this.createConnectState(clientId),
+      scope: CONNECT_SCOPES.join(','),
+      response_type: 'code',
+    });
+    return `https://www.facebook.com/${config.META_API_VERSION}/dialog/oauth?${params.toString()}`;
+  }
+
+  /**
+   * Client ID from the state of an OAuth callback
+   */
+  resolveConnectState(state: string): string {
+    try {
+      const payload = jwt.verify(state, this.getStateSecret()) as { clientId?: string; purpose?: string };
+      // Login tokens share the secret; only states created by createConnectState are accepted
+      if (payload.purpose !== CONNECT_STATE_PURPOSE || !payload.clientId) {
+        throw new Error('state is not a Meta connect state');
+      }
+      return payload.clientId;
+    } catch (error) {
+      throw new CustomError(ErrorCode.INVALID_INPUT, {
+        message: 'Invalid or expired Meta connection state',
+        status: 400,
+      });
+    }
+  }
+
+  private createConnectState(clientId: string): string {
+    return jwt.sign({ clientId, purpose: CONNECT_STATE_PURPOSE }, this.getStateSecret(), { expiresIn: '15m' });
+  }
+
+  private getStateSecret(): string {
+    if (!config.JWT_SECRET_KEY) {
+      throw new Error('JWT_SECRET_KEY is not defined');
+    }
+    return config.JWT_SECRET_KEY;
+  }
+}
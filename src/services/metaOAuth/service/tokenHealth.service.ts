@@ -0,0 +1,117 @@
+import { config } from '../../../config.js';
+import di from '../../../di/di.js';
+import logger from '../../../utils/logger.js';
+import { CustomError, ErrorCode } from '../../../pkg/error/custom_error.js';
+import {
+  MetaClientConnection,
+  MetaConnectionHealthReport,
+  MetaTokenCheckSummary
+} from '../domain/metaOAuth.domain.js';
+import { getMetaTokenHealth, isMetaTokenUsable } from '../utils/tokenStatus.js';
+import { MetaOAuthService } from './service.js';
+
+export class MetaTokenHealthService {
+  private metaOAuthService: MetaOAuthService;
+
+  constructor() {
+    this.metaOAuthService = new MetaOAuthService();
+  }
+
+  /**
+   * Check every stored token with debug_token and save validity, expiry and scopes on the user.
+   * A client whose check fails is logged and skipped, their stored health stays as it was.
+   */
+  async checkAllTokens(warningDays: number = config.META_TOKEN_EXPIRY_WARNING_DAYS): Promise<MetaTokenCheckSummary> {
+    this.validateWarningDays(warningDays);
+    const users = (await di.UserService().getMetaConnectedUsers()).filter((user) => !!user.metaAccessToken);
+
+    const summary: MetaTokenCheckSummary = {
+      warningDays,
+      checked: 0,
+      valid: 0,
+      invalid: 0,
+      expiringSoon: [],
+      failedClients: [],
+    };
+
+    for (const user of users) {
+      const clientId = String(user._id);
+      try {
+        const info = await this.metaOAuthService.debugToken(user.metaAccessToken!);
+        const updated = await di.UserService().updateUser(clientId, {
+          metaTokenValid: info.isValid,
+          metaTokenCheckedAt: new Date(),
+          metaTokenError: info.isValid ? null : info.error ?? 'Token is not valid',
+          metaTokenExpiresAt: info.expiresAt,
+          metaTokenKind: info.kind,
+          metaTokenScopes: info.scopes,
+        });
+
+        summary.checked++;
+        if (info.isValid) summary.valid++;
+        else summary.invalid++;
+
+        const health = getMetaTokenHealth(updated, warningDays);
+        if (health.status === 'expiring') {
+          summary.expiringSoon.push({
+            clientId,
+            name: user.name,
+            expiresAt: health.expiresAt,
+            daysUntilExpiry: health.daysUntilExpiry,
+          });
+          logger.warn('[Meta Token Health] Token expires soon', { clientId, expiresAt: health.expiresAt });
+        } else if (!info.isValid) {
+          logger.warn('[Meta Token Health] Token is not valid', { clientId, error: info.error });
+        }
+      } catch (error: any) {
+        logger.error('[Meta Token Health] Token check failed', { clientId, error: error?.message || String(error) });
+        summary.failedClients.push({ clientId, error: error?.message || String(error) });
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Connection health of the shared token and of every client with an ad account or a token
+   * of their own, from the last check
+   */
+  async getConnectionHealth(warningDays: number = config.META_TOKEN_EXPIRY_WARNING_DAYS): Promise<MetaConnectionHealthReport> {
+    this.validateWarningDays(warningDays);
+    const now = new Date();
+    const [users, sharedOwner] = await Promise.all([
+      di.UserService().getMetaConnectedUsers(),
+      di.UserService().getUserById(config.META_USER_TOKEN_ID),
+    ]);
+    const sharedToken = getMetaTokenHealth(sharedOwner, warningDays, now);
+
+    const clients = users.map((user): MetaClientConnection => {
+      const ownToken = getMetaTokenHealth(user, warningDays, now);
+      const usesOwnToken = isMetaTokenUsable(user, now);
+      return {
+        clientId: String(user._id),
+        name: user.name,
+        email: user.email,
+        fbAdAccountId: user.fbAdAccountId ?? null,
+        connectedAt: user.metaConnectedAt ?? null,
+        tokenSource: usesOwnToken ? 'client' : 'shared',
+        ownToken,
+        effectiveToken: usesOwnToken ? ownToken : sharedToken,
+      };
+    });
+
+    return {
+      warningDays,
+      sharedToken: { ...sharedToken, ownerId: config.META_USER_TOKEN_ID },
+      clients,
+    };
+  }
+
+  private validateWarningDays(warningDays: number): void {
+    if (typeof warningDays !== 'number' || !Number.isInteger(warningDays) || warningDays < 0) {
+      throw new CustomError(ErrorCode.VALIDATION_ERROR, 'warningDays must be a non-negative integer');
+    }
+  }
+}
+
+export default new MetaTokenHealthService();
@@ -0,0 +1,40 @@
+import { IUser } from "../../user/domain/user.domain.js";
+import { MetaTokenHealth } from "../domain/metaOAuth.domain.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Health of the Meta token stored on a user, from what the last check and the OAuth callback saved
+ */
+export function getMetaTokenHealth(user: IUser | null, warningDays: number, now: Date = new Date()): MetaTokenHealth {
+  const expiresAt = user?.metaTokenExpiresAt ?? null;
+  const health: MetaTokenHealth = {
+    status: 'healthy',
+    kind: user?.metaTokenKind ?? null,
+    expiresAt,
+    daysUntilExpiry: expiresAt ? Math.floor((expiresAt.getTime() - now.getTime()) / DAY_MS) : null,
+    checkedAt: user?.metaTokenCheckedAt ?? null,
+    error: user?.metaTokenError ?? null,
+  };
+
+  if (!user?.metaAccessToken) {
+    health.status = 'not_connected';
+  } else if (user.metaTokenValid === false) {
+    health.status = 'invalid';
+  } else if (expiresAt && expiresAt <= now) {
+    health.status = 'expired';
+  } else if (expiresAt && expiresAt.getTime() - now.getTime() <= warningDays * DAY_MS) {
+    health.status = 'expiring';
+  } else if (user.metaTokenValid == null) {
+    health.status = 'unchecked';
+  }
+  return health;
+}
+
+/**
+ * A token that Meta has not rejected and that has not expired can still be used
+ */
+export function isMetaTokenUsable(user: IUser | null, now: Date = new Date()): boolean {
+  const status = getMetaTokenHealth(user, 0, now).status;
+  return status !== 'not_connected' && status !== 'invalid' && status !== 'expired';
+}
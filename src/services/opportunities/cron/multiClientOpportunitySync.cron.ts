@@ -3,10 +3,21 @@ import { config } from '../../../config.js';
 import logger from '../../../utils/logger.js';
 import { MongoCronLogger } from '../../../utils/mongoCronLogger.js';
 import opportunitySyncService from '../service/sync.service.js';
-import { ActualService } from '../../actual/service/service.js';
+import ghlSyncStateService from '../service/ghlSyncState.service.js';
+import { ActualReconciliationService } from '../../actual/service/reconciliation.service.js';
 import http from '../../../pkg/http/client.js';
+import ghlApiClient from '../../ghlClient/api/ghlApiClient.js';
 import { DateUtils } from '../../../utils/date.utils.js';
 import ghlClientService from '../../ghlClient/service/service.js';
+import { GhlTagMapping } from '../../ghlClient/domain/ghlClient.domain.js';
+import {
+  collectOpportunityTags,
+  getActualsTargetTags,
+  hasAnyTag,
+  hasLeadSourceTag,
+  resolveTagMapping,
+  toTagSet,
+} from '../../ghlClient/utils/tagMapping.js';
 
 type RetryOptions = {
   retries: number;
@@ -30,10 +41,6 @@ async function withRetry<T>(fn: () => Promise<T>, { retries, baseDelayMs }: Retr
   }
 }
 
-async function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
 /**
  * Parse date from customfield2 format: "2025-11-25 03:43 PM"
  */
@@ -75,12 +82,34 @@ function isDateInWeekRange(date: Date | null, startDateStr: string, endDateStr:
   return date >= startDate && date <= endDate;
 }
 
+/**
+ * Fetch a contact through the contact cache; refresh bypasses the cache read.
+ * Pacing and retries are left to the GHL API client.
+ */
+async function getCachedContact(
+  contactId: string,
+  contactVersion: string,
+  locationId: string,
+  decryptedToken: string,
+  refresh: boolean
+) {
+  return ghlSyncStateService.getContact(
+    locationId,
+    contactId,
+    contactVersion,
+    () => ghlApiClient.getContact(locationId, contactId, decryptedToken),
+    refresh
+  );
+}
+
 /**
  * Fetch contact and extract the relevant date based on tags
  * Returns the date if found, null otherwise
  */
 async function getContactDate(
   contactId: string,
+  contactVersion: string,
+  refresh: boolean,
   locationId: string,
   decryptedToken: string,
   tags: Set<string>,
@@ -91,39 +120,16 @@ async function getContactDate(
     apptCompletedTagDateFieldId?: string;
     disqualifiedTagDateFieldId?: string;
   },
-  retry: RetryOptions = { retries: 3, baseDelayMs: 1000 }
+  tagMapping: GhlTagMapping
 ): Promise<Date | null> {
   try {
-    const clientHttp = new http(config.GHL_BASE_URL, 15000);
-    const resp = await withRetry(
-      async () => {
-        try {
-          return await clientHttp.get<any>(`/contacts/${encodeURIComponent(contactId)}`, {
-            headers: {
-              Authorization: `Bearer ${decryptedToken}`,
-              Version: '2021-07-28',
-            },
-          });
-        } catch (error: any) {
-          // If we get a 429, throw a specific error that can be handled
-          if (error?.message?.includes('429') || error?.code === 429) {
-            const rateLimitError: any = new Error('Rate limit exceeded');
-            rateLimitError.code = 429;
-            throw rateLimitError;
-          }
-          throw error;
-        }
-      },
-      retry,
-    );
-    
-    const contact = resp?.contact;
+    const contact = await getCachedContact(contactId, contactVersion, locationId, decryptedToken, refresh);
     if (!contact) return null;
     
     const customFields = contact?.customFields;
     if (!Array.isArray(customFields)) {
-      // If no custom fields, fall back to dateAdded if only has "facebook lead" tag
-      if (tags.has('facebook lead')) {
+      // If no custom fields, fall back to dateAdded if it has a lead source tag
+      if (hasLeadSourceTag(tags, tagMapping)) {
         const dateAdded = contact.dateAdded;
         if (dateAdded) {
           const date = new Date(dateAdded);
@@ -136,16 +142,16 @@ async function getContactDate(
     }
     
     // Determine which tag-based date field to use based on present tags
-    // Priority order: job_won > job_lost > appt_completed > appt_booked > disqualified
+    // Priority order: job won tags > job_lost > appt_completed > estimate set tags > disqualified
     let fieldIdToUse: string | undefined;
     
-    if (tags.has('job_won') && tagBasedDateFieldIds.jobWonTagDateFieldId) {
+    if (hasAnyTag(tags, tagMapping.actualsTags.jobWonTags) && tagBasedDateFieldIds.jobWonTagDateFieldId) {
       fieldIdToUse = tagBasedDateFieldIds.jobWonTagDateFieldId;
     } else if (tags.has('job_lost') && tagBasedDateFieldIds.jobLostTagDateFieldId) {
       fieldIdToUse = tagBasedDateFieldIds.jobLostTagDateFieldId;
     } else if (tags.has('appt_completed') && tagBasedDateFieldIds.apptCompletedTagDateFieldId) {
       fieldIdToUse = tagBasedDateFieldIds.apptCompletedTagDateFieldId;
-    } else if (tags.has('appt_booked') && tagBasedDateFieldIds.apptBookedTagDateFieldId) {
+    } else if (hasAnyTag(tags, tagMapping.actualsTags.estimateSetTags) && tagBasedDateFieldIds.apptBookedTagDateFieldId) {
       fieldIdToUse = tagBasedDateFieldIds.apptBookedTagDateFieldId;
     } else if (tags.has('disqualified') && tagBasedDateFieldIds.disqualifiedTagDateFieldId) {
       fieldIdToUse = tagBasedDateFieldIds.disqualifiedTagDateFieldId;
@@ -165,21 +171,10 @@ async function getContactDate(
       }
     }
     
-    // Fallback: If only has "facebook lead" tag (no other TARGET_TAGS), use dateAdded
-    const TARGET_TAGS = [
-      'appt_completed',
-      'job_won',
-      'job_lost',
-      'appt_completed_unresponsive',
-      'color_consultation_booked',
-      'appt_booked',
-      'disqualified',
-    ];
-    const hasOtherTargetTag = Array.from(tags).some(
-      tag => TARGET_TAGS.includes(tag.toLowerCase())
-    );
+    // Fallback: If only has a lead source tag (no actuals or disqualified tag), use dateAdded
+    const hasOtherTargetTag = hasAnyTag(tags, [...getActualsTargetTags(tagMapping), 'disqualified']);
     
-    if (tags.has('facebook lead') && !hasOtherTargetTag) {
+    if (hasLeadSourceTag(tags, tagMapping) && !hasOtherTargetTag) {
       const dateAdded = contact.dateAdded;
       if (dateAdded) {
         const date = new Date(dateAdded);
@@ -224,7 +219,11 @@ class MultiClientOpportunitySyncCron {
     return this.isRunning;
   }
 
-  public async runOnce(type: 'manual' | 'cron'): Promise<void> {
+  /**
+   * Contacts come from the contact cache, except on a location's full run: when fullResync
+   * is set (admin trigger) or the last full run of the location is older than a day
+   */
+  public async runOnce(type: 'manual' | 'cron', options: { fullResync?: boolean } = {}): Promise<void> {
     this.isRunning = true;
     const start = new Date();
     let logId: any = null;
@@ -253,7 +252,7 @@ class MultiClientOpportunitySyncCron {
 
       logId = await MongoCronLogger.logCronJobStart({
         jobName: 'multiClientOpportunitySync',
-        details: { clientCount: clients.length },
+        details: { clientCount: clients.length, fullResync: !!options.fullResync },
         executionId: start.toISOString().replace(/[:.]/g, '-'),
         type,
       });
@@ -261,8 +260,8 @@ class MultiClientOpportunitySyncCron {
       // Update status to processing to show progress
       await MongoCronLogger.updateStatusToProcessing(logId);
 
-      // Iterate clients sequentially with spacing to avoid rate-limit bursts
-      const perClientDelayMs = 1000; // 1s between clients
+      // Iterate clients sequentially; GHL requests are rate limited per location by the GHL API client
+      // Retry options for saving the actuals
       const retry: RetryOptions = { retries: 3, baseDelayMs: 1000 };
 
       for (const client of clients) {
@@ -277,6 +276,7 @@ class MultiClientOpportunitySyncCron {
           disqualifiedTagDateFieldId: client.disqualifiedTagDateFieldId,
         };
         const userId = client.revenueProClientId;
+        const tagMapping = resolveTagMapping(client);
 
         if (!locationId || !decryptedToken || !userId) {
           logger.warn('Skipping client due to missing required fields', {
@@ -288,14 +288,14 @@ class MultiClientOpportunitySyncCron {
           continue;
         }
 
-        // Fetch opportunities with retry using client token
+        const run = await ghlSyncStateService.startRun('opportunityActuals', locationId, options.fullResync);
+
+        // Fetch opportunities using client token. The week's actuals are recounted from every
+        // opportunity on each run, so this pull is never limited to a sync cursor
         let ghlResponse;
         let opportunities: any[] = [];
         try {
-          ghlResponse = await withRetry(
-            () => opportunitySyncService.fetchOpportunities(locationId, decryptedToken),
-            retry,
-          );
+          ghlResponse = await opportunitySyncService.fetchOpportunities(locationId, decryptedToken);
           opportunities = ghlResponse.opportunities || [];
           
           const opportunitiesLog = {
@@ -315,7 +315,6 @@ class MultiClientOpportunitySyncCron {
             errorCode: fetchError?.code,
           });
           // Continue to next client if fetch fails
-          await delay(perClientDelayMs);
           continue;
         }
 
@@ -329,16 +328,9 @@ class MultiClientOpportunitySyncCron {
         const startDate = weekDetails.weekStart;
         const endDate = weekDetails.weekEnd;
 
-        // Count target tags and sum revenue from custom field for job_won contacts
-        const TARGET_TAGS = [
-          'facebook lead',
-          'appt_completed',
-          'job_won',
-          'job_lost',
-          'appt_completed_unresponsive',
-          'color_consultation_booked',
-          'appt_booked',
-        ];
+        // Count the client's actuals tags and sum revenue from custom field for job won contacts
+        const LEAD_SOURCE_ONLY = 'lead source only';
+        const TARGET_TAGS = [LEAD_SOURCE_ONLY, ...getActualsTargetTags(tagMapping)];
         const counts: Record<string, number> = Object.fromEntries(TARGET_TAGS.map((t) => [t, 0]));
 
         // First pass: collect all opportunities with their tags and contact IDs for date filtering
@@ -346,43 +338,33 @@ class MultiClientOpportunitySyncCron {
           opp: any;
           tags: Set<string>;
           contactId: string;
+          contactVersion: string;
         }
         const opportunitiesToProcess: OpportunityWithTags[] = [];
         
         for (const opp of opportunities) {
           if (!opp?.pipelineId || !opp?.contactId) continue;
           
-          const collected: string[] = [];
-          const contactTags = (opp as any)?.contact?.tags;
-          if (Array.isArray(contactTags)) collected.push(...contactTags);
-          const relations = (opp as any)?.relations;
-          if (Array.isArray(relations)) {
-            for (const rel of relations) {
-              if (Array.isArray(rel?.tags)) collected.push(...rel.tags);
-            }
-          }
+          const collected = collectOpportunityTags(opp);
           
           if (collected.length === 0) continue;
-          const lower = new Set(collected.map((t: string) => String(t).toLowerCase()));
+          const lower = toTagSet(collected);
           
-          // Mandatory check: skip if "facebook lead" tag is not present
-          if (!lower.has('facebook lead')) continue;
+          // Mandatory check: skip if none of the client's lead source tags is present
+          if (!hasLeadSourceTag(lower, tagMapping)) continue;
           
           opportunitiesToProcess.push({
             opp,
             tags: lower,
             contactId: opp.contactId,
+            contactVersion: ghlSyncStateService.getContactVersion(opp),
           });
         }
 
-        // Fetch contact dates with rate limiting to avoid 429 errors
+        // Fetch contact dates; the GHL API client waits out rate limits and retries 429s
         const contactDateCache = new Map<string, Date | null>();
         const uniqueContactIds = Array.from(new Set(opportunitiesToProcess.map(o => o.contactId)));
         
-        // Fetch contacts sequentially with delays to respect rate limits
-        // GHL API typically allows ~100 requests per minute, so we'll be conservative
-        const DELAY_BETWEEN_REQUESTS_MS = 100; // 100ms = ~10 requests per second = ~600 per minute (safe)
-        
         logger.info('[MultiClient GHL] Fetching contact dates', {
           locationId,
           userId,
@@ -399,34 +381,17 @@ class MultiClientOpportunitySyncCron {
           try {
             const date = await getContactDate(
               contactId,
+              oppWithTags.contactVersion,
+              run.full,
               locationId,
               decryptedToken,
               oppWithTags.tags,
               tagBasedDateFieldIds,
-              retry
+              tagMapping
             );
             contactDateCache.set(contactId, date);
-            
-            // Delay between requests to avoid rate limits (except for the last one)
-            if (i < uniqueContactIds.length - 1) {
-              await delay(DELAY_BETWEEN_REQUESTS_MS);
-            }
           } catch (error: any) {
-            // If we get a 429 error, wait longer before continuing
-            if (error?.message?.includes('429') || error?.code === 429) {
-              logger.warn('[MultiClient GHL] Rate limit hit, waiting longer', {
-                locationId,
-                contactId,
-                attempt: i + 1,
-                total: uniqueContactIds.length,
-              });
-              // Wait 5 seconds before retrying
-              await delay(5000);
-              // Retry this contact
-              i--;
-              continue;
-            }
-            // For other errors, log and continue
+            // Log and continue
             logger.warn('[MultiClient GHL] Failed to fetch contact date', {
               locationId,
               contactId,
@@ -467,7 +432,7 @@ class MultiClientOpportunitySyncCron {
             continue; // Skip this opportunity if date is not in week range
           }
           
-          const presentTargetTags = TARGET_TAGS.filter((tag) => lower.has(tag) && tag !== 'facebook lead');
+          const presentTargetTags = TARGET_TAGS.filter((tag) => lower.has(tag) && tag !== LEAD_SOURCE_ONLY);
           
           // Log tag details for debugging
           for (const tag of TARGET_TAGS) {
@@ -475,7 +440,7 @@ class MultiClientOpportunitySyncCron {
               tagDetails[tag] = { count: 0, opportunityIds: [] };
             }
             
-            if (tag === 'facebook lead') {
+            if (tag === LEAD_SOURCE_ONLY) {
               if (presentTargetTags.length === 0) {
                 counts[tag] += 1;
                 tagDetails[tag].count += 1;
@@ -509,17 +474,20 @@ class MultiClientOpportunitySyncCron {
         // eslint-disable-next-line no-console
         console.log('[MultiClient GHL] Tag analysis:', JSON.stringify(tagAnalysisLog, null, 2));
 
-        // Sum revenue custom field on job_won contacts
-        const JOB_WON_TAG = 'job_won';
+        // Sum revenue custom field on job won contacts
+        let jobWonCount = 0;
         const jobWonContactIds: string[] = [];
-        for (const { opp, tags: lower, contactId } of opportunitiesToProcess) {
-          // Mandatory check: require both "facebook lead" and "job_won" tags
-          if (lower.has('facebook lead') && lower.has(JOB_WON_TAG)) {
+        const contactVersions = new Map<string, string>();
+        for (const { opp, tags: lower, contactId, contactVersion } of opportunitiesToProcess) {
+          // Lead source tag is already required by opportunitiesToProcess
+          if (hasAnyTag(lower, tagMapping.actualsTags.jobWonTags)) {
             // Date filtering: check if date is within week range using cache
             const contactDate = contactDateCache.get(contactId) ?? null;
             
             if (isDateInWeekRange(contactDate, startDate, endDate)) {
+              jobWonCount += 1;
               jobWonContactIds.push(contactId);
+              contactVersions.set(contactId, contactVersion);
             }
           }
         }
@@ -527,20 +495,17 @@ class MultiClientOpportunitySyncCron {
 
         let sumCustomField = 0;
         if (uniqueJobWonContactIds.length > 0 && customFieldId) {
-          const clientHttp = new http(config.GHL_BASE_URL, 15000);
           for (const contactId of uniqueJobWonContactIds) {
             try {
-              const resp = await withRetry(
-                () =>
-                  clientHttp.get<any>(`/contacts/${encodeURIComponent(contactId)}`, {
-                    headers: {
-                      Authorization: `Bearer ${decryptedToken}`,
-                      Version: '2021-07-28',
-                    },
-                  }),
-                retry,
+              // Usually cached by the contact date pass above
+              const contact = await getCachedContact(
+                contactId,
+                contactVersions.get(contactId) ?? '',
+                locationId,
+                decryptedToken,
+                false
               );
-              const customFields = resp?.contact?.customFields;
+              const customFields = contact?.customFields;
               if (Array.isArray(customFields)) {
                 const field = customFields.find((f: any) => f?.id === customFieldId);
                 if (field && field.value !== undefined && field.value !== null && field.value !== '') {
@@ -549,14 +514,12 @@ class MultiClientOpportunitySyncCron {
                 }
               }
             } catch (e) {
-              logger.warn('Failed to fetch contact for job_won sum', {
+              logger.warn('Failed to fetch contact for job won sum', {
                 locationId,
                 contactId,
                 error: (e as any)?.message || String(e),
               });
             }
-            // small gap between contact fetches (reduced for performance)
-            await delay(30);
           }
         }
 
@@ -564,7 +527,7 @@ class MultiClientOpportunitySyncCron {
         let leadsCount = 0;
         const leadsDetails: { opportunityId: string; tags: string[] }[] = [];
         for (const { opp, tags: lower, contactId } of opportunitiesToProcess) {
-          // Count if 'facebook lead' tag is present (already filtered in opportunitiesToProcess)
+          // Count if a lead source tag is present (already filtered in opportunitiesToProcess)
           // Date filtering: check if date is within week range using cache
           const contactDate = contactDateCache.get(contactId) ?? null;
           
@@ -587,8 +550,8 @@ class MultiClientOpportunitySyncCron {
 
         let estimatesSetCount = 0;
         for (const { opp, tags: lower, contactId } of opportunitiesToProcess) {
-          // Count if BOTH 'facebook lead' AND 'appt_booked' are present
-          if (lower.has('facebook lead') && lower.has('appt_booked')) {
+          // Count if any of the client's estimate set tags is present
+          if (hasAnyTag(lower, tagMapping.actualsTags.estimateSetTags)) {
             // Date filtering: check if date is within week range using cache
             const contactDate = contactDateCache.get(contactId) ?? null;
             
@@ -599,30 +562,20 @@ class MultiClientOpportunitySyncCron {
         }
         const estimatesSet = estimatesSetCount;
 
-        const ESTIMATES_RAN_TAGS = [
-          'job_won',
-          'job_lost',
-          'appt_completed',
-          'appt_completed_unresponsive',
-          'color_consultation_booked',
-        ];
         let estimatesRanCount = 0;
         for (const { opp, tags: lower, contactId } of opportunitiesToProcess) {
-          // Count if 'facebook lead' tag is present AND ANY of the estimates ran tags are present
-          if (lower.has('facebook lead')) {
-            const hasEstimatesRanTag = ESTIMATES_RAN_TAGS.some((tag) => lower.has(tag));
-            if (hasEstimatesRanTag) {
-              // Date filtering: check if date is within week range using cache
-              const contactDate = contactDateCache.get(contactId) ?? null;
-              
-              if (isDateInWeekRange(contactDate, startDate, endDate)) {
-                estimatesRanCount += 1;
-              }
+          // Count if ANY of the client's estimates ran tags are present
+          if (hasAnyTag(lower, tagMapping.actualsTags.estimateRanTags)) {
+            // Date filtering: check if date is within week range using cache
+            const contactDate = contactDateCache.get(contactId) ?? null;
+            
+            if (isDateInWeekRange(contactDate, startDate, endDate)) {
+              estimatesRanCount += 1;
             }
           }
         }
         const estimatesRan = estimatesRanCount;
-        const jobBooked = counts['job_won'] || 0;
+        const jobBooked = jobWonCount;
         const revenue = sumCustomField;
 
         // Log final calculated values
@@ -642,7 +595,7 @@ class MultiClientOpportunitySyncCron {
         // eslint-disable-next-line no-console
         console.log('[MultiClient GHL] Final calculated values:', JSON.stringify(finalValuesLog, null, 2));
 
-        const actualService = new ActualService();
+        const reconciliationService = new ActualReconciliationService();
 
         // Prepare data to upload
         const uploadData = {
@@ -681,11 +634,14 @@ class MultiClientOpportunitySyncCron {
         console.log('[MultiClient GHL Actuals] Uploading data to Revenue Pro API:', JSON.stringify(logMessage, null, 2));
 
         let savedActual;
+        let reconciliation;
         try {
-          savedActual = await withRetry(
-            () => actualService.upsertActualWeekly(userId, startDate, endDate, uploadData),
+          // Only fields that are still automated are written; manually entered ones become diffs to reconcile
+          reconciliation = await withRetry(
+            () => reconciliationService.recordCrmProposal(userId, startDate, endDate, uploadData),
             retry,
           );
+          savedActual = reconciliation.actual;
 
           // Log the API response
           const savedActualObj = savedActual.toObject ? savedActual.toObject() : savedActual;
@@ -738,10 +694,12 @@ class MultiClientOpportunitySyncCron {
           sales: savedActual.sales,
           revenue: savedActual.revenue,
           documentId: String(savedActual._id),
+          appliedFields: reconciliation.appliedFields,
+          pendingFields: reconciliation.pendingFields,
         });
 
-        // space between clients to reduce burst load
-        await delay(perClientDelayMs);
+        // Records the full run; the opportunity pull itself doesn't use the cursor
+        await ghlSyncStateService.completeRun(run, opportunities);
       }
 
       await MongoCronLogger.logCronJobSuccess({
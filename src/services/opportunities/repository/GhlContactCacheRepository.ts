@@ -0,0 +1,16 @@
+import GhlContactCacheModel, { IGhlContactCache, IGhlContactCacheDocument } from './models/ghlContactCache.model.js';
+
+export class GhlContactCacheRepository {
+
+  async getContact(locationId: string, contactId: string): Promise<IGhlContactCacheDocument | null> {
+    return await GhlContactCacheModel.findOne({ locationId, contactId }).lean<IGhlContactCacheDocument>().exec();
+  }
+
+  async saveContact(entry: IGhlContactCache): Promise<void> {
+    const { locationId, contactId, ...fields } = entry;
+    await GhlContactCacheModel.updateOne({ locationId, contactId }, { $set: fields }, { upsert: true }).exec();
+  }
+}
+
+// Export singleton instance
+export const ghlContactCacheRepository = new GhlContactCacheRepository();
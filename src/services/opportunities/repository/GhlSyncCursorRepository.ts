@@ -0,0 +1,20 @@
+import GhlSyncCursorModel, { GhlSyncName, IGhlSyncCursor, IGhlSyncCursorDocument } from './models/ghlSyncCursor.model.js';
+
+export class GhlSyncCursorRepository {
+
+  async getCursor(locationId: string, syncName: GhlSyncName): Promise<IGhlSyncCursorDocument | null> {
+    return await GhlSyncCursorModel.findOne({ locationId, syncName }).exec();
+  }
+
+  async saveCursor(cursor: IGhlSyncCursor): Promise<IGhlSyncCursorDocument | null> {
+    const { locationId, syncName, ...fields } = cursor;
+    return await GhlSyncCursorModel.findOneAndUpdate(
+      { locationId, syncName },
+      { $set: fields },
+      { new: true, upsert: true }
+    ).exec();
+  }
+}
+
+// Export singleton instance
+export const ghlSyncCursorRepository = new GhlSyncCursorRepository();
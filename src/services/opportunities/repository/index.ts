@@ -0,0 +1,2 @@
+export { GhlSyncCursorRepository, ghlSyncCursorRepository } from './GhlSyncCursorRepository.js';
+export { GhlContactCacheRepository, ghlContactCacheRepository } from './GhlContactCacheRepository.js';
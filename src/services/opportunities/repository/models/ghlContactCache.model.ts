@@ -0,0 +1,32 @@
+import { Schema, model, Document } from 'mongoose';
+
+// The parts of a GHL contact the syncs read
+export interface CachedGhlContact {
+  dateAdded?: string;
+  customFields?: Array<{ id?: string; _id?: string; value?: unknown }>;
+}
+
+export interface IGhlContactCache {
+  locationId: string;
+  contactId: string;
+  // Version of the contact the entry was fetched for, compared on every read
+  dateUpdated: string;
+  contact: CachedGhlContact;
+  fetchedAt: Date;
+}
+
+export interface IGhlContactCacheDocument extends IGhlContactCache, Document {}
+
+const ghlContactCacheSchema = new Schema<IGhlContactCacheDocument>({
+  locationId: { type: String, required: true },
+  contactId: { type: String, required: true },
+  dateUpdated: { type: String, required: true },
+  contact: { type: Schema.Types.Mixed, default: {} },
+  fetchedAt: { type: Date, required: true },
+});
+
+ghlContactCacheSchema.index({ locationId: 1, contactId: 1 }, { unique: true });
+// Entries are dropped 30 days after they were fetched
+ghlContactCacheSchema.index({ fetchedAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 });
+
+export default model<IGhlContactCacheDocument>('GhlContactCache', ghlContactCacheSchema);
@@ -0,0 +1,32 @@
+import { Schema, model, Document } from 'mongoose';
+
+export type GhlSyncName = 'leadSheets' | 'opportunityActuals';
+
+export interface IGhlSyncCursor {
+  locationId: string;
+  syncName: GhlSyncName;
+  // Highest opportunity updatedAt seen by the last successful run
+  lastUpdatedAt: Date | null;
+  lastSuccessAt: Date;
+  lastFullSyncAt: Date | null;
+}
+
+export interface IGhlSyncCursorDocument extends IGhlSyncCursor, Document {
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ghlSyncCursorSchema = new Schema<IGhlSyncCursorDocument>(
+  {
+    locationId: { type: String, required: true },
+    syncName: { type: String, enum: ['leadSheets', 'opportunityActuals'], required: true },
+    lastUpdatedAt: { type: Date, default: null },
+    lastSuccessAt: { type: Date, required: true },
+    lastFullSyncAt: { type: Date, default: null },
+  },
+  { timestamps: true }
+);
+
+ghlSyncCursorSchema.index({ locationId: 1, syncName: 1 }, { unique: true });
+
+export default model<IGhlSyncCursorDocument>('GhlSyncCursor', ghlSyncCursorSchema);
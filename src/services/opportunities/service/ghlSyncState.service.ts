@@ -0,0 +1,134 @@
+import logger from '../../../utils/logger.js';
+import { GhlSyncCursorRepository, ghlSyncCursorRepository } from '../repository/GhlSyncCursorRepository.js';
+import { GhlContactCacheRepository, ghlContactCacheRepository } from '../repository/GhlContactCacheRepository.js';
+import { GhlSyncName } from '../repository/models/ghlSyncCursor.model.js';
+import { CachedGhlContact } from '../repository/models/ghlContactCache.model.js';
+
+// Opportunities updated shortly before the cursor are processed again, in case GHL
+// saved them with a slightly older updatedAt than ones already returned
+const CURSOR_OVERLAP_MS = 5 * 60 * 1000;
+// Incremental runs can miss changes that don't touch updatedAt, so run a full sync at least daily
+const FULL_RESYNC_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+export interface GhlSyncRun {
+  locationId: string;
+  syncName: GhlSyncName;
+  full: boolean;
+  // Passed to the opportunity search as updatedSince; null for a full run
+  since: Date | null;
+  startedAt: Date;
+  previousFullSyncAt: Date | null;
+}
+
+type VersionedOpportunity = {
+  updatedAt?: string;
+  contact?: { dateUpdated?: string };
+};
+
+export class GhlSyncStateService {
+
+  constructor(
+    private cursorRepo: GhlSyncCursorRepository = ghlSyncCursorRepository,
+    private contactCacheRepo: GhlContactCacheRepository = ghlContactCacheRepository
+  ) {}
+
+  /**
+   * Start a sync run for a location. The run is incremental when a cursor from a previous
+   * successful run exists, unless a full resync is forced or the last full sync is too old.
+   */
+  async startRun(syncName: GhlSyncName, locationId: string, forceFullResync = false): Promise<GhlSyncRun> {
+    const startedAt = new Date();
+    const cursor = await this.cursorRepo.getCursor(locationId, syncName);
+    const previousFullSyncAt = cursor?.lastFullSyncAt ?? null;
+    const fullSyncDue = !previousFullSyncAt || startedAt.getTime() - previousFullSyncAt.getTime() > FULL_RESYNC_INTERVAL_MS;
+    const full = forceFullResync || !cursor?.lastUpdatedAt || fullSyncDue;
+
+    return {
+      locationId,
+      syncName,
+      full,
+      since: full ? null : new Date(cursor!.lastUpdatedAt!.getTime() - CURSOR_OVERLAP_MS),
+      startedAt,
+      previousFullSyncAt,
+    };
+  }
+
+  /**
+   * Move the cursor to the newest updatedAt of the fetched opportunities.
+   * Only called after a run succeeded, so a failed run is retried from the old cursor.
+   */
+  async completeRun(run: GhlSyncRun, opportunities: VersionedOpportunity[]): Promise<void> {
+    const cursor = await this.cursorRepo.getCursor(run.locationId, run.syncName);
+    const newest = opportunities.reduce<number>((max, opp) => {
+      const updatedAt = opp.updatedAt ? new Date(opp.updatedAt).getTime() : NaN;
+      return isNaN(updatedAt) ? max : Math.max(max, updatedAt);
+    }, cursor?.lastUpdatedAt?.getTime() ?? 0);
+
+    await this.cursorRepo.saveCursor({
+      locationId: run.locationId,
+      syncName: run.syncName,
+      lastUpdatedAt: newest > 0 ? new Date(newest) : null,
+      lastSuccessAt: run.startedAt,
+      lastFullSyncAt: run.full ? run.startedAt : run.previousFullSyncAt,
+    });
+  }
+
+  /**
+   * Version of an opportunity's contact used as the contact cache key: the contact's own
+   * dateUpdated. Search results don't always carry it, and the opportunity's updatedAt doesn't
+   * change with the contact's custom fields, so without it the version is empty and the
+   * contact is fetched again.
+   */
+  getContactVersion(opportunity: VersionedOpportunity): string {
+    return opportunity.contact?.dateUpdated || '';
+  }
+
+  /**
+   * Return a contact from the cache when it was fetched for the same version,
+   * otherwise fetch it and store it. refresh skips the cache read (full resyncs).
+   */
+  async getContact(
+    locationId: string,
+    contactId: string,
+    version: string,
+    fetchContact: () => Promise<any>,
+    refresh = false
+  ): Promise<CachedGhlContact | null> {
+    if (version && !refresh) {
+      try {
+        const cached = await this.contactCacheRepo.getContact(locationId, contactId);
+        if (cached && cached.dateUpdated === version) {
+          return cached.contact;
+        }
+      } catch (error: any) {
+        logger.warn('[GHL Sync] Failed to read contact cache', { locationId, contactId, error: error?.message || String(error) });
+      }
+    }
+
+    const contact = await fetchContact();
+    if (!contact) return null;
+
+    const cachedContact: CachedGhlContact = {
+      dateAdded: contact.dateAdded,
+      customFields: Array.isArray(contact.customFields) ? contact.customFields : undefined,
+    };
+
+    if (version) {
+      try {
+        await this.contactCacheRepo.saveContact({
+          locationId,
+          contactId,
+          dateUpdated: version,
+          contact: cachedContact,
+          fetchedAt: new Date(),
+        });
+      } catch (error: any) {
+        logger.warn('[GHL Sync] Failed to write contact cache', { locationId, contactId, error: error?.message || String(error) });
+      }
+    }
+
+    return cachedContact;
+  }
+}
+
+export default new GhlSyncStateService();
@@ -1,3 +1,5 @@
+import { SpendChannel } from "../../actual/domain/actual.domain.js";
+
 export interface IMonthlyTarget {
     month: number;
     leads: number;
@@ -17,6 +19,13 @@ export interface IMonthlyTarget {
     costPerJobBooked: number;
   }
 
+// Budget, and optionally leads, planned for one ad channel in a week
+export interface IChannelTarget {
+  channel: SpendChannel;
+  budget: number;
+  leads?: number | null;
+}
+
 export interface IWeeklyTarget {
   userId: string;
   startDate: string;
@@ -31,10 +40,144 @@ export interface IWeeklyTarget {
   showRate: number;
   queryType: string;
   managementCost: number;
+  channelTargets?: IChannelTarget[];
 }
 
 export interface ITargetQuery {
   userId: string;
   startDate: Date;
   endDate: Date;
-}
\ No newline at end of file
+}
+
+export const FORECAST_METRICS = ['revenue', 'leads', 'adSpendBudget'] as const;
+export type ForecastMetric = typeof FORECAST_METRICS[number];
+
+export type PacingStatus = 'ahead' | 'on_track' | 'behind';
+
+export interface IMetricForecast {
+  metric: ForecastMetric;
+  target: number;
+  actualToDate: number;
+  // Target of the completed weeks, what the actuals are paced against
+  expectedToDate: number;
+  projected: number;
+  low: number;
+  high: number;
+  // Share of the period's value prior years had reached after as many weeks, null without history
+  seasonalShareToDate: number | null;
+  // Projected as a percentage of the target, null without a target
+  pacePercent: number | null;
+  status: PacingStatus | null;
+}
+
+export interface IPeriodForecast {
+  period: 'month' | 'year';
+  startDate: string;
+  endDate: string;
+  completedWeeks: number;
+  totalWeeks: number;
+  metrics: IMetricForecast[];
+}
+
+export interface ITargetForecast {
+  userId: string;
+  asOf: string;
+  confidenceLevel: number;
+  pipeline: {
+    openProposalAmount: number;
+    openLeads: number;
+    closeRate: number;
+    closeRateSource: 'history' | 'target';
+    expectedRevenue: number;
+  };
+  month: IPeriodForecast;
+  year: IPeriodForecast;
+}
+
+// Rates the reverse funnel runs on; closeRate, showRate and appointmentRate are percentages
+export const FUNNEL_RATE_FIELDS = ['avgJobSize', 'closeRate', 'showRate', 'appointmentRate', 'costPerLead'] as const;
+export type FunnelRateField = typeof FUNNEL_RATE_FIELDS[number];
+export type IFunnelRates = Record<FunnelRateField, number>;
+
+export interface IFunnelPlan {
+  revenue: number;
+  jobsBooked: number;
+  estimatesRan: number;
+  estimatesSet: number;
+  leads: number;
+  adSpend: number;
+}
+
+export interface IPlanScenarioInput {
+  name: string;
+  // Replace a rate outright
+  rates?: Partial<IFunnelRates>;
+  // Change a rate relative to the base, e.g. { closeRate: 10 } for +10% close rate
+  adjustPercent?: Partial<IFunnelRates>;
+}
+
+export interface IPlanPeriod extends IFunnelPlan {
+  startDate: string;
+  endDate: string;
+}
+
+export interface ITargetPlanScenario {
+  name: string;
+  rates: IFunnelRates;
+  // com of the saved weekly targets, ad spend as a percentage of revenue
+  com: number;
+  total: IFunnelPlan;
+  months: Array<IPlanPeriod & { month: string }>;
+  weeks: IPlanPeriod[];
+  // Scenario total minus the base total; zero for the base itself
+  differenceFromBase: IFunnelPlan;
+}
+
+export interface ITargetPlan {
+  userId: string;
+  queryType: 'weekly' | 'monthly' | 'yearly';
+  startDate: string;
+  endDate: string;
+  revenueGoal: number;
+  rateSources: Record<FunnelRateField, 'history' | 'entered'>;
+  base: ITargetPlanScenario;
+  scenarios: ITargetPlanScenario[];
+}
+
+// Weekly target values a version records
+export const TARGET_VALUE_FIELDS = [
+  'revenue', 'avgJobSize', 'appointmentRate', 'showRate', 'closeRate', 'com', 'managementCost'
+] as const;
+export type TargetValueField = typeof TARGET_VALUE_FIELDS[number];
+export type ITargetValues = Record<TargetValueField, number> & { queryType: string; channelTargets: IChannelTarget[] };
+
+export type TargetVersionSource = 'manual' | 'planner' | 'restore';
+
+export interface TargetVersionContext {
+  changedBy: string | null;
+  // Period type of the write; defaults to the queryType it was saved with
+  queryType?: 'weekly' | 'monthly' | 'yearly';
+  source?: TargetVersionSource;
+  restoredFrom?: string | null;
+}
+
+export interface ITargetVersionWeek {
+  startDate: string;
+  endDate: string;
+  year: number;
+  weekNumber: number;
+  // null when the week had no target yet
+  before: ITargetValues | null;
+  after: ITargetValues;
+}
+
+export interface ITargetVersion {
+  userId: string;
+  startDate: string;
+  endDate: string;
+  queryType: 'weekly' | 'monthly' | 'yearly';
+  source: TargetVersionSource;
+  changedBy: string | null;
+  restoredFrom: string | null;
+  weeks: ITargetVersionWeek[];
+}
@@ -1,5 +1,6 @@
 import { Schema, model, Document } from 'mongoose';
 import { IWeeklyTarget } from '../../domain/target.domain.js';
+import { SPEND_CHANNELS } from '../../../actual/domain/actual.domain.js';
 
 export interface IWeeklyTargetDocument extends IWeeklyTarget, Document {}
 
@@ -17,6 +18,17 @@ const weeklyTargetSchema = new Schema<IWeeklyTargetDocument>({
   showRate: { type: Number, required: true },
   queryType: { type: String, required: true },
   managementCost: { type: Number, required: true },
+  channelTargets: {
+    type: [
+      {
+        channel: { type: String, enum: SPEND_CHANNELS, required: true },
+        budget: { type: Number, required: true },
+        leads: { type: Number, default: null },
+        _id: false,
+      },
+    ],
+    default: [],
+  },
 }, { timestamps: true });
 
 // Index on startDate for efficient queries
@@ -0,0 +1,48 @@
+import { Schema, model, Document } from 'mongoose';
+import { ITargetVersion } from '../../domain/target.domain.js';
+import { SPEND_CHANNELS } from '../../../actual/domain/actual.domain.js';
+
+export interface ITargetVersionDocument extends ITargetVersion, Document {
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const targetValuesSchema = new Schema({
+  revenue: { type: Number, required: true },
+  avgJobSize: { type: Number, required: true },
+  appointmentRate: { type: Number, required: true },
+  showRate: { type: Number, required: true },
+  closeRate: { type: Number, required: true },
+  com: { type: Number, required: true },
+  managementCost: { type: Number, required: true },
+  queryType: { type: String, required: true },
+  channelTargets: {
+    type: [{ channel: { type: String, enum: SPEND_CHANNELS, required: true }, budget: { type: Number, required: true }, leads: { type: Number, default: null }, _id: false }],
+    default: [],
+  },
+}, { _id: false });
+
+const targetVersionWeekSchema = new Schema({
+  startDate: { type: String, required: true },
+  endDate: { type: String, required: true },
+  year: { type: Number, required: true },
+  weekNumber: { type: Number, required: true },
+  before: { type: targetValuesSchema, default: null },
+  after: { type: targetValuesSchema, required: true },
+}, { _id: false });
+
+// One document per target write, with the weeks it changed
+const targetVersionSchema = new Schema<ITargetVersionDocument>({
+  userId: { type: String, required: true },
+  startDate: { type: String, required: true },
+  endDate: { type: String, required: true },
+  queryType: { type: String, enum: ['weekly', 'monthly', 'yearly'], required: true },
+  source: { type: String, enum: ['manual', 'planner', 'restore'], required: true },
+  changedBy: { type: String, default: null },
+  restoredFrom: { type: String, default: null },
+  weeks: { type: [targetVersionWeekSchema], default: [] },
+}, { timestamps: true });
+
+targetVersionSchema.index({ userId: 1, startDate: 1, endDate: 1, createdAt: -1 });
+
+export default model<ITargetVersionDocument>('TargetVersion', targetVersionSchema);
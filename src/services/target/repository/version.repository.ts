@@ -0,0 +1,30 @@
+import { Model, Types } from "mongoose";
+import { ITargetVersion } from "../domain/target.domain.js";
+import TargetVersion, { ITargetVersionDocument } from "./models/targetVersion.model.js";
+
+export class TargetVersionRepository {
+  private model: Model<ITargetVersionDocument>;
+
+  constructor() {
+    this.model = TargetVersion;
+  }
+
+  async createVersion(data: ITargetVersion): Promise<ITargetVersionDocument> {
+    return await this.model.create(data);
+  }
+
+  async findById(userId: string, versionId: string): Promise<ITargetVersionDocument | null> {
+    if (!Types.ObjectId.isValid(versionId)) return null;
+    return await this.model.findOne({ _id: versionId, userId }).exec();
+  }
+
+  /**
+   * Versions whose period overlaps the range, newest first
+   */
+  async getVersionsOverlapping(userId: string, startDate: string, endDate: string): Promise<ITargetVersionDocument[]> {
+    return await this.model
+      .find({ userId, startDate: { $lte: endDate }, endDate: { $gte: startDate } })
+      .sort({ createdAt: -1 })
+      .exec();
+  }
+}
@@ -0,0 +1,305 @@
+import {
+  FORECAST_METRICS,
+  ForecastMetric,
+  IMetricForecast,
+  IPeriodForecast,
+  ITargetForecast,
+  IWeeklyTarget,
+  PacingStatus
+} from "../domain/target.domain.js";
+import { TargetService } from "./service.js";
+import { computeTargetFunnel, getActualAdSpend } from "../utils/funnel.js";
+import { IWeeklyActual } from "../../actual/domain/actual.domain.js";
+import { ActualRepository } from "../../actual/repository/repository.js";
+import { leadRepository } from "../../leads/repository/LeadRepository.js";
+import { ILead, LeadStatus } from "../../leads/domain/leads.domain.js";
+import { DateUtils } from "../../../utils/date.utils.js";
+import { CustomError, ErrorCode } from "../../../pkg/error/custom_error.js";
+
+// Leads waiting on a decision, their proposals make up the pipeline
+const OPEN_PIPELINE_STATUSES: LeadStatus[] = ["estimate_set", "proposal_presented"];
+// Leads whose estimate was decided, the historical close rate is booked over these
+const DECIDED_STATUSES: LeadStatus[] = ["job_booked", "job_lost", "estimate_canceled"];
+
+const SEASONALITY_YEARS = 3;
+const CLOSE_RATE_LOOKBACK_DAYS = 365;
+const VARIANCE_LOOKBACK_WEEKS = 13;
+const PACING_TOLERANCE_PERCENT = 5;
+// Two-sided 80% interval of a normal distribution
+const CONFIDENCE_LEVEL = 80;
+const CONFIDENCE_Z = 1.2816;
+
+type WeekRange = ReturnType<typeof DateUtils.getWeekDetails>;
+type MetricValues = Record<ForecastMetric, number>;
+
+interface PriorYearActuals {
+  year: number;
+  values: Map<string, MetricValues>;
+}
+
+interface PeriodContext {
+  period: IPeriodForecast["period"];
+  startDate: string;
+  endDate: string;
+  weeks: WeekRange[];
+  // The same period in an earlier year, matched week by week
+  priorWeeks: (year: number) => WeekRange[];
+}
+
+export class TargetForecastService {
+  private targetService: TargetService;
+  private actualRepository: ActualRepository;
+
+  constructor() {
+    this.targetService = new TargetService();
+    this.actualRepository = new ActualRepository();
+  }
+
+  /**
+   * Project a client's month-end and year-end revenue, leads and ad spend and how they pace
+   * against target. Weeks that ended before asOf are actuals; the rest of the period follows the
+   * share prior years had reached by then, and revenue is at least what the open pipeline should close.
+   */
+  public async getForecast(userId: string, asOfDate?: string): Promise<ITargetForecast> {
+    const asOf = asOfDate ?? new Date().toISOString().slice(0, 10);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(asOf) || isNaN(new Date(asOf).getTime())) {
+      throw new CustomError(ErrorCode.VALIDATION_ERROR, "date must be a valid date (YYYY-MM-DD)");
+    }
+
+    const year = Number(asOf.slice(0, 4));
+    const month = Number(asOf.slice(5, 7));
+    const yearPeriod: PeriodContext = {
+      period: "year",
+      startDate: `${year}-01-01`,
+      endDate: `${year}-12-31`,
+      weeks: DateUtils.getMonthWeeks(`${year}-01-01`, `${year}-12-31`),
+      priorWeeks: (priorYear) => DateUtils.getMonthWeeks(`${priorYear}-01-01`, `${priorYear}-12-31`),
+    };
+    const monthPeriod: PeriodContext = {
+      period: "month",
+      startDate: this.monthStart(year, month),
+      endDate: this.monthEnd(year, month),
+      weeks: DateUtils.getMonthWeeks(this.monthStart(year, month), this.monthEnd(year, month)),
+      priorWeeks: (priorYear) => DateUtils.getMonthWeeks(this.monthStart(priorYear, month), this.monthEnd(priorYear, month)),
+    };
+
+    const varianceStart = DateUtils.getWeekDetails(this.shiftDays(asOf, -VARIANCE_LOOKBACK_WEEKS * 7)).weekStart;
+    const firstWeek = yearPeriod.weeks[0].weekStart;
+    const lastWeek = yearPeriod.weeks[yearPeriod.weeks.length - 1].weekEnd;
+
+    const [weeklyTargets, actuals, priorYears, leads] = await Promise.all([
+      this.targetService.getAggregatedMonthlyTarget(userId, yearPeriod.startDate, yearPeriod.endDate, "yearly"),
+      this.actualRepository.getActualsByDateRange(varianceStart < firstWeek ? varianceStart : firstWeek, lastWeek, userId),
+      this.getPriorYearActuals(userId, year),
+      leadRepository.getLeadsByClientId(userId),
+    ]);
+
+    const targetsByWeek = new Map(weeklyTargets.map((target) => [target.startDate, target]));
+    const actualsByWeek = new Map(actuals.map((actual) => [actual.startDate, this.actualValues(actual)]));
+    const pipeline = this.getPipeline(leads, asOf, monthPeriod.weeks.map((week) => targetsByWeek.get(week.weekStart)));
+
+    // Only weeks with a saved actual say something about the spread
+    const varianceWeeks = actuals
+      .filter((actual) => actual.startDate >= varianceStart && actual.endDate < asOf)
+      .map((actual) => this.actualValues(actual));
+
+    const forecastPeriod = (context: PeriodContext) =>
+      this.forecastPeriod(context, asOf, targetsByWeek, actualsByWeek, priorYears, varianceWeeks, pipeline.expectedRevenue);
+
+    return {
+      userId,
+      asOf,
+      confidenceLevel: CONFIDENCE_LEVEL,
+      pipeline,
+      month: forecastPeriod(monthPeriod),
+      year: forecastPeriod(yearPeriod),
+    };
+  }
+
+  // ============= PRIVATE HELPER METHODS =============
+
+  private forecastPeriod(
+    context: PeriodContext,
+    asOf: string,
+    targetsByWeek: Map<string, IWeeklyTarget>,
+    actualsByWeek: Map<string, MetricValues>,
+    priorYears: PriorYearActuals[],
+    varianceWeeks: MetricValues[],
+    pipelineRevenue: number
+  ): IPeriodForecast {
+    const completed = context.weeks.filter((week) => week.weekEnd < asOf);
+    const remainingWeeks = context.weeks.length - completed.length;
+
+    const metrics = FORECAST_METRICS.map((metric): IMetricForecast => {
+      const weeklyTarget = (week: WeekRange) => {
+        const target = targetsByWeek.get(week.weekStart);
+        return target ? this.targetValues(target)[metric] : 0;
+      };
+      const target = this.sum(context.weeks.map(weeklyTarget));
+      const expectedToDate = this.sum(completed.map(weeklyTarget));
+      const actualToDate = this.sum(completed.map((week) => actualsByWeek.get(week.weekStart)?.[metric] ?? 0));
+
+      const history = priorYears
+        .map((prior) => {
+          const values = context.priorWeeks(prior.year).map((week) => prior.values.get(week.weekStart)?.[metric] ?? 0);
+          const total = this.sum(values);
+          return total > 0 ? { total, share: this.sum(values.slice(0, completed.length)) / total } : null;
+        })
+        .filter((entry): entry is { total: number; share: number } => entry !== null);
+      const seasonalShareToDate = history.length > 0 ? this.average(history.map((entry) => entry.share)) : null;
+
+      let remainder = 0;
+      if (remainingWeeks > 0) {
+        // Without seasonality the target's own weekly split, or else an even split, stands in for it
+        const share = seasonalShareToDate
+          ?? (target > 0 ? expectedToDate / target : completed.length / context.weeks.length);
+        if (completed.length > 0 && share > 0) {
+          remainder = share >= 1 ? 0 : actualToDate * (1 - share) / share;
+        } else {
+          // Nothing to extrapolate from yet: what prior years did, or the target
+          remainder = history.length > 0
+            ? this.average(history.map((entry) => entry.total)) * (1 - (seasonalShareToDate ?? 0))
+            : Math.max(target - actualToDate, 0);
+        }
+        if (metric === "revenue") {
+          remainder = Math.max(remainder, pipelineRevenue);
+        }
+      }
+
+      const projected = actualToDate + remainder;
+      const spread = this.standardDeviation(varianceWeeks.map((week) => week[metric]));
+      // Too few weeks to measure the spread: allow half the remainder either way
+      const halfWidth = remainingWeeks === 0
+        ? 0
+        : spread !== null ? CONFIDENCE_Z * spread * Math.sqrt(remainingWeeks) : remainder * 0.5;
+      const pacePercent = target > 0 ? (projected / target) * 100 : null;
+
+      return {
+        metric,
+        target: this.round(target),
+        actualToDate: this.round(actualToDate),
+        expectedToDate: this.round(expectedToDate),
+        projected: this.round(projected),
+        low: this.round(Math.max(projected - halfWidth, actualToDate)),
+        high: this.round(projected + halfWidth),
+        seasonalShareToDate: seasonalShareToDate !== null ? Math.round(seasonalShareToDate * 10000) / 10000 : null,
+        pacePercent: pacePercent !== null ? this.round(pacePercent) : null,
+        status: pacePercent !== null ? this.pacingStatus(pacePercent) : null,
+      };
+    });
+
+    return {
+      period: context.period,
+      startDate: context.startDate,
+      endDate: context.endDate,
+      completedWeeks: completed.length,
+      totalWeeks: context.weeks.length,
+      metrics,
+    };
+  }
+
+  /**
+   * Open proposals times the close rate of the leads decided in the last year. Clients without
+   * decided leads use the close rate of their target.
+   */
+  private getPipeline(
+    leads: Partial<ILead>[],
+    asOf: string,
+    monthTargets: (IWeeklyTarget | undefined)[]
+  ): ITargetForecast["pipeline"] {
+    const lookbackStart = this.shiftDays(asOf, -CLOSE_RATE_LOOKBACK_DAYS);
+    const decided = leads.filter((lead) =>
+      DECIDED_STATUSES.includes(lead.status as LeadStatus)
+      && !!lead.leadDate && lead.leadDate >= lookbackStart && lead.leadDate <= asOf
+    );
+    const open = leads.filter((lead) =>
+      OPEN_PIPELINE_STATUSES.includes(lead.status as LeadStatus) && !!lead.leadDate && lead.leadDate <= asOf
+    );
+
+    let closeRate: number;
+    let closeRateSource: "history" | "target";
+    if (decided.length > 0) {
+      closeRate = decided.filter((lead) => lead.status === "job_booked").length / decided.length;
+      closeRateSource = "history";
+    } else {
+      closeRate = (monthTargets.find((target) => target && target.closeRate > 0)?.closeRate ?? 0) / 100;
+      closeRateSource = "target";
+    }
+
+    const openProposalAmount = this.sum(open.map((lead) => lead.proposalAmount || 0));
+    return {
+      openProposalAmount: this.round(openProposalAmount),
+      openLeads: open.length,
+      closeRate: Math.round(closeRate * 10000) / 10000,
+      closeRateSource,
+      expectedRevenue: this.round(openProposalAmount * closeRate),
+    };
+  }
+
+  private async getPriorYearActuals(userId: string, year: number): Promise<PriorYearActuals[]> {
+    const priorYears = Array.from({ length: SEASONALITY_YEARS }, (_, index) => year - index - 1);
+    return await Promise.all(priorYears.map(async (priorYear) => {
+      const weeks = DateUtils.getMonthWeeks(`${priorYear}-01-01`, `${priorYear}-12-31`);
+      const actuals = await this.actualRepository.getActualsByDateRange(
+        weeks[0].weekStart,
+        weeks[weeks.length - 1].weekEnd,
+        userId
+      );
+      return {
+        year: priorYear,
+        values: new Map(actuals.map((actual) => [actual.startDate, this.actualValues(actual)])),
+      };
+    }));
+  }
+
+  private actualValues(actual: IWeeklyActual): MetricValues {
+    return {
+      revenue: actual.revenue || 0,
+      leads: actual.leads || 0,
+      adSpendBudget: getActualAdSpend(actual),
+    };
+  }
+
+  private targetValues(target: IWeeklyTarget): MetricValues {
+    const funnel = computeTargetFunnel(target);
+    return { revenue: funnel.revenue, leads: funnel.leads, adSpendBudget: funnel.adSpend };
+  }
+
+  private pacingStatus(pacePercent: number): PacingStatus {
+    if (pacePercent > 100 + PACING_TOLERANCE_PERCENT) return "ahead";
+    if (pacePercent < 100 - PACING_TOLERANCE_PERCENT) return "behind";
+    return "on_track";
+  }
+
+  private standardDeviation(values: number[]): number | null {
+    if (values.length < 2) return null;
+    const mean = this.average(values);
+    return Math.sqrt(this.sum(values.map((value) => (value - mean) ** 2)) / (values.length - 1));
+  }
+
+  private monthStart(year: number, month: number): string {
+    return `${year}-${String(month).padStart(2, "0")}-01`;
+  }
+
+  private monthEnd(year: number, month: number): string {
+    return new Date(Date.UTC(year, month, 0)).toISOString().slice(0, 10);
+  }
+
+  private shiftDays(date: string, days: number): string {
+    const shifted = new Date(`${date}T00:00:00.000Z`);
+    shifted.setUTCDate(shifted.getUTCDate() + days);
+    return shifted.toISOString().slice(0, 10);
+  }
+
+  private sum(values: number[]): number {
+    return values.reduce((total, value) => total + value, 0);
+  }
+
+  private average(values: number[]): number {
+    return values.length > 0 ? this.sum(values) / values.length : 0;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
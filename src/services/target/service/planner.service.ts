@@ -0,0 +1,375 @@
+import {
+  FUNNEL_RATE_FIELDS,
+  FunnelRateField,
+  IFunnelPlan,
+  IFunnelRates,
+  IPlanPeriod,
+  IPlanScenarioInput,
+  ITargetPlan,
+  ITargetPlanScenario,
+  IWeeklyTarget
+} from "../domain/target.domain.js";
+import { IWeeklyTargetDocument } from "../repository/models/target.model.js";
+import { TargetService } from "./service.js";
+import { computeFunnelFromRevenue, getActualAdSpend } from "../utils/funnel.js";
+import { ActualRepository } from "../../actual/repository/repository.js";
+import { DateUtils } from "../../../utils/date.utils.js";
+import { CustomError, ErrorCode } from "../../../pkg/error/custom_error.js";
+
+const BASE_SCENARIO = "base";
+const HISTORY_WEEKS = 52;
+const PERCENT_RATE_FIELDS: FunnelRateField[] = ["closeRate", "showRate", "appointmentRate"];
+const QUERY_TYPES: ITargetPlan["queryType"][] = ["weekly", "monthly", "yearly"];
+
+type WeekRange = ReturnType<typeof DateUtils.getWeekDetails>;
+
+export interface TargetPlanInput {
+  revenueGoal: number;
+  queryType: ITargetPlan["queryType"];
+  // Any date in the week, month or year to plan
+  startDate: string;
+  // Entered rates; rates left out come from the last year of weekly actuals
+  rates?: Partial<IFunnelRates>;
+  scenarios?: IPlanScenarioInput[];
+}
+
+export class TargetPlannerService {
+  private targetService: TargetService;
+  private actualRepository: ActualRepository;
+
+  constructor() {
+    this.targetService = new TargetService();
+    this.actualRepository = new ActualRepository();
+  }
+
+  /**
+   * Work out the leads, estimates, jobs and ad spend a revenue goal needs for a week, month or
+   * year, spread evenly over its weeks like saved targets are. Every scenario is the base plan
+   * with some rates replaced or adjusted.
+   */
+  public async plan(userId: string, input: TargetPlanInput): Promise<ITargetPlan> {
+    const revenueGoal = input?.revenueGoal;
+    if (typeof revenueGoal !== "number" || !isFinite(revenueGoal) || revenueGoal <= 0) {
+      throw new CustomError(ErrorCode.VALIDATION_ERROR, "revenueGoal must be a positive number");
+    }
+    if (!QUERY_TYPES.includes(input.queryType)) {
+      throw new CustomError(ErrorCode.VALIDATION_ERROR, `queryType must be one of: ${QUERY_TYPES.join(", ")}`);
+    }
+    const { startDate, endDate } = this.getPeriod(input.queryType, input.startDate);
+    const scenarioInputs = this.validateScenarios(input.scenarios);
+
+    const entered = this.validateRates(input.rates, "rates");
+    const missing = FUNNEL_RATE_FIELDS.filter((field) => entered[field] === undefined);
+    const history = missing.length > 0 ? await this.getHistoricalRates(userId) : {};
+
+    const rates = {} as IFunnelRates;
+    const rateSources = {} as ITargetPlan["rateSources"];
+    FUNNEL_RATE_FIELDS.forEach((field) => {
+      rates[field] = entered[field] ?? history[field] ?? 0;
+      rateSources[field] = entered[field] !== undefined ? "entered" : "history";
+    });
+    const unknown = FUNNEL_RATE_FIELDS.filter((field) => !(rates[field] > 0));
+    if (unknown.length > 0) {
+      throw new CustomError(
+        ErrorCode.VALIDATION_ERROR,
+        `No weekly actuals to derive ${unknown.join(", ")} from; enter them in rates`,
+        { missingRates: unknown }
+      );
+    }
+
+    const weeks = DateUtils.getMonthWeeks(startDate, endDate);
+    const months = this.getMonths(startDate, endDate, weeks);
+    const base = this.buildScenario(BASE_SCENARIO, rates, revenueGoal, weeks, months, null);
+
+    return {
+      userId,
+      queryType: input.queryType,
+      startDate,
+      endDate,
+      revenueGoal,
+      rateSources,
+      base,
+      scenarios: scenarioInputs.map((scenario) => this.buildScenario(
+        scenario.name,
+        this.applyScenario(rates, scenario),
+        revenueGoal,
+        weeks,
+        months,
+        computeFunnelFromRevenue(revenueGoal, rates)
+      )),
+    };
+  }
+
+  /**
+   * Save the base plan or one of its scenarios as the period's targets. Years are saved month
+   * by month like the yearly target form does, and management cost keeps its saved value.
+   * The save is recorded as one target version.
+   */
+  public async savePlan(
+    userId: string,
+    input: TargetPlanInput & { scenario?: string },
+    changedBy: string | null
+  ): Promise<{ plan: ITargetPlan; scenario: ITargetPlanScenario; targets: IWeeklyTargetDocument[] }> {
+    const plan = await this.plan(userId, input);
+    const scenario = !input.scenario || input.scenario === BASE_SCENARIO
+      ? plan.base
+      : plan.scenarios.find((candidate) => candidate.name === input.scenario);
+    if (!scenario) {
+      throw new CustomError(ErrorCode.VALIDATION_ERROR, `Unknown scenario: ${input.scenario}`);
+    }
+
+    const rates: Partial<IWeeklyTarget> = {
+      avgJobSize: scenario.rates.avgJobSize,
+      closeRate: scenario.rates.closeRate,
+      showRate: scenario.rates.showRate,
+      appointmentRate: scenario.rates.appointmentRate,
+      com: scenario.com,
+    };
+
+    const targets: IWeeklyTargetDocument[] = [];
+    const version = { changedBy, queryType: plan.queryType, source: "planner" as const };
+    if (plan.queryType === "weekly") {
+      const saved = await this.targetService.upsertTargetByPeriod(
+        userId, plan.startDate, plan.endDate, "weekly", { ...rates, revenue: plan.revenueGoal }, version
+      );
+      targets.push(...(Array.isArray(saved) ? saved.flat() : [saved]));
+    } else {
+      const periods = plan.queryType === "monthly"
+        ? [{ startDate: plan.startDate, endDate: plan.endDate, revenue: plan.revenueGoal }]
+        : scenario.months.map((month) => ({
+          startDate: `${month.month}-01`,
+          endDate: this.monthEnd(month.month),
+          revenue: month.revenue,
+        }));
+
+      await this.targetService.trackVersion(userId, plan.startDate, plan.endDate, version, async () => {
+        for (const period of periods) {
+          // Monthly upserts spread management cost over the weeks and would otherwise reset it
+          const existing = await this.targetService.getWeeklyTargetsInRange(userId, period.startDate, period.endDate);
+          const managementCost = existing.reduce((sum, target) => sum + (target.managementCost || 0), 0);
+          const saved = await this.targetService.upsertTargetByPeriod(
+            userId,
+            period.startDate,
+            period.endDate,
+            "monthly",
+            { ...rates, revenue: period.revenue, managementCost },
+            null
+          );
+          targets.push(...(Array.isArray(saved) ? saved.flat() : [saved]));
+        }
+      });
+    }
+
+    return { plan, scenario, targets };
+  }
+
+  // ============= PRIVATE HELPER METHODS =============
+
+  private buildScenario(
+    name: string,
+    rates: IFunnelRates,
+    revenueGoal: number,
+    weeks: WeekRange[],
+    months: Array<{ month: string; weeks: WeekRange[] }>,
+    baseTotal: IFunnelPlan | null
+  ): ITargetPlanScenario {
+    const weekly = computeFunnelFromRevenue(revenueGoal / weeks.length, rates);
+    const total = computeFunnelFromRevenue(revenueGoal, rates);
+    const times = (count: number) => this.mapPlan(weekly, (value) => value * count);
+
+    return {
+      name,
+      rates: this.mapRates(rates, (value) => this.round(value)),
+      com: this.round((total.adSpend / revenueGoal) * 100),
+      total: this.mapPlan(total, (value) => this.round(value)),
+      months: months.map(({ month, weeks: monthWeeks }) => ({
+        month,
+        ...this.toPeriod(monthWeeks[0].weekStart, monthWeeks[monthWeeks.length - 1].weekEnd, times(monthWeeks.length)),
+      })),
+      weeks: weeks.map((week) => this.toPeriod(week.weekStart, week.weekEnd, weekly)),
+      differenceFromBase: this.mapPlan(total, (value, key) => this.round(value - (baseTotal?.[key] ?? value))),
+    };
+  }
+
+  /**
+   * Entered rates win over adjustments; percentage rates are capped at 100
+   */
+  private applyScenario(rates: IFunnelRates, scenario: IPlanScenarioInput): IFunnelRates {
+    return this.mapRates(rates, (value, field) => {
+      const adjusted = scenario.rates?.[field] ?? value * (1 + (scenario.adjustPercent?.[field] ?? 0) / 100);
+      return PERCENT_RATE_FIELDS.includes(field) ? Math.min(adjusted, 100) : adjusted;
+    });
+  }
+
+  /**
+   * Funnel rates of the last year of weekly actuals; a rate without data is left out
+   */
+  private async getHistoricalRates(userId: string): Promise<Partial<IFunnelRates>> {
+    const currentWeek = DateUtils.getWeekDetails(new Date().toISOString().slice(0, 10)).weekStart;
+    const actuals = await this.actualRepository.getActualsByDateRange(
+      this.shiftDays(currentWeek, -HISTORY_WEEKS * 7),
+      this.shiftDays(currentWeek, -1),
+      userId
+    );
+
+    const totals = actuals.reduce(
+      (acc, actual) => ({
+        revenue: acc.revenue + (actual.revenue || 0),
+        sales: acc.sales + (actual.sales || 0),
+        estimatesRan: acc.estimatesRan + (actual.estimatesRan || 0),
+        estimatesSet: acc.estimatesSet + (actual.estimatesSet || 0),
+        leads: acc.leads + (actual.leads || 0),
+        adSpend: acc.adSpend + getActualAdSpend(actual),
+      }),
+      { revenue: 0, sales: 0, estimatesRan: 0, estimatesSet: 0, leads: 0, adSpend: 0 }
+    );
+
+    const ratio = (numerator: number, denominator: number, scale = 1) =>
+      numerator > 0 && denominator > 0 ? (numerator / denominator) * scale : undefined;
+    return {
+      avgJobSize: ratio(totals.revenue, totals.sales),
+      closeRate: ratio(totals.sales, totals.estimatesRan, 100),
+      showRate: ratio(totals.estimatesRan, totals.estimatesSet, 100),
+      appointmentRate: ratio(totals.estimatesSet, totals.leads, 100),
+      costPerLead: ratio(totals.adSpend, totals.leads),
+    };
+  }
+
+  private getPeriod(queryType: ITargetPlan["queryType"], date: string): { startDate: string; endDate: string } {
+    if (typeof date !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(new Date(date).getTime())) {
+      throw new CustomError(ErrorCode.VALIDATION_ERROR, "startDate must be a valid date (YYYY-MM-DD)");
+    }
+    if (queryType === "weekly") {
+      const week = DateUtils.getWeekDetails(date);
+      return { startDate: week.weekStart, endDate: week.weekEnd };
+    }
+    if (queryType === "monthly") {
+      return { startDate: `${date.slice(0, 7)}-01`, endDate: this.monthEnd(date.slice(0, 7)) };
+    }
+    return { startDate: `${date.slice(0, 4)}-01-01`, endDate: `${date.slice(0, 4)}-12-31` };
+  }
+
+  /**
+   * The period's weeks grouped by the month most of their days fall in
+   */
+  private getMonths(startDate: string, endDate: string, weeks: WeekRange[]): Array<{ month: string; weeks: WeekRange[] }> {
+    const planned = new Set(weeks.map((week) => week.weekStart));
+    const first = weeks.length > 0 && weeks[0].weekStart < startDate ? weeks[0].weekStart : startDate;
+    const last = weeks.length > 0 && weeks[weeks.length - 1].weekEnd > endDate ? weeks[weeks.length - 1].weekEnd : endDate;
+
+    const months: Array<{ month: string; weeks: WeekRange[] }> = [];
+    for (let month = first.slice(0, 7); month <= last.slice(0, 7); month = this.nextMonth(month)) {
+      const monthWeeks = DateUtils.getMonthWeeks(`${month}-01`, this.monthEnd(month))
+        .filter((week) => planned.has(week.weekStart));
+      if (monthWeeks.length > 0) months.push({ month, weeks: monthWeeks });
+    }
+    return months;
+  }
+
+  private validateRates(rates: unknown, path: string): Partial<IFunnelRates> {
+    if (rates === undefined || rates === null) return {};
+    if (typeof rates !== "object" || Array.isArray(rates)) {
+      throw new CustomError(ErrorCode.VALIDATION_ERROR, `${path} must be an object`);
+    }
+
+    const result: Partial<IFunnelRates> = {};
+    Object.entries(rates as Record<string, unknown>).forEach(([field, value]) => {
+      if (!FUNNEL_RATE_FIELDS.includes(field as FunnelRateField)) {
+        throw new CustomError(ErrorCode.VALIDATION_ERROR, `${path}.${field} is not one of: ${FUNNEL_RATE_FIELDS.join(", ")}`);
+      }
+      const isPercent = PERCENT_RATE_FIELDS.includes(field as FunnelRateField);
+      if (typeof value !== "number" || !isFinite(value) || value <= 0 || (isPercent && value > 100)) {
+        throw new CustomError(
+          ErrorCode.VALIDATION_ERROR,
+          `${path}.${field} must be a positive number${isPercent ? " up to 100" : ""}`
+        );
+      }
+      result[field as FunnelRateField] = value;
+    });
+    return result;
+  }
+
+  private validateScenarios(scenarios: unknown): IPlanScenarioInput[] {
+    if (scenarios === undefined || scenarios === null) return [];
+    if (!Array.isArray(scenarios)) {
+      throw new CustomError(ErrorCode.VALIDATION_ERROR, "scenarios must be an array");
+    }
+
+    const names = new Set<string>([BASE_SCENARIO]);
+    return scenarios.map((scenario, index) => {
+      const path = `scenarios[${index}]`;
+      const name = typeof scenario?.name === "string" ? scenario.name.trim() : "";
+      if (!name) {
+        throw new CustomError(ErrorCode.VALIDATION_ERROR, `${path}.name is required`);
+      }
+      if (names.has(name)) {
+        throw new CustomError(ErrorCode.VALIDATION_ERROR, `${path}.name '${name}' is used more than once or reserved`);
+      }
+      names.add(name);
+
+      const adjustPercent: Partial<IFunnelRates> = {};
+      if (scenario.adjustPercent !== undefined && scenario.adjustPercent !== null) {
+        if (typeof scenario.adjustPercent !== "object" || Array.isArray(scenario.adjustPercent)) {
+          throw new CustomError(ErrorCode.VALIDATION_ERROR, `${path}.adjustPercent must be an object`);
+        }
+        Object.entries(scenario.adjustPercent as Record<string, unknown>).forEach(([field, value]) => {
+          if (!FUNNEL_RATE_FIELDS.includes(field as FunnelRateField)) {
+            throw new CustomError(
+              ErrorCode.VALIDATION_ERROR,
+              `${path}.adjustPercent.${field} is not one of: ${FUNNEL_RATE_FIELDS.join(", ")}`
+            );
+          }
+          if (typeof value !== "number" || !isFinite(value) || value <= -100) {
+            throw new CustomError(ErrorCode.VALIDATION_ERROR, `${path}.adjustPercent.${field} must be a number above -100`);
+          }
+          adjustPercent[field as FunnelRateField] = value;
+        });
+      }
+
+      return { name, rates: this.validateRates(scenario.rates, `${path}.rates`), adjustPercent };
+    });
+  }
+
+  private toPeriod(startDate: string, endDate: string, plan: IFunnelPlan): IPlanPeriod {
+    return { startDate, endDate, ...this.mapPlan(plan, (value) => this.round(value)) };
+  }
+
+  private mapPlan(plan: IFunnelPlan, fn: (value: number, key: keyof IFunnelPlan) => number): IFunnelPlan {
+    return {
+      revenue: fn(plan.revenue, "revenue"),
+      jobsBooked: fn(plan.jobsBooked, "jobsBooked"),
+      estimatesRan: fn(plan.estimatesRan, "estimatesRan"),
+      estimatesSet: fn(plan.estimatesSet, "estimatesSet"),
+      leads: fn(plan.leads, "leads"),
+      adSpend: fn(plan.adSpend, "adSpend"),
+    };
+  }
+
+  private mapRates(rates: IFunnelRates, fn: (value: number, field: FunnelRateField) => number): IFunnelRates {
+    const result = {} as IFunnelRates;
+    FUNNEL_RATE_FIELDS.forEach((field) => {
+      result[field] = fn(rates[field], field);
+    });
+    return result;
+  }
+
+  private monthEnd(month: string): string {
+    const [year, monthNumber] = month.split("-").map(Number);
+    return new Date(Date.UTC(year, monthNumber, 0)).toISOString().slice(0, 10);
+  }
+
+  private nextMonth(month: string): string {
+    const [year, monthNumber] = month.split("-").map(Number);
+    return new Date(Date.UTC(year, monthNumber, 1)).toISOString().slice(0, 7);
+  }
+
+  private shiftDays(date: string, days: number): string {
+    const shifted = new Date(`${date}T00:00:00.000Z`);
+    shifted.setUTCDate(shifted.getUTCDate() + days);
+    return shifted.toISOString().slice(0, 10);
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
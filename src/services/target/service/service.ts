@@ -1,14 +1,18 @@
-import { IWeeklyTarget } from "../domain/target.domain.js";
+import { IWeeklyTarget, TargetVersionContext } from "../domain/target.domain.js";
 import { IWeeklyTargetDocument } from "../repository/models/target.model.js";
 import { TargetRepository } from "../repository/repository.js";
+import { TargetVersionService } from "./version.service.js";
+import { prorateChannelTargets, sumChannelTargets, validateChannelTargets } from "../utils/channelTargets.js";
 import { DateUtils } from "../../../utils/date.utils.js";
 import { FormData } from "retell-sdk/_shims/registry.mjs";
 
 export class TargetService {
   private targetRepository: TargetRepository;
+  private versionService: TargetVersionService;
 
   constructor() {
     this.targetRepository = new TargetRepository();
+    this.versionService = new TargetVersionService();
   }
 
   /**
@@ -34,6 +38,7 @@ export class TargetService {
         revenue: 0,
         showRate: 0,
         managementCost: 0,
+        channelTargets: [],
         queryType: queryType,
         year: new Date().getFullYear(),
         weekNumber: 0,
@@ -53,6 +58,7 @@ export class TargetService {
       revenue: 0,
       showRate: 0,
       managementCost: 0,
+      channelTargets: sumChannelTargets(targets.map((target) => target.channelTargets)),
       queryType: targets[0].queryType || queryType,
     };
 
@@ -96,6 +102,7 @@ export class TargetService {
         revenue: 0,
         showRate: 0,
         managementCost: 0,
+        channelTargets: [],
         queryType: queryType,
         year: new Date().getFullYear(),
         weekNumber: 0,
@@ -182,6 +189,8 @@ export class TargetService {
       revenue: Math.round(totalRevenue * 100) / 100,
       showRate: Math.round(showRate * 100) / 100,
       managementCost: Math.round(totalManagementCost * 100) / 100,
+      // Channel budgets are summed across users like revenue
+      channelTargets: sumChannelTargets(targets.map((target) => target.channelTargets)),
       queryType: queryType,
     };
 
@@ -289,6 +298,7 @@ export class TargetService {
           revenue: data?.revenue ?? 0,
           showRate: data?.showRate ?? 0,
           managementCost: data?.managementCost ?? 0,
+          channelTargets: data?.channelTargets ?? [],
           queryType: queryType,
         };
         const target = await this.targetRepository.createTarget(newTargetData);
@@ -338,6 +348,7 @@ export class TargetService {
         closeRate: data.closeRate ? data.closeRate : 0,
         com: data.com ? data.com : 0,
         managementCost: data.managementCost ? data.managementCost / weeksInMonth.length : 0,
+        channelTargets: data.channelTargets ? prorateChannelTargets(data.channelTargets, weeksInMonth.length) : undefined,
       };
       
       const monthlyUpsertPromises = weeksInMonth.map((week, index) => {
@@ -472,6 +483,7 @@ export class TargetService {
                   closeRate: data.closeRate || 0,
                   com: data.com || 0,
                   managementCost: data.managementCost || 0,
+                  channelTargets: [],
                 },
                 queryType
               );
@@ -590,6 +602,7 @@ export class TargetService {
                     closeRate: data.closeRate || 0,
                     com: data.com || 0,
                     managementCost: data.managementCost || 0,
+                    channelTargets: [],
                   },
                   queryType
                 );
@@ -613,6 +626,8 @@ export class TargetService {
               closeRate: data.closeRate || 0,
               com: data.com || 0,
               managementCost: data.managementCost || 0,
+              // Channel budgets are for the whole year and go to the future weeks like the remaining revenue
+              channelTargets: data.channelTargets ? prorateChannelTargets(data.channelTargets, totalFutureWeeks) : undefined,
             };
             
             // Create weekly targets for this month
@@ -662,13 +677,46 @@ export class TargetService {
     }
   }
 
+  /**
+   * Record several target writes as one version, e.g. a yearly target saved month by month.
+   * The writes inside pass a null version to upsertTargetByPeriod.
+   */
+  public async trackVersion<T>(
+    userId: string,
+    startDate: string,
+    endDate: string,
+    version: TargetVersionContext & { queryType: NonNullable<TargetVersionContext["queryType"]> },
+    write: () => Promise<T>
+  ): Promise<T> {
+    return this.versionService.track(userId, startDate, endDate, version, write);
+  }
+
+  /**
+   * Every call is recorded as a target version of the weeks it changed, unless version is null
+   * because the caller records it with trackVersion.
+   */
   public async upsertTargetByPeriod(
     userId: string,
     startDate: string,
     endDate: string,
     queryType: "weekly" | "monthly" | "yearly",
-    data: Partial<IWeeklyTarget>
+    data: Partial<IWeeklyTarget>,
+    version: TargetVersionContext | null = { changedBy: null }
   ): Promise<IWeeklyTargetDocument | IWeeklyTargetDocument[] | IWeeklyTargetDocument[][]> {
+    if (data.channelTargets !== undefined && data.channelTargets !== null) {
+      data = { ...data, channelTargets: validateChannelTargets(data.channelTargets) };
+    }
+
+    if (version) {
+      return this.versionService.track(
+        userId,
+        startDate,
+        endDate,
+        { ...version, queryType: version.queryType ?? queryType },
+        () => this.upsertTargetByPeriod(userId, startDate, endDate, queryType, data, null)
+      );
+    }
+
     try {
       switch (queryType) {
         case "weekly":
@@ -0,0 +1,284 @@
+import {
+  IChannelTarget,
+  ITargetValues,
+  ITargetVersionWeek,
+  IWeeklyTarget,
+  TARGET_VALUE_FIELDS,
+  TargetValueField,
+  TargetVersionContext
+} from "../domain/target.domain.js";
+import { IWeeklyTargetDocument } from "../repository/models/target.model.js";
+import { ITargetVersionDocument } from "../repository/models/targetVersion.model.js";
+import { TargetRepository } from "../repository/repository.js";
+import { TargetVersionRepository } from "../repository/version.repository.js";
+import { DateUtils } from "../../../utils/date.utils.js";
+import { CustomError, ErrorCode } from "../../../pkg/error/custom_error.js";
+
+export interface TargetVersionSummary {
+  id: string;
+  startDate: string;
+  endDate: string;
+  queryType: ITargetVersionDocument["queryType"];
+  source: ITargetVersionDocument["source"];
+  changedBy: string | null;
+  restoredFrom: string | null;
+  createdAt: Date;
+  weekCount: number;
+  revenueBefore: number;
+  revenueAfter: number;
+}
+
+export interface TargetVersionComparisonWeek {
+  startDate: string;
+  endDate: string;
+  before: ITargetValues | null;
+  version: ITargetValues;
+  current: ITargetValues | null;
+  // Fields where the current target no longer matches the version
+  differingFields: Array<TargetValueField | "channelTargets">;
+}
+
+export interface TargetVersionComparison {
+  version: TargetVersionSummary;
+  weeks: TargetVersionComparisonWeek[];
+  totals: {
+    revenue: { before: number; version: number; current: number };
+    managementCost: { before: number; version: number; current: number };
+  };
+}
+
+export class TargetVersionService {
+  private targetRepository: TargetRepository;
+  private versionRepository: TargetVersionRepository;
+
+  constructor() {
+    this.targetRepository = new TargetRepository();
+    this.versionRepository = new TargetVersionRepository();
+  }
+
+  /**
+   * Run a target write and record the weeks it changed between startDate and endDate as one
+   * version. Weeks changed before a failing write are still recorded.
+   */
+  public async track<T>(
+    userId: string,
+    startDate: string,
+    endDate: string | undefined,
+    context: TargetVersionContext & { queryType: NonNullable<TargetVersionContext["queryType"]> },
+    write: () => Promise<T>
+  ): Promise<T> {
+    const firstWeek = DateUtils.getWeekDetails(startDate).weekStart;
+    const lastWeek = DateUtils.getWeekDetails(endDate || startDate).weekStart;
+    const before = await this.getTargetsByWeek(userId, firstWeek, lastWeek);
+
+    try {
+      return await write();
+    } finally {
+      try {
+        const after = await this.getTargetsByWeek(userId, firstWeek, lastWeek);
+        const weeks: ITargetVersionWeek[] = [];
+        after.forEach((target, weekStart) => {
+          const previous = before.get(weekStart);
+          const values = this.toValues(target);
+          const previousValues = previous ? this.toValues(previous) : null;
+          if (!previousValues || !this.sameValues(previousValues, values)) {
+            weeks.push({
+              startDate: target.startDate,
+              endDate: target.endDate,
+              year: target.year,
+              weekNumber: target.weekNumber,
+              before: previousValues,
+              after: values,
+            });
+          }
+        });
+
+        if (weeks.length > 0) {
+          await this.versionRepository.createVersion({
+            userId,
+            startDate: firstWeek,
+            endDate: DateUtils.getWeekDetails(lastWeek).weekEnd,
+            queryType: context.queryType,
+            source: context.source ?? "manual",
+            changedBy: context.changedBy,
+            restoredFrom: context.restoredFrom ?? null,
+            weeks,
+          });
+        }
+      } catch (error) {
+        // The targets are already saved; a missing version must not fail the write
+        console.error("Error recording target version:", error);
+      }
+    }
+  }
+
+  /**
+   * Versions of the targets in a date range, newest first
+   */
+  public async listVersions(userId: string, startDate: string, endDate: string): Promise<TargetVersionSummary[]> {
+    this.validateDate(startDate, "startDate");
+    this.validateDate(endDate, "endDate");
+    const versions = await this.versionRepository.getVersionsOverlapping(
+      userId,
+      DateUtils.getWeekDetails(startDate).weekStart,
+      DateUtils.getWeekDetails(endDate).weekEnd
+    );
+    return versions.map((version) => this.toSummary(version));
+  }
+
+  /**
+   * A version's weeks next to what they were before it and what they are now,
+   * e.g. the original and the revised yearly target
+   */
+  public async compareVersion(userId: string, versionId: string): Promise<TargetVersionComparison> {
+    const version = await this.getVersion(userId, versionId);
+    const current = await this.getTargetsByWeek(userId, version.startDate, version.endDate);
+
+    const weeks = version.weeks.map((week): TargetVersionComparisonWeek => {
+      const target = current.get(week.startDate);
+      const currentValues = target ? this.toValues(target) : null;
+      return {
+        startDate: week.startDate,
+        endDate: week.endDate,
+        before: week.before,
+        version: week.after,
+        current: currentValues,
+        differingFields: [
+          ...TARGET_VALUE_FIELDS.filter((field) => (currentValues?.[field] ?? 0) !== week.after[field]),
+          ...(this.sameChannelTargets(currentValues?.channelTargets ?? [], week.after.channelTargets ?? [])
+            ? []
+            : ["channelTargets" as const]),
+        ],
+      };
+    });
+
+    const total = (field: "revenue" | "managementCost") => ({
+      before: this.round(weeks.reduce((sum, week) => sum + (week.before?.[field] ?? 0), 0)),
+      version: this.round(weeks.reduce((sum, week) => sum + week.version[field], 0)),
+      current: this.round(weeks.reduce((sum, week) => sum + (week.current?.[field] ?? 0), 0)),
+    });
+
+    return {
+      version: this.toSummary(version),
+      weeks,
+      totals: { revenue: total("revenue"), managementCost: total("managementCost") },
+    };
+  }
+
+  /**
+   * Write a version's weeks back, as the version saved them ("after") or as they were before it
+   * ("before"; weeks that had no target get zeros). The restore is recorded as a version itself.
+   */
+  public async restoreVersion(
+    userId: string,
+    versionId: string,
+    snapshot: "after" | "before",
+    changedBy: string | null
+  ): Promise<IWeeklyTargetDocument[]> {
+    if (snapshot !== "after" && snapshot !== "before") {
+      throw new CustomError(ErrorCode.VALIDATION_ERROR, "snapshot must be 'after' or 'before'");
+    }
+    const version = await this.getVersion(userId, versionId);
+
+    return await this.track(
+      userId,
+      version.startDate,
+      version.endDate,
+      { changedBy, queryType: version.queryType, source: "restore", restoredFrom: String(version._id) },
+      async () => {
+        const restored: IWeeklyTargetDocument[] = [];
+        for (const week of version.weeks) {
+          const values = snapshot === "after" ? week.after : week.before ?? this.zeroValues(week.after.queryType);
+          const data: IWeeklyTarget = {
+            userId,
+            startDate: week.startDate,
+            endDate: week.endDate,
+            year: week.year,
+            weekNumber: week.weekNumber,
+            // Version subdocuments are mongoose objects; only the values are written back
+            ...this.toValues(values),
+          };
+          const existing = await this.targetRepository.findTargetByStartDate(userId, week.startDate);
+          const target = existing
+            ? await this.targetRepository.updateTarget(data)
+            : await this.targetRepository.createTarget(data);
+          if (target) restored.push(target);
+        }
+        return restored;
+      }
+    );
+  }
+
+  // ============= PRIVATE HELPER METHODS =============
+
+  private async getVersion(userId: string, versionId: string): Promise<ITargetVersionDocument> {
+    const version = await this.versionRepository.findById(userId, versionId);
+    if (!version) {
+      throw new CustomError(ErrorCode.NOT_FOUND, `Target version ${versionId} not found`);
+    }
+    return version;
+  }
+
+  private async getTargetsByWeek(userId: string, firstWeek: string, lastWeek: string): Promise<Map<string, IWeeklyTargetDocument>> {
+    const targets = await this.targetRepository.getTargetsByDateRange(new Date(firstWeek), new Date(lastWeek), userId);
+    return new Map(targets.map((target) => [target.startDate, target]));
+  }
+
+  private toSummary(version: ITargetVersionDocument): TargetVersionSummary {
+    return {
+      id: String(version._id),
+      startDate: version.startDate,
+      endDate: version.endDate,
+      queryType: version.queryType,
+      source: version.source,
+      changedBy: version.changedBy,
+      restoredFrom: version.restoredFrom,
+      createdAt: version.createdAt,
+      weekCount: version.weeks.length,
+      revenueBefore: this.round(version.weeks.reduce((sum, week) => sum + (week.before?.revenue ?? 0), 0)),
+      revenueAfter: this.round(version.weeks.reduce((sum, week) => sum + week.after.revenue, 0)),
+    };
+  }
+
+  private toValues(target: Pick<IWeeklyTarget, TargetValueField | "queryType" | "channelTargets">): ITargetValues {
+    const values = {
+      queryType: target.queryType,
+      channelTargets: (target.channelTargets ?? []).map(({ channel, budget, leads }) => ({ channel, budget, leads: leads ?? null })),
+    } as ITargetValues;
+    TARGET_VALUE_FIELDS.forEach((field) => {
+      values[field] = target[field] ?? 0;
+    });
+    return values;
+  }
+
+  private zeroValues(queryType: string): ITargetValues {
+    const values = { queryType, channelTargets: [] as IChannelTarget[] } as ITargetValues;
+    TARGET_VALUE_FIELDS.forEach((field) => {
+      values[field] = 0;
+    });
+    return values;
+  }
+
+  private sameValues(a: ITargetValues, b: ITargetValues): boolean {
+    return a.queryType === b.queryType
+      && TARGET_VALUE_FIELDS.every((field) => a[field] === b[field])
+      && this.sameChannelTargets(a.channelTargets, b.channelTargets);
+  }
+
+  private sameChannelTargets(a: IChannelTarget[] = [], b: IChannelTarget[] = []): boolean {
+    return a.length === b.length && a.every((target, index) =>
+      target.channel === b[index].channel
+      && target.budget === b[index].budget
+      && (target.leads ?? null) === (b[index].leads ?? null));
+  }
+
+  private validateDate(date: unknown, name: string): void {
+    if (typeof date !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(new Date(date).getTime())) {
+      throw new CustomError(ErrorCode.VALIDATION_ERROR, `${name} must be a valid date (YYYY-MM-DD)`);
+    }
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,62 @@
+import { IChannelTarget } from "../domain/target.domain.js";
+import { SPEND_CHANNELS, SpendChannel } from "../../actual/domain/actual.domain.js";
+import { CustomError, ErrorCode } from "../../../pkg/error/custom_error.js";
+
+/**
+ * Check channel targets from a request; a channel may only appear once
+ */
+export function validateChannelTargets(input: unknown, path: string = "channelTargets"): IChannelTarget[] {
+  if (!Array.isArray(input)) {
+    throw new CustomError(ErrorCode.VALIDATION_ERROR, `${path} must be an array`);
+  }
+
+  const seen = new Set<SpendChannel>();
+  return input.map((entry, index) => {
+    const entryPath = `${path}[${index}]`;
+    const channel = (typeof entry?.channel === "string" ? entry.channel.trim().toLowerCase() : "") as SpendChannel;
+    if (!SPEND_CHANNELS.includes(channel)) {
+      throw new CustomError(ErrorCode.VALIDATION_ERROR, `${entryPath}.channel must be one of: ${SPEND_CHANNELS.join(", ")}`);
+    }
+    if (seen.has(channel)) {
+      throw new CustomError(ErrorCode.VALIDATION_ERROR, `${entryPath}.channel '${channel}' is listed more than once`);
+    }
+    seen.add(channel);
+    if (typeof entry.budget !== "number" || !isFinite(entry.budget) || entry.budget < 0) {
+      throw new CustomError(ErrorCode.VALIDATION_ERROR, `${entryPath}.budget must be a non-negative number`);
+    }
+    if (entry.leads !== undefined && entry.leads !== null
+      && (typeof entry.leads !== "number" || !isFinite(entry.leads) || entry.leads < 0)) {
+      throw new CustomError(ErrorCode.VALIDATION_ERROR, `${entryPath}.leads must be a non-negative number`);
+    }
+    return { channel, budget: entry.budget, leads: entry.leads ?? null };
+  });
+}
+
+/**
+ * Split period channel targets evenly over its weeks, the same way revenue is split
+ */
+export function prorateChannelTargets(targets: IChannelTarget[], weeks: number): IChannelTarget[] {
+  if (weeks <= 0) return [];
+  return targets.map((target) => ({
+    channel: target.channel,
+    budget: target.budget / weeks,
+    leads: target.leads !== null && target.leads !== undefined ? target.leads / weeks : null,
+  }));
+}
+
+/**
+ * Sum the channel targets of several weeks per channel
+ */
+export function sumChannelTargets(targets: Array<IChannelTarget[] | undefined>): IChannelTarget[] {
+  const totals = new Map<SpendChannel, IChannelTarget>();
+  targets.flat().forEach((target) => {
+    if (!target) return;
+    const current = totals.get(target.channel) ?? { channel: target.channel, budget: 0, leads: null };
+    current.budget += target.budget || 0;
+    if (target.leads !== null && target.leads !== undefined) {
+      current.leads = (current.leads ?? 0) + target.leads;
+    }
+    totals.set(target.channel, current);
+  });
+  return SPEND_CHANNELS.filter((channel) => totals.has(channel)).map((channel) => totals.get(channel)!);
+}
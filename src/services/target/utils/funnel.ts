@@ -0,0 +1,50 @@
+import { IFunnelPlan, IFunnelRates, IWeeklyTarget } from "../domain/target.domain.js";
+import { IWeeklyActual } from "../../actual/domain/actual.domain.js";
+import { getWeekChannelSpend } from "../../actual/utils/channelSpend.js";
+
+/**
+ * Walk the funnel back from revenue: jobs booked from the average job size, then estimates
+ * ran, estimates set and leads through the close, show and appointment rates.
+ * A missing rate leaves everything below it at 0.
+ */
+export function computeFunnelFromRevenue(revenue: number, rates: IFunnelRates): IFunnelPlan {
+  const jobsBooked = rates.avgJobSize > 0 ? revenue / rates.avgJobSize : 0;
+  const estimatesRan = rates.closeRate > 0 ? jobsBooked / (rates.closeRate / 100) : 0;
+  const estimatesSet = rates.showRate > 0 ? estimatesRan / (rates.showRate / 100) : 0;
+  const leads = rates.appointmentRate > 0 ? estimatesSet / (rates.appointmentRate / 100) : 0;
+  return {
+    revenue,
+    jobsBooked,
+    estimatesRan,
+    estimatesSet,
+    leads,
+    adSpend: leads * (rates.costPerLead || 0),
+  };
+}
+
+/**
+ * The funnel a weekly target implies. Weekly targets have no cost per lead;
+ * their ad spend budget is the com percentage of revenue.
+ */
+export function computeTargetFunnel(target: IWeeklyTarget): IFunnelPlan {
+  const funnel = computeFunnelFromRevenue(target.revenue || 0, {
+    avgJobSize: target.avgJobSize || 0,
+    closeRate: target.closeRate || 0,
+    showRate: target.showRate || 0,
+    appointmentRate: target.appointmentRate || 0,
+    costPerLead: 0,
+  });
+  return { ...funnel, adSpend: funnel.revenue * ((target.com || 0) / 100) };
+}
+
+/**
+ * Ad spend of a weekly actual. Weeks without the three budgets fall back to their channel spend,
+ * which includes what the Meta spend rollup wrote.
+ */
+export function getActualAdSpend(actual: IWeeklyActual): number {
+  const budgets = (actual.testingBudgetSpent || 0)
+    + (actual.awarenessBrandingBudgetSpent || 0)
+    + (actual.leadGenerationBudgetSpent || 0);
+  if (budgets > 0) return budgets;
+  return getWeekChannelSpend(actual).reduce((sum, entry) => sum + (entry.amount || 0), 0);
+}
@@ -1,5 +1,7 @@
 import { Document } from "mongoose";
 
+export type MetaTokenKind = 'user' | 'system_user';
+
 export interface IUser extends Document {
   username?: string;
   email: string;
@@ -19,9 +21,15 @@ export interface IUser extends Document {
   hasSeenLatestUpdate?: boolean;
   // Meta OAuth fields
   metaAccessToken?: string;
-  metaTokenExpiresAt?: Date;
+  metaTokenExpiresAt?: Date | null;
   metaTokenType?: string;
   metaConnectedAt?: Date;
+  metaTokenKind?: MetaTokenKind;
+  // Set by the daily token health check from Meta's debug_token
+  metaTokenValid?: boolean | null;
+  metaTokenCheckedAt?: Date | null;
+  metaTokenError?: string | null;
+  metaTokenScopes?: string[];
   // Facebook Pixel fields
   fbPixelId?: string;
   fbPixelToken?: string;
@@ -69,6 +69,27 @@ const userSchema = new Schema<IUser, IUserModel>(
       type: Date,
       required: false,
     },
+    metaTokenKind: {
+      type: String,
+      enum: ['user', 'system_user'],
+      required: false,
+    },
+    metaTokenValid: {
+      type: Boolean,
+      default: null,
+    },
+    metaTokenCheckedAt: {
+      type: Date,
+      default: null,
+    },
+    metaTokenError: {
+      type: String,
+      default: null,
+    },
+    metaTokenScopes: {
+      type: [String],
+      default: undefined,
+    },
     // Facebook Pixel fields
     fbPixelId: {
       type: String,
@@ -1,5 +1,5 @@
 import { CustomError, ErrorCode } from "../../../pkg/error/custom_error.js";
-import { IUser } from "../domain/user.domain.js";
+import { IUser, MetaTokenKind } from "../domain/user.domain.js";
 import User from "./models/user.model.js";
 import utils from "../../../utils/utils.js";
 
@@ -116,9 +116,14 @@ export class UserRepositoryService {
     fbPixelId?: string;
     fbPixelToken?: string;
     metaAccessToken?: string;
-    metaTokenExpiresAt?: Date;
+    metaTokenExpiresAt?: Date | null;
     metaTokenType?: string;
     metaConnectedAt?: Date;
+    metaTokenKind?: MetaTokenKind;
+    metaTokenValid?: boolean | null;
+    metaTokenCheckedAt?: Date | null;
+    metaTokenError?: string | null;
+    metaTokenScopes?: string[];
   }): Promise<IUser | null> {
     try {
       if (!userId) {
@@ -137,6 +142,23 @@ export class UserRepositoryService {
     }
   }
 
+  /**
+   * Active users with their own Meta token or a Facebook ad account
+   */
+  async getMetaConnectedUsers(): Promise<IUser[]> {
+    try {
+      return await User.find({
+        status: 'active',
+        $or: [
+          { metaAccessToken: { $exists: true, $nin: [null, ''] } },
+          { fbAdAccountId: { $exists: true, $nin: [null, ''] } },
+        ],
+      });
+    } catch (error) {
+      throw utils.ThrowableError(error);
+    }
+  }
+
   async findUserByEmail(email: string): Promise<IUser | null> {
     try {
       const user = await User.findOne({ email });
@@ -1,5 +1,5 @@
 import { CustomError, ErrorCode } from "../../../pkg/error/custom_error.js";
-import { IUser } from "../domain/user.domain.js";
+import { IUser, MetaTokenKind } from "../domain/user.domain.js";
 import utils from "../../../utils/utils.js";
 import { UserRepositoryService } from "../repository/repository.js";
 
@@ -94,6 +94,14 @@ export default class UserService {
     }
   }
 
+  async getMetaConnectedUsers(): Promise<IUser[]> {
+    try {
+      return await this.repository.getMetaConnectedUsers();
+    } catch (error) {
+      throw utils.ThrowableError(error);
+    }
+  }
+
   async updateUserDetails(userId: string, updateData: {
     name: string;
     email: string;
@@ -215,9 +223,14 @@ export default class UserService {
     status?: 'active' | 'inactive' | 'deleted';
     hasSeenLatestUpdate?: boolean;
     metaAccessToken?: string;
-    metaTokenExpiresAt?: Date;
+    metaTokenExpiresAt?: Date | null;
     metaTokenType?: string;
     metaConnectedAt?: Date;
+    metaTokenKind?: MetaTokenKind;
+    metaTokenValid?: boolean | null;
+    metaTokenCheckedAt?: Date | null;
+    metaTokenError?: string | null;
+    metaTokenScopes?: string[];
     fbAdAccountId?: string;
     fbPixelId?: string;
     fbPixelToken?: string;
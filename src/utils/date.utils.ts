@@ -14,7 +14,7 @@ export interface IWeekInfo {
   endDate: Date;
 }
 
-type WeekRange = {
+export type WeekRange = {
   year: number;
   weekNumber: number;
   weekStart: string;
@@ -36,10 +36,12 @@ class utils {
   public sendErrorResponse(res: Response, error: any): Response {
     let code = 500;
     let message = "Internal Server Error";
+    let details: Record<string, any> | undefined;
 
     if (error instanceof CustomError) {
       code = ErrorCodeStatusMap[error.code];
       message = error.message;
+      details = error.details;
     } else if (error instanceof Error) {
       message = error.message;
     } else if (typeof error === 'string') {
@@ -51,6 +53,7 @@ class utils {
     return res.status(code).json({
       message: message,
       status: code,
+      ...(details ? { details } : {}),
     });
   }
 